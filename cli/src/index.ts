@@ -18,7 +18,7 @@ interface ProviderConfig {
 	baseUrl: string;
 	apiKeySecret: string;
 	family: string;
-	apiMode: "openai" | "anthropic" | "gemini" | "ollama";
+	apiMode: "openai" | "openai-responses" | "anthropic" | "gemini" | "ollama";
 	supportsTools: boolean;
 	supportsVision: boolean;
 	defaultMaxOutputTokens: number;
@@ -616,10 +616,10 @@ Then press F5 in VS Code to test your extension.
 			provider.name = await this.ask("  Provider display name: ", provider.name);
 			provider.baseUrl = await this.ask("  API base URL: ", provider.baseUrl);
 
-			const apiModes = ["openai", "anthropic", "gemini", "ollama"];
+			const apiModes = ["openai", "openai-responses", "anthropic", "gemini", "ollama"];
 			console.log("  API mode:");
 			apiModes.forEach((m, i) => console.log(`    ${i + 1}. ${m}`));
-			const modeIndex = await this.ask("  Enter number (1-4): ", String(apiModes.indexOf(provider.apiMode) + 1));
+			const modeIndex = await this.ask("  Enter number (1-5): ", String(apiModes.indexOf(provider.apiMode) + 1));
 			provider.apiMode = apiModes[parseInt(modeIndex) - 1] as ProviderConfig["apiMode"];
 
 			provider.supportsTools = await this.askYesNo("  Supports tool calling?", provider.supportsTools);
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for model discovery
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fetchModels } from "./modelFetcher";
+import type { ProviderConfig } from "./types";
+
+function createProvider(overrides?: Partial<ProviderConfig>): ProviderConfig {
+	return {
+		id: "test",
+		name: "Test",
+		baseUrl: "https://api.example.com/v1/chat/completions",
+		apiKeySecret: "test.apiKey",
+		family: "test",
+		apiMode: "openai",
+		supportsTools: true,
+		supportsVision: false,
+		defaultMaxOutputTokens: 4096,
+		defaultContextLength: 32768,
+		...overrides,
+	};
+}
+
+function jsonResponse(body: unknown): Response {
+	return {
+		ok: true,
+		status: 200,
+		statusText: "OK",
+		json: () => Promise.resolve(body),
+		text: () => Promise.resolve(JSON.stringify(body)),
+	} as unknown as Response;
+}
+
+describe("fetchModels", () => {
+	let fetchSpy: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		fetchSpy = vi.fn();
+		vi.stubGlobal("fetch", fetchSpy);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should read OpenAI-compatible /models", async () => {
+		fetchSpy.mockResolvedValueOnce(
+			jsonResponse({ data: [{ id: "model-a", context_length: 64000, max_tokens: 8000 }] })
+		);
+
+		const models = await fetchModels(createProvider(), { apiKey: "sk-test" });
+
+		expect(fetchSpy.mock.calls[0][0]).toBe("https://api.example.com/v1/models");
+		expect(models[0]).toMatchObject({ id: "model-a", maxInputTokens: 56000, maxOutputTokens: 8000 });
+	});
+
+	describe("ollama", () => {
+		const ollamaProvider = createProvider({
+			apiMode: "ollama",
+			baseUrl: "http://localhost:11434/api/chat",
+			supportsVision: false,
+			defaultMaxOutputTokens: 8192,
+		});
+
+		it("should discover models from /api/tags and capabilities from /api/show", async () => {
+			fetchSpy.mockImplementation(async (url: string, init: RequestInit) => {
+				if (url.endsWith("/api/tags")) {
+					return jsonResponse({ models: [{ name: "llava:7b", model: "llava:7b" }, { name: "qwen3:8b" }] });
+				}
+				const { model } = JSON.parse(init.body as string);
+				if (model === "llava:7b") {
+					return jsonResponse({
+						model_info: { "general.architecture": "llama", "llama.context_length": 32768 },
+						capabilities: ["completion", "vision"],
+					});
+				}
+				return jsonResponse({
+					parameters: "temperature 0.6\nnum_ctx 40960",
+					model_info: { "qwen3.context_length": 131072 },
+					capabilities: ["completion", "tools", "thinking"],
+				});
+			});
+
+			const models = await fetchModels(ollamaProvider, { apiKey: "" });
+
+			expect(fetchSpy.mock.calls[0][0]).toBe("http://localhost:11434/api/tags");
+			expect(fetchSpy.mock.calls[0][1].headers["Authorization"]).toBeUndefined();
+			expect(models).toHaveLength(2);
+			expect(models[0]).toMatchObject({
+				id: "llava:7b",
+				maxInputTokens: 32768 - 8192,
+				maxOutputTokens: 8192,
+				supportsTools: false,
+				supportsVision: true,
+			});
+			// num_ctx from the Modelfile wins over the trained context length
+			expect(models[1]).toMatchObject({
+				id: "qwen3:8b",
+				maxInputTokens: 40960 - 8192,
+				supportsTools: true,
+				supportsVision: false,
+			});
+			expect(models[1].metadata?.supportsThinking).toBe(true);
+		});
+
+		it("should fall back to provider defaults when /api/show fails", async () => {
+			fetchSpy.mockImplementation(async (url: string) => {
+				if (url.endsWith("/api/tags")) {
+					return jsonResponse({ models: [{ name: "mistral:7b" }] });
+				}
+				return { ok: false, status: 404, statusText: "Not Found" } as Response;
+			});
+			vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const models = await fetchModels(ollamaProvider, { apiKey: "" });
+
+			expect(models[0]).toMatchObject({
+				id: "mistral:7b",
+				maxInputTokens: 32768 - 8192,
+				supportsTools: true,
+				supportsVision: false,
+			});
+		});
+	});
+});
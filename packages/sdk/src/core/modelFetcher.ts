@@ -4,6 +4,7 @@
  */
 
 import type { ModelConfig, ProviderConfig } from "./types";
+import { type TransportOptions, fetchWithTransport } from "../utils/format/transport";
 
 /**
  * Response from /models endpoint (OpenAI compatible)
@@ -33,6 +34,39 @@ export interface RemoteModelItem {
 	[key: string]: unknown;
 }
 
+/**
+ * Response from Ollama /api/tags endpoint
+ */
+export interface OllamaTagsResponse {
+	models: Array<{
+		name: string;
+		model?: string;
+		modified_at?: string;
+		size?: number;
+		details?: {
+			family?: string;
+			parameter_size?: string;
+			quantization_level?: string;
+		};
+	}>;
+}
+
+/**
+ * Response from Ollama /api/show endpoint (fields used for capability detection)
+ */
+export interface OllamaShowResponse {
+	/** Modelfile parameters, one "name value" pair per line */
+	parameters?: string;
+	/** Architecture metadata, e.g. "llama.context_length" */
+	model_info?: Record<string, unknown>;
+	/** Capability list, e.g. ["completion", "tools", "vision", "thinking"] */
+	capabilities?: string[];
+	details?: {
+		family?: string;
+		parameter_size?: string;
+	};
+}
+
 /**
  * Model fetch options
  */
@@ -45,6 +79,8 @@ export interface ModelFetchOptions {
 	timeout?: number;
 	/** AbortSignal for cancellation */
 	signal?: AbortSignal;
+	/** Proxy, extra CA certificates and connect timeout */
+	transport?: TransportOptions;
 }
 
 /**
@@ -70,7 +106,8 @@ export async function fetchModelsFromAPI(
 	apiKey: string,
 	provider: ProviderConfig,
 	cache: ModelCache,
-	timeout?: number
+	timeout?: number,
+	transport?: TransportOptions
 ): Promise<ModelConfig[]> {
 	const now = Date.now();
 	const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -84,6 +121,7 @@ export async function fetchModelsFromAPI(
 		const models = await fetchModels(provider, {
 			apiKey,
 			timeout: timeout ?? DEFAULT_TIMEOUT,
+			transport,
 		});
 		cache.models = models;
 		cache.lastFetch = now;
@@ -102,7 +140,11 @@ export async function fetchModelsFromAPI(
  * Fetch models from a provider
  */
 export async function fetchModels(provider: ProviderConfig, options: ModelFetchOptions): Promise<ModelConfig[]> {
-	const { apiKey, headers = {}, timeout = DEFAULT_TIMEOUT, signal } = options;
+	if (provider.apiMode === "ollama") {
+		return fetchOllamaModels(provider, options);
+	}
+
+	const { apiKey, headers = {}, timeout = DEFAULT_TIMEOUT, signal, transport } = options;
 
 	// Build models endpoint URL
 	const modelsUrl = buildModelsUrl(provider.baseUrl);
@@ -116,15 +158,19 @@ export async function fetchModels(provider: ProviderConfig, options: ModelFetchO
 	}
 
 	try {
-		const response = await fetch(modelsUrl, {
-			method: "GET",
-			headers: {
-				Authorization: `Bearer ${apiKey}`,
-				"Content-Type": "application/json",
-				...headers,
+		const response = await fetchWithTransport(
+			modelsUrl,
+			{
+				method: "GET",
+				headers: {
+					Authorization: `Bearer ${apiKey}`,
+					"Content-Type": "application/json",
+					...headers,
+				},
+				signal: controller.signal,
 			},
-			signal: controller.signal,
-		});
+			transport
+		);
 
 		clearTimeout(timeoutId);
 
@@ -139,13 +185,143 @@ export async function fetchModels(provider: ProviderConfig, options: ModelFetchO
 		return models.map((m) => convertRemoteModel(m, provider));
 	} catch (error) {
 		clearTimeout(timeoutId);
-		if (error instanceof Error && error.name === "AbortError") {
+		if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
 			throw new Error("Request timed out while fetching models");
 		}
 		throw error;
 	}
 }
 
+/**
+ * Fetch models from a local Ollama server
+ *
+ * Lists installed models via /api/tags, then reads context length and
+ * capabilities for each one from /api/show. Models whose details cannot be
+ * read fall back to the provider defaults.
+ */
+export async function fetchOllamaModels(provider: ProviderConfig, options: ModelFetchOptions): Promise<ModelConfig[]> {
+	const { apiKey, headers = {}, timeout = DEFAULT_TIMEOUT, signal, transport } = options;
+
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+	// Merge signals if provided
+	if (signal) {
+		signal.addEventListener("abort", () => controller.abort());
+	}
+
+	const requestHeaders: Record<string, string> = {
+		"Content-Type": "application/json",
+		...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+		...headers,
+	};
+
+	try {
+		const response = await fetchWithTransport(
+			buildOllamaUrl(provider.baseUrl, "/api/tags"),
+			{ method: "GET", headers: requestHeaders, signal: controller.signal },
+			transport
+		);
+
+		if (!response.ok) {
+			const text = await response.text().catch(() => "");
+			throw new Error(`Failed to fetch models: ${response.status} ${response.statusText}${text ? `\n${text}` : ""}`);
+		}
+
+		const data = (await response.json()) as OllamaTagsResponse;
+		const tags = data.models || [];
+
+		const models = await Promise.all(
+			tags.map(async (tag) => {
+				const id = tag.model || tag.name;
+				try {
+					const showResponse = await fetchWithTransport(
+						buildOllamaUrl(provider.baseUrl, "/api/show"),
+						{ method: "POST", headers: requestHeaders, body: JSON.stringify({ model: id }), signal: controller.signal },
+						transport
+					);
+					if (!showResponse.ok) {
+						throw new Error(`${showResponse.status} ${showResponse.statusText}`);
+					}
+					const show = (await showResponse.json()) as OllamaShowResponse;
+					return convertOllamaModel(id, show, provider);
+				} catch (error) {
+					if (controller.signal.aborted) {
+						throw error;
+					}
+					console.warn(`Failed to read Ollama model details for ${id}:`, error);
+					return convertOllamaModel(id, {}, provider);
+				}
+			})
+		);
+
+		clearTimeout(timeoutId);
+		return models;
+	} catch (error) {
+		clearTimeout(timeoutId);
+		if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+			throw new Error("Request timed out while fetching models");
+		}
+		throw error;
+	}
+}
+
+/**
+ * Build an Ollama API URL from the configured base URL
+ * Base URL may be the server root, the /api prefix, or the /api/chat endpoint.
+ */
+function buildOllamaUrl(baseUrl: string, endpoint: string): string {
+	const root = baseUrl
+		.replace(/\/+$/, "")
+		.replace(/\/api\/chat$/, "")
+		.replace(/\/api$/, "");
+	return `${root}${endpoint}`;
+}
+
+/**
+ * Read the context length from Ollama model metadata
+ * A num_ctx parameter in the Modelfile wins over the architecture's trained context.
+ */
+function getOllamaContextLength(show: OllamaShowResponse): number | undefined {
+	const numCtx = show.parameters?.match(/^\s*num_ctx\s+(\d+)/m);
+	if (numCtx) {
+		return Number(numCtx[1]);
+	}
+
+	for (const [key, value] of Object.entries(show.model_info ?? {})) {
+		if (key.endsWith(".context_length") && typeof value === "number") {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Convert Ollama model metadata to ModelConfig
+ */
+function convertOllamaModel(id: string, show: OllamaShowResponse, provider: ProviderConfig): ModelConfig {
+	const contextLength = getOllamaContextLength(show) ?? provider.defaultContextLength ?? DEFAULT_CONTEXT_LENGTH;
+	const maxOutput = Math.min(provider.defaultMaxOutputTokens || DEFAULT_MAX_TOKENS, Math.floor(contextLength / 2));
+	const maxInput = Math.max(1, contextLength - maxOutput);
+	const capabilities = show.capabilities;
+
+	return {
+		id,
+		name: id,
+		providerId: provider.id,
+		maxInputTokens: maxInput,
+		maxOutputTokens: maxOutput,
+		supportsTools: capabilities ? capabilities.includes("tools") : provider.supportsTools,
+		supportsVision: capabilities ? capabilities.includes("vision") : provider.supportsVision,
+		metadata: {
+			family: show.details?.family,
+			parameterSize: show.details?.parameter_size,
+			contextLength,
+			supportsThinking: capabilities?.includes("thinking") ?? false,
+		},
+	};
+}
+
 /**
  * Build models endpoint URL from base URL
  */
@@ -158,6 +334,11 @@ function buildModelsUrl(baseUrl: string): string {
 		return cleanUrl.replace("/chat/completions", "/models");
 	}
 
+	// If URL ends with /responses, replace with /models
+	if (cleanUrl.endsWith("/responses")) {
+		return cleanUrl.replace(/\/responses$/, "/models");
+	}
+
 	// If URL ends with /v1, append /models
 	if (cleanUrl.endsWith("/v1")) {
 		return `${cleanUrl}/models`;
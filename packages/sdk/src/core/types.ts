@@ -3,14 +3,22 @@
  * These types are platform-agnostic and can be used in any JavaScript/TypeScript environment
  */
 
+import type { ChatMiddleware } from "../utils/format/middleware";
+import type { TransportOptions } from "../utils/format/transport";
+import type { StreamTimeoutOptions } from "../utils/format/watchdog";
+import type { ImageLimits } from "../utils/format/images";
+import type { ContextWindowOptions } from "../utils/format/contextWindow";
+import type { TokenizerConfig } from "../utils/tokenizer/bpe";
+
 /**
  * API mode types - determines message format and request structure
  * - openai: OpenAI Chat Completions API format
+ * - openai-responses: OpenAI Responses API format (/v1/responses)
  * - anthropic: Anthropic Messages API format
- * - gemini: Google Gemini API format
- * - ollama: Ollama native API format
+ * - gemini: Google Gemini API format (baseUrl may be the API root or contain a {model} placeholder)
+ * - ollama: Ollama native API format (baseUrl may be the server root or the /api/chat endpoint)
  */
-export type ApiMode = "openai" | "anthropic" | "gemini" | "ollama";
+export type ApiMode = "openai" | "openai-responses" | "anthropic" | "gemini" | "ollama";
 
 /**
  * Provider configuration for a specific LLM service
@@ -47,6 +55,127 @@ export interface ProviderConfig {
 	requestDelay?: number;
 	/** Custom headers to include in requests */
 	headers?: Record<string, string>;
+	/** Automatic prompt cache breakpoints (anthropic mode only) */
+	promptCaching?: PromptCachingOptions;
+	/** Which sampling options callers may set through modelOptions, and their defaults */
+	sampling?: SamplingConfig;
+	/** How tool parameter schemas are rewritten for the backend: a built-in profile or a custom one */
+	schemaProfile?: SchemaProfileName | SchemaProfile;
+	/** Emulate tool calling through the prompt for models with supportsTools: false */
+	promptedTools?: boolean;
+	/** Move reasoning written inline as <think>…</think> out of the text into the thinking channel */
+	thinkingTags?: boolean | ThinkingTagOptions;
+	/**
+	 * Request token usage with stream_options in openai mode; turn it off for
+	 * OpenAI-compatible servers that reject the field
+	 * @default true
+	 */
+	streamUsage?: boolean;
+	/** Hooks around every chat request (add headers, log or rewrite bodies, observe the stream) */
+	middleware?: ChatMiddleware[];
+	/** Proxy, extra CA certificates and timeouts; merged over the editor's proxy settings by the templates */
+	transport?: TransportOptions;
+	/** Abort chat responses that do not start, produce output or continue in time */
+	streamTimeouts?: StreamTimeoutOptions;
+	/** Overrides for the image size and type limits of the API mode (see IMAGE_LIMITS) */
+	imageLimits?: Partial<ImageLimits>;
+	/** Context window trimming; the templates take maxInputTokens from the model */
+	contextWindow?: Partial<Omit<ContextWindowOptions, "tools">>;
+	/** BPE vocabulary shipped with the extension, used for token counts of this family's models */
+	tokenizer?: TokenizerConfig;
+}
+
+/**
+ * Automatic prompt cache breakpoints for Anthropic-compatible APIs
+ *
+ * Breakpoints requested by VS Code (cache_control parts) are always honored;
+ * these add breakpoints on the stable parts of the prompt.
+ */
+export interface PromptCachingOptions {
+	/** Cache the system prompt */
+	system?: boolean;
+	/** Cache the tool definitions */
+	tools?: boolean;
+}
+
+/**
+ * Sampling parameters that can be set per request
+ *
+ * Names follow the OpenAI Chat Completions API; buildRequest maps them onto
+ * the fields of each API mode and drops the ones an API does not support.
+ */
+export interface SamplingOptions {
+	temperature?: number;
+	top_p?: number;
+	top_k?: number;
+	presence_penalty?: number;
+	frequency_penalty?: number;
+	seed?: number;
+	/** Stop sequences */
+	stop?: string[];
+}
+
+/**
+ * Name of a sampling parameter
+ */
+export type SamplingOption = keyof SamplingOptions;
+
+/**
+ * Per-provider handling of sampling options requested through VS Code modelOptions
+ */
+export interface SamplingConfig {
+	/**
+	 * Options callers may set; others are dropped
+	 * @default all options
+	 */
+	allowed?: readonly SamplingOption[];
+	/** Values sent when the caller does not set them */
+	defaults?: SamplingOptions;
+}
+
+/**
+ * Built-in tool schema profiles
+ * - passthrough: schemas are sent unchanged
+ * - openai-strict: OpenAI structured outputs (closed objects, every property required)
+ * - gemini: Gemini's OpenAPI subset ($ref inlined, oneOf as anyOf, string enums only)
+ * - compat: minimal subset for strict OpenAI-compatible endpoints (no unions, formats or $ref)
+ */
+export type SchemaProfileName = "passthrough" | "openai-strict" | "gemini" | "compat";
+
+/**
+ * Rules for rewriting a tool parameter schema
+ */
+export interface SchemaProfile {
+	/** Keywords to keep; others are dropped (all are kept when omitted) */
+	keywords?: readonly string[];
+	/** Inline local $ref pointers ($defs, definitions) */
+	inlineRefs?: boolean;
+	/** Merge allOf branches into the schema */
+	mergeAllOf?: boolean;
+	/** Rewrite oneOf as anyOf */
+	oneOfAsAnyOf?: boolean;
+	/** Replace anyOf and oneOf with a single branch */
+	flattenUnions?: boolean;
+	/** Replace type arrays with one type; a "null" member becomes nullable: true if that keyword is kept */
+	singleType?: boolean;
+	/** Drop enums that contain non-string values */
+	stringEnumsOnly?: boolean;
+	/** Formats to keep, per type (all are kept when omitted) */
+	formats?: Readonly<Record<string, readonly string[]>>;
+	/** OpenAI strict mode: closed objects with every property required (optional ones become nullable) */
+	strict?: boolean;
+}
+
+/**
+ * Tags around reasoning that a model writes into its text output
+ */
+export interface ThinkingTagOptions {
+	/** @default "<think>" */
+	open?: string;
+	/** @default "</think>" */
+	close?: string;
+	/** The response starts inside the reasoning, as the chat template already sent the opening tag */
+	startInside?: boolean;
 }
 
 /**
@@ -135,7 +264,7 @@ export interface ChatCompletionRequest {
 	model: string;
 	messages: ChatMessage[];
 	tools?: ToolDefinition[];
-	tool_choice?: "auto" | "none" | { type: "function"; function: { name: string } };
+	tool_choice?: "auto" | "none" | "required" | { type: "function"; function: { name: string } };
 	max_tokens?: number;
 	temperature?: number;
 	top_p?: number;
@@ -210,13 +339,17 @@ export interface SDKOptions {
 
 /**
  * Streaming response handler
+ *
+ * Used with processStreamWithHandler. Events for one tool call arrive in order:
+ * onToolCallStart, onToolCallChunk for each argument fragment, onToolCallEnd,
+ * then onToolCall. The call ID comes last so handlers that ignore it still fit.
  */
 export interface StreamingHandler {
 	onText: (text: string, delta: boolean) => void;
 	onToolCall: (toolCall: ToolCall) => void;
-	onToolCallStart: (name: string, args: string) => void;
-	onToolCallChunk: (chunk: string) => void;
-	onToolCallEnd: () => void;
+	onToolCallStart: (name: string, args: string, callId: string) => void;
+	onToolCallChunk: (chunk: string, callId: string) => void;
+	onToolCallEnd: (callId: string) => void;
 	onThinking: (thinking: string) => void;
 	onComplete: (response: ChatCompletionResponse) => void;
 	onError: (error: Error) => void;
@@ -3,7 +3,18 @@
  */
 
 // Core types (for templates)
-export { ProviderConfig, ModelConfig } from "./core/types";
+export {
+	ProviderConfig,
+	ModelConfig,
+	PromptCachingOptions,
+	SamplingOptions,
+	SamplingOption,
+	SamplingConfig,
+	SchemaProfile,
+	SchemaProfileName,
+	ThinkingTagOptions,
+	StreamingHandler,
+} from "./core/types";
 
 // VS Code Provider Helpers (the main export for templates)
 export {
@@ -14,38 +25,119 @@ export {
 	type VsCodeToolCallPart,
 	type VsCodeToolResultPart,
 	type VsCodeDataPart,
+	type VsCodeThinkingPart,
 	type VsCodeContentPart,
 	// OpenAI types
 	type OpenAIMessage,
 	type OpenAIContentPart,
 	type OpenAIToolCall,
 	type OpenAITool,
+	// OpenAI Responses types
+	type OpenAIResponsesInputItem,
+	type OpenAIResponsesTool,
 	// Anthropic types
 	type AnthropicMessage,
 	type AnthropicContentBlock,
 	type AnthropicTool,
+	type AnthropicCacheControl,
+	// Gemini types
+	type GeminiContent,
+	type GeminiPart,
+	type GeminiTool,
+	// Ollama types
+	type OllamaMessage,
+	type OllamaToolCall,
+	// Response metadata types
+	type ChatUsage,
+	type ChatResponseResult,
+	type StopReason,
 	// Type guards
 	isTextPart,
 	isToolCallPart,
 	isToolResultPart,
 	isDataPart,
+	isThinkingPart,
 	// Message conversion
 	convertToOpenAI,
+	convertToOpenAIResponses,
 	convertToAnthropic,
+	convertToGemini,
+	convertToOllama,
 	// Streaming processors
 	processOpenAIStream,
+	processOpenAIResponsesStream,
 	processAnthropicStream,
+	processGeminiStream,
+	processOllamaStream,
+	processStreamWithHandler,
+	type StreamCallbacks,
+	// SSE parsing
+	SSEParser,
+	type SSEEvent,
+	type SSEParserOptions,
 	// Request builder for templates
 	buildRequest,
+	TOOL_MODE,
+	resolveSamplingOptions,
+	// History validation and repair
+	normalizeHistory,
+	type HistoryDiagnostic,
+	type HistoryIssue,
+	// Image preparation
+	prepareImages,
+	IMAGE_LIMITS,
+	type ImageLimits,
+	type ImageDiagnostic,
+	// Context window trimming
+	fitContextWindow,
+	type ContextWindowOptions,
+	type ContextDiagnostic,
 	// Complete request/response handling
 	sendChatRequest,
 	sendChatRequestWithProvider,
 	type SendChatRequestConfig,
 	type ChatResponseCallbacks,
+	type InvalidToolCall,
+	type ChatMiddleware,
+	type ChatStreamEvent,
+	type MiddlewareContext,
+	fetchWithTransport,
+	type TransportOptions,
+	parseToolCallArguments,
+	type RetryPolicy,
+	type RetryInfo,
+	// Typed provider errors
+	ProviderError,
+	AuthenticationError,
+	PermissionDeniedError,
+	RateLimitError,
+	QuotaExceededError,
+	ContextLengthError,
+	ContentFilterError,
+	InvalidRequestError,
+	ServerError,
+	NetworkError,
+	StreamTimeoutError,
+	type StreamTimeoutOptions,
+	type ProviderErrorDetails,
 } from "./utils/format";
 
 // Tool conversion
-export { sanitizeFunctionName, pruneUnknownSchemaKeywords } from "./utils/toolConverter";
+export {
+	sanitizeFunctionName,
+	ToolNameMap,
+	pruneUnknownSchemaKeywords,
+	sanitizeGeminiSchema,
+} from "./utils/toolConverter";
+
+// Tool schema profiles
+export {
+	SCHEMA_PROFILES,
+	applySchemaProfile,
+	applySchemaProfileToTools,
+	type DroppedSchemaConstraint,
+	type SchemaProfileResult,
+} from "./utils/schemaProfile";
 
 // ACP Protocol (Agent Client Protocol)
 export {
@@ -84,7 +176,24 @@ export {
 } from "./acp";
 
 // Utilities
-export { estimateTokens, estimateMessagesTokens, estimateUnknownTokens } from "./utils/tokenCounter";
+export {
+	estimateTokens,
+	estimateMessagesTokens,
+	estimateUnknownTokens,
+	type TokenEstimateOptions,
+} from "./utils/tokenCounter";
+export {
+	type Tokenizer,
+	type TokenizerConfig,
+	createHeuristicTokenizer,
+	heuristicTokenizer,
+	BpeTokenizer,
+	loadBpeTokenizer,
+	registerTokenizer,
+	getTokenizer,
+	TokenCalibrator,
+	type CalibrationStorage,
+} from "./utils/tokenizer";
 
 // Model fetching
 export { fetchModelsFromAPI } from "./core/modelFetcher";
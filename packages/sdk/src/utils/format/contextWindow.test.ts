@@ -0,0 +1,128 @@
+/**
+ * Unit tests for context window management
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { fitContextWindow } from "./contextWindow";
+import { VSCODE_ROLE, type VsCodeMessage } from "./types";
+
+const { User, Assistant, System } = VSCODE_ROLE;
+
+/** Text of roughly the given number of tokens (4 characters per token) */
+function text(tokens: number): string {
+	return "x".repeat(tokens * 4);
+}
+
+function user(value: string): VsCodeMessage {
+	return { role: User, content: [{ value }] };
+}
+
+function assistant(value: string): VsCodeMessage {
+	return { role: Assistant, content: [{ value }] };
+}
+
+function toolCall(callId: string): VsCodeMessage {
+	return { role: Assistant, content: [{ callId, name: "read_file", input: { path: "a.ts" } }] };
+}
+
+function toolResult(callId: string, value: string): VsCodeMessage {
+	return { role: User, content: [{ callId, content: [{ value }] }] };
+}
+
+describe("fitContextWindow", () => {
+	it("returns the history unchanged when it fits", async () => {
+		const messages = [user("hello"), assistant("hi")];
+		const result = await fitContextWindow(messages, { maxInputTokens: 1000 });
+		expect(result.messages).toBe(messages);
+		expect(result.diagnostics).toEqual([]);
+		expect(result.tokens).toBeLessThanOrEqual(result.budget);
+	});
+
+	it("counts reserved output and tool definitions against the budget", async () => {
+		const tools = [{ name: "search", description: text(50), inputSchema: {} }];
+		const result = await fitContextWindow([user("hi")], { maxInputTokens: 500, reservedOutputTokens: 100, tools });
+		expect(result.budget).toBeLessThan(350);
+		expect(result.budget).toBeGreaterThan(300);
+	});
+
+	it("truncates oversized tool results, keeping their start and end", async () => {
+		const output = `START${text(2000)}END`;
+		const messages = [user("Read it"), toolCall("call_1"), toolResult("call_1", output)];
+		const result = await fitContextWindow(messages, { maxInputTokens: 1000, maxToolResultTokens: 200 });
+
+		const part = result.messages[2].content?.[0] as { callId: string; content: { value: string }[] };
+		expect(part.callId).toBe("call_1");
+		expect(part.content[0].value).toMatch(/^START/);
+		expect(part.content[0].value).toMatch(/END$/);
+		expect(part.content[0].value).toContain("characters omitted to fit the context window");
+		expect(result.diagnostics).toEqual([expect.objectContaining({ action: "truncated", callId: "call_1" })]);
+		expect(result.tokens).toBeLessThanOrEqual(result.budget);
+	});
+
+	it("drops the oldest turns and leaves a notice", async () => {
+		const messages = [
+			{ role: System, content: [{ value: "You are helpful" }] },
+			user(`first ${text(300)}`),
+			assistant(text(300)),
+			user(`second ${text(100)}`),
+			assistant(text(100)),
+			user("third"),
+		];
+		const result = await fitContextWindow(messages, { maxInputTokens: 400 });
+
+		expect(result.removed).toEqual(messages.slice(1, 3));
+		expect(result.messages).toEqual([
+			messages[0],
+			user("[2 earlier messages were removed to fit the context window]"),
+			...messages.slice(3),
+		]);
+		expect(result.diagnostics).toEqual([expect.objectContaining({ action: "dropped", messageCount: 2 })]);
+	});
+
+	it("removes tool calls together with their results", async () => {
+		const messages = [
+			user("Refactor the module"),
+			toolCall("call_1"),
+			toolResult("call_1", text(150)),
+			toolCall("call_2"),
+			toolResult("call_2", text(150)),
+			toolCall("call_3"),
+			toolResult("call_3", text(50)),
+		];
+		const result = await fitContextWindow(messages, { maxInputTokens: 300, maxToolResultTokens: 1000 });
+
+		// The prompt and the latest round stay; older rounds go as a whole
+		const callIds = result.messages.flatMap((m) =>
+			(m.content ?? []).map((p) => ("callId" in p ? p.callId : undefined)).filter(Boolean)
+		);
+		expect(callIds.length % 2).toBe(0);
+		expect(callIds).toContain("call_3");
+		expect(callIds).not.toContain("call_1");
+		expect(result.messages).toContainEqual(messages[0]);
+	});
+
+	it("replaces removed messages with a summary", async () => {
+		const summarize = vi.fn(async (removed: readonly VsCodeMessage[]) => `The user asked ${removed.length} things.`);
+		const messages = [user(text(500)), assistant(text(500)), user("Now what?")];
+		const result = await fitContextWindow(messages, { maxInputTokens: 200, summarize });
+
+		expect(summarize).toHaveBeenCalledWith(messages.slice(0, 2));
+		expect(result.messages[0]).toEqual(user("[Summary of earlier conversation]\nThe user asked 2 things."));
+		expect(result.diagnostics.map((d) => d.action)).toEqual(["dropped", "summarized"]);
+	});
+
+	it("never removes the current prompt, even if it does not fit", async () => {
+		const messages = [user(text(1000))];
+		const result = await fitContextWindow(messages, { maxInputTokens: 100, maxToolResultTokens: 10 });
+		expect(result.messages).toEqual(messages);
+		expect(result.tokens).toBeGreaterThan(result.budget);
+	});
+
+	it("uses a custom token counter", async () => {
+		const countTokens = vi.fn(() => 60);
+		const messages = [user("a"), assistant("b"), user("c")];
+		const result = await fitContextWindow(messages, { maxInputTokens: 150, countTokens });
+		expect(countTokens).toHaveBeenCalled();
+		expect(result.removed).toHaveLength(2);
+	});
+});
@@ -0,0 +1,287 @@
+/**
+ * Context Window Management
+ * Fit a chat history into the model's input token limit: truncate oversized
+ * tool results, then drop or summarize the oldest turns while keeping tool
+ * calls and their results together
+ */
+
+import { estimateTokens, estimateUnknownTokens } from "../tokenCounter";
+import type { Tokenizer } from "../tokenizer/types";
+import { VSCODE_ROLE, type VsCodeContentPart, type VsCodeMessage } from "./types";
+import { isTextPart, isToolResultPart } from "./convert";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for fitContextWindow
+ */
+export interface ContextWindowOptions {
+	/** Tokens the request may use (LanguageModelChatInformation.maxInputTokens) */
+	maxInputTokens: number;
+	/**
+	 * Tokens kept free for the response, for limits that cover input and output together
+	 * @default 0
+	 */
+	reservedOutputTokens?: number;
+	/**
+	 * Longest tool result in tokens before it is truncated, once the history does not fit
+	 * @default a quarter of the budget
+	 */
+	maxToolResultTokens?: number;
+	/** Tool definitions sent with the request, counted against the budget */
+	tools?: readonly unknown[];
+	/**
+	 * Summarize the removed messages; the summary is sent in their place. Without it,
+	 * a short notice says how many messages were removed.
+	 */
+	summarize?: (removed: readonly VsCodeMessage[]) => string | Promise<string>;
+	/**
+	 * Tokenizer for the estimates (see getTokenizer)
+	 * @default heuristicTokenizer
+	 */
+	tokenizer?: Tokenizer;
+	/**
+	 * Token estimate for one message
+	 * @default estimateUnknownTokens with options.tokenizer
+	 */
+	countTokens?: (message: VsCodeMessage) => number;
+}
+
+/**
+ * A change made to fit the history into the context window
+ */
+export interface ContextDiagnostic {
+	/**
+	 * - truncated: the middle of a tool result was cut out
+	 * - dropped: old messages were removed
+	 * - summarized: removed messages were replaced by a summary
+	 */
+	action: "truncated" | "dropped" | "summarized";
+	/** Human-readable description */
+	message: string;
+	/** Estimated tokens saved (negative for the tokens a summary adds) */
+	tokens: number;
+	/** Tool call ID of a truncated result */
+	callId?: string;
+	/** Number of messages removed or summarized */
+	messageCount?: number;
+}
+
+/**
+ * Result of fitContextWindow
+ */
+export interface ContextWindowResult {
+	/** History to send (the input array if it already fits) */
+	messages: readonly VsCodeMessage[];
+	/** Messages removed from the history, in order */
+	removed: VsCodeMessage[];
+	/** What was changed */
+	diagnostics: ContextDiagnostic[];
+	/** Estimated tokens of the returned messages */
+	tokens: number;
+	/** Tokens available for messages; tokens > budget if even the latest turn does not fit */
+	budget: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const OMITTED_NOTICE = (count: number) =>
+	`[${count} earlier message${count === 1 ? " was" : "s were"} removed to fit the context window]`;
+
+/**
+ * Whether a message starts a new turn: a user message that is not a tool result
+ */
+function isPrompt(message: VsCodeMessage): boolean {
+	const content = message.content ?? [];
+	return message.role === VSCODE_ROLE.User && content.length > 0 && !content.some(isToolResultPart);
+}
+
+/**
+ * Cut the middle out of a text, keeping its start and end
+ */
+function truncateMiddle(text: string, keep: number): string {
+	const head = Math.ceil((keep * 2) / 3);
+	const tail = keep - head;
+	const omitted = text.length - keep;
+	return (
+		`${text.slice(0, head)}\n\n[... ${omitted} characters omitted to fit the context window ...]\n\n` +
+		(tail > 0 ? text.slice(-tail) : "")
+	);
+}
+
+/**
+ * Truncate the text of tool results above the limit
+ */
+function truncateToolResults(
+	messages: readonly VsCodeMessage[],
+	maxTokens: number,
+	count: (message: VsCodeMessage) => number,
+	diagnostics: ContextDiagnostic[]
+): VsCodeMessage[] {
+	return messages.map((message) => {
+		if (!message.content?.some(isToolResultPart)) {
+			return message;
+		}
+		let changed = false;
+		const content = message.content.map((part): VsCodeContentPart => {
+			if (!isToolResultPart(part)) {
+				return part;
+			}
+			const tokens = count({ role: message.role, content: [part] });
+			if (tokens <= maxTokens) {
+				return part;
+			}
+			// Shorten every text part by the same ratio
+			const ratio = maxTokens / tokens;
+			const truncated = part.content.map((c) =>
+				isTextPart(c) && c.value.length > 0 ? { value: truncateMiddle(c.value, Math.floor(c.value.length * ratio)) } : c
+			);
+			const saved = tokens - count({ role: message.role, content: [{ callId: part.callId, content: truncated }] });
+			if (saved <= 0) {
+				return part;
+			}
+			changed = true;
+			diagnostics.push({
+				action: "truncated",
+				message: `Truncated the result of tool call ${part.callId} from about ${tokens} to ${tokens - saved} tokens`,
+				tokens: saved,
+				callId: part.callId,
+			});
+			return { callId: part.callId, content: truncated };
+		});
+		return changed ? { ...message, content } : message;
+	});
+}
+
+/**
+ * Split the history into units that can be removed on their own, oldest first
+ *
+ * Earlier turns (a prompt and everything up to the next prompt) come first,
+ * then the tool-calling rounds of the current turn (an assistant message and
+ * the tool results that follow it) except the last one. System messages,
+ * the current prompt and the last round are never removed.
+ */
+function removableUnits(messages: readonly VsCodeMessage[]): number[][] {
+	const indices = messages.map((_, i) => i).filter((i) => messages[i].role !== VSCODE_ROLE.System);
+	let current = indices.length - 1;
+	while (current > 0 && !isPrompt(messages[indices[current]])) {
+		current--;
+	}
+
+	const units: number[][] = [];
+	for (const i of indices.slice(0, Math.max(0, current))) {
+		if (units.length === 0 || isPrompt(messages[i])) {
+			units.push([]);
+		}
+		units[units.length - 1].push(i);
+	}
+
+	const rounds: number[][] = [];
+	for (const i of indices.slice(current + 1)) {
+		if (rounds.length === 0 || messages[i].role === VSCODE_ROLE.Assistant) {
+			rounds.push([]);
+		}
+		rounds[rounds.length - 1].push(i);
+	}
+	return [...units, ...rounds.slice(0, -1)];
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+/**
+ * Fit a history into the context window
+ *
+ * When the estimated tokens exceed the budget (maxInputTokens minus reserved
+ * output and tool definitions), tool results above maxToolResultTokens are
+ * truncated first. If that is not enough, the oldest turns are removed, then
+ * the oldest tool-calling rounds of the current turn; tool calls are always
+ * removed together with their results. The removed messages are replaced by
+ * a summary (options.summarize) or a short notice.
+ *
+ * @param messages - VS Code chat messages
+ * @param options - Token limits, tools and summarizer
+ * @returns The history to send and what was changed
+ */
+export async function fitContextWindow(
+	messages: readonly VsCodeMessage[],
+	options: ContextWindowOptions
+): Promise<ContextWindowResult> {
+	const { tokenizer } = options;
+	const count = options.countTokens ?? ((message: VsCodeMessage) => estimateUnknownTokens(message, tokenizer));
+	const toolTokens =
+		options.tools && options.tools.length > 0 ? estimateTokens(JSON.stringify(options.tools), tokenizer) : 0;
+	const budget = Math.max(0, options.maxInputTokens - (options.reservedOutputTokens ?? 0) - toolTokens);
+	const total = (list: readonly VsCodeMessage[]) => list.reduce((sum, m) => sum + count(m), 0);
+	const diagnostics: ContextDiagnostic[] = [];
+
+	const initial = total(messages);
+	if (initial <= budget) {
+		return { messages, removed: [], diagnostics, tokens: initial, budget };
+	}
+
+	// 1. Truncate oversized tool results
+	const maxToolResultTokens = options.maxToolResultTokens ?? Math.floor(budget / 4);
+	let history = truncateToolResults(messages, maxToolResultTokens, count, diagnostics);
+	const tokens = history.map(count);
+	let current = tokens.reduce((a, b) => a + b, 0);
+	if (current <= budget) {
+		return { messages: history, removed: [], diagnostics, tokens: current, budget };
+	}
+
+	// 2. Remove the oldest turns and tool rounds, leaving room for the notice
+	const reserve = estimateTokens(OMITTED_NOTICE(messages.length), tokenizer) + 4;
+	const dropped = new Set<number>();
+	for (const unit of removableUnits(history)) {
+		if (current + reserve <= budget) {
+			break;
+		}
+		for (const i of unit) {
+			dropped.add(i);
+			current -= tokens[i];
+		}
+	}
+	if (dropped.size === 0) {
+		return { messages: history, removed: [], diagnostics, tokens: current, budget };
+	}
+
+	const removed = history.filter((_, i) => dropped.has(i));
+	const kept = history.filter((_, i) => !dropped.has(i));
+	diagnostics.push({
+		action: "dropped",
+		message: `Removed ${removed.length} earlier message${removed.length === 1 ? "" : "s"} to fit the context window`,
+		tokens: total(removed),
+		messageCount: removed.length,
+	});
+
+	// 3. Put a summary or notice where the removed messages were
+	let note = OMITTED_NOTICE(removed.length);
+	if (options.summarize) {
+		const summary = (await options.summarize(removed)).trim();
+		if (summary) {
+			const prefix = "[Summary of earlier conversation]\n";
+			const room = Math.max(0, budget - current - count({ role: VSCODE_ROLE.User, content: [{ value: prefix }] }));
+			const summaryTokens = estimateTokens(summary, tokenizer);
+			note =
+				prefix +
+				(summaryTokens > room ? summary.slice(0, Math.floor((summary.length * room) / summaryTokens)) : summary);
+			diagnostics.push({
+				action: "summarized",
+				message: `Summarized ${removed.length} removed message${removed.length === 1 ? "" : "s"}`,
+				tokens: -estimateTokens(note, tokenizer),
+				messageCount: removed.length,
+			});
+		}
+	}
+
+	const notice: VsCodeMessage = { role: VSCODE_ROLE.User, content: [{ value: note }] };
+	const first = kept.findIndex((m) => m.role !== VSCODE_ROLE.System);
+	const position = first < 0 ? kept.length : first;
+	history = [...kept.slice(0, position), notice, ...kept.slice(position)];
+	return { messages: history, removed, diagnostics, tokens: current + count(notice), budget };
+}
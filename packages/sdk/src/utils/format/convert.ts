@@ -1,20 +1,27 @@
 /**
  * Message Format Conversion
- * Convert between VS Code, OpenAI, and Anthropic message formats
+ * Convert between VS Code, OpenAI, Anthropic, Gemini, and Ollama message formats
  */
 
 import {
 	OpenAIMessage,
 	OpenAIContentPart,
+	OpenAIResponsesInputContent,
+	OpenAIResponsesInputItem,
 	AnthropicMessage,
 	AnthropicContentBlock,
 	AnthropicTextBlock,
 	AnthropicImageBlock,
+	AnthropicCacheControl,
+	GeminiContent,
+	GeminiPart,
+	OllamaMessage,
 	VsCodeMessage,
 	VsCodeTextPart,
 	VsCodeToolCallPart,
 	VsCodeToolResultPart,
 	VsCodeDataPart,
+	VsCodeThinkingPart,
 	VsCodeContentPart,
 	VSCODE_ROLE,
 } from "./types";
@@ -23,12 +30,23 @@ import {
 // Type Guards
 // ============================================================================
 
+/**
+ * Check if part is a thinking part (LanguageModelThinkingPart carries id and metadata fields)
+ */
+export function isThinkingPart(part: unknown): part is VsCodeThinkingPart {
+	return part !== null && typeof part === "object" && "value" in part && ("metadata" in part || "id" in part);
+}
+
 /**
  * Check if part is a text part
  */
 export function isTextPart(part: unknown): part is VsCodeTextPart {
 	return (
-		part !== null && typeof part === "object" && "value" in part && typeof (part as VsCodeTextPart).value === "string"
+		part !== null &&
+		typeof part === "object" &&
+		"value" in part &&
+		typeof (part as VsCodeTextPart).value === "string" &&
+		!isThinkingPart(part)
 	);
 }
 
@@ -71,12 +89,67 @@ export function isImagePart(part: unknown): part is VsCodeDataPart {
 	);
 }
 
+/**
+ * Check if a data part holds text (plain text or JSON) rather than binary data
+ */
+function isTextualDataPart(part: VsCodeDataPart): boolean {
+	const mimeType = part.mimeType.split(";")[0].trim().toLowerCase();
+	return mimeType.startsWith("text/") || mimeType === "application/json" || mimeType.endsWith("+json");
+}
+
+/**
+ * Encode image data as plain base64 (Anthropic, Gemini and Ollama)
+ */
+export function imageBase64(part: VsCodeDataPart): string {
+	return Buffer.from(part.data).toString("base64");
+}
+
+/**
+ * Encode image data as a data URL (OpenAI Chat Completions and Responses)
+ */
+export function imageDataUrl(part: VsCodeDataPart): string {
+	return `data:${part.mimeType};base64,${imageBase64(part)}`;
+}
+
+/**
+ * Join the text parts of a tool result into a single string
+ *
+ * Textual data parts are decoded; images and other binary data are left out.
+ */
+export function toolResultText(content: readonly unknown[]): string {
+	return content
+		.map((c) => {
+			if (isTextPart(c)) {
+				return c.value;
+			}
+			if (isDataPart(c)) {
+				return isTextualDataPart(c) ? new TextDecoder().decode(c.data) : "";
+			}
+			return JSON.stringify(c);
+		})
+		.filter((s) => s)
+		.join("\n");
+}
+
 // ============================================================================
 // OpenAI Conversion
 // ============================================================================
 
+/**
+ * Build an OpenAI image_url part from an image data part
+ */
+function toOpenAIImagePart(part: VsCodeDataPart): OpenAIContentPart {
+	return { type: "image_url", image_url: { url: imageDataUrl(part) } };
+}
+
 /**
  * Convert VS Code messages to OpenAI format
+ *
+ * Every tool result becomes its own `tool` message, so results of parallel tool
+ * calls stay paired with their calls. Tool messages only carry text, so images
+ * returned by tools follow in a user message, together with any other content
+ * of the same VS Code message. An assistant message keeps its text alongside
+ * its tool calls.
  */
 export function convertToOpenAI(messages: readonly VsCodeMessage[]): OpenAIMessage[] {
 	const result: OpenAIMessage[] = [];
@@ -93,9 +166,13 @@ export function convertToOpenAI(messages: readonly VsCodeMessage[]): OpenAIMessa
 		// Check for tool calls (assistant)
 		const toolCalls = msg.content.filter(isToolCallPart);
 		if (toolCalls.length > 0) {
+			const text = msg.content
+				.filter(isTextPart)
+				.map((p) => p.value)
+				.join("");
 			result.push({
 				role: "assistant",
-				content: undefined,
+				content: text || undefined,
 				tool_calls: toolCalls.map((tc) => ({
 					id: tc.callId,
 					type: "function" as const,
@@ -108,42 +185,29 @@ export function convertToOpenAI(messages: readonly VsCodeMessage[]): OpenAIMessa
 			continue;
 		}
 
-		// Check for tool results
-		const toolResults = msg.content.filter(isToolResultPart);
-		if (toolResults.length > 0) {
-			for (const tr of toolResults) {
-				const contentStr = tr.content
-					.map((c) => {
-						if (isTextPart(c)) {
-							return c.value;
-						}
-						if (isCacheControlPart(c)) {
-							return "";
-						}
-						return JSON.stringify(c);
-					})
-					.filter((s) => s)
-					.join("\n");
-				result.push({
-					role: "tool",
-					tool_call_id: tr.callId,
-					content: contentStr,
-				});
+		// Tool results first: they must directly follow the assistant tool calls
+		const parts: OpenAIContentPart[] = [];
+		for (const tr of msg.content.filter(isToolResultPart)) {
+			const content = tr.content || [];
+			result.push({
+				role: "tool",
+				tool_call_id: tr.callId,
+				content: toolResultText(content),
+			});
+
+			const images = content.filter(isImagePart);
+			if (images.length > 0) {
+				parts.push({ type: "text", text: `Image output of tool call ${tr.callId}:` });
+				parts.push(...images.map(toOpenAIImagePart));
 			}
-			continue;
 		}
 
 		// Regular content (text and images)
-		const parts: OpenAIContentPart[] = [];
 		for (const part of msg.content) {
 			if (isTextPart(part)) {
 				parts.push({ type: "text", text: part.value });
-			} else if (isCacheControlPart(part)) {
-				continue;
 			} else if (isImagePart(part)) {
-				const base64 = Buffer.from(part.data).toString("base64");
-				const dataUrl = `data:${part.mimeType};base64,${base64}`;
-				parts.push({ type: "image_url", image_url: { url: dataUrl } });
+				parts.push(toOpenAIImagePart(part));
 			}
 		}
 
@@ -157,24 +221,121 @@ export function convertToOpenAI(messages: readonly VsCodeMessage[]): OpenAIMessa
 	return result;
 }
 
+// ============================================================================
+// OpenAI Responses Conversion
+// ============================================================================
+
+/**
+ * Convert VS Code messages to OpenAI Responses API input items
+ *
+ * System messages become `instructions`; tool calls and results become
+ * function_call / function_call_output items.
+ */
+export function convertToOpenAIResponses(messages: readonly VsCodeMessage[]): {
+	instructions?: string;
+	input: OpenAIResponsesInputItem[];
+} {
+	const input: OpenAIResponsesInputItem[] = [];
+	let instructions = "";
+
+	for (const msg of messages) {
+		const content = msg.content || [];
+
+		if (msg.role === VSCODE_ROLE.System) {
+			instructions += content.map((p) => (isTextPart(p) ? p.value : "")).join("");
+			continue;
+		}
+
+		if (msg.role === VSCODE_ROLE.Assistant) {
+			const text = content
+				.filter(isTextPart)
+				.map((p) => p.value)
+				.join("");
+			if (text) {
+				input.push({ role: "assistant", content: text });
+			}
+			for (const tc of content.filter(isToolCallPart)) {
+				input.push({
+					type: "function_call",
+					call_id: tc.callId,
+					name: tc.name,
+					arguments: JSON.stringify(tc.input),
+				});
+			}
+			continue;
+		}
+
+		for (const tr of content.filter(isToolResultPart)) {
+			input.push({
+				type: "function_call_output",
+				call_id: tr.callId,
+				output: toolResultText(tr.content || []),
+			});
+		}
+
+		const parts: OpenAIResponsesInputContent[] = [];
+		for (const part of content) {
+			if (isTextPart(part)) {
+				if (part.value) {
+					parts.push({ type: "input_text", text: part.value });
+				}
+			} else if (isImagePart(part)) {
+				parts.push({ type: "input_image", image_url: imageDataUrl(part) });
+			}
+		}
+		if (parts.length > 0) {
+			input.push({ role: "user", content: parts });
+		}
+	}
+
+	return { instructions: instructions || undefined, input };
+}
+
 // ============================================================================
 // Anthropic Conversion
 // ============================================================================
 
+const EPHEMERAL_CACHE: AnthropicCacheControl = { type: "ephemeral" };
+
+/**
+ * Apply a VS Code cache_control marker to the block it follows
+ *
+ * Markers with no preceding block in the same message are ignored.
+ */
+function markCacheBreakpoint(blocks: AnthropicContentBlock[]): void {
+	const last = blocks[blocks.length - 1];
+	// Thinking blocks cannot be cached themselves
+	if (last && last.type !== "thinking") {
+		last.cache_control = { ...EPHEMERAL_CACHE };
+	}
+}
+
 /**
  * Convert VS Code content parts to Anthropic content blocks for ASSISTANT messages
  */
 function apiContentToAnthropicContentForAssistant(content: ReadonlyArray<VsCodeContentPart>): AnthropicContentBlock[] {
 	const convertedContent: AnthropicContentBlock[] = [];
+	// Thinking arrives in chunks; the signature comes with the last one of a block
+	let thinking = "";
 
 	for (const part of content) {
-		if (isToolCallPart(part)) {
+		if (isThinkingPart(part)) {
+			thinking += Array.isArray(part.value) ? part.value.join("") : part.value;
+			const signature = part.metadata?.signature;
+			if (typeof signature === "string" && signature) {
+				convertedContent.push({ type: "thinking", thinking, signature });
+				thinking = "";
+			}
+			// Thinking without a signature cannot be sent back
+		} else if (isToolCallPart(part)) {
 			convertedContent.push({
 				type: "tool_use",
 				id: part.callId,
 				input: part.input,
 				name: part.name,
 			});
+		} else if (isCacheControlPart(part)) {
+			markCacheBreakpoint(convertedContent);
 		} else if (isTextPart(part)) {
 			if (part.value === "") {
 				continue;
@@ -198,31 +359,25 @@ function apiContentToAnthropicContentForUser(content: ReadonlyArray<VsCodeConten
 		if (isImagePart(part)) {
 			convertedContent.push({
 				type: "image",
-				source: {
-					type: "base64",
-					data: Buffer.from(part.data).toString("base64"),
-					media_type: part.mimeType as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-				},
+				source: { type: "base64", media_type: part.mimeType, data: imageBase64(part) },
 			});
 		} else if (isCacheControlPart(part)) {
-			continue;
+			markCacheBreakpoint(convertedContent);
 		} else if (isToolResultPart(part)) {
 			const resultBlocks: (AnthropicTextBlock | AnthropicImageBlock)[] = [];
+			// A marker inside the result caches the whole tool_result block
+			let cacheResult = false;
 			for (const c of part.content || []) {
 				if (isTextPart(c)) {
 					if (c.value && c.value.trim() !== "") {
 						resultBlocks.push({ type: "text", text: c.value });
 					}
 				} else if (isCacheControlPart(c)) {
-					continue;
+					cacheResult = true;
 				} else if (isImagePart(c)) {
 					resultBlocks.push({
 						type: "image",
-						source: {
-							type: "base64",
-							media_type: (c as VsCodeDataPart).mimeType as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-							data: Buffer.from((c as VsCodeDataPart).data).toString("base64"),
-						},
+						source: { type: "base64", media_type: c.mimeType, data: imageBase64(c) },
 					});
 				}
 			}
@@ -245,6 +400,9 @@ function apiContentToAnthropicContentForUser(content: ReadonlyArray<VsCodeConten
 					content: resultBlocks,
 				});
 			}
+			if (cacheResult) {
+				markCacheBreakpoint(convertedContent);
+			}
 		} else if (isTextPart(part)) {
 			if (part.value === "") {
 				continue;
@@ -260,13 +418,23 @@ function apiContentToAnthropicContentForUser(content: ReadonlyArray<VsCodeConten
 
 /**
  * Convert VS Code messages to Anthropic format
+ *
+ * VS Code cache_control parts become `cache_control: { type: "ephemeral" }` on the
+ * preceding block. A cached system prompt is returned as a single text block.
+ *
+ * @param messages - VS Code messages
+ * @param options - Set cacheSystem to add a breakpoint after the system prompt
  */
-export function convertToAnthropic(messages: readonly VsCodeMessage[]): {
-	system?: string;
+export function convertToAnthropic(
+	messages: readonly VsCodeMessage[],
+	options: { cacheSystem?: boolean } = {}
+): {
+	system?: string | AnthropicTextBlock[];
 	messages: AnthropicMessage[];
 } {
 	const unmergedMessages: AnthropicMessage[] = [];
 	let systemText = "";
+	let cacheSystem = options.cacheSystem ?? false;
 
 	for (const message of messages) {
 		if (message.role === VSCODE_ROLE.Assistant) {
@@ -294,6 +462,9 @@ export function convertToAnthropic(messages: readonly VsCodeMessage[]): {
 					return "";
 				})
 				.join("");
+			if ((message.content || []).some(isCacheControlPart)) {
+				cacheSystem = true;
+			}
 		}
 	}
 
@@ -320,5 +491,183 @@ export function convertToAnthropic(messages: readonly VsCodeMessage[]): {
 		mergedMessages.push({ role: "user", content: [{ type: "text", text: "(start)" }] });
 	}
 
+	if (systemText && cacheSystem) {
+		return {
+			system: [{ type: "text", text: systemText, cache_control: { ...EPHEMERAL_CACHE } }],
+			messages: mergedMessages,
+		};
+	}
 	return { system: systemText || undefined, messages: mergedMessages };
 }
+
+// ============================================================================
+// Gemini Conversion
+// ============================================================================
+
+/** Separates the function call ID from its thought signature in a Gemini callId */
+const THOUGHT_SIGNATURE_SEPARATOR = "#sig:";
+
+/**
+ * Build the callId reported for a Gemini function call
+ *
+ * VS Code tool call parts keep only callId, name and input, but thinking models
+ * reject the next turn unless the thought signature is sent back, so it travels
+ * in the callId until convertToGemini splits it off again.
+ */
+export function toGeminiCallId(id: string, thoughtSignature?: string): string {
+	return thoughtSignature ? `${id}${THOUGHT_SIGNATURE_SEPARATOR}${thoughtSignature}` : id;
+}
+
+/**
+ * Split a callId built by toGeminiCallId into the function call ID and thought signature
+ */
+export function parseGeminiCallId(callId: string): { id: string; thoughtSignature?: string } {
+	const index = callId.indexOf(THOUGHT_SIGNATURE_SEPARATOR);
+	if (index === -1) {
+		return { id: callId };
+	}
+	return { id: callId.slice(0, index), thoughtSignature: callId.slice(index + THOUGHT_SIGNATURE_SEPARATOR.length) };
+}
+
+/**
+ * Convert VS Code messages to Gemini generateContent format
+ *
+ * Function calls and responses carry the callId as their id. Responses also
+ * need the function name, so tool call names are remembered by callId while
+ * walking the history. Thought signatures carried in the callId (see
+ * toGeminiCallId) are sent back on their function calls.
+ */
+export function convertToGemini(messages: readonly VsCodeMessage[]): {
+	systemInstruction?: { parts: { text: string }[] };
+	contents: GeminiContent[];
+} {
+	const contents: GeminiContent[] = [];
+	const toolNames = new Map<string, string>();
+	let systemText = "";
+
+	for (const message of messages) {
+		if (message.role === VSCODE_ROLE.System) {
+			systemText += (message.content || []).map((p) => (isTextPart(p) ? p.value : "")).join("");
+			continue;
+		}
+
+		const role = message.role === VSCODE_ROLE.Assistant ? "model" : "user";
+		const parts: GeminiPart[] = [];
+
+		for (const part of message.content || []) {
+			if (isToolCallPart(part)) {
+				toolNames.set(part.callId, part.name);
+				const { id, thoughtSignature } = parseGeminiCallId(part.callId);
+				parts.push({
+					functionCall: { id, name: part.name, args: part.input },
+					...(thoughtSignature && { thoughtSignature }),
+				});
+			} else if (isToolResultPart(part)) {
+				parts.push({
+					functionResponse: {
+						id: parseGeminiCallId(part.callId).id,
+						name: toolNames.get(part.callId) ?? "unknown_tool",
+						response: { content: toolResultText(part.content || []) },
+					},
+				});
+				// Images returned by tools follow the function response as inline data
+				for (const c of part.content || []) {
+					if (isImagePart(c)) {
+						parts.push({ inlineData: { mimeType: c.mimeType, data: imageBase64(c) } });
+					}
+				}
+			} else if (isCacheControlPart(part)) {
+				continue;
+			} else if (isImagePart(part)) {
+				parts.push({ inlineData: { mimeType: part.mimeType, data: imageBase64(part) } });
+			} else if (isTextPart(part)) {
+				if (part.value === "") {
+					continue;
+				}
+				parts.push({ text: part.value });
+			}
+		}
+
+		if (parts.length === 0) {
+			continue;
+		}
+
+		// Merge adjacent messages of the same role
+		const previous = contents[contents.length - 1];
+		if (previous && previous.role === role) {
+			previous.parts.push(...parts);
+		} else {
+			contents.push({ role, parts });
+		}
+	}
+
+	// Gemini expects the conversation to start with a user turn
+	if (contents.length > 0 && contents[0].role === "model") {
+		contents.unshift({ role: "user", parts: [{ text: "(continue)" }] });
+	}
+
+	if (contents.length === 0) {
+		contents.push({ role: "user", parts: [{ text: "(start)" }] });
+	}
+
+	return {
+		systemInstruction: systemText ? { parts: [{ text: systemText }] } : undefined,
+		contents,
+	};
+}
+
+// ============================================================================
+// Ollama Conversion
+// ============================================================================
+
+/**
+ * Convert VS Code messages to Ollama /api/chat format
+ *
+ * Ollama tool calls carry no id, so tool results are linked back by tool name.
+ */
+export function convertToOllama(messages: readonly VsCodeMessage[]): OllamaMessage[] {
+	const result: OllamaMessage[] = [];
+	const toolNames = new Map<string, string>();
+
+	for (const msg of messages) {
+		const role = msg.role === VSCODE_ROLE.System ? "system" : msg.role === VSCODE_ROLE.User ? "user" : "assistant";
+		const content = msg.content || [];
+
+		// Tool results become separate tool messages
+		for (const tr of content.filter(isToolResultPart)) {
+			const images = (tr.content || []).filter(isImagePart).map(imageBase64);
+			result.push({
+				role: "tool",
+				content: toolResultText(tr.content || []),
+				tool_name: toolNames.get(tr.callId) ?? "unknown_tool",
+				...(images.length > 0 ? { images } : {}),
+			});
+		}
+
+		const text = content
+			.filter(isTextPart)
+			.map((p) => p.value)
+			.join("");
+		const images = content.filter(isImagePart).map(imageBase64);
+		const toolCalls = content.filter(isToolCallPart);
+
+		for (const tc of toolCalls) {
+			toolNames.set(tc.callId, tc.name);
+		}
+
+		if (!text && images.length === 0 && toolCalls.length === 0) {
+			continue;
+		}
+
+		const message: OllamaMessage = { role, content: text };
+		if (images.length > 0) {
+			message.images = images;
+		}
+		if (toolCalls.length > 0) {
+			message.tool_calls = toolCalls.map((tc) => ({ function: { name: tc.name, arguments: tc.input } }));
+		}
+		result.push(message);
+	}
+
+	return result;
+}
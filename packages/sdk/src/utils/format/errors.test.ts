@@ -0,0 +1,152 @@
+/**
+ * Unit tests for provider error classification
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+	ProviderError,
+	AuthenticationError,
+	PermissionDeniedError,
+	RateLimitError,
+	QuotaExceededError,
+	ContextLengthError,
+	ContentFilterError,
+	InvalidRequestError,
+	ServerError,
+	createProviderErrorFromResponse,
+	createProviderErrorFromPayload,
+	withProviderContext,
+} from "./errors";
+
+describe("createProviderErrorFromResponse", () => {
+	it("should parse OpenAI error objects", () => {
+		const body = JSON.stringify({
+			error: {
+				message: "This model's maximum context length is 128000 tokens.",
+				type: "invalid_request_error",
+				code: "context_length_exceeded",
+			},
+		});
+		const error = createProviderErrorFromResponse(400, "Bad Request", body);
+
+		expect(error).toBeInstanceOf(ContextLengthError);
+		expect(error).toBeInstanceOf(ProviderError);
+		expect(error.isContextLengthError).toBe(true);
+		expect(error.isAuthError).toBe(false);
+		expect(error).toMatchObject({
+			status: 400,
+			code: "context_length_exceeded",
+			type: "invalid_request_error",
+			retryable: false,
+			body,
+		});
+		expect(error.message).toBe(`API request failed: 400 Bad Request\n${body}`);
+	});
+
+	it("should parse Anthropic error types", () => {
+		const error = createProviderErrorFromResponse(
+			529,
+			"",
+			JSON.stringify({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } })
+		);
+
+		expect(error).toBeInstanceOf(ServerError);
+		expect(error.type).toBe("overloaded_error");
+		expect(error.retryable).toBe(true);
+	});
+
+	it("should detect Anthropic prompt overflow from the message", () => {
+		const error = createProviderErrorFromResponse(
+			400,
+			"Bad Request",
+			JSON.stringify({
+				type: "error",
+				error: { type: "invalid_request_error", message: "prompt is too long: 210000 tokens > 200000 maximum" },
+			})
+		);
+
+		expect(error.isContextLengthError).toBe(true);
+	});
+
+	it("should parse Gemini errors, including array-wrapped bodies", () => {
+		const body = JSON.stringify([
+			{ error: { code: 429, message: "Resource has been exhausted", status: "RESOURCE_EXHAUSTED" } },
+		]);
+		const error = createProviderErrorFromResponse(429, "Too Many Requests", body);
+
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect(error.type).toBe("RESOURCE_EXHAUSTED");
+		expect(error.code).toBeUndefined();
+	});
+
+	it("should classify auth failures", () => {
+		expect(createProviderErrorFromResponse(401, "Unauthorized", "Invalid API key").isAuthError).toBe(true);
+		expect(
+			createProviderErrorFromResponse(
+				400,
+				"Bad Request",
+				JSON.stringify({ error: { code: 400, message: "API key not valid.", status: "INVALID_ARGUMENT" } })
+			)
+		).toBeInstanceOf(AuthenticationError);
+
+		const forbidden = createProviderErrorFromResponse(403, "Forbidden", "");
+		expect(forbidden).toBeInstanceOf(PermissionDeniedError);
+		expect(forbidden.isAuthError).toBe(false);
+	});
+
+	it("should not retry exhausted quota even on 429", () => {
+		const error = createProviderErrorFromResponse(
+			429,
+			"Too Many Requests",
+			JSON.stringify({ error: { message: "You exceeded your current quota", code: "insufficient_quota" } })
+		);
+
+		expect(error).toBeInstanceOf(QuotaExceededError);
+		expect(error.retryable).toBe(false);
+	});
+
+	it("should keep numeric provider codes as strings", () => {
+		const error = createProviderErrorFromResponse(
+			400,
+			"Bad Request",
+			JSON.stringify({ error: { code: 1301, message: "sensitive content", type: "content_filter" } })
+		);
+
+		expect(error).toBeInstanceOf(ContentFilterError);
+		expect(error.code).toBe("1301");
+	});
+
+	it("should fall back to the status for unknown bodies", () => {
+		expect(createProviderErrorFromResponse(404, "Not Found", "<html></html>")).toBeInstanceOf(InvalidRequestError);
+		expect(createProviderErrorFromResponse(502, "Bad Gateway", "")).toBeInstanceOf(ServerError);
+
+		const timeout = createProviderErrorFromResponse(408, "Request Timeout", "");
+		expect(timeout.constructor).toBe(ProviderError);
+		expect(timeout.retryable).toBe(true);
+	});
+});
+
+describe("createProviderErrorFromPayload", () => {
+	it("should classify in-stream errors without a status", () => {
+		const error = createProviderErrorFromPayload(
+			{ type: "error", error: { type: "rate_limit_error", message: "Slow down" } },
+			"Anthropic stream error"
+		);
+
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect(error.status).toBeUndefined();
+		expect(error.message).toBe("Anthropic stream error: Slow down");
+	});
+});
+
+describe("withProviderContext", () => {
+	it("should keep the error class and details", () => {
+		const original = createProviderErrorFromResponse(401, "Unauthorized", "Invalid API key");
+		const wrapped = withProviderContext(original, "GLM", "Failed to connect to GLM: bad key");
+
+		expect(wrapped).toBeInstanceOf(AuthenticationError);
+		expect(wrapped).toMatchObject({ status: 401, provider: "GLM", name: "AuthenticationError" });
+		expect(wrapped.message).toBe("Failed to connect to GLM: bad key");
+		expect(wrapped.cause).toBe(original);
+	});
+});
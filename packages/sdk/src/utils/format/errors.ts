@@ -0,0 +1,330 @@
+/**
+ * Provider Errors
+ * Typed errors for failed chat requests, classified from HTTP status and provider error bodies
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Details attached to a provider error
+ */
+export interface ProviderErrorDetails {
+	/** HTTP status of the failed response (absent for in-stream and network errors) */
+	status?: number;
+	/** Provider error code (OpenAI `error.code`, e.g. "context_length_exceeded") */
+	code?: string;
+	/** Provider error type (OpenAI `error.type`, Anthropic `error.type`, Gemini `error.status`) */
+	type?: string;
+	/** Display name of the provider */
+	provider?: string;
+	/** Raw response body, if any */
+	body?: string;
+	/** Whether the request may succeed if sent again */
+	retryable?: boolean;
+	/** Underlying error */
+	cause?: unknown;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Base class for errors reported by (or while talking to) an LLM provider
+ */
+export class ProviderError extends Error {
+	override name = "ProviderError";
+	readonly status?: number;
+	readonly code?: string;
+	readonly type?: string;
+	readonly provider?: string;
+	readonly body?: string;
+	readonly retryable: boolean;
+
+	constructor(message: string, details: ProviderErrorDetails = {}) {
+		super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+		this.status = details.status;
+		this.code = details.code;
+		this.type = details.type;
+		this.provider = details.provider;
+		this.body = details.body;
+		this.retryable = details.retryable ?? false;
+	}
+
+	/** The API key is missing, invalid or expired */
+	get isAuthError(): boolean {
+		return this instanceof AuthenticationError;
+	}
+
+	/** The prompt does not fit into the model's context window */
+	get isContextLengthError(): boolean {
+		return this instanceof ContextLengthError;
+	}
+}
+
+/** Invalid, missing or expired API key (401) */
+export class AuthenticationError extends ProviderError {
+	override name = "AuthenticationError";
+}
+
+/** The key is valid but not allowed to use the model or endpoint (403) */
+export class PermissionDeniedError extends ProviderError {
+	override name = "PermissionDeniedError";
+}
+
+/** Too many requests; retrying later is expected to succeed (429) */
+export class RateLimitError extends ProviderError {
+	override name = "RateLimitError";
+}
+
+/** Account balance or quota exhausted; retrying will not help */
+export class QuotaExceededError extends ProviderError {
+	override name = "QuotaExceededError";
+}
+
+/** The prompt exceeds the model's context window */
+export class ContextLengthError extends ProviderError {
+	override name = "ContextLengthError";
+}
+
+/** The request or response was blocked by the provider's content policy */
+export class ContentFilterError extends ProviderError {
+	override name = "ContentFilterError";
+}
+
+/** Malformed or unsupported request (other 4xx) */
+export class InvalidRequestError extends ProviderError {
+	override name = "InvalidRequestError";
+}
+
+/** Provider-side failure or overload (5xx, 529) */
+export class ServerError extends ProviderError {
+	override name = "ServerError";
+}
+
+/** The provider could not be reached */
+export class NetworkError extends ProviderError {
+	override name = "NetworkError";
+}
+
+/** Which stream timeout fired (see StreamTimeoutOptions) */
+export type StreamTimeoutPhase = "first-byte" | "first-token" | "idle";
+
+/**
+ * Details attached to a stream timeout
+ */
+export interface StreamTimeoutErrorDetails extends ProviderErrorDetails {
+	phase: StreamTimeoutPhase;
+	/** The timeout that elapsed, in milliseconds */
+	timeoutMs: number;
+	/** Text streamed before the timeout; it has already been passed to onText */
+	partialText?: string;
+}
+
+/** The response did not start, produce output or continue in time */
+export class StreamTimeoutError extends NetworkError {
+	override name = "StreamTimeoutError";
+	readonly phase: StreamTimeoutPhase;
+	readonly timeoutMs: number;
+	readonly partialText: string;
+
+	constructor(message: string, details: StreamTimeoutErrorDetails) {
+		super(message, details);
+		this.phase = details.phase;
+		this.timeoutMs = details.timeoutMs;
+		this.partialText = details.partialText ?? "";
+	}
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+interface ParsedErrorBody {
+	message?: string;
+	code?: string;
+	type?: string;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+	if (typeof value === "string" && value) {
+		return value;
+	}
+	return typeof value === "number" ? String(value) : undefined;
+}
+
+/**
+ * Extract message, code and type from a provider error payload
+ *
+ * Handles OpenAI-compatible `{ error: { message, type, code } }`, Anthropic
+ * `{ type: "error", error: { type, message } }`, Gemini `{ error: { code, message, status } }`
+ * (also wrapped in an array) and Ollama `{ error: "message" }`.
+ */
+function parseErrorPayload(payload: unknown): ParsedErrorBody {
+	const root = Array.isArray(payload) ? payload[0] : payload;
+	if (!root || typeof root !== "object") {
+		return {};
+	}
+	const obj = root as Record<string, unknown>;
+	const error = obj.error;
+
+	if (typeof error === "string") {
+		return { message: error };
+	}
+	if (error && typeof error === "object") {
+		const err = error as Record<string, unknown>;
+		// Gemini puts the HTTP status in `code` and the canonical status name in `status`
+		const geminiStatus = typeof err.status === "string" ? err.status : undefined;
+		return {
+			message: toOptionalString(err.message),
+			code: geminiStatus ? undefined : toOptionalString(err.code),
+			type: toOptionalString(err.type) ?? geminiStatus,
+		};
+	}
+	return {
+		message: toOptionalString(obj.message),
+		code: toOptionalString(obj.code),
+		type: obj.type !== "error" ? toOptionalString(obj.type) : undefined,
+	};
+}
+
+function parseErrorBody(body: string | undefined): ParsedErrorBody {
+	if (!body) {
+		return {};
+	}
+	try {
+		return parseErrorPayload(JSON.parse(body));
+	} catch {
+		// Plain-text error body
+		return { message: body };
+	}
+}
+
+const CONTEXT_LENGTH_CODES = new Set([
+	"context_length_exceeded",
+	"string_above_max_length",
+	"model_context_window_exceeded",
+]);
+const CONTEXT_LENGTH_PATTERN =
+	/context[ _-]?(length|window)|maximum context|prompt is too long|input is too long|too many (input )?tokens|exceeds? the (model'?s? )?(context|max(imum)? (input )?tokens)/i;
+
+const QUOTA_CODES = new Set([
+	"insufficient_quota",
+	"billing_hard_limit_reached",
+	"billing_not_active",
+	"insufficient_balance",
+]);
+const QUOTA_PATTERN = /insufficient (balance|quota|credit)|credit balance is too low|余额不足|欠费/i;
+
+const AUTH_TYPES = new Set(["authentication_error", "invalid_api_key", "UNAUTHENTICATED"]);
+const AUTH_PATTERN = /invalid (x-)?api[ _-]?key|incorrect api key|api key not valid|invalid authentication/i;
+
+const PERMISSION_TYPES = new Set(["permission_error", "PERMISSION_DENIED"]);
+
+const CONTENT_FILTER_CODES = new Set(["content_filter", "content_policy_violation", "data_inspection_failed"]);
+
+const RATE_LIMIT_TYPES = new Set(["rate_limit_error", "rate_limit_exceeded", "RESOURCE_EXHAUSTED"]);
+
+const SERVER_TYPES = new Set(["overloaded_error", "api_error", "server_error", "UNAVAILABLE", "INTERNAL"]);
+
+/** Statuses that indicate a transient failure without a more specific error class */
+const TRANSIENT_STATUSES = new Set([408, 409, 425]);
+
+type ProviderErrorClass = new (message: string, details?: ProviderErrorDetails) => ProviderError;
+
+/**
+ * Pick the error class and retryability for a failure
+ */
+function classify(status: number | undefined, parsed: ParsedErrorBody): [ProviderErrorClass, boolean] {
+	const code = parsed.code ?? "";
+	const type = parsed.type ?? "";
+	const message = parsed.message ?? "";
+	const hasCode = (set: Set<string>) => set.has(code) || set.has(type);
+
+	if (hasCode(CONTEXT_LENGTH_CODES) || CONTEXT_LENGTH_PATTERN.test(message)) {
+		return [ContextLengthError, false];
+	}
+	if (hasCode(QUOTA_CODES) || QUOTA_PATTERN.test(message)) {
+		return [QuotaExceededError, false];
+	}
+	if (status === 401 || hasCode(AUTH_TYPES) || AUTH_PATTERN.test(message)) {
+		return [AuthenticationError, false];
+	}
+	if (status === 403 || hasCode(PERMISSION_TYPES)) {
+		return [PermissionDeniedError, false];
+	}
+	if (hasCode(CONTENT_FILTER_CODES)) {
+		return [ContentFilterError, false];
+	}
+	if (status === 429 || hasCode(RATE_LIMIT_TYPES)) {
+		return [RateLimitError, true];
+	}
+	if ((status !== undefined && status >= 500) || hasCode(SERVER_TYPES)) {
+		return [ServerError, true];
+	}
+	if (status !== undefined && TRANSIENT_STATUSES.has(status)) {
+		return [ProviderError, true];
+	}
+	if (status !== undefined && status >= 400) {
+		return [InvalidRequestError, false];
+	}
+	return [ProviderError, false];
+}
+
+/**
+ * Create a typed error for a non-2xx HTTP response
+ *
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param body - Response body text
+ */
+export function createProviderErrorFromResponse(status: number, statusText: string, body: string): ProviderError {
+	const parsed = parseErrorBody(body);
+	const [ErrorClass, retryable] = classify(status, parsed);
+	return new ErrorClass(`API request failed: ${status} ${statusText}${body ? `\n${body}` : ""}`, {
+		status,
+		code: parsed.code,
+		type: parsed.type,
+		body: body || undefined,
+		retryable,
+	});
+}
+
+/**
+ * Create a typed error for an error event received inside a stream
+ *
+ * @param payload - Parsed error event data (e.g. Anthropic `{ type: "error", error: {...} }`)
+ * @param prefix - Message prefix describing where the error came from
+ */
+export function createProviderErrorFromPayload(payload: unknown, prefix = "Stream error"): ProviderError {
+	const parsed = parseErrorPayload(payload);
+	const [ErrorClass, retryable] = classify(undefined, parsed);
+	return new ErrorClass(`${prefix}: ${parsed.message ?? parsed.type ?? parsed.code ?? "unknown error"}`, {
+		code: parsed.code,
+		type: parsed.type,
+		retryable,
+	});
+}
+
+/**
+ * Copy a provider error with a new message and provider name, keeping its class
+ */
+export function withProviderContext(error: ProviderError, provider: string, message: string): ProviderError {
+	const ErrorClass = error.constructor as ProviderErrorClass;
+	const timeout =
+		error instanceof StreamTimeoutError
+			? { phase: error.phase, timeoutMs: error.timeoutMs, partialText: error.partialText }
+			: undefined;
+	return new ErrorClass(message, {
+		...timeout,
+		status: error.status,
+		code: error.code,
+		type: error.type,
+		provider,
+		body: error.body,
+		retryable: error.retryable,
+		cause: error,
+	});
+}
@@ -0,0 +1,274 @@
+/**
+ * Unit tests for history validation and repair
+ */
+
+import { describe, it, expect } from "vitest";
+import { normalizeHistory, MISSING_TOOL_RESULT } from "./history";
+import type { AnthropicMessage, GeminiContent, OpenAIMessage, OpenAIResponsesInputItem } from "./types";
+
+function toolCall(id: string) {
+	return { id, type: "function" as const, function: { name: "read", arguments: "{}" } };
+}
+
+describe("normalizeHistory", () => {
+	describe("openai", () => {
+		it("should leave a valid history untouched", () => {
+			const messages: OpenAIMessage[] = [
+				{ role: "system", content: "Be brief." },
+				{ role: "user", content: "Hi" },
+				{ role: "assistant", content: undefined, tool_calls: [toolCall("a")] },
+				{ role: "tool", tool_call_id: "a", content: "ok" },
+				{ role: "assistant", content: "Done" },
+			];
+			const request = { messages };
+
+			expect(normalizeHistory("openai", request)).toEqual([]);
+			expect(request.messages).toBe(messages);
+		});
+
+		it("should add placeholder results for tool calls left without results", () => {
+			const request = {
+				messages: [
+					{ role: "user", content: "Read both" },
+					{ role: "assistant", tool_calls: [toolCall("a"), toolCall("b")] },
+					{ role: "tool", tool_call_id: "a", content: "first" },
+					{ role: "user", content: "Never mind" },
+				] as OpenAIMessage[],
+			};
+
+			const diagnostics = normalizeHistory("openai", request);
+
+			expect(diagnostics).toEqual([
+				{ issue: "orphan-tool-call", index: 1, callId: "b", message: "Tool call b has no result", repaired: true },
+			]);
+			expect(request.messages.slice(2, 4)).toEqual([
+				{ role: "tool", tool_call_id: "a", content: "first" },
+				{ role: "tool", tool_call_id: "b", content: MISSING_TOOL_RESULT },
+			]);
+			expect(request.messages).toHaveLength(5);
+		});
+
+		it("should drop results whose call is missing", () => {
+			const request = {
+				messages: [
+					{ role: "tool", tool_call_id: "trimmed", content: "old" },
+					{ role: "user", content: "Hi" },
+				] as OpenAIMessage[],
+			};
+
+			const diagnostics = normalizeHistory("openai", request);
+
+			expect(diagnostics.map((d) => [d.issue, d.callId])).toEqual([["orphan-tool-result", "trimmed"]]);
+			expect(request.messages).toEqual([{ role: "user", content: "Hi" }]);
+		});
+
+		it("should drop empty messages and merge the neighbours they separated", () => {
+			const request = {
+				messages: [
+					{ role: "user", content: "One" },
+					{ role: "assistant", content: "" },
+					{ role: "user", content: "Two" },
+				] as OpenAIMessage[],
+			};
+
+			const diagnostics = normalizeHistory("openai", request);
+
+			expect(diagnostics.map((d) => [d.issue, d.index])).toEqual([
+				["empty-message", 1],
+				["consecutive-role", 2],
+			]);
+			expect(request.messages).toEqual([{ role: "user", content: "One\n\nTwo" }]);
+		});
+
+		it("should merge string and multi-part content", () => {
+			const image = { type: "image_url" as const, image_url: { url: "data:image/png;base64,AA==" } };
+			const request = {
+				messages: [
+					{ role: "user", content: "Look" },
+					{ role: "user", content: [image] },
+				] as OpenAIMessage[],
+			};
+
+			normalizeHistory("openai", request);
+
+			expect(request.messages).toEqual([{ role: "user", content: [{ type: "text", text: "Look" }, image] }]);
+		});
+
+		it("should only report in report mode", () => {
+			const messages: OpenAIMessage[] = [
+				{ role: "user", content: "Hi" },
+				{ role: "assistant", tool_calls: [toolCall("a")] },
+			];
+			const request = { messages };
+
+			const diagnostics = normalizeHistory("openai", request, { repair: false });
+
+			expect(diagnostics).toHaveLength(1);
+			expect(diagnostics[0].repaired).toBe(false);
+			expect(request.messages).toBe(messages);
+			expect(messages).toHaveLength(2);
+		});
+	});
+
+	describe("anthropic", () => {
+		it("should add missing tool_result blocks first in the next user message", () => {
+			const request = {
+				messages: [
+					{ role: "user", content: [{ type: "text", text: "Read" }] },
+					{
+						role: "assistant",
+						content: [
+							{ type: "tool_use", id: "a", name: "read", input: {} },
+							{ type: "tool_use", id: "b", name: "read", input: {} },
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{ type: "text", text: "Stop" },
+							{ type: "tool_result", tool_use_id: "a", content: "first" },
+						],
+					},
+				] as AnthropicMessage[],
+			};
+
+			const diagnostics = normalizeHistory("anthropic", request);
+
+			expect(diagnostics.map((d) => [d.issue, d.callId])).toEqual([["orphan-tool-call", "b"]]);
+			expect(request.messages[2].content).toEqual([
+				{ type: "tool_result", tool_use_id: "a", content: "first" },
+				{ type: "tool_result", tool_use_id: "b", content: MISSING_TOOL_RESULT, is_error: true },
+				{ type: "text", text: "Stop" },
+			]);
+		});
+
+		it("should insert a user message when a tool call ends the history", () => {
+			const request = {
+				messages: [
+					{ role: "user", content: [{ type: "text", text: "Read" }] },
+					{ role: "assistant", content: [{ type: "tool_use", id: "a", name: "read", input: {} }] },
+				] as AnthropicMessage[],
+			};
+
+			normalizeHistory("anthropic", request);
+
+			expect(request.messages[2]).toEqual({
+				role: "user",
+				content: [{ type: "tool_result", tool_use_id: "a", content: MISSING_TOOL_RESULT, is_error: true }],
+			});
+		});
+
+		it("should drop orphan results, blank text and empty messages", () => {
+			const request = {
+				messages: [
+					{ role: "user", content: [{ type: "tool_result", tool_use_id: "gone", content: "x" }] },
+					{ role: "user", content: [{ type: "text", text: "Hi" }] },
+					{ role: "assistant", content: [{ type: "text", text: " " }] },
+					{
+						role: "user",
+						content: [
+							{ type: "text", text: "" },
+							{ type: "text", text: "Again" },
+						],
+					},
+				] as AnthropicMessage[],
+			};
+
+			const diagnostics = normalizeHistory("anthropic", request);
+
+			expect(diagnostics.map((d) => d.issue)).toEqual([
+				"empty-content",
+				"empty-message",
+				"consecutive-role",
+				"consecutive-role",
+				"orphan-tool-result",
+			]);
+			expect(request.messages).toEqual([
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "Hi" },
+						{ type: "text", text: "Again" },
+					],
+				},
+			]);
+		});
+
+		it("should insert a user message before a leading assistant message", () => {
+			const request = { messages: [{ role: "assistant", content: [{ type: "text", text: "Hello" }] }] };
+
+			const diagnostics = normalizeHistory("anthropic", request);
+
+			expect(diagnostics.map((d) => d.issue)).toEqual(["leading-assistant"]);
+			expect(request.messages[0]).toEqual({ role: "user", content: [{ type: "text", text: "(continue)" }] });
+		});
+	});
+
+	describe("openai-responses", () => {
+		it("should add outputs for unanswered function calls and drop unknown outputs", () => {
+			const request = {
+				input: [
+					{ role: "user", content: [{ type: "input_text", text: "Go" }] },
+					{ type: "function_call", call_id: "a", name: "read", arguments: "{}" },
+					{ type: "function_call_output", call_id: "x", output: "stale" },
+					{ role: "user", content: "" },
+					{ role: "user", content: "Next" },
+				] as OpenAIResponsesInputItem[],
+			};
+
+			const diagnostics = normalizeHistory("openai-responses", request);
+
+			expect(diagnostics.map((d) => [d.issue, d.index])).toEqual([
+				["orphan-tool-result", 2],
+				["empty-message", 3],
+				["orphan-tool-call", 1],
+			]);
+			expect(request.input.slice(1)).toEqual([
+				{ type: "function_call", call_id: "a", name: "read", arguments: "{}" },
+				{ type: "function_call_output", call_id: "a", output: MISSING_TOOL_RESULT },
+				{ role: "user", content: "Next" },
+			]);
+		});
+	});
+
+	describe("gemini", () => {
+		it("should match function responses by name and add missing ones", () => {
+			const request = {
+				contents: [
+					{ role: "user", parts: [{ text: "Go" }] },
+					{
+						role: "model",
+						parts: [{ functionCall: { name: "read", args: {} } }, { functionCall: { name: "list", args: {} } }],
+					},
+					{ role: "user", parts: [{ functionResponse: { name: "read", response: { content: "ok" } } }] },
+				] as GeminiContent[],
+			};
+
+			const diagnostics = normalizeHistory("gemini", request);
+
+			expect(diagnostics.map((d) => [d.issue, d.callId])).toEqual([["orphan-tool-call", "list"]]);
+			expect(request.contents[2].parts).toEqual([
+				{ functionResponse: { name: "list", response: { error: MISSING_TOOL_RESULT } } },
+				{ functionResponse: { name: "read", response: { content: "ok" } } },
+			]);
+		});
+	});
+
+	describe("ollama", () => {
+		it("should only drop empty messages", () => {
+			const request = {
+				messages: [
+					{ role: "user", content: "Hi" },
+					{ role: "assistant", content: "" },
+					{ role: "user", content: "Hi again" },
+					{ role: "tool", content: "" },
+				],
+			};
+
+			const diagnostics = normalizeHistory("ollama", request);
+
+			expect(diagnostics.map((d) => d.issue)).toEqual(["empty-message"]);
+			expect(request.messages).toHaveLength(3);
+		});
+	});
+});
@@ -0,0 +1,574 @@
+/**
+ * History Normalization
+ * Detect and repair malformed conversation history before a request is sent
+ */
+
+import type { ApiMode } from "../../core/types";
+import type {
+	AnthropicContentBlock,
+	AnthropicMessage,
+	AnthropicToolResultBlock,
+	GeminiContent,
+	GeminiPart,
+	OllamaMessage,
+	OpenAIContentPart,
+	OpenAIMessage,
+	OpenAIResponsesInputItem,
+} from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kind of problem found in the history
+ * - empty-message: a message has no content (dropped)
+ * - empty-content: a message contains blank text blocks (blocks dropped)
+ * - orphan-tool-call: a tool call has no result, e.g. after a cancel (placeholder result added)
+ * - orphan-tool-result: a tool result has no matching call, e.g. after trimming (dropped)
+ * - consecutive-role: two messages in a row have the same role (merged)
+ * - leading-assistant: the history starts with an assistant message (user message inserted)
+ */
+export type HistoryIssue =
+	| "empty-message"
+	| "empty-content"
+	| "orphan-tool-call"
+	| "orphan-tool-result"
+	| "consecutive-role"
+	| "leading-assistant";
+
+/**
+ * A problem found in the history
+ */
+export interface HistoryDiagnostic {
+	issue: HistoryIssue;
+	/** Index of the affected message in the converted history */
+	index: number;
+	/** Tool call ID, for tool call and tool result issues */
+	callId?: string;
+	/** Human-readable description of the problem */
+	message: string;
+	/** Whether the request was changed to fix the problem */
+	repaired: boolean;
+}
+
+/**
+ * Options for normalizeHistory
+ */
+export interface NormalizeHistoryOptions {
+	/**
+	 * Repair the request in place; when false, problems are only reported
+	 * @default true
+	 */
+	repair?: boolean;
+}
+
+/** Result sent for a tool call that has none */
+export const MISSING_TOOL_RESULT = "No result: the tool call was cancelled or its result is unavailable.";
+
+type Diagnostic = Omit<HistoryDiagnostic, "repaired">;
+
+/** A message together with its index in the converted history */
+interface Entry<T> {
+	message: T;
+	index: number;
+}
+
+// ============================================================================
+// Shared Passes
+// ============================================================================
+
+function toEntries<T>(messages: readonly T[]): Entry<T>[] {
+	return messages.map((message, index) => ({ message, index }));
+}
+
+function dropEmpty<T extends { role: string }>(
+	entries: Entry<T>[],
+	isEmpty: (message: T) => boolean,
+	diagnostics: Diagnostic[]
+): Entry<T>[] {
+	return entries.filter(({ message, index }) => {
+		if (!isEmpty(message)) {
+			return true;
+		}
+		diagnostics.push({ issue: "empty-message", index, message: `Empty ${message.role} message` });
+		return false;
+	});
+}
+
+function mergeConsecutive<T extends { role: string }>(
+	entries: Entry<T>[],
+	canMerge: (previous: T, current: T) => boolean,
+	merge: (previous: T, current: T) => T,
+	diagnostics: Diagnostic[]
+): Entry<T>[] {
+	const result: Entry<T>[] = [];
+	for (const entry of entries) {
+		const previous = result[result.length - 1];
+		if (previous && previous.message.role === entry.message.role && canMerge(previous.message, entry.message)) {
+			diagnostics.push({
+				issue: "consecutive-role",
+				index: entry.index,
+				message: `Consecutive ${entry.message.role} messages`,
+			});
+			result[result.length - 1] = { index: previous.index, message: merge(previous.message, entry.message) };
+		} else {
+			result.push(entry);
+		}
+	}
+	return result;
+}
+
+function orphanCall(index: number, callId: string): Diagnostic {
+	return { issue: "orphan-tool-call", index, callId, message: `Tool call ${callId} has no result` };
+}
+
+function orphanResult(index: number, callId: string): Diagnostic {
+	return { issue: "orphan-tool-result", index, callId, message: `Tool result ${callId} has no matching tool call` };
+}
+
+function leadingAssistant(): Diagnostic {
+	return { issue: "leading-assistant", index: 0, message: "History starts with an assistant message" };
+}
+
+// ============================================================================
+// OpenAI Chat Completions
+// ============================================================================
+
+function isBlankOpenAIContent(content: OpenAIMessage["content"]): boolean {
+	if (content === undefined || content === null) {
+		return true;
+	}
+	return typeof content === "string" ? content.trim() === "" : content.length === 0;
+}
+
+function toOpenAIParts(content: string | OpenAIContentPart[]): OpenAIContentPart[] {
+	return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+function mergeOpenAIMessages(previous: OpenAIMessage, current: OpenAIMessage): OpenAIMessage {
+	const merged: OpenAIMessage = { ...previous };
+	if (isBlankOpenAIContent(previous.content)) {
+		merged.content = current.content;
+	} else if (!isBlankOpenAIContent(current.content)) {
+		const a = previous.content as string | OpenAIContentPart[];
+		const b = current.content as string | OpenAIContentPart[];
+		merged.content =
+			typeof a === "string" && typeof b === "string" ? `${a}\n\n${b}` : [...toOpenAIParts(a), ...toOpenAIParts(b)];
+	}
+	if (current.tool_calls?.length) {
+		merged.tool_calls = current.tool_calls;
+	}
+	return merged;
+}
+
+/**
+ * Pair every assistant tool call with a `tool` message directly after it
+ */
+function pairOpenAIToolCalls(entries: Entry<OpenAIMessage>[], diagnostics: Diagnostic[]): Entry<OpenAIMessage>[] {
+	const result: Entry<OpenAIMessage>[] = [];
+
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i];
+		const { message } = entry;
+		if (message.role === "tool") {
+			diagnostics.push(orphanResult(entry.index, message.tool_call_id ?? ""));
+			continue;
+		}
+
+		result.push(entry);
+		if (message.role !== "assistant" || !message.tool_calls?.length) {
+			continue;
+		}
+
+		const pending = new Set(message.tool_calls.map((call) => call.id));
+		while (i + 1 < entries.length && entries[i + 1].message.role === "tool") {
+			const next = entries[++i];
+			const callId = next.message.tool_call_id ?? "";
+			if (pending.delete(callId)) {
+				result.push(next);
+			} else {
+				diagnostics.push(orphanResult(next.index, callId));
+			}
+		}
+		for (const callId of pending) {
+			diagnostics.push(orphanCall(entry.index, callId));
+			result.push({
+				index: entry.index,
+				message: { role: "tool", tool_call_id: callId, content: MISSING_TOOL_RESULT },
+			});
+		}
+	}
+
+	return result;
+}
+
+function normalizeOpenAIMessages(messages: readonly OpenAIMessage[], diagnostics: Diagnostic[]): OpenAIMessage[] {
+	const canMerge = (previous: OpenAIMessage) => previous.role !== "tool" && !previous.tool_calls?.length;
+	let entries = dropEmpty(
+		toEntries(messages),
+		(m) => m.role !== "tool" && !m.tool_calls?.length && isBlankOpenAIContent(m.content),
+		diagnostics
+	);
+	entries = mergeConsecutive(entries, canMerge, mergeOpenAIMessages, diagnostics);
+	entries = pairOpenAIToolCalls(entries, diagnostics);
+	entries = mergeConsecutive(entries, canMerge, mergeOpenAIMessages, diagnostics);
+	return entries.map((e) => e.message);
+}
+
+// ============================================================================
+// Anthropic Messages
+// ============================================================================
+
+function isBlankTextBlock(block: AnthropicContentBlock): boolean {
+	return block.type === "text" && block.text.trim() === "";
+}
+
+/**
+ * Remove blank text blocks, which Anthropic rejects
+ */
+function dropBlankAnthropicBlocks(
+	entries: Entry<AnthropicMessage>[],
+	diagnostics: Diagnostic[]
+): Entry<AnthropicMessage>[] {
+	return entries.map((entry) => {
+		const content = entry.message.content.filter((block) => !isBlankTextBlock(block));
+		if (content.length === entry.message.content.length || content.length === 0) {
+			return entry;
+		}
+		diagnostics.push({
+			issue: "empty-content",
+			index: entry.index,
+			message: `Blank text in ${entry.message.role} message`,
+		});
+		return { index: entry.index, message: { ...entry.message, content } };
+	});
+}
+
+/**
+ * Pair every tool_use block with a tool_result block in the next user message
+ */
+function pairAnthropicToolCalls(
+	entries: Entry<AnthropicMessage>[],
+	diagnostics: Diagnostic[]
+): Entry<AnthropicMessage>[] {
+	const result: Entry<AnthropicMessage>[] = [];
+
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i];
+		const { message } = entry;
+
+		if (message.role === "user") {
+			// Results answering the previous assistant message were consumed below
+			const content = message.content.filter((block) => {
+				if (block.type !== "tool_result") {
+					return true;
+				}
+				diagnostics.push(orphanResult(entry.index, block.tool_use_id));
+				return false;
+			});
+			if (content.length === message.content.length) {
+				result.push(entry);
+			} else if (content.length > 0) {
+				result.push({ index: entry.index, message: { ...message, content } });
+			}
+			continue;
+		}
+
+		result.push(entry);
+		const pending = new Set(message.content.flatMap((block) => (block.type === "tool_use" ? [block.id] : [])));
+		if (pending.size === 0) {
+			continue;
+		}
+
+		const next = entries[i + 1]?.message.role === "user" ? entries[++i] : undefined;
+		const results: AnthropicContentBlock[] = [];
+		const others: AnthropicContentBlock[] = [];
+		for (const block of next?.message.content ?? []) {
+			if (block.type !== "tool_result") {
+				others.push(block);
+			} else if (pending.delete(block.tool_use_id)) {
+				results.push(block);
+			} else {
+				diagnostics.push(orphanResult(next?.index ?? entry.index, block.tool_use_id));
+			}
+		}
+		for (const callId of pending) {
+			diagnostics.push(orphanCall(entry.index, callId));
+			const stub: AnthropicToolResultBlock = {
+				type: "tool_result",
+				tool_use_id: callId,
+				content: MISSING_TOOL_RESULT,
+				is_error: true,
+			};
+			results.push(stub);
+		}
+
+		// Tool results must come first in the user message
+		result.push({
+			index: next?.index ?? entry.index,
+			message: { role: "user", content: [...results, ...others] },
+		});
+	}
+
+	return result;
+}
+
+function normalizeAnthropicMessages(
+	messages: readonly AnthropicMessage[],
+	diagnostics: Diagnostic[]
+): AnthropicMessage[] {
+	const merge = (previous: AnthropicMessage, current: AnthropicMessage): AnthropicMessage => ({
+		role: previous.role,
+		content: [...previous.content, ...current.content],
+	});
+	let entries = dropBlankAnthropicBlocks(toEntries(messages), diagnostics);
+	entries = dropEmpty(entries, (m) => m.content.every(isBlankTextBlock), diagnostics);
+	entries = mergeConsecutive(entries, () => true, merge, diagnostics);
+	entries = pairAnthropicToolCalls(entries, diagnostics);
+	entries = mergeConsecutive(entries, () => true, merge, diagnostics);
+
+	const result = entries.map((e) => e.message);
+	if (result[0]?.role === "assistant") {
+		diagnostics.push(leadingAssistant());
+		result.unshift({ role: "user", content: [{ type: "text", text: "(continue)" }] });
+	}
+	return result;
+}
+
+// ============================================================================
+// OpenAI Responses
+// ============================================================================
+
+function isEmptyResponsesItem(item: OpenAIResponsesInputItem): boolean {
+	if (!("role" in item)) {
+		return false;
+	}
+	return typeof item.content === "string" ? item.content.trim() === "" : item.content.length === 0;
+}
+
+/**
+ * Give every function_call item an output before the next message
+ */
+function normalizeResponsesInput(
+	items: readonly OpenAIResponsesInputItem[],
+	diagnostics: Diagnostic[]
+): OpenAIResponsesInputItem[] {
+	const result: OpenAIResponsesInputItem[] = [];
+	const calls = new Set<string>();
+	const pending = new Map<string, number>();
+
+	const flushPending = () => {
+		for (const [callId, index] of pending) {
+			diagnostics.push(orphanCall(index, callId));
+			result.push({ type: "function_call_output", call_id: callId, output: MISSING_TOOL_RESULT });
+		}
+		pending.clear();
+	};
+
+	items.forEach((item, index) => {
+		if ("role" in item) {
+			if (isEmptyResponsesItem(item)) {
+				diagnostics.push({ issue: "empty-message", index, message: `Empty ${item.role} message` });
+				return;
+			}
+			flushPending();
+			result.push(item);
+		} else if (item.type === "function_call") {
+			calls.add(item.call_id);
+			pending.set(item.call_id, index);
+			result.push(item);
+		} else if (calls.has(item.call_id) && pending.delete(item.call_id)) {
+			result.push(item);
+		} else {
+			diagnostics.push(orphanResult(index, item.call_id));
+		}
+	});
+	flushPending();
+
+	return result;
+}
+
+// ============================================================================
+// Gemini
+// ============================================================================
+
+function isBlankGeminiPart(part: GeminiPart): boolean {
+	return "text" in part && part.text.trim() === "";
+}
+
+/**
+ * Pair every functionCall part with a functionResponse part in the next user turn
+ *
+ * Responses are matched by id when the call has one, otherwise by name.
+ */
+function pairGeminiFunctionCalls(entries: Entry<GeminiContent>[], diagnostics: Diagnostic[]): Entry<GeminiContent>[] {
+	const result: Entry<GeminiContent>[] = [];
+	const responseKey = (r: { name: string; id?: string }) => r.id ?? r.name;
+
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i];
+		const { message } = entry;
+
+		if (message.role === "user") {
+			const parts = message.parts.filter((part) => {
+				if (!("functionResponse" in part)) {
+					return true;
+				}
+				diagnostics.push(orphanResult(entry.index, responseKey(part.functionResponse)));
+				return false;
+			});
+			if (parts.length === message.parts.length) {
+				result.push(entry);
+			} else if (parts.length > 0) {
+				result.push({ index: entry.index, message: { ...message, parts } });
+			}
+			continue;
+		}
+
+		result.push(entry);
+		const pending = message.parts.flatMap((part) => ("functionCall" in part ? [part.functionCall] : []));
+		if (pending.length === 0) {
+			continue;
+		}
+
+		const next = entries[i + 1]?.message.role === "user" ? entries[++i] : undefined;
+		const parts: GeminiPart[] = [];
+		for (const part of next?.message.parts ?? []) {
+			if (!("functionResponse" in part)) {
+				parts.push(part);
+				continue;
+			}
+			const key = responseKey(part.functionResponse);
+			const match = pending.findIndex((call) => responseKey(call) === key);
+			if (match === -1) {
+				diagnostics.push(orphanResult(next?.index ?? entry.index, key));
+				continue;
+			}
+			pending.splice(match, 1);
+			parts.push(part);
+		}
+		const stubs: GeminiPart[] = pending.map((call) => {
+			diagnostics.push(orphanCall(entry.index, responseKey(call)));
+			return {
+				functionResponse: {
+					name: call.name,
+					response: { error: MISSING_TOOL_RESULT },
+					...(call.id ? { id: call.id } : {}),
+				},
+			};
+		});
+		parts.unshift(...stubs);
+
+		result.push({ index: next?.index ?? entry.index, message: { role: "user", parts } });
+	}
+
+	return result;
+}
+
+function normalizeGeminiContents(contents: readonly GeminiContent[], diagnostics: Diagnostic[]): GeminiContent[] {
+	const merge = (previous: GeminiContent, current: GeminiContent): GeminiContent => ({
+		role: previous.role,
+		parts: [...previous.parts, ...current.parts],
+	});
+	let entries = toEntries(contents).map((entry) => {
+		const parts = entry.message.parts.filter((part) => !isBlankGeminiPart(part));
+		if (parts.length === entry.message.parts.length || parts.length === 0) {
+			return entry;
+		}
+		diagnostics.push({
+			issue: "empty-content",
+			index: entry.index,
+			message: `Blank text in ${entry.message.role} turn`,
+		});
+		return { index: entry.index, message: { ...entry.message, parts } };
+	});
+	entries = dropEmpty(entries, (c) => c.parts.every(isBlankGeminiPart), diagnostics);
+	entries = mergeConsecutive(entries, () => true, merge, diagnostics);
+	entries = pairGeminiFunctionCalls(entries, diagnostics);
+	entries = mergeConsecutive(entries, () => true, merge, diagnostics);
+
+	const result = entries.map((e) => e.message);
+	if (result[0]?.role === "model") {
+		diagnostics.push(leadingAssistant());
+		result.unshift({ role: "user", parts: [{ text: "(continue)" }] });
+	}
+	return result;
+}
+
+// ============================================================================
+// Ollama
+// ============================================================================
+
+/**
+ * Ollama tool calls carry no ids and the server accepts any role order,
+ * so only empty messages are removed
+ */
+function normalizeOllamaMessages(messages: readonly OllamaMessage[], diagnostics: Diagnostic[]): OllamaMessage[] {
+	return dropEmpty(
+		toEntries(messages),
+		(m) => m.role !== "tool" && m.content.trim() === "" && !m.images?.length && !m.tool_calls?.length,
+		diagnostics
+	).map((e) => e.message);
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Detect and repair malformed history in a request built by buildRequest
+ *
+ * Runs between conversion and sending. Fixes the problems that make providers
+ * reject a request with 400: tool calls left without results after a cancel,
+ * results whose call was trimmed away, empty messages, and (for APIs that need
+ * alternating roles) consecutive messages with the same role.
+ *
+ * @param apiMode - API mode the request was built for
+ * @param request - Request body from buildRequest; updated in place when repairing
+ * @param options - Whether to repair or only report
+ * @returns Problems found, in the order they were detected (empty if the history is valid)
+ */
+export function normalizeHistory(
+	apiMode: ApiMode,
+	request: Record<string, unknown>,
+	options: NormalizeHistoryOptions = {}
+): HistoryDiagnostic[] {
+	const repair = options.repair ?? true;
+	const diagnostics: Diagnostic[] = [];
+
+	let key: string;
+	let normalize: (items: never[], diagnostics: Diagnostic[]) => unknown[];
+	switch (apiMode) {
+		case "anthropic":
+			key = "messages";
+			normalize = normalizeAnthropicMessages;
+			break;
+		case "openai-responses":
+			key = "input";
+			normalize = normalizeResponsesInput;
+			break;
+		case "gemini":
+			key = "contents";
+			normalize = normalizeGeminiContents;
+			break;
+		case "ollama":
+			key = "messages";
+			normalize = normalizeOllamaMessages;
+			break;
+		default:
+			key = "messages";
+			normalize = normalizeOpenAIMessages;
+	}
+
+	const items = request[key];
+	if (!Array.isArray(items)) {
+		return [];
+	}
+
+	const normalized = normalize(items as never[], diagnostics);
+	if (repair && diagnostics.length > 0) {
+		request[key] = normalized;
+	}
+	return diagnostics.map((d) => ({ ...d, repaired: repair }));
+}
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for image preparation
+ */
+
+import { describe, it, expect } from "vitest";
+import { prepareImage, prepareImages, IMAGE_LIMITS } from "./images";
+import { VSCODE_ROLE, type VsCodeDataPart, type VsCodeMessage } from "./types";
+import { encodePng } from "../image/png";
+import { encodeJpeg } from "../image/jpeg";
+import { readImageSize } from "../image/sniff";
+import type { RasterImage } from "../image/raster";
+
+function createImage(width: number, height: number): RasterImage {
+	const data = new Uint8Array(width * height * 4);
+	for (let i = 0; i < data.length; i += 4) {
+		data[i] = (i / 4) % 256;
+		data[i + 1] = 128;
+		data[i + 2] = 64;
+		data[i + 3] = 255;
+	}
+	return { width, height, data };
+}
+
+function png(width: number, height: number): VsCodeDataPart {
+	return { mimeType: "image/png", data: encodePng(createImage(width, height)) };
+}
+
+describe("prepareImage", () => {
+	it("passes images within the limits through unchanged", () => {
+		const part = png(10, 10);
+		const result = prepareImage(part, IMAGE_LIMITS.openai);
+		expect(result.part).toBe(part);
+		expect(result.diagnostics).toEqual([]);
+	});
+
+	it("corrects a declared MIME type that does not match the data", () => {
+		const data = encodeJpeg(createImage(8, 8));
+		const result = prepareImage({ mimeType: "image/png", data }, IMAGE_LIMITS.anthropic);
+		expect(result.part).toEqual({ mimeType: "image/jpeg", data });
+		expect(result.diagnostics[0]).toMatchObject({ action: "retyped", mimeType: "image/jpeg" });
+	});
+
+	it("downscales images larger than the maximum dimension", () => {
+		const limits = { ...IMAGE_LIMITS.openai, maxDimension: 50 };
+		const result = prepareImage(png(200, 100), limits);
+		const part = result.part as VsCodeDataPart;
+		expect(part.mimeType).toBe("image/png");
+		expect(readImageSize(part.data)).toEqual({ width: 50, height: 25 });
+		expect(result.diagnostics[0].action).toBe("resized");
+		expect(result.diagnostics[0].message).toContain("from 200x100");
+	});
+
+	it("shrinks images until they fit the byte limit", () => {
+		const original = { mimeType: "image/jpeg", data: encodeJpeg(createImage(256, 256)) };
+		const limits = { ...IMAGE_LIMITS.anthropic, maxBytes: Math.floor(original.data.length / 3) };
+		const part = prepareImage(original, limits).part as VsCodeDataPart;
+		expect(part.mimeType).toBe("image/jpeg");
+		expect(part.data.length).toBeLessThanOrEqual(limits.maxBytes);
+	});
+
+	it("does not decode images with too many pixels", () => {
+		// A small PNG whose header declares 20000x20000 pixels
+		const data = png(10, 10).data.slice();
+		new DataView(data.buffer).setUint32(16, 20000);
+		new DataView(data.buffer).setUint32(20, 20000);
+		const part = { mimeType: "image/png", data };
+
+		const passed = prepareImage(part, IMAGE_LIMITS.openai);
+		expect(passed.part).toBe(part);
+		expect(passed.diagnostics).toEqual([]);
+
+		const omitted = prepareImage(part, { ...IMAGE_LIMITS.openai, maxBytes: 16 });
+		expect(omitted.part).toEqual({
+			value: "[Image omitted: the image is 20000x20000 pixels, too large to downscale below 1 KB]",
+		});
+	});
+
+	it("replaces images of types the API does not accept with a placeholder", () => {
+		const gif = { mimeType: "image/gif", data: new Uint8Array([...Buffer.from("GIF89a"), 1, 0, 1, 0]) };
+		const result = prepareImage(gif, IMAGE_LIMITS.ollama);
+		expect(result.part).toEqual({ value: "[Image omitted: unsupported image type image/gif]" });
+		expect(result.diagnostics[0].action).toBe("omitted");
+	});
+
+	it("replaces data that is not an image with a placeholder", () => {
+		const result = prepareImage({ mimeType: "image/png", data: new Uint8Array([1, 2, 3]) }, IMAGE_LIMITS.openai);
+		expect(result.part).toEqual({ value: "[Image omitted: the data is not a valid image/png image]" });
+	});
+
+	it("replaces oversized images that cannot be re-encoded with a placeholder", () => {
+		const gif = { mimeType: "image/gif", data: new Uint8Array([...Buffer.from("GIF89a"), 1, 0, 1, 0, 0, 0]) };
+		const result = prepareImage(gif, { ...IMAGE_LIMITS.openai, maxBytes: 4 });
+		expect((result.part as { value: string }).value).toMatch(/above the 1 KB limit/);
+	});
+});
+
+describe("prepareImages", () => {
+	it("returns the input array when there is nothing to change", () => {
+		const messages: VsCodeMessage[] = [{ role: VSCODE_ROLE.User, content: [{ value: "hi" }, png(4, 4)] }];
+		const result = prepareImages("openai", messages);
+		expect(result.messages).toBe(messages);
+		expect(result.diagnostics).toEqual([]);
+	});
+
+	it("uses a placeholder for every image when the model lacks vision", () => {
+		const messages: VsCodeMessage[] = [
+			{ role: VSCODE_ROLE.User, content: [{ value: "What is this?" }, png(4, 4)] },
+			{ role: VSCODE_ROLE.User, content: [{ callId: "call_1", content: [{ value: "screenshot" }, png(4, 4)] }] },
+		];
+		const result = prepareImages("anthropic", messages, { vision: false });
+		const placeholder = { value: "[Image omitted: the model does not support image input]" };
+		expect(result.messages[0].content).toEqual([{ value: "What is this?" }, placeholder]);
+		expect(result.messages[1].content).toEqual([{ callId: "call_1", content: [{ value: "screenshot" }, placeholder] }]);
+		expect(result.diagnostics).toHaveLength(2);
+		// The caller's messages are left alone
+		expect(messages[0].content?.[1]).toHaveProperty("data");
+	});
+
+	it("applies the limits of the API mode and overrides", () => {
+		const messages: VsCodeMessage[] = [{ role: VSCODE_ROLE.User, content: [png(100, 40)] }];
+		const result = prepareImages("gemini", messages, { limits: { maxDimension: 20 } });
+		const part = result.messages[0].content?.[0] as VsCodeDataPart;
+		expect(readImageSize(part.data)).toEqual({ width: 20, height: 8 });
+	});
+
+	it("reuses prepared images for repeated history", () => {
+		const image = png(100, 40);
+		const messages: VsCodeMessage[] = [{ role: VSCODE_ROLE.User, content: [image] }];
+		const first = prepareImages("openai", messages, { limits: { maxDimension: 10 } });
+		const second = prepareImages("openai", messages, { limits: { maxDimension: 10 } });
+		expect(second.messages[0].content?.[0]).toBe(first.messages[0].content?.[0]);
+		expect(second.diagnostics).toEqual(first.diagnostics);
+	});
+});
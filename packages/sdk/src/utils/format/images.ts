@@ -0,0 +1,303 @@
+/**
+ * Image Preparation
+ * Check images in the history against the limits of an API and the model's
+ * vision support: correct MIME types, downscale oversized PNG and JPEG images,
+ * and replace images that cannot be sent with a text placeholder
+ */
+
+import type { ApiMode } from "../../core/types";
+import type { VsCodeContentPart, VsCodeDataPart, VsCodeMessage } from "./types";
+import { isImagePart, isToolResultPart } from "./convert";
+import { sniffImageType, readImageSize } from "../image/sniff";
+import { type RasterImage, fitWithin, resizeRaster } from "../image/raster";
+import { decodePng, encodePng } from "../image/png";
+import { decodeJpeg, encodeJpeg } from "../image/jpeg";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Images an API accepts
+ */
+export interface ImageLimits {
+	/** Largest image in bytes; larger PNG and JPEG images are re-encoded smaller, others are omitted */
+	maxBytes: number;
+	/** Longest side in pixels; larger PNG and JPEG images are downscaled, others are sent as they are */
+	maxDimension: number;
+	/** Accepted MIME types */
+	mimeTypes: readonly string[];
+}
+
+/**
+ * A change made to an image before sending
+ */
+export interface ImageDiagnostic {
+	/**
+	 * - retyped: the declared MIME type did not match the data and was corrected
+	 * - resized: the image was downscaled or re-encoded to fit the limits
+	 * - omitted: the image was replaced with a text placeholder
+	 */
+	action: "retyped" | "resized" | "omitted";
+	/** Human-readable description */
+	message: string;
+	/** MIME type of the image as detected (or as declared if unrecognized) */
+	mimeType: string;
+	/** Size of the image as given, in bytes */
+	bytes: number;
+}
+
+/**
+ * Options for prepareImages
+ */
+export interface PrepareImagesOptions {
+	/**
+	 * Whether the model accepts images; without vision every image becomes a placeholder
+	 * @default true
+	 */
+	vision?: boolean;
+	/** Overrides for the limits of the API mode (see IMAGE_LIMITS) */
+	limits?: Partial<ImageLimits>;
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+const MB = 1024 * 1024;
+
+/**
+ * Documented image limits per API mode
+ *
+ * maxDimension is the size providers scale images down to anyway, so larger
+ * images only cost upload time.
+ */
+export const IMAGE_LIMITS: Readonly<Record<ApiMode, ImageLimits>> = {
+	openai: { maxBytes: 20 * MB, maxDimension: 2048, mimeTypes: ["image/png", "image/jpeg", "image/gif", "image/webp"] },
+	"openai-responses": {
+		maxBytes: 20 * MB,
+		maxDimension: 2048,
+		mimeTypes: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+	},
+	anthropic: {
+		maxBytes: 5 * MB,
+		maxDimension: 1568,
+		mimeTypes: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+	},
+	gemini: {
+		maxBytes: 20 * MB,
+		maxDimension: 3072,
+		mimeTypes: ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"],
+	},
+	ollama: { maxBytes: 20 * MB, maxDimension: 2048, mimeTypes: ["image/png", "image/jpeg"] },
+};
+
+// ============================================================================
+// Single Images
+// ============================================================================
+
+/** Attempts to fit an image into maxBytes, each smaller than the last */
+const SHRINK_STEPS = [1, 0.75, 0.5, 0.35, 0.25];
+
+/**
+ * Largest image decoded for downscaling (50 MP, 200 MB as RGBA). Decoding runs
+ * on the extension host, and a few KB of data can declare far larger images.
+ */
+const MAX_DECODE_PIXELS = 50_000_000;
+
+function formatBytes(bytes: number): string {
+	return bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function placeholder(reason: string): VsCodeContentPart {
+	return { value: `[Image omitted: ${reason}]` };
+}
+
+function normalizeMimeType(mimeType: string): string {
+	const type = mimeType.split(";")[0].trim().toLowerCase();
+	return type === "image/jpg" ? "image/jpeg" : type;
+}
+
+/**
+ * Re-encode a PNG or JPEG image within the limits
+ *
+ * @returns The encoded image, or undefined if it cannot be made small enough
+ */
+function shrink(
+	data: Uint8Array,
+	mimeType: string,
+	limits: ImageLimits
+): { data: Uint8Array; image: RasterImage } | undefined {
+	const source = mimeType === "image/png" ? decodePng(data) : decodeJpeg(data);
+	const fitted = fitWithin(source.width, source.height, limits.maxDimension);
+
+	for (const step of SHRINK_STEPS) {
+		const image = resizeRaster(source, fitted.width * step, fitted.height * step);
+		const encoded = mimeType === "image/png" ? encodePng(image) : encodeJpeg(image, step === 1 ? 85 : 75);
+		if (encoded.length <= limits.maxBytes) {
+			return { data: encoded, image };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Check one image against the limits
+ *
+ * @returns The part to send (the image, a re-encoded copy or a placeholder) and what was changed
+ */
+export function prepareImage(
+	part: VsCodeDataPart,
+	limits: ImageLimits
+): { part: VsCodeContentPart; diagnostics: ImageDiagnostic[] } {
+	const declared = normalizeMimeType(part.mimeType);
+	const sniffed = sniffImageType(part.data);
+	const mimeType = sniffed ?? declared;
+	const bytes = part.data.length;
+	const diagnostics: ImageDiagnostic[] = [];
+	const report = (action: ImageDiagnostic["action"], message: string) =>
+		diagnostics.push({ action, message, mimeType, bytes });
+	const omit = (reason: string) => {
+		report("omitted", `Replaced an image with a placeholder: ${reason}`);
+		return { part: placeholder(reason), diagnostics };
+	};
+
+	if (!limits.mimeTypes.includes(mimeType)) {
+		return omit(`unsupported image type ${mimeType}`);
+	}
+	if (!sniffed) {
+		return omit(`the data is not a valid ${declared} image`);
+	}
+	if (sniffed !== declared) {
+		report("retyped", `Image declared as ${part.mimeType} is ${sniffed}`);
+	}
+
+	const size = readImageSize(part.data);
+	const tooLarge = bytes > limits.maxBytes;
+	const tooBig = size !== undefined && Math.max(size.width, size.height) > limits.maxDimension;
+	if (!tooLarge && !tooBig) {
+		return { part: sniffed === part.mimeType ? part : { mimeType, data: part.data }, diagnostics };
+	}
+
+	if (mimeType !== "image/png" && mimeType !== "image/jpeg") {
+		// Providers scale large dimensions down themselves; only the byte limit is hard
+		return tooLarge
+			? omit(`the image is ${formatBytes(bytes)}, above the ${formatBytes(limits.maxBytes)} limit`)
+			: { part: { mimeType, data: part.data }, diagnostics };
+	}
+
+	if (!size || size.width * size.height > MAX_DECODE_PIXELS) {
+		// Too large to decode safely: send it as is if the API accepts the bytes
+		const pixels = size ? `${size.width}x${size.height} pixels` : "of unknown dimensions";
+		return tooLarge
+			? omit(`the image is ${pixels}, too large to downscale below ${formatBytes(limits.maxBytes)}`)
+			: { part: sniffed === part.mimeType ? part : { mimeType, data: part.data }, diagnostics };
+	}
+
+	let shrunk: ReturnType<typeof shrink>;
+	try {
+		shrunk = shrink(part.data, mimeType, limits);
+	} catch (error) {
+		return omit(`the ${mimeType} image could not be decoded (${(error as Error).message})`);
+	}
+	if (!shrunk) {
+		return omit(`the image is ${formatBytes(bytes)} and could not be reduced below ${formatBytes(limits.maxBytes)}`);
+	}
+
+	const from = size ? `${size.width}x${size.height}, ` : "";
+	report(
+		"resized",
+		`Downscaled ${mimeType} image from ${from}${formatBytes(bytes)} to ` +
+			`${shrunk.image.width}x${shrunk.image.height}, ${formatBytes(shrunk.data.length)}`
+	);
+	return { part: { mimeType, data: shrunk.data }, diagnostics };
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/** Prepared images by source data and limits; histories resend the same images every turn */
+const cache = new WeakMap<Uint8Array, Map<string, { part: VsCodeContentPart; diagnostics: ImageDiagnostic[] }>>();
+
+function prepareCached(
+	part: VsCodeDataPart,
+	limits: ImageLimits
+): { part: VsCodeContentPart; diagnostics: ImageDiagnostic[] } {
+	const key = `${part.mimeType}|${JSON.stringify(limits)}`;
+	let entries = cache.get(part.data);
+	const cached = entries?.get(key);
+	if (cached) {
+		return cached;
+	}
+	const prepared = prepareImage(part, limits);
+	if (!entries) {
+		entries = new Map();
+		cache.set(part.data, entries);
+	}
+	entries.set(key, prepared);
+	return prepared;
+}
+
+/**
+ * Prepare every image in a history for an API
+ *
+ * Images in messages and in tool results are checked. Without vision all of
+ * them are replaced by a placeholder, so the model knows an image was there.
+ *
+ * @param apiMode - API the request is sent to
+ * @param messages - VS Code chat messages
+ * @param options - Vision support and limit overrides
+ * @returns Messages to send (the input array if nothing changed) and what was changed
+ */
+export function prepareImages(
+	apiMode: ApiMode,
+	messages: readonly VsCodeMessage[],
+	options: PrepareImagesOptions = {}
+): { messages: readonly VsCodeMessage[]; diagnostics: ImageDiagnostic[] } {
+	const limits: ImageLimits = { ...IMAGE_LIMITS[apiMode], ...options.limits };
+	const diagnostics: ImageDiagnostic[] = [];
+	let changed = false;
+
+	const preparePart = (part: VsCodeDataPart): VsCodeContentPart => {
+		let prepared: { part: VsCodeContentPart; diagnostics: ImageDiagnostic[] };
+		if (options.vision === false) {
+			const reason = "the model does not support image input";
+			const mimeType = sniffImageType(part.data) ?? normalizeMimeType(part.mimeType);
+			prepared = {
+				part: placeholder(reason),
+				diagnostics: [
+					{
+						action: "omitted",
+						message: `Replaced an image with a placeholder: ${reason}`,
+						mimeType,
+						bytes: part.data.length,
+					},
+				],
+			};
+		} else {
+			prepared = prepareCached(part, limits);
+		}
+		diagnostics.push(...prepared.diagnostics);
+		changed ||= prepared.part !== part;
+		return prepared.part;
+	};
+
+	const result = messages.map((message) => {
+		if (!message.content?.some((p) => isImagePart(p) || (isToolResultPart(p) && p.content.some(isImagePart)))) {
+			return message;
+		}
+		const content = message.content.map((part) => {
+			if (isImagePart(part)) {
+				return preparePart(part);
+			}
+			if (isToolResultPart(part) && part.content.some(isImagePart)) {
+				return { ...part, content: part.content.map((c) => (isImagePart(c) ? preparePart(c) : c)) };
+			}
+			return part;
+		});
+		return { ...message, content };
+	});
+
+	return { messages: changed ? result : messages, diagnostics };
+}
@@ -12,22 +12,108 @@ export {
 	isToolCallPart,
 	isToolResultPart,
 	isDataPart,
+	isThinkingPart,
 	isImagePart,
 	isCacheControlPart,
+	imageBase64,
+	imageDataUrl,
 	convertToOpenAI,
+	convertToOpenAIResponses,
 	convertToAnthropic,
+	convertToGemini,
+	toGeminiCallId,
+	parseGeminiCallId,
+	convertToOllama,
 } from "./convert";
 
 // Provider helpers (request building - only unique exports from providerHelpers)
-export { ROLE, buildRequest, ensureValidMessageOrder } from "./providerHelpers";
+export { ROLE, buildRequest, ensureValidMessageOrder, type RequestOptions } from "./providerHelpers";
 
 // Streaming processors
 export * from "./streaming";
 
+// Incremental SSE / line parsing used by the stream processors
+export { SSEParser, LineDecoder, readSSEStream, readLineStream, type SSEEvent, type SSEParserOptions } from "./sse";
+
+// Sampling options and tool mode
+export { TOOL_MODE, resolveSamplingOptions } from "./sampling";
+
+// History validation and repair
+export {
+	normalizeHistory,
+	MISSING_TOOL_RESULT,
+	type HistoryIssue,
+	type HistoryDiagnostic,
+	type NormalizeHistoryOptions,
+} from "./history";
+
+// Image type checks, provider limits, downscaling and vision placeholders
+export {
+	prepareImages,
+	prepareImage,
+	IMAGE_LIMITS,
+	type ImageLimits,
+	type ImageDiagnostic,
+	type PrepareImagesOptions,
+} from "./images";
+
+// Fitting the history into the context window
+export {
+	fitContextWindow,
+	type ContextWindowOptions,
+	type ContextWindowResult,
+	type ContextDiagnostic,
+} from "./contextWindow";
+
 // Send chat request (complete HTTP request/response handling)
 export {
 	sendChatRequest,
 	sendChatRequestWithProvider,
 	type SendChatRequestConfig,
 	type ChatResponseCallbacks,
+	type InvalidToolCall,
 } from "./sendChatRequest";
+
+// Request/response middleware
+export { type ChatMiddleware, type ChatStreamEvent, type MiddlewareContext } from "./middleware";
+
+// Proxy, custom CA and timeout support for HTTP calls
+export { fetchWithTransport, shouldBypassProxy, isTimeoutError, type TransportOptions } from "./transport";
+
+// First-byte, first-token and idle timeouts for streamed responses
+export { StreamWatchdog, type StreamTimeoutOptions } from "./watchdog";
+
+// Prompted tool calling for models without native tool support
+export {
+	buildToolPrompt,
+	toPromptedToolMessages,
+	parseToolCallBlock,
+	TOOL_CALL_OPEN_TAG,
+	TOOL_CALL_CLOSE_TAG,
+} from "./promptedTools";
+
+// Tolerant parsing of tool-call arguments
+export { parseToolCallArguments, repairJson, type ParsedToolArguments } from "./toolArguments";
+
+// Retry policy and rate limit header parsing
+export { type RetryPolicy, type RetryInfo, parseRetryAfter, computeRetryDelay } from "./retry";
+
+// Typed provider errors
+export {
+	ProviderError,
+	AuthenticationError,
+	PermissionDeniedError,
+	RateLimitError,
+	QuotaExceededError,
+	ContextLengthError,
+	ContentFilterError,
+	InvalidRequestError,
+	ServerError,
+	NetworkError,
+	StreamTimeoutError,
+	createProviderErrorFromResponse,
+	createProviderErrorFromPayload,
+	type ProviderErrorDetails,
+	type StreamTimeoutErrorDetails,
+	type StreamTimeoutPhase,
+} from "./errors";
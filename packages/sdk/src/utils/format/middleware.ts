@@ -0,0 +1,120 @@
+/**
+ * Request Middleware
+ * Hooks around request building, fetch and stream processing in sendChatRequest
+ */
+
+import type { ApiMode } from "../../core/types";
+import type { ChatUsage } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Request details passed to every middleware hook
+ */
+export interface MiddlewareContext {
+	apiMode: ApiMode;
+	model: string;
+	/** Endpoint the request is sent to */
+	url: string;
+}
+
+/**
+ * An event parsed from the response stream
+ */
+export type ChatStreamEvent =
+	| { type: "text"; text: string }
+	| { type: "thinking"; text: string; signature?: string }
+	| { type: "tool_call"; callId: string; name: string; args: Record<string, unknown> }
+	| { type: "usage"; usage: ChatUsage };
+
+/**
+ * Hooks that run around a chat request
+ *
+ * Middleware runs in array order. Hooks may be async except onChunk, which runs
+ * while the response streams.
+ */
+export interface ChatMiddleware {
+	/**
+	 * Called once the request body is built, before it is sent. Modify the body and
+	 * headers in place, or return a replacement body.
+	 */
+	beforeRequest?: (
+		body: Record<string, unknown>,
+		headers: Record<string, string>,
+		context: MiddlewareContext
+	) => void | Record<string, unknown> | Promise<void | Record<string, unknown>>;
+	/** Called for every HTTP response before its status is checked; may return a replacement */
+	onResponse?: (response: Response, context: MiddlewareContext) => void | Response | Promise<void | Response>;
+	/** Called for each text, thinking, tool call and usage event of the response */
+	onChunk?: (event: ChatStreamEvent, context: MiddlewareContext) => void;
+	/** Called when the request fails, before the error is thrown; may return a replacement error */
+	onError?: (error: Error, context: MiddlewareContext) => void | Error | Promise<void | Error>;
+}
+
+// ============================================================================
+// Running Middleware
+// ============================================================================
+
+/**
+ * Run the beforeRequest hooks
+ *
+ * @returns The request body to send
+ */
+export async function runBeforeRequest(
+	middleware: readonly ChatMiddleware[],
+	body: Record<string, unknown>,
+	headers: Record<string, string>,
+	context: MiddlewareContext
+): Promise<Record<string, unknown>> {
+	for (const m of middleware) {
+		body = (await m.beforeRequest?.(body, headers, context)) ?? body;
+	}
+	return body;
+}
+
+/**
+ * Run the onResponse hooks
+ *
+ * @returns The response to process
+ */
+export async function runOnResponse(
+	middleware: readonly ChatMiddleware[],
+	response: Response,
+	context: MiddlewareContext
+): Promise<Response> {
+	for (const m of middleware) {
+		response = (await m.onResponse?.(response, context)) ?? response;
+	}
+	return response;
+}
+
+/**
+ * Run the onChunk hooks
+ */
+export function runOnChunk(
+	middleware: readonly ChatMiddleware[],
+	event: ChatStreamEvent,
+	context: MiddlewareContext
+): void {
+	for (const m of middleware) {
+		m.onChunk?.(event, context);
+	}
+}
+
+/**
+ * Run the onError hooks
+ *
+ * @returns The error to throw
+ */
+export async function runOnError(
+	middleware: readonly ChatMiddleware[],
+	error: Error,
+	context: MiddlewareContext
+): Promise<Error> {
+	for (const m of middleware) {
+		error = (await m.onError?.(error, context)) ?? error;
+	}
+	return error;
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for prompted tool calling
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildToolPrompt, parseToolCallBlock, toPromptedToolMessages } from "./promptedTools";
+import type { VsCodeMessage } from "./types";
+
+const tools = [
+	{
+		name: "read_file",
+		description: "Read a file",
+		inputSchema: { type: "object", properties: { path: { type: "string" } }, required: ["path"] },
+	},
+];
+
+describe("buildToolPrompt", () => {
+	it("should describe each tool with its schema and the call format", () => {
+		const prompt = buildToolPrompt(tools);
+
+		expect(prompt).toContain("## read_file\nRead a file\nParameters (JSON Schema): {");
+		expect(prompt).toContain('<tool_call>\n{"name": "tool_name", "arguments": {"parameter": "value"}}\n</tool_call>');
+		expect(prompt).not.toContain("must call");
+	});
+
+	it("should require a tool call in required mode", () => {
+		expect(buildToolPrompt(tools, true)).toContain("You must call at least one tool");
+	});
+});
+
+describe("toPromptedToolMessages", () => {
+	it("should add the tool prompt as a system message", () => {
+		const messages: VsCodeMessage[] = [{ role: 1, content: [{ value: "Hi" }] }];
+
+		const result = toPromptedToolMessages(messages, tools);
+
+		expect(result).toHaveLength(2);
+		expect(result[0].role).toBe(3);
+		expect(result[0].content).toEqual([{ value: buildToolPrompt(tools) }]);
+		expect(result[1]).toEqual(messages[0]);
+	});
+
+	it("should append the tool prompt to an existing system message", () => {
+		const result = toPromptedToolMessages([{ role: 3, content: [{ value: "Be brief." }] }], tools);
+
+		expect(result).toHaveLength(1);
+		expect(result[0].content).toEqual([{ value: "Be brief." }, { value: `\n\n${buildToolPrompt(tools)}` }]);
+	});
+
+	it("should write tool calls and results as text blocks", () => {
+		const image = { mimeType: "image/png", data: new Uint8Array([1, 2]) };
+		const messages: VsCodeMessage[] = [
+			{ role: 1, content: [{ value: "Show a.ts" }] },
+			{
+				role: 2,
+				content: [{ value: "Reading it." }, { callId: "c1", name: "read_file", input: { path: "a.ts" } }],
+			},
+			{ role: 1, content: [{ callId: "c1", content: [{ value: "const a = 1;" }, image] }] },
+		];
+
+		const result = toPromptedToolMessages(messages, tools);
+
+		expect(result[2].content).toEqual([
+			{
+				value: 'Reading it.\n\n<tool_call>\n{"name":"read_file","arguments":{"path":"a.ts"}}\n</tool_call>',
+			},
+		]);
+		expect(result[3].content).toEqual([
+			{ value: '<tool_result name="read_file" id="c1">\nconst a = 1;\n</tool_result>' },
+			image,
+		]);
+	});
+});
+
+describe("parseToolCallBlock", () => {
+	it("should read JSON blocks with arguments as an object or a string", () => {
+		expect(parseToolCallBlock('{"name": "read", "arguments": {"path": "a"}}')).toEqual({
+			name: "read",
+			rawArguments: '{"path":"a"}',
+		});
+		expect(parseToolCallBlock('{"name": "read", "parameters": "{\\"path\\": \\"a\\"}"}')).toEqual({
+			name: "read",
+			rawArguments: '{"path": "a"}',
+		});
+	});
+
+	it("should repair malformed JSON", () => {
+		expect(parseToolCallBlock('{"name": "read", "arguments": {"path": "a",}')).toEqual({
+			name: "read",
+			rawArguments: '{"path":"a"}',
+		});
+	});
+
+	it("should read XML blocks", () => {
+		expect(parseToolCallBlock('\n<name>read</name>\n<arguments>{"path": "a"}</arguments>\n')).toEqual({
+			name: "read",
+			rawArguments: '{"path": "a"}',
+		});
+	});
+
+	it("should return undefined without a tool name", () => {
+		expect(parseToolCallBlock('{"arguments": {}}')).toBeUndefined();
+		expect(parseToolCallBlock("just text")).toBeUndefined();
+	});
+});
@@ -0,0 +1,173 @@
+/**
+ * Prompted Tool Calling
+ * Tool calling for models without native function calling: tools are described
+ * in the system prompt, and calls are written as tagged blocks in the response text
+ */
+
+import { VSCODE_ROLE, type VsCodeContentPart, type VsCodeMessage } from "./types";
+import { isImagePart, isTextPart, isToolCallPart, isToolResultPart, toolResultText } from "./convert";
+import { repairJson } from "./toolArguments";
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+/** Tags around a tool call in the response text */
+export const TOOL_CALL_OPEN_TAG = "<tool_call>";
+export const TOOL_CALL_CLOSE_TAG = "</tool_call>";
+
+/**
+ * Build the system prompt section that describes the tools and the call format
+ *
+ * @param tools - VS Code tools ({ name, description?, inputSchema })
+ * @param required - Whether the model must call a tool (TOOL_MODE.Required)
+ */
+export function buildToolPrompt(tools: readonly unknown[], required = false): string {
+	const descriptions = tools.map((tool) => {
+		const t = tool as { name: string; description?: string; inputSchema?: unknown };
+		const schema = t.inputSchema ?? { type: "object", properties: {} };
+		return [`## ${t.name}`, t.description?.trim(), `Parameters (JSON Schema): ${JSON.stringify(schema)}`]
+			.filter(Boolean)
+			.join("\n");
+	});
+
+	return [
+		"# Tools",
+		"",
+		"You can call the tools below. To call a tool, write a block in exactly this format:",
+		"",
+		TOOL_CALL_OPEN_TAG,
+		'{"name": "tool_name", "arguments": {"parameter": "value"}}',
+		TOOL_CALL_CLOSE_TAG,
+		"",
+		"Write one block per call; several blocks may follow each other. The arguments must be a JSON object " +
+			"matching the tool's parameters. After your tool calls, stop and wait: the results arrive in the " +
+			"next message inside <tool_result> blocks. Never write tool results yourself.",
+		...(required ? ["", "You must call at least one tool in your reply."] : []),
+		"",
+		descriptions.join("\n\n"),
+	].join("\n");
+}
+
+// ============================================================================
+// History Conversion
+// ============================================================================
+
+function formatToolCall(name: string, input: Record<string, unknown>): string {
+	return `${TOOL_CALL_OPEN_TAG}\n${JSON.stringify({ name, arguments: input })}\n${TOOL_CALL_CLOSE_TAG}`;
+}
+
+function formatToolResult(callId: string, name: string | undefined, content: readonly unknown[]): string {
+	const attributes = name ? `name="${name}" id="${callId}"` : `id="${callId}"`;
+	return `<tool_result ${attributes}>\n${toolResultText(content)}\n</tool_result>`;
+}
+
+/**
+ * Rewrite a history for prompted tool calling
+ *
+ * The tool prompt is appended to the system message (or added as one), tool
+ * calls become `<tool_call>` blocks in the assistant text, and tool results
+ * become `<tool_result>` blocks in the user text. Images returned by tools
+ * follow their result as image parts.
+ *
+ * @param messages - VS Code chat messages
+ * @param tools - Tools available to the model
+ * @param required - Whether the model must call a tool
+ * @returns New messages without tool call or tool result parts
+ */
+export function toPromptedToolMessages(
+	messages: readonly VsCodeMessage[],
+	tools: readonly unknown[],
+	required = false
+): VsCodeMessage[] {
+	const toolNames = new Map<string, string>();
+	const result: VsCodeMessage[] = [];
+
+	for (const message of messages) {
+		const content: VsCodeContentPart[] = [];
+		// Blocks are separated from neighbouring text; plain text parts are joined as they are
+		let afterBlock = false;
+		const appendText = (text: string, isBlock: boolean) => {
+			const last = content[content.length - 1];
+			if (last && isTextPart(last)) {
+				const separator = (isBlock || afterBlock) && last.value.trim() ? "\n\n" : "";
+				content[content.length - 1] = { value: last.value + separator + text };
+			} else {
+				content.push({ value: text });
+			}
+			afterBlock = isBlock;
+		};
+
+		for (const part of message.content ?? []) {
+			if (isToolCallPart(part)) {
+				toolNames.set(part.callId, part.name);
+				appendText(formatToolCall(part.name, part.input), true);
+			} else if (isToolResultPart(part)) {
+				appendText(formatToolResult(part.callId, toolNames.get(part.callId), part.content), true);
+				for (const image of part.content.filter(isImagePart)) {
+					content.push(image);
+				}
+			} else if (isTextPart(part)) {
+				appendText(part.value, false);
+			} else {
+				content.push(part);
+			}
+		}
+		result.push({ ...message, content });
+	}
+
+	const prompt = buildToolPrompt(tools, required);
+	const systemIndex = result.findIndex((m) => m.role === VSCODE_ROLE.System);
+	if (systemIndex === -1) {
+		result.unshift({ role: VSCODE_ROLE.System, content: [{ value: prompt }] });
+	} else {
+		const system = result[systemIndex];
+		result[systemIndex] = { ...system, content: [...(system.content ?? []), { value: `\n\n${prompt}` }] };
+	}
+	return result;
+}
+
+// ============================================================================
+// Call Parsing
+// ============================================================================
+
+/**
+ * Read the tool name and raw arguments from the body of a `<tool_call>` block
+ *
+ * Accepts JSON (`{"name": ..., "arguments": ...}`, also with `parameters` or
+ * `input`) and XML (`<name>...</name><arguments>...</arguments>`). Malformed
+ * JSON is repaired where possible.
+ *
+ * @returns The call, or undefined if no tool name was found
+ */
+export function parseToolCallBlock(body: string): { name: string; rawArguments: string } | undefined {
+	const text = body.trim();
+
+	const xmlName = /<name>\s*([\s\S]*?)\s*<\/name>/.exec(text);
+	if (xmlName) {
+		const args = /<(arguments|parameters)>([\s\S]*?)(?:<\/\1>|$)/.exec(text);
+		return xmlName[1] ? { name: xmlName[1], rawArguments: args?.[2].trim() ?? "" } : undefined;
+	}
+
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch {
+		const repaired = repairJson(text);
+		try {
+			value = repaired === undefined ? undefined : JSON.parse(repaired);
+		} catch {
+			return undefined;
+		}
+	}
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return undefined;
+	}
+
+	const call = value as Record<string, unknown>;
+	if (typeof call.name !== "string" || !call.name) {
+		return undefined;
+	}
+	const args = call.arguments ?? call.parameters ?? call.input ?? {};
+	return { name: call.name, rawArguments: typeof args === "string" ? args : JSON.stringify(args) };
+}
@@ -1,4 +1,6 @@
 import { describe, it, expect } from "vitest";
+import { convertToOpenAIMessages } from "./providerHelpers";
+import { ToolNameMap } from "../toolConverter";
 import {
 	isTextPart,
 	isToolCallPart,
@@ -8,8 +10,14 @@ import {
 	isImagePart,
 	ROLE,
 	convertToOpenAI,
+	convertToOpenAIResponses,
+	convertToAnthropic,
+	convertToGemini,
+	toGeminiCallId,
+	convertToOllama,
 	ensureValidMessageOrder,
 	buildRequest,
+	TOOL_MODE,
 } from "./index";
 
 describe("Type Guards", () => {
@@ -178,6 +186,91 @@ describe("convertToOpenAI", () => {
 		});
 	});
 
+	it("should emit one tool message per parallel tool result", () => {
+		const input = [
+			{
+				role: ROLE.Assistant,
+				content: [
+					{ callId: "a", name: "read", input: { path: "a.ts" } },
+					{ callId: "b", name: "read", input: { path: "b.ts" } },
+				],
+			},
+			{
+				role: ROLE.User,
+				content: [
+					{ callId: "a", content: [{ value: "line 1" }, { value: "line 2" }] },
+					{ callId: "b", content: [{ value: "other file" }] },
+				],
+			},
+		];
+		const result = convertToOpenAI(input);
+
+		expect(result.slice(1)).toEqual([
+			{ role: "tool", tool_call_id: "a", content: "line 1\nline 2" },
+			{ role: "tool", tool_call_id: "b", content: "other file" },
+		]);
+	});
+
+	it("should keep assistant text next to tool calls", () => {
+		const input = [
+			{
+				role: ROLE.Assistant,
+				content: [{ value: "Let me " }, { value: "check." }, { callId: "a", name: "ls", input: {} }],
+			},
+		];
+		const result = convertToOpenAI(input);
+
+		expect(result).toHaveLength(1);
+		expect(result[0].content).toBe("Let me check.");
+		expect(result[0].tool_calls).toHaveLength(1);
+	});
+
+	it("should decode textual data parts and carry tool images in a user message", () => {
+		const png = new Uint8Array([1, 2, 3]);
+		const input = [
+			{
+				role: ROLE.User,
+				content: [
+					{
+						callId: "shot",
+						content: [
+							{ mimeType: "application/json", data: new TextEncoder().encode('{"ok":true}') },
+							{ mimeType: "image/png", data: png },
+						],
+					},
+					{ value: "What do you see?" },
+				],
+			},
+		];
+		const result = convertToOpenAI(input);
+
+		expect(result).toEqual([
+			{ role: "tool", tool_call_id: "shot", content: '{"ok":true}' },
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Image output of tool call shot:" },
+					{ type: "image_url", image_url: { url: "data:image/png;base64,AQID" } },
+					{ type: "text", text: "What do you see?" },
+				],
+			},
+		]);
+	});
+
+	it("should be used by convertToOpenAIMessages", () => {
+		const input = [
+			{
+				role: ROLE.User,
+				content: [
+					{ callId: "a", content: [{ value: "1" }] },
+					{ callId: "b", content: [{ value: "2" }] },
+				],
+			},
+		];
+
+		expect(convertToOpenAIMessages(input)).toEqual(convertToOpenAI(input));
+	});
+
 	it("should handle empty content", () => {
 		const input = [{ role: ROLE.User, content: [] }];
 		const result = convertToOpenAI(input);
@@ -204,6 +297,164 @@ describe("convertToOpenAI", () => {
 	});
 });
 
+describe("convertToOpenAIResponses", () => {
+	it("should convert history to input items with instructions", () => {
+		const input = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "Weather?" }] },
+			{
+				role: ROLE.Assistant,
+				content: [{ value: "Checking." }, { callId: "call_1", name: "get_weather", input: { city: "Rome" } }],
+			},
+			{ role: ROLE.User, content: [{ callId: "call_1", content: [{ value: "Sunny" }] }] },
+		];
+		expect(convertToOpenAIResponses(input)).toEqual({
+			instructions: "Be brief.",
+			input: [
+				{ role: "user", content: [{ type: "input_text", text: "Weather?" }] },
+				{ role: "assistant", content: "Checking." },
+				{ type: "function_call", call_id: "call_1", name: "get_weather", arguments: '{"city":"Rome"}' },
+				{ type: "function_call_output", call_id: "call_1", output: "Sunny" },
+			],
+		});
+	});
+
+	it("should convert images to input_image data URLs", () => {
+		const input = [{ role: ROLE.User, content: [{ mimeType: "image/png", data: new Uint8Array([1, 2, 3]) }] }];
+		expect(convertToOpenAIResponses(input).input).toEqual([
+			{ role: "user", content: [{ type: "input_image", image_url: "data:image/png;base64,AQID" }] },
+		]);
+	});
+});
+
+describe("convertToGemini", () => {
+	it("should map roles and move system text to systemInstruction", () => {
+		const input = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "Hi" }] },
+			{ role: ROLE.Assistant, content: [{ value: "Hello!" }] },
+		];
+		const result = convertToGemini(input);
+		expect(result.systemInstruction).toEqual({ parts: [{ text: "Be brief." }] });
+		expect(result.contents).toEqual([
+			{ role: "user", parts: [{ text: "Hi" }] },
+			{ role: "model", parts: [{ text: "Hello!" }] },
+		]);
+	});
+
+	it("should pair function responses with the name of their call", () => {
+		const input = [
+			{ role: ROLE.User, content: [{ value: "Weather?" }] },
+			{ role: ROLE.Assistant, content: [{ callId: "call_1", name: "get_weather", input: { city: "Beijing" } }] },
+			{ role: ROLE.User, content: [{ callId: "call_1", content: [{ value: "Sunny" }, { value: "25°C" }] }] },
+		];
+		const result = convertToGemini(input);
+		expect(result.contents[1]).toEqual({
+			role: "model",
+			parts: [{ functionCall: { id: "call_1", name: "get_weather", args: { city: "Beijing" } } }],
+		});
+		expect(result.contents[2]).toEqual({
+			role: "user",
+			parts: [{ functionResponse: { id: "call_1", name: "get_weather", response: { content: "Sunny\n25°C" } } }],
+		});
+	});
+
+	it("should fall back to unknown_tool for results without a call", () => {
+		const input = [{ role: ROLE.User, content: [{ callId: "missing", content: [{ value: "ok" }] }] }];
+		const result = convertToGemini(input);
+		expect(result.contents[0].parts).toEqual([
+			{ functionResponse: { id: "missing", name: "unknown_tool", response: { content: "ok" } } },
+		]);
+	});
+
+	it("should send thought signatures carried in the callId back on their function calls", () => {
+		const callId = toGeminiCallId("call_sig", "c2lnbmF0dXJl");
+		const input = [
+			{ role: ROLE.User, content: [{ value: "Weather?" }] },
+			{
+				role: ROLE.Assistant,
+				content: [
+					{ callId, name: "get_weather", input: { city: "Paris" } },
+					{ callId: "call_other", name: "get_time", input: {} },
+				],
+			},
+			{ role: ROLE.User, content: [{ callId, content: [{ value: "Sunny" }] }] },
+		];
+		const result = convertToGemini(input);
+		expect(result.contents[1].parts).toEqual([
+			{
+				functionCall: { id: "call_sig", name: "get_weather", args: { city: "Paris" } },
+				thoughtSignature: "c2lnbmF0dXJl",
+			},
+			{ functionCall: { id: "call_other", name: "get_time", args: {} } },
+		]);
+		expect(result.contents[2].parts).toEqual([
+			{ functionResponse: { id: "call_sig", name: "get_weather", response: { content: "Sunny" } } },
+		]);
+	});
+
+	it("should send images as inline data and skip cache control markers", () => {
+		const input = [
+			{
+				role: ROLE.User,
+				content: [
+					{ value: "What is this?" },
+					{ mimeType: "image/png", data: new Uint8Array([1, 2, 3]) },
+					{ mimeType: "cache_control", data: new Uint8Array([]) },
+				],
+			},
+		];
+		const result = convertToGemini(input);
+		expect(result.contents[0].parts).toEqual([
+			{ text: "What is this?" },
+			{ inlineData: { mimeType: "image/png", data: "AQID" } },
+		]);
+	});
+
+	it("should merge adjacent turns and start with a user turn", () => {
+		const input = [
+			{ role: ROLE.Assistant, content: [{ value: "A" }] },
+			{ role: ROLE.Assistant, content: [{ value: "B" }] },
+		];
+		const result = convertToGemini(input);
+		expect(result.contents).toEqual([
+			{ role: "user", parts: [{ text: "(continue)" }] },
+			{ role: "model", parts: [{ text: "A" }, { text: "B" }] },
+		]);
+	});
+});
+
+describe("convertToOllama", () => {
+	it("should convert tool calls and link results by tool name", () => {
+		const input = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "Weather?" }] },
+			{ role: ROLE.Assistant, content: [{ callId: "call_1", name: "get_weather", input: { city: "Oslo" } }] },
+			{ role: ROLE.User, content: [{ callId: "call_1", content: [{ value: "Rainy" }] }] },
+		];
+		expect(convertToOllama(input)).toEqual([
+			{ role: "system", content: "Be brief." },
+			{ role: "user", content: "Weather?" },
+			{
+				role: "assistant",
+				content: "",
+				tool_calls: [{ function: { name: "get_weather", arguments: { city: "Oslo" } } }],
+			},
+			{ role: "tool", content: "Rainy", tool_name: "get_weather" },
+		]);
+	});
+
+	it("should attach images as base64 strings", () => {
+		const input = [
+			{
+				role: ROLE.User,
+				content: [{ value: "Describe" }, { mimeType: "image/png", data: new Uint8Array([1, 2, 3]) }],
+			},
+		];
+		expect(convertToOllama(input)).toEqual([{ role: "user", content: "Describe", images: ["AQID"] }]);
+	});
+});
+
 describe("ensureValidMessageOrder", () => {
 	it("should create user message if empty", () => {
 		const input: Array<{ role: "user" | "assistant"; content: Array<{ type: "text"; text: string }> }> = [];
@@ -247,6 +498,97 @@ describe("ensureValidMessageOrder", () => {
 	});
 });
 
+describe("convertToAnthropic prompt caching", () => {
+	const cacheMarker = { mimeType: "cache_control", data: new TextEncoder().encode("ephemeral") };
+
+	it("should put cache_control on the block preceding a marker", () => {
+		const { messages } = convertToAnthropic([
+			{ role: ROLE.User, content: [{ value: "First" }, { value: "Second" }, cacheMarker, { value: "Third" }] },
+		]);
+
+		expect(messages[0].content).toEqual([
+			{ type: "text", text: "First" },
+			{ type: "text", text: "Second", cache_control: { type: "ephemeral" } },
+			{ type: "text", text: "Third" },
+		]);
+	});
+
+	it("should cache tool results and tool calls", () => {
+		const { messages } = convertToAnthropic([
+			{ role: ROLE.User, content: [{ value: "Read it" }] },
+			{ role: ROLE.Assistant, content: [{ callId: "call_1", name: "read_file", input: {} }, cacheMarker] },
+			{ role: ROLE.User, content: [{ callId: "call_1", content: [{ value: "file contents" }, cacheMarker] }] },
+		]);
+
+		expect(messages[1].content[0]).toMatchObject({ type: "tool_use", cache_control: { type: "ephemeral" } });
+		expect(messages[2].content[0]).toEqual({
+			type: "tool_result",
+			tool_use_id: "call_1",
+			content: "file contents",
+			cache_control: { type: "ephemeral" },
+		});
+	});
+
+	it("should return a cached system prompt as a text block", () => {
+		const { system } = convertToAnthropic([
+			{ role: ROLE.System, content: [{ value: "You are helpful." }, cacheMarker] },
+			{ role: ROLE.User, content: [{ value: "Hi" }] },
+		]);
+
+		expect(system).toEqual([{ type: "text", text: "You are helpful.", cache_control: { type: "ephemeral" } }]);
+	});
+
+	it("should cache the system prompt when requested", () => {
+		const messages = [
+			{ role: ROLE.System, content: [{ value: "You are helpful." }] },
+			{ role: ROLE.User, content: [{ value: "Hi" }] },
+		];
+
+		expect(convertToAnthropic(messages).system).toBe("You are helpful.");
+		expect(convertToAnthropic(messages, { cacheSystem: true }).system).toEqual([
+			{ type: "text", text: "You are helpful.", cache_control: { type: "ephemeral" } },
+		]);
+	});
+
+	it("should ignore markers without a preceding block", () => {
+		const { messages } = convertToAnthropic([{ role: ROLE.User, content: [cacheMarker, { value: "Hi" }] }]);
+
+		expect(messages[0].content).toEqual([{ type: "text", text: "Hi" }]);
+	});
+});
+
+describe("convertToAnthropic thinking", () => {
+	it("should send signed thinking back as a thinking block before the text", () => {
+		const { messages } = convertToAnthropic([
+			{ role: ROLE.User, content: [{ value: "Read it" }] },
+			{
+				role: ROLE.Assistant,
+				content: [
+					{ value: "Let me ", id: "t1" },
+					{ value: ["read ", "it"], metadata: { signature: "sig-1" } },
+					{ value: "Reading" },
+					{ callId: "call_1", name: "read_file", input: {} },
+				],
+			},
+		]);
+
+		expect(messages[1].content).toEqual([
+			{ type: "thinking", thinking: "Let me read it", signature: "sig-1" },
+			{ type: "text", text: "Reading" },
+			{ type: "tool_use", id: "call_1", name: "read_file", input: {} },
+		]);
+	});
+
+	it("should drop thinking without a signature", () => {
+		const { messages } = convertToAnthropic([
+			{ role: ROLE.User, content: [{ value: "Hi" }] },
+			{ role: ROLE.Assistant, content: [{ value: "Hmm", metadata: {} }, { value: "Hello" }] },
+		]);
+
+		expect(messages[1].content).toEqual([{ type: "text", text: "Hello" }]);
+	});
+});
+
 describe("buildRequest", () => {
 	it("should build OpenAI format request", () => {
 		const messages = [{ role: ROLE.User, content: [{ value: "Hello" }] }];
@@ -255,9 +597,17 @@ describe("buildRequest", () => {
 		expect(result.model).toBe("gpt-4o");
 		expect(result.stream).toBe(true);
 		expect(result.max_tokens).toBe(4096);
+		expect(result.stream_options).toEqual({ include_usage: true });
 		expect(result.messages as unknown[]).toHaveLength(1);
 	});
 
+	it("should leave out stream_options when stream usage is turned off", () => {
+		const messages = [{ role: ROLE.User, content: [{ value: "Hello" }] }];
+		const result = buildRequest("openai", "gpt-4o", messages, undefined, 4096, { streamUsage: false });
+
+		expect(result).not.toHaveProperty("stream_options");
+	});
+
 	it("should build Anthropic format request", () => {
 		const messages = [{ role: ROLE.User, content: [{ value: "Hello" }] }];
 		const result = buildRequest("anthropic", "claude-3-5-sonnet", messages, undefined, 4096);
@@ -268,6 +618,103 @@ describe("buildRequest", () => {
 		expect(result.messages as unknown[]).toHaveLength(1);
 	});
 
+	it("should place automatic Anthropic cache breakpoints on system and tools", () => {
+		const messages = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "Hello" }] },
+		];
+		const tools = [
+			{ name: "a", inputSchema: { type: "object" } },
+			{ name: "b", inputSchema: { type: "object" } },
+		];
+		const result = buildRequest("anthropic", "glm-4.7", messages, tools as readonly unknown[], 4096, {
+			promptCaching: { system: true, tools: true },
+		});
+
+		expect(result.system).toEqual([{ type: "text", text: "Be brief.", cache_control: { type: "ephemeral" } }]);
+		const resultTools = result.tools as { name: string; cache_control?: unknown }[];
+		expect(resultTools[0].cache_control).toBeUndefined();
+		expect(resultTools[1].cache_control).toEqual({ type: "ephemeral" });
+	});
+
+	it("should keep at most four Anthropic cache breakpoints, dropping the earliest", () => {
+		const marker = { mimeType: "cache_control", data: new Uint8Array() };
+		const messages = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "1" }, marker] },
+			{ role: ROLE.Assistant, content: [{ value: "2" }, marker] },
+			{ role: ROLE.User, content: [{ value: "3" }, marker] },
+			{ role: ROLE.Assistant, content: [{ value: "4" }, marker] },
+		];
+		const result = buildRequest("anthropic", "glm-4.7", messages, undefined, 4096, {
+			promptCaching: { system: true },
+		});
+
+		const cached = (result.messages as { content: { text: string; cache_control?: unknown }[] }[])
+			.flatMap((m) => m.content)
+			.filter((b) => b.cache_control)
+			.map((b) => b.text);
+		expect(cached).toEqual(["2", "3", "4"]);
+	});
+
+	it("should build Gemini format request", () => {
+		const messages = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "Hello" }] },
+		];
+		const tools = [{ name: "getWeather", inputSchema: { type: "object", properties: { city: { type: "string" } } } }];
+		const result = buildRequest("gemini", "gemini-2.5-flash", messages, tools as readonly unknown[], 4096);
+
+		expect(result.model).toBeUndefined();
+		expect(result.stream).toBeUndefined();
+		expect(result.generationConfig).toEqual({ maxOutputTokens: 4096 });
+		expect(result.systemInstruction).toEqual({ parts: [{ text: "Be brief." }] });
+		expect(result.contents as unknown[]).toHaveLength(1);
+		expect(result.tools).toEqual([
+			{
+				functionDeclarations: [
+					{ name: "getWeather", parameters: { type: "object", properties: { city: { type: "string" } } } },
+				],
+			},
+		]);
+	});
+
+	it("should build Ollama format request", () => {
+		const messages = [{ role: ROLE.User, content: [{ value: "Hello" }] }];
+		const tools = [{ name: "getWeather", inputSchema: { type: "object", properties: { city: { type: "string" } } } }];
+		const result = buildRequest("ollama", "llama3.2", messages, tools as readonly unknown[], 2048);
+
+		expect(result.model).toBe("llama3.2");
+		expect(result.stream).toBe(true);
+		expect(result.options).toEqual({ num_predict: 2048 });
+		expect(result.messages).toEqual([{ role: "user", content: "Hello" }]);
+		expect(result.tools as unknown[]).toHaveLength(1);
+	});
+
+	it("should build OpenAI Responses format request", () => {
+		const messages = [
+			{ role: ROLE.System, content: [{ value: "Be brief." }] },
+			{ role: ROLE.User, content: [{ value: "Hello" }] },
+		];
+		const tools = [{ name: "getWeather", inputSchema: { type: "object", properties: { city: { type: "string" } } } }];
+		const result = buildRequest("openai-responses", "gpt-5", messages, tools as readonly unknown[], 4096);
+
+		expect(result.model).toBe("gpt-5");
+		expect(result.stream).toBe(true);
+		expect(result.max_output_tokens).toBe(4096);
+		expect(result.max_tokens).toBeUndefined();
+		expect(result.instructions).toBe("Be brief.");
+		expect(result.input as unknown[]).toHaveLength(1);
+		expect(result.tools).toEqual([
+			{
+				type: "function",
+				name: "getWeather",
+				parameters: { type: "object", properties: { city: { type: "string" } } },
+				strict: false,
+			},
+		]);
+	});
+
 	it("should include tools in OpenAI format", () => {
 		const messages = [{ role: ROLE.User, content: [{ value: "What is the weather?" }] }];
 		const tools = [{ name: "getWeather", inputSchema: { type: "object", properties: { city: { type: "string" } } } }];
@@ -286,6 +733,89 @@ describe("buildRequest", () => {
 		expect(result.tools as unknown[]).toHaveLength(1);
 	});
 
+	it("should use the sanitized tool names for history tool calls", () => {
+		const messages = [
+			{ role: ROLE.User, content: [{ value: "Go" }] },
+			{ role: ROLE.Assistant, content: [{ callId: "c1", name: "fs.read", input: {} }] },
+			{ role: ROLE.User, content: [{ callId: "c1", content: [{ value: "ok" }] }] },
+		];
+		const tools = [
+			{ name: "fs_read", inputSchema: { type: "object" } },
+			{ name: "fs.read", inputSchema: { type: "object" } },
+		] as readonly unknown[];
+		const toolNames = new ToolNameMap();
+
+		const result = buildRequest("anthropic", "m", messages, tools, 100, { toolNames });
+
+		expect((result.tools as { name: string }[]).map((t) => t.name)).toEqual(["fs_read", "fs_read_2"]);
+		expect((result.messages as { content: { name?: string }[] }[])[1].content[0].name).toBe("fs_read_2");
+		expect(toolNames.toOriginalName("fs_read_2")).toBe("fs.read");
+	});
+
+	it("should send only temperature to Anthropic when top_p is also set", () => {
+		const messages = [{ role: ROLE.User, content: [{ value: "Hi" }] }];
+
+		const both = buildRequest("anthropic", "m", messages, undefined, 100, {
+			sampling: { temperature: 0.7, top_p: 0.9 },
+		});
+		expect(both.temperature).toBe(0.7);
+		expect(both).not.toHaveProperty("top_p");
+
+		const topP = buildRequest("anthropic", "m", messages, undefined, 100, { sampling: { top_p: 0.9 } });
+		expect(topP.top_p).toBe(0.9);
+		expect(topP).not.toHaveProperty("temperature");
+	});
+
+	it("should map sampling options onto each API mode", () => {
+		const messages = [{ role: ROLE.User, content: [{ value: "Hi" }] }];
+		const sampling = { temperature: 0.2, top_p: 0.9, top_k: 40, seed: 1, stop: ["END"] };
+
+		expect(buildRequest("openai", "m", messages, undefined, 100, { sampling })).toMatchObject(sampling);
+		const anthropic = buildRequest("anthropic", "m", messages, undefined, 100, { sampling });
+		expect(anthropic).toMatchObject({ temperature: 0.2, top_k: 40, stop_sequences: ["END"] });
+		expect(anthropic.seed).toBeUndefined();
+		expect(anthropic.top_p).toBeUndefined();
+		const responses = buildRequest("openai-responses", "m", messages, undefined, 100, { sampling });
+		expect(responses).toMatchObject({ temperature: 0.2, top_p: 0.9 });
+		expect(responses.top_k).toBeUndefined();
+		expect(buildRequest("gemini", "m", messages, undefined, 100, { sampling }).generationConfig).toEqual({
+			maxOutputTokens: 100,
+			temperature: 0.2,
+			topP: 0.9,
+			topK: 40,
+			seed: 1,
+			stopSequences: ["END"],
+		});
+		expect(buildRequest("ollama", "m", messages, undefined, 100, { sampling }).options).toEqual({
+			num_predict: 100,
+			...sampling,
+		});
+	});
+
+	it("should force a tool call in required tool mode", () => {
+		const messages = [{ role: ROLE.User, content: [{ value: "Hi" }] }];
+		const tools = [{ name: "search", inputSchema: { type: "object" } }] as readonly unknown[];
+		const options = { toolMode: TOOL_MODE.Required };
+
+		expect(buildRequest("openai", "m", messages, tools, 100, options).tool_choice).toBe("required");
+		expect(buildRequest("openai-responses", "m", messages, tools, 100, options).tool_choice).toBe("required");
+		expect(buildRequest("anthropic", "m", messages, tools, 100, options).tool_choice).toEqual({ type: "any" });
+		expect(buildRequest("gemini", "m", messages, tools, 100, options).toolConfig).toEqual({
+			functionCallingConfig: { mode: "ANY" },
+		});
+		expect(buildRequest("ollama", "m", messages, tools, 100, options).tool_choice).toBeUndefined();
+	});
+
+	it("should leave tool choice to the model in auto mode or without tools", () => {
+		const messages = [{ role: ROLE.User, content: [{ value: "Hi" }] }];
+		const tools = [{ name: "search", inputSchema: { type: "object" } }] as readonly unknown[];
+
+		expect(buildRequest("openai", "m", messages, tools, 100, { toolMode: TOOL_MODE.Auto }).tool_choice).toBeUndefined();
+		expect(
+			buildRequest("anthropic", "m", messages, undefined, 100, { toolMode: TOOL_MODE.Required }).tool_choice
+		).toBeUndefined();
+	});
+
 	it("should include system message in Anthropic format", () => {
 		const messages = [
 			{ role: ROLE.System, content: [{ value: "You are a helpful assistant." }] },
@@ -3,13 +3,41 @@
  * Type guards, message conversion, and request building for VS Code provider integration
  */
 
-import type { VsCodeMessage } from "./types";
+import type { ApiMode, PromptCachingOptions, SamplingOption, SamplingOptions } from "../../core/types";
+import type {
+	AnthropicContentBlock,
+	AnthropicMessage,
+	AnthropicTextBlock,
+	AnthropicThinkingBlock,
+	AnthropicTool,
+	VsCodeMessage,
+} from "./types";
 import { OpenAIMessage } from "./types";
-import { convertToOpenAI, convertToAnthropic } from "./convert";
-import { convertToolsToOpenAI, convertToolsToAnthropic } from "../toolConverter";
+import {
+	convertToOpenAI,
+	convertToOpenAIResponses,
+	convertToAnthropic,
+	convertToGemini,
+	convertToOllama,
+} from "./convert";
+import {
+	convertToolsToOpenAI,
+	convertToolsToOpenAIResponses,
+	convertToolsToAnthropic,
+	convertToolsToGemini,
+	ToolNameMap,
+} from "../toolConverter";
+import { TOOL_MODE } from "./sampling";
 
 // Re-export streaming functions
-export { processOpenAIStream, processAnthropicStream } from "./streaming";
+export {
+	processOpenAIStream,
+	processOpenAIResponsesStream,
+	processAnthropicStream,
+	processGeminiStream,
+	processOllamaStream,
+	getStreamProcessor,
+} from "./streaming";
 
 // ============================================================================
 // Role Constants
@@ -75,66 +103,22 @@ export function isImagePart(part: unknown): part is { mimeType: string; data: Ui
 // Message Conversion
 // ============================================================================
 
+/**
+ * Convert VS Code messages to OpenAI Chat Completions messages
+ *
+ * Same as convertToOpenAI: one `tool` message per tool result, all text parts
+ * joined, and images carried as image_url parts.
+ */
 export function convertToOpenAIMessages(messages: readonly VsCodeMessage[]): OpenAIMessage[] {
-	const result: OpenAIMessage[] = [];
-
-	for (const msg of messages) {
-		const role = msg.role === ROLE.System ? "system" : msg.role === ROLE.Assistant ? "assistant" : "user";
-
-		if (msg.content === undefined || msg.content.length === 0) {
-			result.push({ role, content: "" });
-			continue;
-		}
-
-		let hasToolCall = false;
-		const toolCalls: OpenAIMessage["tool_calls"] = [];
-		let toolResultContent = "";
-
-		for (const part of msg.content) {
-			if (isToolCallPart(part)) {
-				hasToolCall = true;
-				toolCalls.push({
-					id: part.callId,
-					type: "function",
-					function: {
-						name: part.name,
-						arguments: JSON.stringify(part.input),
-					},
-				});
-			} else if (isToolResultPart(part)) {
-				toolResultContent = String(part.content[0] ?? "");
-			}
-		}
-
-		if (hasToolCall) {
-			if (role === "assistant") {
-				result.push({
-					role,
-					content: undefined,
-					tool_calls: toolCalls,
-				});
-			} else if (role === "user" && toolResultContent) {
-				result.push({
-					role: "tool",
-					tool_call_id: toolCalls?.[0]?.id ?? "",
-					content: toolResultContent,
-				});
-			}
-		} else {
-			const text = msg.content
-				.filter(isTextPart)
-				.map((p) => p.value)
-				.join("\n");
-			result.push({ role, content: text });
-		}
-	}
-
-	return result;
+	return convertToOpenAI(messages);
 }
 
 // Re-export for backwards compatibility
 export { convertToOpenAI } from "./convert";
+export { convertToOpenAIResponses } from "./convert";
 export { convertToAnthropic } from "./convert";
+export { convertToGemini } from "./convert";
+export { convertToOllama } from "./convert";
 
 // ============================================================================
 // Message Order Validation (Anthropic format)
@@ -185,30 +169,253 @@ export interface BuildRequestOptions {
 	readonly maxTokens?: number;
 }
 
+/**
+ * Optional settings applied by buildRequest
+ */
+export interface RequestOptions {
+	/** Automatic prompt cache breakpoints (anthropic mode only) */
+	promptCaching?: PromptCachingOptions;
+	/** Sampling parameters, see resolveSamplingOptions */
+	sampling?: SamplingOptions;
+	/** Tool calling mode (TOOL_MODE); Required forces a tool call when tools are given */
+	toolMode?: number;
+	/**
+	 * Receives the provider name of every tool. Resolve tool names returned by the
+	 * model with toolNames.toOriginalName (StreamCallbacks.resolveToolName).
+	 */
+	toolNames?: ToolNameMap;
+	/**
+	 * Ask for a final usage chunk with stream_options (openai mode only); turn it
+	 * off for servers that reject the field
+	 * @default true
+	 */
+	streamUsage?: boolean;
+}
+
+/**
+ * Request field for each sampling option, per API mode
+ *
+ * Options without a field are not sent. OpenAI mode passes top_k, which most
+ * OpenAI-compatible servers accept; use the provider allow-list where it is rejected.
+ */
+const SAMPLING_FIELDS: Record<ApiMode, Partial<Record<SamplingOption, string>>> = {
+	openai: {
+		temperature: "temperature",
+		top_p: "top_p",
+		top_k: "top_k",
+		presence_penalty: "presence_penalty",
+		frequency_penalty: "frequency_penalty",
+		seed: "seed",
+		stop: "stop",
+	},
+	"openai-responses": { temperature: "temperature", top_p: "top_p" },
+	anthropic: { temperature: "temperature", top_p: "top_p", top_k: "top_k", stop: "stop_sequences" },
+	gemini: {
+		temperature: "temperature",
+		top_p: "topP",
+		top_k: "topK",
+		presence_penalty: "presencePenalty",
+		frequency_penalty: "frequencyPenalty",
+		seed: "seed",
+		stop: "stopSequences",
+	},
+	ollama: {
+		temperature: "temperature",
+		top_p: "top_p",
+		top_k: "top_k",
+		presence_penalty: "presence_penalty",
+		frequency_penalty: "frequency_penalty",
+		seed: "seed",
+		stop: "stop",
+	},
+};
+
+/**
+ * Rename sampling options to the request fields of an API mode
+ */
+function mapSamplingOptions(provider: ApiMode, sampling: SamplingOptions | undefined): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	if (!sampling) {
+		return result;
+	}
+	const fields = SAMPLING_FIELDS[provider];
+	for (const [name, value] of Object.entries(sampling)) {
+		const field = fields[name as SamplingOption];
+		if (field && value !== undefined) {
+			result[field] = value;
+		}
+	}
+	// Current Claude models reject requests that set both; temperature wins
+	if (provider === "anthropic" && result.temperature !== undefined) {
+		delete result.top_p;
+	}
+	return result;
+}
+
+/** Anthropic rejects requests with more cache breakpoints than this */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/**
+ * Drop the earliest message breakpoints when a request has more than Anthropic allows
+ *
+ * Tool and system breakpoints are kept; later message breakpoints cover longer
+ * prefixes, so they are the most valuable.
+ */
+function limitCacheBreakpoints(
+	tools: AnthropicTool[] | undefined,
+	system: string | AnthropicTextBlock[] | undefined,
+	messages: AnthropicMessage[]
+): void {
+	let fixed = 0;
+	if (tools?.some((t) => t.cache_control)) {
+		fixed++;
+	}
+	if (Array.isArray(system) && system.some((b) => b.cache_control)) {
+		fixed++;
+	}
+
+	const marked = messages.flatMap((m) =>
+		m.content.filter(
+			(b): b is Exclude<AnthropicContentBlock, AnthropicThinkingBlock> => b.type !== "thinking" && !!b.cache_control
+		)
+	);
+	const excess = fixed + marked.length - MAX_CACHE_BREAKPOINTS;
+	for (const block of marked.slice(0, Math.max(0, excess))) {
+		delete block.cache_control;
+	}
+}
+
+/**
+ * Use provider tool names for tool calls in the history
+ */
+function renameHistoryToolCalls(messages: readonly VsCodeMessage[], toolNames: ToolNameMap): readonly VsCodeMessage[] {
+	return messages.map((msg) => {
+		const renamed = msg.content?.some(
+			(part) => isToolCallPart(part) && toolNames.toProviderName(part.name) !== part.name
+		);
+		if (!renamed) {
+			return msg;
+		}
+		return {
+			...msg,
+			content: msg.content?.map((part) =>
+				isToolCallPart(part) ? { ...part, name: toolNames.toProviderName(part.name) } : part
+			),
+		};
+	});
+}
+
 export function buildRequest(
-	provider: "openai" | "anthropic",
+	provider: ApiMode,
 	model: string,
 	messages: readonly VsCodeMessage[],
 	tools: readonly unknown[] | undefined,
-	maxTokens: number
+	maxTokens: number,
+	options: RequestOptions = {}
 ): Record<string, unknown> {
+	// Register the tools first so history tool calls use the same names
+	const toolNames = options.toolNames ?? new ToolNameMap();
+	for (const tool of tools ?? []) {
+		toolNames.add((tool as { name: string }).name);
+	}
+	messages = renameHistoryToolCalls(messages, toolNames);
+	const sampling = mapSamplingOptions(provider, options.sampling);
+	const toolRequired = options.toolMode === TOOL_MODE.Required;
+
+	if (provider === "gemini") {
+		// Gemini takes the model and streaming mode from the URL, not the body
+		const { systemInstruction, contents } = convertToGemini(messages);
+
+		const request: Record<string, unknown> = {
+			contents,
+			generationConfig: { maxOutputTokens: maxTokens, ...sampling },
+		};
+
+		if (systemInstruction) {
+			request.systemInstruction = systemInstruction;
+		}
+
+		if (tools && tools.length > 0) {
+			request.tools = convertToolsToGemini(tools, toolNames);
+			if (toolRequired) {
+				request.toolConfig = { functionCallingConfig: { mode: "ANY" } };
+			}
+		}
+
+		return request;
+	}
+
 	if (provider === "anthropic") {
 		// Use the proper Anthropic converter that handles tool_use and tool_result blocks
-		const { system, messages: anthropicMessages } = convertToAnthropic(messages);
+		const { system, messages: anthropicMessages } = convertToAnthropic(messages, {
+			cacheSystem: options.promptCaching?.system,
+		});
+		const anthropicTools: AnthropicTool[] | undefined =
+			tools && tools.length > 0 ? convertToolsToAnthropic(tools, toolNames) : undefined;
+		if (options.promptCaching?.tools && anthropicTools?.length) {
+			anthropicTools[anthropicTools.length - 1].cache_control = { type: "ephemeral" };
+		}
+		limitCacheBreakpoints(anthropicTools, system, anthropicMessages);
 
 		const request: Record<string, unknown> = {
 			model,
 			messages: anthropicMessages,
 			stream: true,
 			max_tokens: maxTokens,
+			...sampling,
 		};
 
 		if (system) {
 			request.system = system;
 		}
 
+		if (anthropicTools) {
+			request.tools = anthropicTools;
+			if (toolRequired) {
+				request.tool_choice = { type: "any" };
+			}
+		}
+
+		return request;
+	}
+
+	if (provider === "openai-responses") {
+		// OpenAI Responses API: system text goes to instructions, history to input items
+		const { instructions, input } = convertToOpenAIResponses(messages);
+
+		const request: Record<string, unknown> = {
+			model,
+			input,
+			stream: true,
+			max_output_tokens: maxTokens,
+			...sampling,
+		};
+
+		if (instructions) {
+			request.instructions = instructions;
+		}
+
 		if (tools && tools.length > 0) {
-			request.tools = convertToolsToAnthropic(tools);
+			request.tools = convertToolsToOpenAIResponses(tools, toolNames);
+			if (toolRequired) {
+				request.tool_choice = "required";
+			}
+		}
+
+		return request;
+	}
+
+	if (provider === "ollama") {
+		// Ollama native /api/chat format (tools use the OpenAI shape; tool_choice is not supported)
+		const request: Record<string, unknown> = {
+			model,
+			messages: convertToOllama(messages),
+			stream: true,
+			options: { num_predict: maxTokens, ...sampling },
+		};
+
+		if (tools && tools.length > 0) {
+			request.tools = convertToolsToOpenAI(tools, toolNames);
 		}
 
 		return request;
@@ -220,10 +427,18 @@ export function buildRequest(
 		messages: convertToOpenAI(messages),
 		stream: true,
 		max_tokens: maxTokens,
+		...sampling,
 	};
+	// Ask for a final usage chunk
+	if (options.streamUsage !== false) {
+		request.stream_options = { include_usage: true };
+	}
 
 	if (tools && tools.length > 0) {
-		request.tools = convertToolsToOpenAI(tools);
+		request.tools = convertToolsToOpenAI(tools, toolNames);
+		if (toolRequired) {
+			request.tool_choice = "required";
+		}
 	}
 
 	return request;
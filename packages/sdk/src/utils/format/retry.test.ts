@@ -0,0 +1,116 @@
+/**
+ * Unit tests for retry policy and rate limit header parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import { resolveRetryPolicy, parseRetryAfter, computeRetryDelay, sleep } from "./retry";
+
+describe("resolveRetryPolicy", () => {
+	it("should disable retries when no policy is given", () => {
+		expect(resolveRetryPolicy(undefined).maxAttempts).toBe(1);
+	});
+
+	it("should fill defaults for a partial policy", () => {
+		const policy = resolveRetryPolicy({ maxAttempts: 5, jitter: undefined });
+		expect(policy.maxAttempts).toBe(5);
+		expect(policy.initialDelayMs).toBe(1000);
+		expect(policy.jitter).toBe(0.2);
+		expect(policy.retryableStatuses).toContain(429);
+		expect(policy.retryableStatuses).toContain(529);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	const now = Date.parse("2025-01-01T00:00:00Z");
+
+	it("should return undefined without headers", () => {
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+		expect(parseRetryAfter(new Headers())).toBeUndefined();
+	});
+
+	it("should prefer retry-after-ms", () => {
+		expect(parseRetryAfter(new Headers({ "retry-after-ms": "1500", "retry-after": "9" }), now)).toBe(1500);
+	});
+
+	it("should parse retry-after seconds and HTTP dates", () => {
+		expect(parseRetryAfter(new Headers({ "retry-after": "4" }), now)).toBe(4000);
+		expect(parseRetryAfter(new Headers({ "retry-after": "Wed, 01 Jan 2025 00:00:10 GMT" }), now)).toBe(10000);
+	});
+
+	it("should use the longest exhausted OpenAI-style reset duration on 429", () => {
+		const headers = new Headers({
+			"x-ratelimit-remaining-requests": "0",
+			"x-ratelimit-reset-requests": "120ms",
+			"x-ratelimit-remaining-tokens": "0",
+			"x-ratelimit-reset-tokens": "1m6s",
+		});
+		expect(parseRetryAfter(headers, now, 429)).toBe(66000);
+	});
+
+	it("should parse Anthropic ISO reset times and unix timestamps", () => {
+		const anthropic = new Headers({
+			"anthropic-ratelimit-tokens-remaining": "0",
+			"anthropic-ratelimit-tokens-reset": "2025-01-01T00:00:03Z",
+		});
+		expect(parseRetryAfter(anthropic, now, 429)).toBe(3000);
+		const unix = new Headers({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(now / 1000 + 7) });
+		expect(parseRetryAfter(unix, now, 429)).toBe(7000);
+	});
+
+	it("should ignore reset headers of limits with quota left", () => {
+		const headers = new Headers({
+			"x-ratelimit-remaining-requests": "0",
+			"x-ratelimit-reset-requests": "2s",
+			"x-ratelimit-remaining-tokens": "15000",
+			"x-ratelimit-reset-tokens": "6m0s",
+		});
+		expect(parseRetryAfter(headers, now, 429)).toBe(2000);
+		expect(parseRetryAfter(new Headers({ "x-ratelimit-reset-tokens": "6m0s" }), now, 429)).toBeUndefined();
+	});
+
+	it("should ignore reset headers unless the status is 429", () => {
+		const headers = new Headers({ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" });
+		expect(parseRetryAfter(headers, now, 503)).toBeUndefined();
+		expect(parseRetryAfter(headers, now)).toBeUndefined();
+	});
+});
+
+describe("computeRetryDelay", () => {
+	const policy = resolveRetryPolicy({ initialDelayMs: 1000, backoffMultiplier: 2, jitter: 0, maxDelayMs: 5000 });
+
+	it("should back off exponentially up to maxDelayMs", () => {
+		expect(computeRetryDelay(policy, 1)).toBe(1000);
+		expect(computeRetryDelay(policy, 2)).toBe(2000);
+		expect(computeRetryDelay(policy, 3)).toBe(4000);
+		expect(computeRetryDelay(policy, 4)).toBe(5000);
+	});
+
+	it("should apply jitter within bounds", () => {
+		const jittered = resolveRetryPolicy({ initialDelayMs: 1000, jitter: 0.5 });
+		for (let i = 0; i < 20; i++) {
+			const delay = computeRetryDelay(jittered, 1)!;
+			expect(delay).toBeGreaterThanOrEqual(500);
+			expect(delay).toBeLessThanOrEqual(1500);
+		}
+	});
+
+	it("should honor server delays and give up when they exceed maxDelayMs", () => {
+		expect(computeRetryDelay(policy, 1, new Headers({ "retry-after": "3" }))).toBe(3000);
+		expect(computeRetryDelay(policy, 1, new Headers({ "retry-after": "30" }))).toBeUndefined();
+	});
+
+	it("should back off on 5xx responses that carry reset headers", () => {
+		const headers = new Headers({ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" });
+		expect(computeRetryDelay(policy, 1, headers, 503)).toBe(1000);
+		expect(computeRetryDelay(policy, 1, headers, 429)).toBeUndefined();
+	});
+});
+
+describe("sleep", () => {
+	it("should reject with AbortError when aborted", async () => {
+		const controller = new AbortController();
+		const promise = sleep(10000, controller.signal);
+		controller.abort();
+		await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+	});
+});
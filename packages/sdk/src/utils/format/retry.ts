@@ -0,0 +1,255 @@
+/**
+ * Retry Utilities
+ * Backoff and rate-limit header handling for chat requests
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Retry policy for chat requests
+ *
+ * Retries only happen before the first streamed token, so a partially
+ * streamed answer is never duplicated.
+ */
+export interface RetryPolicy {
+	/**
+	 * Maximum attempts, including the first request
+	 * @default 3
+	 */
+	maxAttempts?: number;
+	/**
+	 * Delay before the first retry in milliseconds
+	 * @default 1000
+	 */
+	initialDelayMs?: number;
+	/**
+	 * Upper bound for a single delay in milliseconds. If the server asks to wait
+	 * longer than this (Retry-After, rate limit reset headers), the request fails
+	 * instead of waiting.
+	 * @default 60000
+	 */
+	maxDelayMs?: number;
+	/**
+	 * Multiplier applied to the delay after each attempt
+	 * @default 2
+	 */
+	backoffMultiplier?: number;
+	/**
+	 * Random jitter as a fraction of the computed delay (0 disables jitter)
+	 * @default 0.2
+	 */
+	jitter?: number;
+	/**
+	 * HTTP status codes that trigger a retry
+	 * @default [408, 409, 425, 429, 500, 502, 503, 504, 529]
+	 */
+	retryableStatuses?: number[];
+}
+
+/**
+ * Information about an upcoming retry, reported before waiting
+ */
+export interface RetryInfo {
+	/** Number of the attempt about to be made (2 for the first retry) */
+	attempt: number;
+	/** Maximum attempts allowed by the policy */
+	maxAttempts: number;
+	/** Time to wait before the next attempt in milliseconds */
+	delayMs: number;
+	/** HTTP status of the failed attempt, if a response was received */
+	status?: number;
+	/** Error from the failed attempt */
+	error: Error;
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+	maxAttempts: 3,
+	initialDelayMs: 1000,
+	maxDelayMs: 60000,
+	backoffMultiplier: 2,
+	jitter: 0.2,
+	retryableStatuses: [408, 409, 425, 429, 500, 502, 503, 504, 529],
+};
+
+/**
+ * Fill in defaults for a retry policy. Without a policy, requests are not retried.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy | undefined): Required<RetryPolicy> {
+	if (!policy) {
+		return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+	}
+	return {
+		...DEFAULT_RETRY_POLICY,
+		...Object.fromEntries(Object.entries(policy).filter(([, v]) => v !== undefined)),
+	};
+}
+
+// ============================================================================
+// Header Parsing
+// ============================================================================
+
+/**
+ * Parse a Go-style duration used by OpenAI rate limit headers ("1s", "6m0s", "20ms")
+ */
+function parseDuration(value: string): number | undefined {
+	const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+	const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+	let total = 0;
+	let matched = false;
+	for (const [, amount, unit] of value.matchAll(pattern)) {
+		total += parseFloat(amount) * units[unit];
+		matched = true;
+	}
+	return matched ? total : undefined;
+}
+
+/**
+ * Parse a reset header value: seconds, duration, HTTP/ISO date, or unix timestamp
+ */
+function parseResetValue(value: string, now: number): number | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) {
+		return undefined;
+	}
+
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		const n = parseFloat(trimmed);
+		// Large values are unix timestamps rather than relative seconds
+		return n > 1e9 ? Math.max(0, n * 1000 - now) : n * 1000;
+	}
+
+	const duration = parseDuration(trimmed);
+	if (duration !== undefined && /^[\d.hms]+$/.test(trimmed)) {
+		return duration;
+	}
+
+	const date = Date.parse(trimmed);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - now);
+	}
+
+	return undefined;
+}
+
+/**
+ * Name of the remaining-quota header that belongs to a rate limit reset header,
+ * or undefined if the header is not a reset header
+ */
+function remainingHeaderFor(name: string): string | undefined {
+	if (name === "x-ratelimit-reset" || name.startsWith("x-ratelimit-reset-")) {
+		return name.replace("x-ratelimit-reset", "x-ratelimit-remaining");
+	}
+	if (name.startsWith("anthropic-ratelimit-") && name.endsWith("-reset")) {
+		return name.slice(0, -"reset".length) + "remaining";
+	}
+	return undefined;
+}
+
+/**
+ * Read how long the server asked us to wait, in milliseconds
+ *
+ * Checks, in order: retry-after-ms, retry-after, then the longest of the
+ * provider rate limit reset headers (x-ratelimit-reset-*, anthropic-ratelimit-*-reset).
+ * Reset headers are sent on ordinary responses too, so they only count for a
+ * 429 response and for limits whose matching *-remaining header is 0.
+ *
+ * @param headers - Response headers
+ * @param now - Current time, for absolute dates and timestamps
+ * @param status - HTTP status of the response; reset headers are ignored unless it is 429
+ */
+export function parseRetryAfter(
+	headers: Headers | undefined,
+	now: number = Date.now(),
+	status?: number
+): number | undefined {
+	if (!headers || typeof headers.get !== "function") {
+		return undefined;
+	}
+
+	const retryAfterMs = headers.get("retry-after-ms");
+	if (retryAfterMs && /^\d+(\.\d+)?$/.test(retryAfterMs.trim())) {
+		return parseFloat(retryAfterMs);
+	}
+
+	const retryAfter = headers.get("retry-after");
+	if (retryAfter) {
+		const parsed = parseResetValue(retryAfter, now);
+		if (parsed !== undefined) {
+			return parsed;
+		}
+	}
+
+	if (status !== 429) {
+		return undefined;
+	}
+
+	let longest: number | undefined;
+	headers.forEach((value, name) => {
+		const remaining = remainingHeaderFor(name.toLowerCase());
+		// Only limits that are used up explain the 429
+		if (remaining === undefined || headers.get(remaining)?.trim() !== "0") {
+			return;
+		}
+		const parsed = parseResetValue(value, now);
+		if (parsed !== undefined && (longest === undefined || parsed > longest)) {
+			longest = parsed;
+		}
+	});
+	return longest;
+}
+
+// ============================================================================
+// Backoff
+// ============================================================================
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param headers - Response headers of the failed attempt, if any
+ * @param status - HTTP status of the failed attempt, if any
+ * @returns Delay in milliseconds, or undefined if the server asked to wait longer than maxDelayMs
+ */
+export function computeRetryDelay(
+	policy: Required<RetryPolicy>,
+	attempt: number,
+	headers?: Headers,
+	status?: number
+): number | undefined {
+	const serverDelay = parseRetryAfter(headers, Date.now(), status);
+	if (serverDelay !== undefined) {
+		return serverDelay <= policy.maxDelayMs ? Math.ceil(serverDelay) : undefined;
+	}
+
+	const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+	const jitter = base * policy.jitter * (Math.random() * 2 - 1);
+	return Math.max(0, Math.round(Math.min(policy.maxDelayMs, base + jitter)));
+}
+
+/**
+ * Wait for the given time, rejecting with an AbortError if the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException("The operation was aborted.", "AbortError"));
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new DOMException("The operation was aborted.", "AbortError"));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for sampling option resolution
+ */
+
+import { describe, it, expect } from "vitest";
+import { resolveSamplingOptions } from "./sampling";
+
+describe("resolveSamplingOptions", () => {
+	it("should return an empty object without options or defaults", () => {
+		expect(resolveSamplingOptions(undefined)).toEqual({});
+		expect(resolveSamplingOptions({})).toEqual({});
+	});
+
+	it("should keep known options and ignore unknown keys and invalid values", () => {
+		expect(
+			resolveSamplingOptions({
+				temperature: 0.2,
+				top_p: "0.9",
+				seed: Number.NaN,
+				frequency_penalty: 0.5,
+				reasoning: "high",
+			})
+		).toEqual({ temperature: 0.2, frequency_penalty: 0.5 });
+	});
+
+	it("should accept camelCase aliases", () => {
+		expect(resolveSamplingOptions({ topP: 0.8, topK: 40, stopSequences: ["END"] })).toEqual({
+			top_p: 0.8,
+			top_k: 40,
+			stop: ["END"],
+		});
+	});
+
+	it("should normalize stop sequences", () => {
+		expect(resolveSamplingOptions({ stop: "###" })).toEqual({ stop: ["###"] });
+		expect(resolveSamplingOptions({ stop: ["a", 1, ""] })).toEqual({ stop: ["a"] });
+		expect(resolveSamplingOptions({ stop: [] })).toEqual({});
+	});
+
+	it("should let caller options override defaults", () => {
+		expect(resolveSamplingOptions({ temperature: 1 }, { defaults: { temperature: 0.6, top_p: 0.95 } })).toEqual({
+			temperature: 1,
+			top_p: 0.95,
+		});
+	});
+
+	it("should drop options that are not allowed, including defaults", () => {
+		expect(
+			resolveSamplingOptions(
+				{ temperature: 0.3, seed: 7 },
+				{ allowed: ["temperature", "top_p"], defaults: { top_p: 0.9, top_k: 20 } }
+			)
+		).toEqual({ temperature: 0.3, top_p: 0.9 });
+	});
+});
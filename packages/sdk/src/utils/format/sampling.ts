@@ -0,0 +1,100 @@
+/**
+ * Sampling Options
+ * Resolve per-request sampling parameters from VS Code modelOptions and provider settings
+ */
+
+import type { SamplingConfig, SamplingOption, SamplingOptions } from "../../core/types";
+
+// ============================================================================
+// Tool Mode
+// ============================================================================
+
+/**
+ * Tool calling mode, mirroring vscode.LanguageModelChatToolMode
+ */
+export const TOOL_MODE = {
+	/** The model chooses whether to call a tool */
+	Auto: 1,
+	/** The model must call one of the provided tools */
+	Required: 2,
+} as const;
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+const NUMERIC_OPTIONS = ["temperature", "top_p", "top_k", "presence_penalty", "frequency_penalty", "seed"] as const;
+
+/** Alternative spellings accepted in modelOptions */
+const OPTION_ALIASES: Record<string, SamplingOption> = {
+	topP: "top_p",
+	topK: "top_k",
+	presencePenalty: "presence_penalty",
+	frequencyPenalty: "frequency_penalty",
+	stopSequences: "stop",
+	stop_sequences: "stop",
+};
+
+function toStopSequences(value: unknown): string[] | undefined {
+	if (typeof value === "string") {
+		return value ? [value] : undefined;
+	}
+	if (Array.isArray(value)) {
+		const sequences = value.filter((v): v is string => typeof v === "string" && v.length > 0);
+		return sequences.length > 0 ? sequences : undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Extract the known sampling options from a modelOptions object
+ *
+ * Unknown keys and values of the wrong type are ignored.
+ */
+function parseModelOptions(modelOptions: Readonly<Record<string, unknown>>): SamplingOptions {
+	const result: SamplingOptions = {};
+
+	for (const [key, value] of Object.entries(modelOptions)) {
+		const name = OPTION_ALIASES[key] ?? key;
+		if (name === "stop") {
+			const stop = toStopSequences(value);
+			if (stop) {
+				result.stop = stop;
+			}
+		} else if ((NUMERIC_OPTIONS as readonly string[]).includes(name)) {
+			if (typeof value === "number" && Number.isFinite(value)) {
+				result[name as (typeof NUMERIC_OPTIONS)[number]] = value;
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Combine the caller's modelOptions with the provider's defaults and allow-list
+ *
+ * Caller values override defaults; options missing from `config.allowed` are
+ * dropped, including defaults.
+ *
+ * @param modelOptions - Free-form options from ProvideLanguageModelChatResponseOptions.modelOptions
+ * @param config - Provider sampling configuration
+ * @returns Sampling options to send, empty when nothing applies
+ */
+export function resolveSamplingOptions(
+	modelOptions: Readonly<Record<string, unknown>> | undefined,
+	config: SamplingConfig = {}
+): SamplingOptions {
+	const merged: SamplingOptions = { ...config.defaults, ...(modelOptions ? parseModelOptions(modelOptions) : {}) };
+	if (!config.allowed) {
+		return merged;
+	}
+
+	const result: SamplingOptions = {};
+	for (const name of config.allowed) {
+		if (merged[name] !== undefined) {
+			(result as Record<string, unknown>)[name] = merged[name];
+		}
+	}
+	return result;
+}
@@ -13,6 +13,10 @@ import {
 	type SendChatRequestConfig,
 	type ChatResponseCallbacks,
 } from "./sendChatRequest";
+import { AuthenticationError, NetworkError, QuotaExceededError, ServerError, StreamTimeoutError } from "./errors";
+import { TokenCalibrator } from "../tokenizer/calibration";
+import { encodePng } from "../image/png";
+import { sleep } from "./retry";
 
 // ============================================================================
 // Helpers
@@ -283,6 +287,95 @@ describe("sendChatRequest", () => {
 			expect(options.headers["Authorization"]).toBeUndefined();
 		});
 
+		it("should use x-goog-api-key auth and model URL for Gemini mode", async () => {
+			const geminiChunks = ['data: {"candidates":[{"content":{"parts":[{"text":"ok"}]},"finishReason":"STOP"}]}\n\n'];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(geminiChunks));
+
+			const callbacks = createCallbacks();
+			await sendChatRequest(
+				{
+					baseUrl: "https://generativelanguage.googleapis.com/v1beta/",
+					apiKey: "gemini-key",
+					apiMode: "gemini",
+				},
+				"gemini-2.5-flash",
+				simpleMessages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			const [url, options] = fetchSpy.mock.calls[0];
+			expect(url).toBe(
+				"https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse"
+			);
+			expect(options.headers["x-goog-api-key"]).toBe("gemini-key");
+			expect(options.headers["Authorization"]).toBeUndefined();
+			expect(JSON.parse(options.body).contents).toEqual([{ role: "user", parts: [{ text: "Hello" }] }]);
+			expect(callbacks.onText).toHaveBeenCalledWith("ok");
+		});
+
+		it("should fill the {model} placeholder in Gemini base URLs", async () => {
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse([]));
+
+			await sendChatRequest(
+				{
+					baseUrl: "https://proxy.example.com/v1beta/models/{model}:streamGenerateContent?key=abc",
+					apiKey: "gemini-key",
+					apiMode: "gemini",
+				},
+				"gemini-2.5-pro",
+				simpleMessages,
+				undefined,
+				1024,
+				createCallbacks()
+			);
+
+			const [url] = fetchSpy.mock.calls[0];
+			expect(url).toBe("https://proxy.example.com/v1beta/models/gemini-2.5-pro:streamGenerateContent?key=abc&alt=sse");
+		});
+
+		it("should post to /api/chat without auth for keyless Ollama", async () => {
+			const ollamaChunks = ['{"message":{"role":"assistant","content":"ok"},"done":false}\n', '{"done":true}\n'];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(ollamaChunks));
+
+			const callbacks = createCallbacks();
+			await sendChatRequest(
+				{ baseUrl: "http://localhost:11434/", apiKey: "", apiMode: "ollama" },
+				"llama3.2",
+				simpleMessages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			const [url, options] = fetchSpy.mock.calls[0];
+			expect(url).toBe("http://localhost:11434/api/chat");
+			expect(options.headers["Authorization"]).toBeUndefined();
+			expect(callbacks.onText).toHaveBeenCalledWith("ok");
+		});
+
+		it("should use Bearer auth and the Responses stream processor for openai-responses mode", async () => {
+			const chunks = ['data: {"type":"response.output_text.delta","delta":"ok"}\n\n'];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(chunks));
+
+			const callbacks = createCallbacks();
+			await sendChatRequest(
+				createOpenAIConfig({ baseUrl: "https://api.example.com/v1/responses", apiMode: "openai-responses" }),
+				"gpt-5",
+				simpleMessages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			const [url, options] = fetchSpy.mock.calls[0];
+			expect(url).toBe("https://api.example.com/v1/responses");
+			expect(options.headers["Authorization"]).toBe("Bearer test-api-key");
+			expect(JSON.parse(options.body).input).toBeDefined();
+			expect(callbacks.onText).toHaveBeenCalledWith("ok");
+		});
+
 		it("should include custom headers", async () => {
 			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
 			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
@@ -299,11 +392,559 @@ describe("sendChatRequest", () => {
 			const [, options] = fetchSpy.mock.calls[0];
 			expect(options.headers["X-Custom"]).toBe("value");
 		});
+
+		it("should report tool calls under their original VS Code names", async () => {
+			const anthropicChunks = [
+				'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"tool_use","id":"toolu_1","name":"mcp_fs_read","input":{}}}\n\n',
+				'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"{}"}}\n\n',
+				'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\n',
+				'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(anthropicChunks));
+			const callbacks = { ...createCallbacks(), onToolCallStart: vi.fn() };
+			const tools = [{ name: "mcp.fs.read", inputSchema: { type: "object" } }];
+
+			await sendChatRequest(createAnthropicConfig(), "test-model", simpleMessages, tools, 1024, callbacks);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(body.tools[0].name).toBe("mcp_fs_read");
+			expect(callbacks.onToolCallStart).toHaveBeenCalledWith("toolu_1", "mcp.fs.read");
+			expect(callbacks.onToolCall).toHaveBeenCalledWith("toolu_1", "mcp.fs.read", {});
+		});
+
+		it("should show the model an error result for unrepairable tool arguments", async () => {
+			const invalidChunks = [
+				'data: {"choices":[{"delta":{"content":"Reading"}}]}\n\n',
+				'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"read","arguments":"path=a.ts"}}]}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			const validChunks = [
+				'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_2","index":0,"type":"function","function":{"name":"read","arguments":"{\\"path\\":\\"a.ts\\"}"}}]}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy
+				.mockResolvedValueOnce(createMockStreamResponse(invalidChunks))
+				.mockResolvedValueOnce(createMockStreamResponse(validChunks));
+			const callbacks = { ...createCallbacks(), onInvalidToolCall: vi.fn() };
+
+			await sendChatRequest(createOpenAIConfig(), "test-model", simpleMessages, undefined, 1024, callbacks);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+			expect(callbacks.onInvalidToolCall).toHaveBeenCalledWith(
+				expect.objectContaining({ callId: "call_1", name: "read", rawArguments: "path=a.ts" })
+			);
+			expect(callbacks.onToolCall).toHaveBeenCalledTimes(1);
+			expect(callbacks.onToolCall).toHaveBeenCalledWith("call_2", "read", { path: "a.ts" });
+
+			const body = JSON.parse(fetchSpy.mock.calls[1][1].body);
+			expect(body.messages[1]).toMatchObject({
+				role: "assistant",
+				content: "Reading",
+				tool_calls: [{ id: "call_1", function: { name: "read", arguments: "{}" } }],
+			});
+			expect(body.messages[2]).toMatchObject({ role: "tool", tool_call_id: "call_1" });
+			expect(body.messages[2].content).toMatch(/^Error: the arguments for read could not be used \(Invalid JSON: /);
+		});
+
+		it("should keep signed thinking in the turn it asks again with and sum the usage", async () => {
+			const invalidChunks = [
+				'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":10}}}\n\n',
+				'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"thinking","thinking":""}}\n\n',
+				'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"thinking_delta","thinking":"Need a file"}}\n\n',
+				'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"signature_delta","signature":"sig-1"}}\n\n',
+				'event: content_block_start\ndata: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_1","name":"read","input":{}}}\n\n',
+				'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"path=a.ts"}}\n\n',
+				'event: content_block_stop\ndata: {"type":"content_block_stop","index":1}\n\n',
+				'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"tool_use"},"usage":{"output_tokens":5}}\n\n',
+			];
+			const validChunks = [
+				'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":30}}}\n\n',
+				'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+				'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Done"}}\n\n',
+				'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":2}}\n\n',
+			];
+			fetchSpy
+				.mockResolvedValueOnce(createMockStreamResponse(invalidChunks))
+				.mockResolvedValueOnce(createMockStreamResponse(validChunks));
+			const onUsage = vi.fn();
+
+			const result = await sendChatRequest(createAnthropicConfig(), "claude-3", simpleMessages, undefined, 1024, {
+				...createCallbacks(),
+				onUsage,
+			});
+
+			const body = JSON.parse(fetchSpy.mock.calls[1][1].body);
+			expect(body.messages[1].content).toEqual([
+				{ type: "thinking", thinking: "Need a file", signature: "sig-1" },
+				{ type: "tool_use", id: "toolu_1", name: "read", input: {} },
+			]);
+			expect(onUsage).toHaveBeenCalledTimes(2);
+			expect(result.stopReason).toBe("stop");
+			expect(result.usage).toEqual({ promptTokens: 40, completionTokens: 7, totalTokens: 47 });
+		});
+
+		it("should not ask again when invalid tool call retries are disabled", async () => {
+			const invalidChunks = [
+				'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"read","arguments":"path=a.ts"}}]}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(invalidChunks));
+			const callbacks = createCallbacks();
+
+			await sendChatRequest(
+				createOpenAIConfig({ invalidToolCallRetries: 0 }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(callbacks.onToolCall).not.toHaveBeenCalled();
+		});
+
+		it("should repair malformed history and report it", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = { ...createCallbacks(), onHistoryDiagnostics: vi.fn() };
+			const messages = [
+				{ role: 1, content: [{ value: "Read it" }] },
+				{ role: 2, content: [{ callId: "call_1", name: "read", input: {} }] },
+				{ role: 1, content: [{ value: "Cancelled, try something else" }] },
+			];
+
+			await sendChatRequest(createOpenAIConfig(), "test-model", messages, undefined, 1024, callbacks);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(body.messages[2]).toMatchObject({ role: "tool", tool_call_id: "call_1" });
+			expect(callbacks.onHistoryDiagnostics).toHaveBeenCalledWith([
+				expect.objectContaining({ issue: "orphan-tool-call", callId: "call_1", repaired: true }),
+			]);
+		});
+
+		it("should send the history unchanged when repair is off", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = { ...createCallbacks(), onHistoryDiagnostics: vi.fn() };
+			const messages = [
+				{ role: 1, content: [{ value: "Hi" }] },
+				{ role: 1, content: [{ value: "Again" }] },
+			];
+
+			await sendChatRequest(
+				createOpenAIConfig({ historyRepair: "off" }),
+				"test-model",
+				messages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(body.messages).toHaveLength(2);
+			expect(callbacks.onHistoryDiagnostics).not.toHaveBeenCalled();
+		});
+
+		it("should replace images with a placeholder when the model lacks vision", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = { ...createCallbacks(), onImageDiagnostics: vi.fn() };
+			const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+			const messages = [{ role: 1, content: [{ value: "Describe" }, { mimeType: "image/png", data: png }] }];
+
+			await sendChatRequest(createOpenAIConfig({ vision: false }), "test-model", messages, undefined, 1024, callbacks);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(JSON.stringify(body.messages)).toContain("[Image omitted: the model does not support image input]");
+			expect(JSON.stringify(body.messages)).not.toContain("image_url");
+			expect(callbacks.onImageDiagnostics).toHaveBeenCalledWith([expect.objectContaining({ action: "omitted" })]);
+		});
+
+		it("should trim the history to the context window", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = { ...createCallbacks(), onContextDiagnostics: vi.fn() };
+			const messages = [
+				{ role: 1, content: [{ value: "x".repeat(4000) }] },
+				{ role: 2, content: [{ value: "y".repeat(4000) }] },
+				{ role: 1, content: [{ value: "Latest question" }] },
+			];
+
+			await sendChatRequest(
+				createOpenAIConfig({ contextWindow: { maxInputTokens: 200 } }),
+				"test-model",
+				messages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(JSON.stringify(body.messages)).not.toContain("yyyy");
+			expect(JSON.stringify(body.messages)).toContain("Latest question");
+			expect(callbacks.onContextDiagnostics).toHaveBeenCalledWith([
+				expect.objectContaining({ action: "dropped", messageCount: 2 }),
+			]);
+		});
+
+		it("should record reported prompt tokens in the calibrator", async () => {
+			fetchSpy.mockResolvedValueOnce(
+				createMockStreamResponse([
+					'data: {"choices":[{"delta":{"content":"ok"}}]}\n\n',
+					'data: {"choices":[],"usage":{"prompt_tokens":600,"completion_tokens":1,"total_tokens":601}}\n\n',
+					"data: [DONE]\n\n",
+				])
+			);
+			const calibrator = new TokenCalibrator();
+			const messages = [{ role: 1, content: [{ value: "word ".repeat(400) }] }];
+			const estimated = calibrator.estimatePrompt(messages);
+
+			await sendChatRequest(
+				createOpenAIConfig({ calibrator }),
+				"test-model",
+				messages,
+				undefined,
+				1024,
+				createCallbacks()
+			);
+
+			expect(calibrator.factor("test-model")).toBeCloseTo(600 / estimated);
+		});
+
+		it("should not calibrate from Ollama, image or prompted-tools requests", async () => {
+			const calibrator = new TokenCalibrator();
+			const text = { value: "word ".repeat(400) };
+			const image = { mimeType: "image/png", data: encodePng({ width: 1, height: 1, data: new Uint8Array(4) }) };
+			const openAIChunks = [
+				'data: {"choices":[{"delta":{"content":"ok"}}]}\n\n',
+				'data: {"choices":[],"usage":{"prompt_tokens":1500,"completion_tokens":1,"total_tokens":1501}}\n\n',
+				"data: [DONE]\n\n",
+			];
+
+			// Ollama reports only the prompt tokens that missed its KV cache
+			fetchSpy.mockResolvedValueOnce(
+				createMockStreamResponse([
+					'{"message":{"role":"assistant","content":"ok"},"done":true,"prompt_eval_count":20}\n',
+				])
+			);
+			await sendChatRequest(
+				{ baseUrl: "http://localhost:11434/", apiKey: "", apiMode: "ollama", calibrator },
+				"test-model",
+				[{ role: 1, content: [text] }],
+				undefined,
+				1024,
+				createCallbacks()
+			);
+
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			await sendChatRequest(
+				createOpenAIConfig({ calibrator }),
+				"test-model",
+				[{ role: 1, content: [text, image] }],
+				undefined,
+				1024,
+				createCallbacks()
+			);
+
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			await sendChatRequest(
+				createOpenAIConfig({ calibrator, promptedTools: true }),
+				"test-model",
+				[{ role: 1, content: [text] }],
+				[{ name: "search", description: "Search", inputSchema: { type: "object" } }],
+				1024,
+				createCallbacks()
+			);
+
+			expect(calibrator.entry("test-model")).toBeUndefined();
+		});
+
+		it("should send allowed modelOptions and a required tool choice", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const tools = [{ name: "search", inputSchema: { type: "object" } }];
+
+			await sendChatRequest(
+				createOpenAIConfig({
+					modelOptions: { temperature: 0.1, seed: 42 },
+					sampling: { allowed: ["temperature", "top_p"], defaults: { top_p: 0.9 } },
+					toolMode: 2,
+				}),
+				"test-model",
+				simpleMessages,
+				tools,
+				1024,
+				createCallbacks()
+			);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(body.temperature).toBe(0.1);
+			expect(body.top_p).toBe(0.9);
+			expect(body.seed).toBeUndefined();
+			expect(body.tool_choice).toBe("required");
+		});
+
+		it("should rewrite tool schemas with the schema profile and report dropped constraints", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = { ...createCallbacks(), onSchemaConstraintsDropped: vi.fn() };
+			const tools = [
+				{
+					name: "open",
+					inputSchema: { type: "object", properties: { url: { type: "string", format: "uri" } } },
+				},
+			];
+
+			await sendChatRequest(
+				createOpenAIConfig({ schemaProfile: "openai-strict" }),
+				"test-model",
+				simpleMessages,
+				tools,
+				1024,
+				callbacks
+			);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(body.tools[0].function).toEqual({
+				name: "open",
+				parameters: {
+					type: "object",
+					properties: { url: { type: ["string", "null"] } },
+					required: ["url"],
+					additionalProperties: false,
+				},
+				strict: true,
+			});
+			expect(callbacks.onSchemaConstraintsDropped).toHaveBeenCalledWith([
+				{ tool: "open", path: "/properties/url", keyword: "format", reason: "keyword not supported" },
+			]);
+		});
+	});
+
+	describe("thinking tags", () => {
+		it("should move inline reasoning to onThinking when enabled", async () => {
+			const openAIChunks = [
+				'data: {"choices":[{"delta":{"content":"<think>hmm</think>Hello"}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = { ...createCallbacks(), onThinking: vi.fn() };
+
+			await sendChatRequest(
+				createOpenAIConfig({ thinkingTags: true }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				callbacks
+			);
+
+			expect(callbacks.onThinking).toHaveBeenCalledWith("hmm");
+			expect(callbacks.onText).toHaveBeenCalledTimes(1);
+			expect(callbacks.onText).toHaveBeenCalledWith("Hello");
+		});
+	});
+
+	describe("prompted tool calling", () => {
+		it("should describe tools in the prompt and report tool calls from the text", async () => {
+			const openAIChunks = [
+				'data: {"choices":[{"delta":{"content":"<tool_call>{\\"name\\": \\"search\\", \\"arguments\\": {\\"q\\": \\"x\\"}}</tool_call>"}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const callbacks = createCallbacks();
+			const tools = [{ name: "search", description: "Search the web", inputSchema: { type: "object" } }];
+
+			const result = await sendChatRequest(
+				createOpenAIConfig({ promptedTools: true }),
+				"test-model",
+				simpleMessages,
+				tools,
+				1024,
+				callbacks
+			);
+
+			const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+			expect(body.tools).toBeUndefined();
+			expect(body.tool_choice).toBeUndefined();
+			expect(body.messages[0].role).toBe("system");
+			expect(body.messages[0].content).toContain("## search\nSearch the web");
+			expect(callbacks.onToolCall).toHaveBeenCalledWith(expect.any(String), "search", { q: "x" });
+			expect(callbacks.onText).not.toHaveBeenCalled();
+			expect(result.stopReason).toBe("tool_calls");
+		});
+	});
+
+	// --------------------------------------------------------------------------
+	// Thinking content
+	// --------------------------------------------------------------------------
+	describe("thinking content", () => {
+		it("should forward reasoning deltas to onThinking", async () => {
+			const openAIChunks = [
+				'data: {"choices":[{"delta":{"reasoning_content":"hmm"}}]}\n\n',
+				'data: {"choices":[{"delta":{"content":"ok"}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+
+			const onThinking = vi.fn();
+			const callbacks = { ...createCallbacks(), onThinking };
+
+			await sendChatRequest(createOpenAIConfig(), "test-model", simpleMessages, undefined, 1024, callbacks);
+
+			expect(onThinking).toHaveBeenCalledWith("hmm");
+			expect(callbacks.onText).toHaveBeenCalledWith("ok");
+		});
+	});
+
+	describe("tool call events", () => {
+		it("should forward tool call start, chunk and end events", async () => {
+			const openAIChunks = [
+				'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"edit_file","arguments":"{}"}}]}}]}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+
+			const callbacks = {
+				...createCallbacks(),
+				onToolCallStart: vi.fn(),
+				onToolCallChunk: vi.fn(),
+				onToolCallEnd: vi.fn(),
+			};
+
+			await sendChatRequest(createOpenAIConfig(), "test-model", simpleMessages, undefined, 1024, callbacks);
+
+			expect(callbacks.onToolCallStart).toHaveBeenCalledWith("call_1", "edit_file");
+			expect(callbacks.onToolCallChunk).toHaveBeenCalledWith("call_1", "{}");
+			expect(callbacks.onToolCallEnd).toHaveBeenCalledWith("call_1");
+			expect(callbacks.onToolCall).toHaveBeenCalledWith("call_1", "edit_file", {});
+		});
+	});
+
+	// --------------------------------------------------------------------------
+	// Response metadata
+	// --------------------------------------------------------------------------
+	describe("response metadata", () => {
+		it("should request and return usage in OpenAI mode", async () => {
+			const openAIChunks = [
+				'data: {"model":"gpt-4o-2024","choices":[{"delta":{"content":"ok"},"finish_reason":"stop"}]}\n\n',
+				'data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":1,"total_tokens":8}}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+
+			const onUsage = vi.fn();
+			const result = await sendChatRequest(createOpenAIConfig(), "gpt-4o", simpleMessages, undefined, 1024, {
+				...createCallbacks(),
+				onUsage,
+			});
+
+			const [, options] = fetchSpy.mock.calls[0];
+			expect(JSON.parse(options.body).stream_options).toEqual({ include_usage: true });
+			expect(result.model).toBe("gpt-4o-2024");
+			expect(result.stopReason).toBe("stop");
+			expect(result.usage).toEqual({ promptTokens: 7, completionTokens: 1, totalTokens: 8 });
+			expect(onUsage).toHaveBeenCalledWith(result.usage);
+		});
+
+		it("should report max_tokens truncation in Anthropic mode", async () => {
+			const anthropicChunks = [
+				'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"max_tokens"},"usage":{"output_tokens":4096}}\n\n',
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(anthropicChunks));
+
+			const result = await sendChatRequest(
+				createAnthropicConfig(),
+				"claude-3",
+				simpleMessages,
+				undefined,
+				4096,
+				createCallbacks()
+			);
+
+			expect(result.stopReason).toBe("max_tokens");
+			expect(result.usage?.completionTokens).toBe(4096);
+		});
 	});
 
 	// --------------------------------------------------------------------------
 	// Error handling
 	// --------------------------------------------------------------------------
+	describe("middleware", () => {
+		it("should let beforeRequest change headers and replace the body", async () => {
+			const openAIChunks = ['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const beforeRequest = vi.fn((body: Record<string, unknown>, headers: Record<string, string>) => {
+				headers["X-Trace"] = "abc";
+				return { ...body, user: "tester" };
+			});
+
+			await sendChatRequest(
+				createOpenAIConfig({ middleware: [{ beforeRequest }, { beforeRequest: (body) => ({ ...body, n: 1 }) }] }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				createCallbacks()
+			);
+
+			expect(beforeRequest).toHaveBeenCalledWith(expect.objectContaining({ model: "test-model" }), expect.any(Object), {
+				apiMode: "openai",
+				model: "test-model",
+				url: "https://api.example.com/v1/chat/completions",
+			});
+			const init = fetchSpy.mock.calls[0][1];
+			expect(init.headers["X-Trace"]).toBe("abc");
+			expect(JSON.parse(init.body)).toMatchObject({ model: "test-model", user: "tester", n: 1 });
+		});
+
+		it("should pass responses and stream events to the hooks", async () => {
+			const openAIChunks = [
+				'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n',
+				'data: {"choices":[{"delta":{},"finish_reason":"stop"}],"usage":{"prompt_tokens":3,"completion_tokens":1}}\n\n',
+				"data: [DONE]\n\n",
+			];
+			fetchSpy.mockResolvedValueOnce(createMockStreamResponse(openAIChunks));
+			const onResponse = vi.fn();
+			const events: string[] = [];
+
+			await sendChatRequest(
+				createOpenAIConfig({ middleware: [{ onResponse, onChunk: (event) => events.push(event.type) }] }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				createCallbacks()
+			);
+
+			expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }), expect.any(Object));
+			expect(events).toEqual(["text", "usage"]);
+		});
+
+		it("should let onError replace the thrown error", async () => {
+			fetchSpy.mockResolvedValueOnce({
+				ok: false,
+				status: 400,
+				statusText: "Bad Request",
+				text: () => Promise.resolve("bad"),
+			});
+			const onError = vi.fn((error: Error) => new Error(`wrapped: ${error.message}`));
+
+			await expect(
+				sendChatRequest(
+					createOpenAIConfig({ middleware: [{ onError }] }),
+					"test-model",
+					simpleMessages,
+					undefined,
+					1024,
+					createCallbacks()
+				)
+			).rejects.toThrow("wrapped: API request failed: 400 Bad Request");
+			expect(onError).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe("error handling", () => {
 		it("should throw on non-ok response", async () => {
 			fetchSpy.mockResolvedValueOnce({
@@ -330,6 +971,318 @@ describe("sendChatRequest", () => {
 				sendChatRequest(createOpenAIConfig(), "test-model", simpleMessages, undefined, 1024, createCallbacks())
 			).rejects.toThrow("Rate limit exceeded");
 		});
+
+		it("should throw typed provider errors", async () => {
+			fetchSpy.mockResolvedValueOnce({
+				ok: false,
+				status: 401,
+				statusText: "Unauthorized",
+				text: () => Promise.resolve('{"error":{"message":"Incorrect API key provided","code":"invalid_api_key"}}'),
+			});
+
+			const error = await sendChatRequest(
+				createOpenAIConfig(),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				createCallbacks()
+			).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(AuthenticationError);
+			expect(error).toMatchObject({ status: 401, code: "invalid_api_key", isAuthError: true });
+		});
+
+		it("should report the total timeout as NetworkError", async () => {
+			fetchSpy.mockImplementationOnce(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => init.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+			);
+
+			const error = await sendChatRequest(
+				createOpenAIConfig({ transport: { timeoutMs: 10 } }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				createCallbacks()
+			).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(NetworkError);
+			expect((error as Error).message).toBe("Request timed out after 10 ms");
+		});
+
+		it("should abort a stalled stream and keep the streamed text", async () => {
+			const encoder = new TextEncoder();
+			const stalled = new ReadableStream({
+				start(controller) {
+					controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n'));
+				},
+			});
+			fetchSpy.mockResolvedValueOnce(new Response(stalled));
+			const callbacks = createCallbacks();
+
+			const error = await sendChatRequest(
+				createOpenAIConfig({ streamTimeouts: { idleMs: 20 } }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				callbacks
+			).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(StreamTimeoutError);
+			expect(error).toMatchObject({ phase: "idle", partialText: "Hel" });
+			expect(callbacks.onText).toHaveBeenCalledWith("Hel");
+		});
+	});
+});
+
+describe("sendChatRequest retry", () => {
+	let fetchSpy: ReturnType<typeof vi.fn>;
+	const retry = { maxAttempts: 3, initialDelayMs: 1, jitter: 0 };
+
+	function errorResponse(status: number, headers?: Record<string, string>): Response {
+		return {
+			ok: false,
+			status,
+			statusText: "Error",
+			headers: new Headers(headers),
+			text: () => Promise.resolve("overloaded"),
+		} as unknown as Response;
+	}
+
+	beforeEach(() => {
+		fetchSpy = vi.fn();
+		vi.stubGlobal("fetch", fetchSpy);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should not retry without a retry policy", async () => {
+		fetchSpy.mockResolvedValueOnce(errorResponse(503));
+
+		await expect(
+			sendChatRequest(createOpenAIConfig(), "test-model", simpleMessages, undefined, 1024, createCallbacks())
+		).rejects.toThrow("503");
+		expect(fetchSpy).toHaveBeenCalledOnce();
+	});
+
+	it("should retry attempts without output before the first-token timeout", async () => {
+		fetchSpy
+			.mockImplementationOnce(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => init.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+			)
+			.mockResolvedValueOnce(
+				createMockStreamResponse(['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"])
+			);
+		const onRetry = vi.fn();
+		const callbacks = { ...createCallbacks(), onRetry };
+
+		await sendChatRequest(
+			createOpenAIConfig({ retry, streamTimeouts: { firstTokenMs: 20 } }),
+			"test-model",
+			simpleMessages,
+			undefined,
+			1024,
+			callbacks
+		);
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(StreamTimeoutError);
+		expect(callbacks.onText).toHaveBeenCalledWith("ok");
+	});
+
+	it("should count reasoning as the first token", async () => {
+		const encoder = new TextEncoder();
+		const reasoning = new ReadableStream({
+			async start(controller) {
+				for (let i = 0; i < 4; i++) {
+					controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"reasoning_content":"hmm"}}]}\n\n'));
+					await sleep(15);
+				}
+				controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"ok"}}]}\n\n'));
+				controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+				controller.close();
+			},
+		});
+		fetchSpy.mockResolvedValueOnce(new Response(reasoning));
+		const onRetry = vi.fn();
+		const callbacks = { ...createCallbacks(), onRetry };
+
+		await sendChatRequest(
+			createOpenAIConfig({ retry, streamTimeouts: { firstTokenMs: 30 } }),
+			"test-model",
+			simpleMessages,
+			undefined,
+			1024,
+			callbacks
+		);
+
+		expect(fetchSpy).toHaveBeenCalledOnce();
+		expect(onRetry).not.toHaveBeenCalled();
+		expect(callbacks.onText).toHaveBeenCalledWith("ok");
+	});
+
+	it("should retry retryable statuses and report each retry", async () => {
+		fetchSpy
+			.mockResolvedValueOnce(errorResponse(429, { "retry-after-ms": "2" }))
+			.mockResolvedValueOnce(errorResponse(529))
+			.mockResolvedValueOnce(
+				createMockStreamResponse(['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"])
+			);
+
+		const onRetry = vi.fn();
+		const callbacks = { ...createCallbacks(), onRetry };
+
+		await sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, callbacks);
+
+		expect(fetchSpy).toHaveBeenCalledTimes(3);
+		expect(onRetry).toHaveBeenNthCalledWith(1, expect.objectContaining({ attempt: 2, delayMs: 2, status: 429 }));
+		expect(onRetry).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 3, delayMs: 2, status: 529 }));
+		expect(callbacks.onText).toHaveBeenCalledWith("ok");
+	});
+
+	it("should not retry non-retryable statuses", async () => {
+		fetchSpy.mockResolvedValueOnce(errorResponse(401));
+
+		await expect(
+			sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, createCallbacks())
+		).rejects.toThrow("401");
+		expect(fetchSpy).toHaveBeenCalledOnce();
+	});
+
+	it("should stop after maxAttempts", async () => {
+		fetchSpy.mockResolvedValue(errorResponse(503));
+
+		await expect(
+			sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, createCallbacks())
+		).rejects.toThrow("503");
+		expect(fetchSpy).toHaveBeenCalledTimes(3);
+	});
+
+	it("should give up when Retry-After exceeds maxDelayMs", async () => {
+		fetchSpy.mockResolvedValueOnce(errorResponse(429, { "retry-after": "120" }));
+
+		await expect(
+			sendChatRequest(
+				createOpenAIConfig({ retry: { ...retry, maxDelayMs: 1000 } }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				createCallbacks()
+			)
+		).rejects.toThrow("429");
+		expect(fetchSpy).toHaveBeenCalledOnce();
+	});
+
+	it("should not retry exhausted quota", async () => {
+		fetchSpy.mockResolvedValueOnce({
+			...errorResponse(429),
+			text: () => Promise.resolve('{"error":{"message":"quota","code":"insufficient_quota"}}'),
+		});
+
+		await expect(
+			sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, createCallbacks())
+		).rejects.toBeInstanceOf(QuotaExceededError);
+		expect(fetchSpy).toHaveBeenCalledOnce();
+	});
+
+	it("should retry transient in-stream errors before any output", async () => {
+		fetchSpy
+			.mockResolvedValueOnce(
+				createMockStreamResponse([
+					'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+				])
+			)
+			.mockResolvedValueOnce(
+				createMockStreamResponse([
+					'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"ok"}}\n\n',
+				])
+			);
+
+		const onRetry = vi.fn();
+		const callbacks = { ...createCallbacks(), onRetry };
+		await sendChatRequest(
+			createOpenAIConfig({ apiMode: "anthropic", retry }),
+			"test-model",
+			simpleMessages,
+			undefined,
+			1024,
+			callbacks
+		);
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(ServerError);
+		expect(callbacks.onText).toHaveBeenCalledWith("ok");
+	});
+
+	it("should retry network errors", async () => {
+		fetchSpy
+			.mockRejectedValueOnce(new TypeError("fetch failed"))
+			.mockResolvedValueOnce(
+				createMockStreamResponse(['data: {"choices":[{"delta":{"content":"ok"}}]}\n\n', "data: [DONE]\n\n"])
+			);
+
+		const callbacks = createCallbacks();
+		await sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, callbacks);
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(callbacks.onText).toHaveBeenCalledWith("ok");
+	});
+
+	it("should report exhausted network retries as NetworkError", async () => {
+		fetchSpy.mockRejectedValue(new TypeError("fetch failed"));
+
+		await expect(
+			sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, createCallbacks())
+		).rejects.toBeInstanceOf(NetworkError);
+		expect(fetchSpy).toHaveBeenCalledTimes(3);
+	});
+
+	it("should not retry once tokens have been streamed", async () => {
+		// Deliver one chunk, then drop the connection on the next read
+		let reads = 0;
+		const stream = new ReadableStream({
+			pull(controller) {
+				if (reads++ === 0) {
+					controller.enqueue(new TextEncoder().encode('data: {"choices":[{"delta":{"content":"partial"}}]}\n\n'));
+				} else {
+					controller.error(new TypeError("terminated"));
+				}
+			},
+		});
+		fetchSpy.mockResolvedValueOnce({ ok: true, status: 200, body: stream } as unknown as Response);
+
+		const callbacks = createCallbacks();
+		await expect(
+			sendChatRequest(createOpenAIConfig({ retry }), "test-model", simpleMessages, undefined, 1024, callbacks)
+		).rejects.toThrow("terminated");
+		expect(callbacks.onText).toHaveBeenCalledWith("partial");
+		expect(fetchSpy).toHaveBeenCalledOnce();
+	});
+
+	it("should stop waiting when cancelled during backoff", async () => {
+		fetchSpy.mockResolvedValueOnce(errorResponse(503, { "retry-after": "30" }));
+		const abortController = new AbortController();
+		const onRetry = vi.fn(() => abortController.abort());
+
+		await expect(
+			sendChatRequest(
+				createOpenAIConfig({ retry }),
+				"test-model",
+				simpleMessages,
+				undefined,
+				1024,
+				{ ...createCallbacks(), onRetry },
+				abortController.signal
+			)
+		).rejects.toMatchObject({ name: "AbortError" });
+		expect(fetchSpy).toHaveBeenCalledOnce();
 	});
 });
 
@@ -366,6 +1319,29 @@ describe("sendChatRequestWithProvider", () => {
 		).rejects.toThrow("Failed to connect to MiniMax");
 	});
 
+	it("should keep the provider error type when wrapping", async () => {
+		fetchSpy.mockResolvedValueOnce({
+			ok: false,
+			status: 401,
+			statusText: "Unauthorized",
+			text: () => Promise.resolve("Invalid API key"),
+		});
+
+		const error = await sendChatRequestWithProvider(
+			createOpenAIConfig(),
+			"MiniMax",
+			"test-model",
+			simpleMessages,
+			undefined,
+			1024,
+			createCallbacks()
+		).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(AuthenticationError);
+		expect(error).toMatchObject({ status: 401, provider: "MiniMax" });
+		expect((error as Error).message).toContain("Failed to connect to MiniMax");
+	});
+
 	it("should convert AbortError to cancellation message", async () => {
 		fetchSpy.mockRejectedValueOnce(new DOMException("Aborted", "AbortError"));
 
@@ -3,8 +3,40 @@
  * Complete HTTP request and streaming response handling for LLM APIs
  */
 
-import type { VsCodeMessage } from "./types";
-import { buildRequest, processOpenAIStream, processAnthropicStream } from "./providerHelpers";
+import type {
+	ApiMode,
+	PromptCachingOptions,
+	SamplingConfig,
+	SchemaProfile,
+	SchemaProfileName,
+	ThinkingTagOptions,
+} from "../../core/types";
+import type { ChatResponseResult, ChatUsage, VsCodeMessage, VsCodeThinkingPart } from "./types";
+import { ROLE, buildRequest, getStreamProcessor } from "./providerHelpers";
+import { withPromptedToolCalls, withThinkingTags } from "./streaming";
+import { toPromptedToolMessages } from "./promptedTools";
+import { isImagePart, isToolResultPart } from "./convert";
+import { NetworkError, ProviderError, createProviderErrorFromResponse, withProviderContext } from "./errors";
+import { TOOL_MODE, resolveSamplingOptions } from "./sampling";
+import { type HistoryDiagnostic, normalizeHistory } from "./history";
+import { type ImageDiagnostic, type ImageLimits, prepareImages } from "./images";
+import { type ContextDiagnostic, type ContextWindowOptions, fitContextWindow } from "./contextWindow";
+import type { Tokenizer } from "../tokenizer/types";
+import type { TokenCalibrator } from "../tokenizer/calibration";
+import { ToolNameMap } from "../toolConverter";
+import {
+	type ChatMiddleware,
+	type ChatStreamEvent,
+	type MiddlewareContext,
+	runBeforeRequest,
+	runOnChunk,
+	runOnError,
+	runOnResponse,
+} from "./middleware";
+import { type TransportOptions, fetchWithTransport, isTimeoutError } from "./transport";
+import { type StreamTimeoutOptions, StreamWatchdog } from "./watchdog";
+import { type DroppedSchemaConstraint, applySchemaProfileToTools } from "../schemaProfile";
+import { type RetryInfo, type RetryPolicy, resolveRetryPolicy, computeRetryDelay, sleep } from "./retry";
 
 /**
  * Configuration for sending chat requests
@@ -15,9 +47,79 @@ export interface SendChatRequestConfig {
 	/** API key for authentication */
 	apiKey: string;
 	/** API mode - determines auth header and response format */
-	apiMode: "openai" | "anthropic";
+	apiMode: ApiMode;
 	/** Custom headers to include in requests */
 	headers?: Record<string, string>;
+	/** Retry policy for failed requests (no retries when omitted) */
+	retry?: RetryPolicy;
+	/** Automatic prompt cache breakpoints (anthropic mode only) */
+	promptCaching?: PromptCachingOptions;
+	/** Sampling options from the caller (ProvideLanguageModelChatResponseOptions.modelOptions) */
+	modelOptions?: Readonly<Record<string, unknown>>;
+	/** Allowed sampling options and their defaults */
+	sampling?: SamplingConfig;
+	/** Tool calling mode (ProvideLanguageModelChatResponseOptions.toolMode, see TOOL_MODE) */
+	toolMode?: number;
+	/**
+	 * Ask for token usage with stream_options (openai mode only); turn it off for
+	 * servers that reject the field
+	 * @default true
+	 */
+	streamUsage?: boolean;
+	/** Rewrites tool input schemas for the backend (schemas are sent unchanged when omitted) */
+	schemaProfile?: SchemaProfileName | SchemaProfile;
+	/**
+	 * Emulate tool calling for models without native support: tools are described in
+	 * the system prompt and `<tool_call>` blocks in the response text become tool calls
+	 */
+	promptedTools?: boolean;
+	/** Move reasoning written inline as <think>…</think> from onText to onThinking */
+	thinkingTags?: boolean | ThinkingTagOptions;
+	/** Hooks around request building, fetch and stream processing, run in order */
+	middleware?: readonly ChatMiddleware[];
+	/**
+	 * Whether the model accepts images; without vision, images are replaced by a text placeholder
+	 * @default true
+	 */
+	vision?: boolean;
+	/** Overrides for the image limits of the API mode (see IMAGE_LIMITS) */
+	imageLimits?: Partial<ImageLimits>;
+	/** Trim the history to the model's input limit (sent in full when omitted); tools are counted automatically */
+	contextWindow?: Omit<ContextWindowOptions, "tools">;
+	/** Tokenizer for token estimates (the heuristic when omitted, see getTokenizer) */
+	tokenizer?: Tokenizer;
+	/** Learns from reported prompt tokens how far estimates are off, and corrects the context window estimates */
+	calibrator?: TokenCalibrator;
+	/** Proxy, extra CA certificates and timeouts for the HTTP request */
+	transport?: TransportOptions;
+	/** First-byte, first-token and idle timeouts for the streamed response (none when omitted) */
+	streamTimeouts?: StreamTimeoutOptions;
+	/**
+	 * How to handle malformed history (orphan tool calls, empty or consecutive messages):
+	 * fix it, only report it through onHistoryDiagnostics, or skip the check
+	 * @default "repair"
+	 */
+	historyRepair?: "repair" | "report" | "off";
+	/**
+	 * Follow-up requests that show the model an error result when its tool-call
+	 * arguments are invalid JSON that could not be repaired, or were cut off at
+	 * the output token limit (0 disables them)
+	 * @default 1
+	 */
+	invalidToolCallRetries?: number;
+}
+
+/**
+ * A tool call whose arguments are invalid JSON that could not be repaired, or
+ * were cut off at the output token limit
+ */
+export interface InvalidToolCall {
+	callId: string;
+	name: string;
+	/** Arguments as streamed by the model */
+	rawArguments: string;
+	/** Why the arguments could not be used */
+	error: string;
 }
 
 /**
@@ -28,15 +130,162 @@ export interface ChatResponseCallbacks {
 	onText: (text: string) => void;
 	/** Called when a tool call is complete */
 	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void;
+	/** Called for each reasoning/thinking chunk (reasoning_content, Anthropic thinking blocks) */
+	onThinking?: (text: string, signature?: string) => void;
+	/**
+	 * Called when the response ends, if the provider reported token usage; once per
+	 * request, so again for each follow-up request after invalid tool calls
+	 */
+	onUsage?: (usage: ChatUsage) => void;
+	/** Called as soon as a tool call begins, before its arguments are complete */
+	onToolCallStart?: (callId: string, name: string) => void;
+	/** Called for each fragment of a tool call's JSON arguments */
+	onToolCallChunk?: (callId: string, argsDelta: string) => void;
+	/** Called when a tool call's arguments are complete, just before onToolCall */
+	onToolCallEnd?: (callId: string) => void;
+	/** Called before waiting to retry a failed attempt */
+	onRetry?: (info: RetryInfo) => void;
+	/** Called when a tool call has invalid arguments; such calls are never passed to onToolCall */
+	onInvalidToolCall?: (call: InvalidToolCall) => void;
+	/** Called before sending if problems were found in the history */
+	onHistoryDiagnostics?: (diagnostics: HistoryDiagnostic[]) => void;
+	/** Called before sending if images were retyped, downscaled or replaced by a placeholder */
+	onImageDiagnostics?: (diagnostics: ImageDiagnostic[]) => void;
+	/** Called before sending if the history was truncated, shortened or summarized to fit the context window */
+	onContextDiagnostics?: (diagnostics: ContextDiagnostic[]) => void;
+	/** Called before sending if the schema profile removed constraints from tool schemas */
+	onSchemaConstraintsDropped?: (dropped: DroppedSchemaConstraint[]) => void;
+}
+
+/**
+ * Build the streaming endpoint URL for Gemini
+ *
+ * Accepts a full endpoint with a `{model}` placeholder, a full
+ * `:streamGenerateContent` endpoint, or an API root such as
+ * `https://generativelanguage.googleapis.com/v1beta`.
+ */
+function buildGeminiUrl(baseUrl: string, model: string): string {
+	let url = baseUrl.replace(/\/+$/, "");
+	if (url.includes("{model}")) {
+		url = url.replace("{model}", encodeURIComponent(model));
+	} else if (!url.includes(":streamGenerateContent")) {
+		url = `${url}/models/${encodeURIComponent(model)}:streamGenerateContent`;
+	}
+	if (!/[?&]alt=sse\b/.test(url)) {
+		url += `${url.includes("?") ? "&" : "?"}alt=sse`;
+	}
+	return url;
+}
+
+/**
+ * Build the /api/chat endpoint URL for Ollama
+ *
+ * Accepts the server root (`http://localhost:11434`), the `/api` prefix, or the
+ * full `/api/chat` endpoint.
+ */
+function buildOllamaUrl(baseUrl: string): string {
+	const url = baseUrl.replace(/\/+$/, "");
+	if (url.endsWith("/api/chat")) {
+		return url;
+	}
+	if (url.endsWith("/api")) {
+		return `${url}/chat`;
+	}
+	return `${url}/api/chat`;
+}
+
+/**
+ * Get the request URL for the API mode
+ */
+function getRequestUrl(config: SendChatRequestConfig, model: string): string {
+	switch (config.apiMode) {
+		case "gemini":
+			return buildGeminiUrl(config.baseUrl, model);
+		case "ollama":
+			return buildOllamaUrl(config.baseUrl);
+		default:
+			return config.baseUrl;
+	}
+}
+
+/**
+ * Get authentication headers for the API mode
+ */
+function getAuthHeaders(config: SendChatRequestConfig): Record<string, string> {
+	switch (config.apiMode) {
+		case "anthropic":
+			return {
+				"x-api-key": config.apiKey,
+				"anthropic-version": "2023-06-01",
+			};
+		case "gemini":
+			return { "x-goog-api-key": config.apiKey };
+		case "ollama":
+			// Local Ollama needs no key; Ollama cloud and proxies use Bearer auth
+			return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+		default:
+			return { Authorization: `Bearer ${config.apiKey}` };
+	}
+}
+
+/**
+ * Build the tool result that tells the model why its call was not run
+ */
+function invalidToolCallResult(call: InvalidToolCall): string {
+	return (
+		`Error: the arguments for ${call.name} could not be used (${call.error}), so the tool was not run. ` +
+		"Call the tool again with its complete arguments as a JSON object."
+	);
+}
+
+/**
+ * Whether the reported prompt tokens of a request can calibrate token estimates
+ *
+ * Ollama's prompt_eval_count leaves out prompt tokens served from its KV cache,
+ * images are billed far above their estimate, and prompted tool calling adds a
+ * system prompt that is not part of the messages. Such samples would skew the
+ * persisted factor.
+ */
+function isCalibrationSample(
+	config: SendChatRequestConfig,
+	messages: readonly VsCodeMessage[],
+	tools: readonly unknown[] | undefined
+): boolean {
+	if (config.apiMode === "ollama" || (config.promptedTools && tools && tools.length > 0)) {
+		return false;
+	}
+	return !messages.some((message) =>
+		(message.content ?? []).some(
+			(part) => isImagePart(part) || (isToolResultPart(part) && part.content.some(isImagePart))
+		)
+	);
 }
 
 /**
  * Send a chat request and process the streaming response
  *
  * This function encapsulates the complete HTTP request/response flow:
- * - Builds the request body using buildRequest()
- * - Sends the request with appropriate authentication headers
+ * - Rewrites tool schemas per config.schemaProfile, or describes the tools in the
+ *   prompt when config.promptedTools is set
+ * - Checks images against the limits of the API, downscaling oversized PNG and JPEG
+ *   images, and replaces images the model cannot take with a text placeholder
+ * - Fits the history into config.contextWindow, truncating tool results and
+ *   removing or summarizing the oldest turns
+ * - Records reported prompt tokens against the estimate in config.calibrator
+ * - Builds the request body using buildRequest() and repairs malformed history
+ * - Sends the request with appropriate authentication headers, through config.transport
+ * - Runs config.middleware hooks on the body, headers, response, stream events and errors
+ * - Retries failed attempts per config.retry, honoring Retry-After headers,
+ *   as long as nothing has been streamed yet
+ * - Aborts attempts that miss config.streamTimeouts with a StreamTimeoutError;
+ *   text streamed before the timeout stays with the caller
  * - Processes the streaming response using the appropriate stream processor
+ * - Moves inline <think> reasoning to onThinking when config.thinkingTags is set
+ * - Repairs malformed tool-call arguments; if that fails and the model produced
+ *   no valid tool call, asks again with an error result for the invalid call
+ * - Returns token usage, stop reason and model ID reported by the server; after
+ *   follow-up requests, usage is summed over all requests and the stop reason is
+ *   the one of the last request
  *
  * @param config - Request configuration including URL, auth, and API mode
  * @param model - Model ID to use
@@ -45,7 +294,9 @@ export interface ChatResponseCallbacks {
  * @param maxTokens - Maximum tokens for response
  * @param callbacks - Callbacks for handling streaming response
  * @param signal - Optional AbortSignal for cancellation
- * @throws Error if request fails or is cancelled
+ * @returns Response metadata (usage, stop reason, model)
+ * @throws ProviderError (or a subclass) if the provider rejects the request or cannot be reached,
+ *   DOMException AbortError if cancelled
  */
 export async function sendChatRequest(
 	config: SendChatRequestConfig,
@@ -55,47 +306,325 @@ export async function sendChatRequest(
 	maxTokens: number,
 	callbacks: ChatResponseCallbacks,
 	signal?: AbortSignal
-): Promise<void> {
-	// Build request body
-	const requestBody = buildRequest(config.apiMode, model, messages, tools, maxTokens);
+): Promise<ChatResponseResult> {
+	const maxRetries = config.invalidToolCallRetries ?? 1;
+
+	const images = prepareImages(config.apiMode, messages, { vision: config.vision, limits: config.imageLimits });
+	if (images.diagnostics.length > 0) {
+		callbacks.onImageDiagnostics?.(images.diagnostics);
+	}
+	let history = images.messages;
+
+	let requestTools = tools;
+	if (config.schemaProfile && tools && tools.length > 0) {
+		const profiled = applySchemaProfileToTools(tools, config.schemaProfile);
+		requestTools = profiled.tools;
+		if (profiled.dropped.length > 0) {
+			callbacks.onSchemaConstraintsDropped?.(profiled.dropped);
+		}
+	}
+
+	const { tokenizer, calibrator } = config;
+	if (config.contextWindow) {
+		const fitted = await fitContextWindow(history, {
+			tokenizer,
+			countTokens: calibrator && ((message) => calibrator.countTokens(model, message, tokenizer)),
+			...config.contextWindow,
+			tools: requestTools,
+		});
+		history = fitted.messages;
+		if (fitted.diagnostics.length > 0) {
+			callbacks.onContextDiagnostics?.(fitted.diagnostics);
+		}
+	}
+
+	const calibrate = calibrator !== undefined && isCalibrationSample(config, history, requestTools);
+	let usage: ChatUsage | undefined;
+	for (let round = 0; ; round++) {
+		const invalidCalls: InvalidToolCall[] = [];
+		const thinkingParts: VsCodeThinkingPart[] = [];
+		let thinking = "";
+		let text = "";
+		let toolCallCount = 0;
+
+		const result = await sendChatRequestOnce(
+			config,
+			model,
+			history,
+			requestTools,
+			maxTokens,
+			{
+				...callbacks,
+				onText: (chunk) => {
+					text += chunk;
+					callbacks.onText(chunk);
+				},
+				// Anthropic rejects a follow-up turn whose signed thinking is missing
+				onThinking: (...args) => {
+					const [chunk, signature] = args;
+					thinking += chunk;
+					if (signature) {
+						thinkingParts.push({ value: thinking, metadata: { signature } });
+						thinking = "";
+					}
+					callbacks.onThinking?.(...args);
+				},
+				onToolCall: (callId, name, args) => {
+					toolCallCount++;
+					callbacks.onToolCall(callId, name, args);
+				},
+				onInvalidToolCall: (call) => {
+					invalidCalls.push(call);
+					callbacks.onInvalidToolCall?.(call);
+				},
+			},
+			signal
+		);
+
+		if (calibrate && result.usage) {
+			calibrator.record(model, calibrator.estimatePrompt(history, requestTools, tokenizer), result.usage.promptTokens);
+		}
+		usage = addUsage(usage, result.usage);
+
+		// Valid calls were already handed to the caller, so the turn cannot be redone
+		if (invalidCalls.length === 0 || toolCallCount > 0 || round >= maxRetries) {
+			return { ...result, usage };
+		}
+
+		history = [
+			...history,
+			{
+				role: ROLE.Assistant,
+				content: [
+					...thinkingParts,
+					...(text ? [{ value: text }] : []),
+					...invalidCalls.map((call) => ({ callId: call.callId, name: call.name, input: {} })),
+				],
+			},
+			{
+				role: ROLE.User,
+				content: invalidCalls.map((call) => ({
+					callId: call.callId,
+					content: [{ value: invalidToolCallResult(call) }],
+				})),
+			},
+		];
+	}
+}
+
+/**
+ * Sum the token usage of two requests
+ */
+function addUsage(total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined {
+	if (!total || !usage) {
+		return total ?? usage;
+	}
+	const sum = (a: number | undefined, b: number | undefined) =>
+		a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+	return {
+		promptTokens: total.promptTokens + usage.promptTokens,
+		completionTokens: total.completionTokens + usage.completionTokens,
+		totalTokens: total.totalTokens + usage.totalTokens,
+		cachedTokens: sum(total.cachedTokens, usage.cachedTokens),
+		cacheCreationTokens: sum(total.cacheCreationTokens, usage.cacheCreationTokens),
+		reasoningTokens: sum(total.reasoningTokens, usage.reasoningTokens),
+	};
+}
+
+/**
+ * Send one request, retrying failed attempts per config.retry
+ */
+async function sendChatRequestOnce(
+	config: SendChatRequestConfig,
+	model: string,
+	messages: readonly VsCodeMessage[],
+	tools: readonly unknown[] | undefined,
+	maxTokens: number,
+	callbacks: ChatResponseCallbacks,
+	signal?: AbortSignal
+): Promise<ChatResponseResult> {
+	// Build request body; prompted tool calling describes the tools in the prompt instead
+	const prompted = config.promptedTools === true && !!tools && tools.length > 0;
+	const requestMessages = prompted
+		? toPromptedToolMessages(messages, tools, config.toolMode === TOOL_MODE.Required)
+		: messages;
+	const toolNames = new ToolNameMap();
+	const requestBody = buildRequest(config.apiMode, model, requestMessages, prompted ? undefined : tools, maxTokens, {
+		toolNames,
+		promptCaching: config.promptCaching,
+		sampling: resolveSamplingOptions(config.modelOptions, config.sampling),
+		toolMode: config.toolMode,
+		streamUsage: config.streamUsage,
+	});
+	if (config.historyRepair !== "off") {
+		const diagnostics = normalizeHistory(config.apiMode, requestBody, { repair: config.historyRepair !== "report" });
+		if (diagnostics.length > 0) {
+			callbacks.onHistoryDiagnostics?.(diagnostics);
+		}
+	}
+	const retryPolicy = resolveRetryPolicy(config.retry);
+	const middleware = config.middleware ?? [];
+	const context: MiddlewareContext = { apiMode: config.apiMode, model, url: getRequestUrl(config, model) };
+	const emit = (event: ChatStreamEvent) => runOnChunk(middleware, event, context);
 
 	// Set up abort controller
 	const controller = new AbortController();
 	const abortHandler = () => controller.abort();
 	signal?.addEventListener("abort", abortHandler);
 
-	try {
-		// Send request
-		const response = await fetch(config.baseUrl, {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-				// Use appropriate auth header based on API mode
-				...(config.apiMode === "anthropic"
-					? {
-							"x-api-key": config.apiKey,
-							"anthropic-version": "2023-06-01",
-						}
-					: { Authorization: `Bearer ${config.apiKey}` }),
-				...config.headers,
-			},
-			body: JSON.stringify(requestBody),
-			signal: controller.signal,
+	// Wait before the next attempt, or return false if no attempts are left
+	const prepareRetry = async (attempt: number, error: Error, response?: Response): Promise<boolean> => {
+		if (controller.signal.aborted || attempt >= retryPolicy.maxAttempts) {
+			return false;
+		}
+		const delayMs = computeRetryDelay(retryPolicy, attempt, response?.headers, response?.status);
+		if (delayMs === undefined) {
+			return false;
+		}
+		callbacks.onRetry?.({
+			attempt: attempt + 1,
+			maxAttempts: retryPolicy.maxAttempts,
+			delayMs,
+			status: response?.status,
+			error,
 		});
+		await sleep(delayMs, controller.signal);
+		return true;
+	};
 
-		// Check response status
-		if (!response.ok) {
-			const text = await response.text().catch(() => "");
-			throw new Error(`API request failed: ${response.status} ${response.statusText}${text ? `\n${text}` : ""}`);
-		}
+	let activeWatchdog: StreamWatchdog | undefined;
+	try {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+			// Use appropriate auth header based on API mode
+			...getAuthHeaders(config),
+			...config.headers,
+		};
+		const body = JSON.stringify(await runBeforeRequest(middleware, requestBody, headers, context));
+
+		for (let attempt = 1; ; attempt++) {
+			// Stream timeouts abort only the current attempt
+			const watchdog = config.streamTimeouts ? new StreamWatchdog(config.streamTimeouts) : undefined;
+			activeWatchdog?.stop();
+			activeWatchdog = watchdog;
+			const attemptSignal = watchdog ? AbortSignal.any([controller.signal, watchdog.signal]) : controller.signal;
+			watchdog?.start();
+
+			// Send request
+			let response: Response;
+			try {
+				response = await fetchWithTransport(
+					context.url,
+					{ method: "POST", headers, body, signal: attemptSignal },
+					config.transport
+				);
+			} catch (caught) {
+				const error = watchdog?.error ?? caught;
+				// Network failures (fetch rejects with TypeError), connect and first-byte timeouts are retryable
+				if (!(error instanceof TypeError) && !(error instanceof NetworkError && error.retryable)) {
+					throw error;
+				}
+				const networkError =
+					error instanceof NetworkError ? error : new NetworkError(error.message, { retryable: true, cause: error });
+				if (await prepareRetry(attempt, networkError)) {
+					continue;
+				}
+				throw networkError;
+			}
+			response = await runOnResponse(middleware, response, context);
 
-		// Select appropriate stream processor
-		const processStream = config.apiMode === "anthropic" ? processAnthropicStream : processOpenAIStream;
+			// Check response status
+			if (!response.ok) {
+				const text = await response.text().catch(() => "");
+				const error = createProviderErrorFromResponse(response.status, response.statusText, text);
+				if (
+					error.retryable &&
+					retryPolicy.retryableStatuses.includes(response.status) &&
+					(await prepareRetry(attempt, error, response))
+				) {
+					continue;
+				}
+				throw error;
+			}
 
-		// Process streaming response
-		await processStream(response, callbacks.onText, callbacks.onToolCall, controller.signal);
+			// Select appropriate stream processor; thinking tags and prompted tool calls are read from its text
+			let processStream = getStreamProcessor(config.apiMode);
+			if (config.thinkingTags) {
+				processStream = withThinkingTags(processStream, config.thinkingTags === true ? {} : config.thinkingTags);
+			}
+			if (prompted) {
+				processStream = withPromptedToolCalls(processStream);
+			}
+
+			// Track output so a stream that fails after the first token is never retried
+			let streamed = false;
+			try {
+				// Process streaming response
+				const result = await processStream(
+					watchdog ? watchdog.watch(response) : response,
+					(text) => {
+						streamed = true;
+						watchdog?.onOutput(text);
+						emit({ type: "text", text });
+						callbacks.onText(text);
+					},
+					(callId, name, args) => {
+						streamed = true;
+						watchdog?.onOutput();
+						emit({ type: "tool_call", callId, name, args });
+						callbacks.onToolCall(callId, name, args);
+					},
+					attemptSignal,
+					{
+						// Reasoning counts as output for the watchdog even when the caller ignores it
+						onThinking: (...args) => {
+							streamed = true;
+							watchdog?.onOutput();
+							emit({ type: "thinking", text: args[0], signature: args[1] });
+							callbacks.onThinking?.(...args);
+						},
+						onUsage: (usage) => {
+							emit({ type: "usage", usage });
+							callbacks.onUsage?.(usage);
+						},
+						onToolCallStart: (callId, name) => {
+							streamed = true;
+							watchdog?.onOutput();
+							callbacks.onToolCallStart?.(callId, name);
+						},
+						onToolCallChunk: callbacks.onToolCallChunk,
+						onToolCallEnd: callbacks.onToolCallEnd,
+						resolveToolName: (name) => toolNames.toOriginalName(name),
+						onInvalidToolCall: (callId, name, rawArguments, error) => {
+							callbacks.onInvalidToolCall?.({ callId, name, rawArguments, error });
+						},
+					}
+				);
+				// Processors stop quietly when the signal aborts
+				if (watchdog?.error) {
+					throw watchdog.error;
+				}
+				return result;
+			} catch (caught) {
+				const error = watchdog?.error ?? caught;
+				// Connection dropped (reading the body rejects with TypeError), a stream timeout, or
+				// the provider reported a transient error event before any output
+				const retryable = error instanceof ProviderError ? error.retryable : error instanceof TypeError;
+				if (!streamed && retryable && (await prepareRetry(attempt, error as Error))) {
+					continue;
+				}
+				throw error;
+			}
+		}
+	} catch (error) {
+		const failure =
+			isTimeoutError(error) && !signal?.aborted
+				? new NetworkError(`Request timed out after ${config.transport?.timeoutMs} ms`, { cause: error })
+				: error;
+		throw failure instanceof Error ? await runOnError(middleware, failure, context) : failure;
 	} finally {
 		// Cleanup
+		activeWatchdog?.stop();
 		signal?.removeEventListener("abort", abortHandler);
 		if (!signal?.aborted) {
 			controller.abort();
@@ -105,6 +634,9 @@ export async function sendChatRequest(
 
 /**
  * Alternative version that throws errors with provider context
+ *
+ * Provider failures keep their ProviderError subclass (status, code, retryable)
+ * with the provider name set; cancellation becomes "Request was cancelled".
  */
 export async function sendChatRequestWithProvider(
 	config: SendChatRequestConfig,
@@ -115,14 +647,17 @@ export async function sendChatRequestWithProvider(
 	maxTokens: number,
 	callbacks: ChatResponseCallbacks,
 	signal?: AbortSignal
-): Promise<void> {
+): Promise<ChatResponseResult> {
 	try {
-		await sendChatRequest(config, model, messages, tools, maxTokens, callbacks, signal);
+		return await sendChatRequest(config, model, messages, tools, maxTokens, callbacks, signal);
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : "Unknown error";
 		if (error instanceof DOMException && error.name === "AbortError") {
 			throw new Error("Request was cancelled");
 		}
+		if (error instanceof ProviderError) {
+			throw withProviderContext(error, providerName, `Failed to connect to ${providerName}: ${errorMessage}`);
+		}
 		throw new Error(`Failed to connect to ${providerName}: ${errorMessage}`);
 	}
 }
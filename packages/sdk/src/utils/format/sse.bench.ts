@@ -0,0 +1,46 @@
+/**
+ * Benchmarks for the incremental SSE parser
+ *
+ * Run with `pnpm bench`. Throughput per megabyte should stay flat as the
+ * response grows; a quadratic parser slows down sharply on larger inputs.
+ */
+
+import { bench, describe } from "vitest";
+import { SSEParser } from "./sse";
+
+const CHUNK_SIZE = 256;
+
+/** Build an OpenAI-style stream of about `megabytes` MB of small delta events */
+function buildManyEvents(megabytes: number): string {
+	const event = `data: ${JSON.stringify({ choices: [{ delta: { content: "token " } }] })}\n\n`;
+	return event.repeat(Math.ceil((megabytes * 1024 * 1024) / event.length));
+}
+
+/** Build a single event whose data line is about `megabytes` MB long */
+function buildOneLargeEvent(megabytes: number): string {
+	return `data: ${JSON.stringify({ content: "x".repeat(megabytes * 1024 * 1024) })}\n\n`;
+}
+
+function parseInChunks(text: string): number {
+	const parser = new SSEParser();
+	let count = 0;
+	for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+		count += parser.feed(text.slice(i, i + CHUNK_SIZE)).length;
+	}
+	return count + parser.end().length;
+}
+
+for (const size of [1, 4]) {
+	describe(`${size} MB response`, () => {
+		const manyEvents = buildManyEvents(size);
+		const oneLargeEvent = buildOneLargeEvent(size);
+
+		bench("many small events", () => {
+			parseInChunks(manyEvents);
+		});
+
+		bench("one large event", () => {
+			parseInChunks(oneLargeEvent);
+		});
+	});
+}
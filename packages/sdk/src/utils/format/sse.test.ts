@@ -0,0 +1,196 @@
+/**
+ * Unit tests for the incremental SSE parser
+ */
+
+import { describe, it, expect } from "vitest";
+import { LineDecoder, SSEParser, readSSEStream, readLineStream } from "./sse";
+
+function createMockResponse(chunks: string[]): Response {
+	const stream = new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(new TextEncoder().encode(chunk));
+			}
+			controller.close();
+		},
+	});
+	return { ok: true, status: 200, body: stream } as Response;
+}
+
+/** Feed text one character at a time */
+function feedByChar(parser: SSEParser, text: string) {
+	const events = [];
+	for (const char of text) {
+		events.push(...parser.feed(char));
+	}
+	events.push(...parser.end());
+	return events;
+}
+
+describe("LineDecoder", () => {
+	it("should split on LF, CRLF and lone CR", () => {
+		const decoder = new LineDecoder();
+		expect(decoder.push("a\nb\r\nc\rd")).toEqual(["a", "b", "c"]);
+		expect(decoder.end()).toEqual(["d"]);
+	});
+
+	it("should handle CRLF split across chunks", () => {
+		const decoder = new LineDecoder();
+		expect(decoder.push("a\r")).toEqual(["a"]);
+		expect(decoder.push("\nb\n")).toEqual(["b"]);
+	});
+
+	it("should join lines spanning chunks", () => {
+		const decoder = new LineDecoder();
+		expect(decoder.push("hel")).toEqual([]);
+		expect(decoder.push("lo")).toEqual([]);
+		expect(decoder.push(" world\n")).toEqual(["hello world"]);
+	});
+
+	it("should throw when a line exceeds the maximum size", () => {
+		const decoder = new LineDecoder(8);
+		decoder.push("12345");
+		expect(() => decoder.push("6789")).toThrow("maximum size");
+	});
+});
+
+describe("SSEParser", () => {
+	it("should parse events with names and data", () => {
+		const parser = new SSEParser();
+		const events = parser.feed('event: ping\ndata: {"a":1}\n\ndata: {"b":2}\n\n');
+
+		expect(events).toEqual([
+			{ event: "ping", data: '{"a":1}' },
+			{ event: "message", data: '{"b":2}' },
+		]);
+	});
+
+	it("should join multi-line data with newlines", () => {
+		const parser = new SSEParser();
+		expect(parser.feed("data: line one\ndata: line two\n\n")).toEqual([
+			{ event: "message", data: "line one\nline two" },
+		]);
+	});
+
+	it("should tolerate CRLF line endings and a leading BOM", () => {
+		const parser = new SSEParser();
+		expect(parser.feed('\uFEFFevent: a\r\ndata: {"x":1}\r\n\r\n')).toEqual([{ event: "a", data: '{"x":1}' }]);
+	});
+
+	it("should give the same result regardless of chunking", () => {
+		const text = 'event: a\r\ndata: {"x":1}\r\n\r\n: keep-alive\r\ndata: two\r\ndata: lines\r\n\r\n';
+		const whole = new SSEParser();
+		const expected = [...whole.feed(text), ...whole.end()];
+
+		expect(feedByChar(new SSEParser(), text)).toEqual(expected);
+		expect(expected).toHaveLength(2);
+	});
+
+	it("should ignore comments and unknown fields", () => {
+		const parser = new SSEParser();
+		expect(parser.feed(": OPENROUTER PROCESSING\nfoo: bar\ndata: hi\n\n")).toEqual([{ event: "message", data: "hi" }]);
+	});
+
+	it("should track id and retry fields", () => {
+		const parser = new SSEParser();
+		const events = parser.feed("id: 42\nretry: 3000\ndata: a\n\ndata: b\n\n");
+
+		expect(events).toEqual([
+			{ event: "message", data: "a", id: "42", retry: 3000 },
+			{ event: "message", data: "b", id: "42", retry: 3000 },
+		]);
+		expect(parser.lastEventId).toBe("42");
+	});
+
+	it("should only remove a single leading space from values", () => {
+		const parser = new SSEParser();
+		expect(parser.feed("data:no-space\n\ndata:  two-spaces\n\n")).toEqual([
+			{ event: "message", data: "no-space" },
+			{ event: "message", data: " two-spaces" },
+		]);
+	});
+
+	it("should not dispatch events without data", () => {
+		const parser = new SSEParser();
+		expect(parser.feed("event: empty\n\ndata: x\n\n")).toEqual([{ event: "message", data: "x" }]);
+	});
+
+	it("should dispatch an unterminated event at the end of the stream", () => {
+		const parser = new SSEParser();
+		expect(parser.feed("data: last")).toEqual([]);
+		expect(parser.end()).toEqual([{ event: "message", data: "last" }]);
+	});
+
+	it("should split JSON events missing the blank line separator", () => {
+		const parser = new SSEParser();
+		const events = parser.feed('data: {"a":1}\ndata: {"b":2}\nevent: x\ndata: {"c":3}\n');
+
+		expect([...events, ...parser.end()]).toEqual([
+			{ event: "message", data: '{"a":1}' },
+			{ event: "message", data: '{"b":2}' },
+			{ event: "x", data: '{"c":3}' },
+		]);
+	});
+
+	it("should keep multi-line JSON together", () => {
+		const parser = new SSEParser();
+		expect(parser.feed('data: {\ndata: "a": 1\ndata: }\n\n')).toEqual([{ event: "message", data: '{\n"a": 1\n}' }]);
+	});
+
+	it("should join data lines when tolerance is disabled", () => {
+		const parser = new SSEParser({ tolerateMissingBlankLines: false });
+		expect(parser.feed('data: {"a":1}\ndata: {"b":2}\n\n')).toEqual([{ event: "message", data: '{"a":1}\n{"b":2}' }]);
+	});
+
+	it("should throw when an event exceeds the maximum size", () => {
+		const parser = new SSEParser({ maxEventSize: 16, tolerateMissingBlankLines: false });
+		expect(() => parser.feed("data: 0123456789\ndata: 0123456789\n")).toThrow("maximum size");
+	});
+});
+
+describe("readSSEStream", () => {
+	it("should decode bytes and report events", async () => {
+		const events: string[] = [];
+		const completed = await readSSEStream(createMockResponse(["data: a\n", "\ndata: b"]), (e) => events.push(e.data));
+
+		expect(completed).toBe(true);
+		expect(events).toEqual(["a", "b"]);
+	});
+
+	it("should decode multi-byte characters split across chunks", async () => {
+		const bytes = new TextEncoder().encode("data: 你好\n\n");
+		const stream = new ReadableStream({
+			start(controller) {
+				controller.enqueue(bytes.slice(0, 8));
+				controller.enqueue(bytes.slice(8));
+				controller.close();
+			},
+		});
+		const events: string[] = [];
+		await readSSEStream({ body: stream } as Response, (e) => events.push(e.data));
+
+		expect(events).toEqual(["你好"]);
+	});
+
+	it("should stop when the signal is aborted", async () => {
+		const controller = new AbortController();
+		controller.abort();
+
+		const completed = await readSSEStream(createMockResponse(["data: a\n\n"]), () => {}, controller.signal);
+
+		expect(completed).toBe(false);
+	});
+
+	it("should throw without a response body", async () => {
+		await expect(readSSEStream({} as Response, () => {})).rejects.toThrow("No response body");
+	});
+});
+
+describe("readLineStream", () => {
+	it("should report each line including the unterminated last one", async () => {
+		const lines: string[] = [];
+		await readLineStream(createMockResponse(['{"a":1}\r\n{"b"', ":2}\n", '{"c":3}']), (line) => lines.push(line));
+
+		expect(lines).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+	});
+});
@@ -0,0 +1,355 @@
+/**
+ * Server-Sent Events Parsing
+ * Incremental line and event parsing shared by the stream processors
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SSEEvent {
+	/** Event type from the `event:` field ("message" when absent) */
+	event: string;
+	/** Data lines joined with "\n" */
+	data: string;
+	/** Last event ID seen on the stream, if any */
+	id?: string;
+	/** Reconnection time from the `retry:` field, if any */
+	retry?: number;
+}
+
+/**
+ * Options for SSEParser
+ */
+export interface SSEParserOptions {
+	/**
+	 * Maximum size of a single line or event in characters. Exceeding it throws,
+	 * so a misbehaving server cannot grow the buffer without bound.
+	 * @default 16777216 (16M characters)
+	 */
+	maxEventSize?: number;
+	/**
+	 * Some OpenAI-compatible servers and proxies omit the blank line between events.
+	 * When enabled, an `event:` line or a `data:` line that follows data already
+	 * forming a complete JSON value starts a new event instead of being joined.
+	 * @default true
+	 */
+	tolerateMissingBlankLines?: boolean;
+}
+
+const DEFAULT_MAX_EVENT_SIZE = 16 * 1024 * 1024;
+
+// ============================================================================
+// Line Decoder
+// ============================================================================
+
+/**
+ * Split text chunks into lines incrementally
+ *
+ * Accepts LF, CRLF and lone CR terminators, including a CRLF split across chunks.
+ * Partial lines are kept as a list of pieces and joined once, so a long line
+ * arriving in many small chunks costs linear time.
+ */
+export class LineDecoder {
+	private pieces: string[] = [];
+	private pendingSize = 0;
+	private skipLeadingLF = false;
+
+	constructor(private readonly maxLineSize: number = DEFAULT_MAX_EVENT_SIZE) {}
+
+	/**
+	 * Feed a chunk of text and return the lines it completes (without terminators)
+	 */
+	push(chunk: string): string[] {
+		const lines: string[] = [];
+		let start = 0;
+
+		if (this.skipLeadingLF && chunk.length > 0) {
+			if (chunk.charCodeAt(0) === 10) {
+				start = 1;
+			}
+			this.skipLeadingLF = false;
+		}
+
+		for (let i = start; i < chunk.length; i++) {
+			const code = chunk.charCodeAt(i);
+			if (code !== 10 && code !== 13) {
+				continue;
+			}
+
+			this.append(chunk.slice(start, i));
+			lines.push(this.pieces.length === 1 ? this.pieces[0] : this.pieces.join(""));
+			this.pieces = [];
+			this.pendingSize = 0;
+
+			if (code === 13) {
+				if (i + 1 < chunk.length) {
+					if (chunk.charCodeAt(i + 1) === 10) {
+						i++;
+					}
+				} else {
+					// CR at the end of the chunk: an LF may start the next one
+					this.skipLeadingLF = true;
+				}
+			}
+			start = i + 1;
+		}
+
+		if (start < chunk.length) {
+			this.append(chunk.slice(start));
+		}
+		return lines;
+	}
+
+	/**
+	 * Return the final unterminated line, if any, and reset
+	 */
+	end(): string[] {
+		const rest = this.pieces.join("");
+		this.pieces = [];
+		this.pendingSize = 0;
+		this.skipLeadingLF = false;
+		return rest ? [rest] : [];
+	}
+
+	private append(piece: string): void {
+		if (!piece) {
+			return;
+		}
+		this.pendingSize += piece.length;
+		if (this.pendingSize > this.maxLineSize) {
+			throw new Error(`Stream line exceeds maximum size of ${this.maxLineSize} characters`);
+		}
+		this.pieces.push(piece);
+	}
+}
+
+// ============================================================================
+// SSE Parser
+// ============================================================================
+
+function isCompleteJson(text: string): boolean {
+	const first = text.trimStart().charAt(0);
+	if (first !== "{" && first !== "[") {
+		return false;
+	}
+	try {
+		JSON.parse(text);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Incremental parser for the text/event-stream format
+ *
+ * Follows the WHATWG event stream rules: `event`, `data`, `id` and `retry`
+ * fields, comment lines starting with ":", multi-line data joined with "\n",
+ * any line terminator, and a leading BOM. An event is dispatched on a blank
+ * line; an unterminated event at the end of the stream is dispatched by end().
+ */
+export class SSEParser {
+	private readonly lines: LineDecoder;
+	private readonly maxEventSize: number;
+	private readonly tolerateMissingBlankLines: boolean;
+	private eventType = "";
+	private dataLines: string[] = [];
+	private dataSize = 0;
+	private started = false;
+
+	/** Last event ID received (persists across events, as in the spec) */
+	lastEventId: string | undefined;
+	/** Last reconnection time received, in milliseconds */
+	retry: number | undefined;
+
+	constructor(options: SSEParserOptions = {}) {
+		this.maxEventSize = options.maxEventSize ?? DEFAULT_MAX_EVENT_SIZE;
+		this.tolerateMissingBlankLines = options.tolerateMissingBlankLines ?? true;
+		this.lines = new LineDecoder(this.maxEventSize);
+	}
+
+	/**
+	 * Feed a chunk of decoded text and return the events it completes
+	 */
+	feed(chunk: string): SSEEvent[] {
+		if (!this.started && chunk.length > 0) {
+			this.started = true;
+			if (chunk.charCodeAt(0) === 0xfeff) {
+				chunk = chunk.slice(1);
+			}
+		}
+
+		const events: SSEEvent[] = [];
+		for (const line of this.lines.push(chunk)) {
+			this.processLine(line, events);
+		}
+		return events;
+	}
+
+	/**
+	 * Signal the end of the stream and return any remaining event
+	 */
+	end(): SSEEvent[] {
+		const events: SSEEvent[] = [];
+		for (const line of this.lines.end()) {
+			this.processLine(line, events);
+		}
+		this.dispatch(events);
+		return events;
+	}
+
+	private processLine(line: string, events: SSEEvent[]): void {
+		if (line === "") {
+			this.dispatch(events);
+			return;
+		}
+		if (line.charCodeAt(0) === 58) {
+			// ":" starts a comment (used as keep-alive)
+			return;
+		}
+
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.charCodeAt(0) === 32) {
+			value = value.slice(1);
+		}
+
+		switch (field) {
+			case "event":
+				if (this.tolerateMissingBlankLines && this.dataLines.length > 0) {
+					this.dispatch(events);
+				}
+				this.eventType = value;
+				break;
+			case "data":
+				// Only single-line data is checked, keeping multi-line events linear
+				if (this.tolerateMissingBlankLines && this.dataLines.length === 1 && isCompleteJson(this.dataLines[0])) {
+					this.dispatch(events);
+				}
+				this.dataSize += value.length + 1;
+				if (this.dataSize > this.maxEventSize) {
+					throw new Error(`Stream event exceeds maximum size of ${this.maxEventSize} characters`);
+				}
+				this.dataLines.push(value);
+				break;
+			case "id":
+				if (!value.includes("\0")) {
+					this.lastEventId = value;
+				}
+				break;
+			case "retry":
+				if (/^\d+$/.test(value)) {
+					this.retry = parseInt(value, 10);
+				}
+				break;
+			default:
+				// Unknown fields are ignored
+				break;
+		}
+	}
+
+	private dispatch(events: SSEEvent[]): void {
+		if (this.dataLines.length === 0) {
+			this.eventType = "";
+			return;
+		}
+
+		const event: SSEEvent = {
+			event: this.eventType || "message",
+			data: this.dataLines.length === 1 ? this.dataLines[0] : this.dataLines.join("\n"),
+		};
+		if (this.lastEventId !== undefined) {
+			event.id = this.lastEventId;
+		}
+		if (this.retry !== undefined) {
+			event.retry = this.retry;
+		}
+		events.push(event);
+
+		this.eventType = "";
+		this.dataLines = [];
+		this.dataSize = 0;
+	}
+}
+
+// ============================================================================
+// Stream Reading
+// ============================================================================
+
+/**
+ * Read a streaming response body and call onEvent for each server-sent event
+ *
+ * @param response - Fetch response with a streaming body
+ * @param onEvent - Called for each event; exceptions abort reading
+ * @param signal - Optional AbortSignal; reading stops when it fires
+ * @param options - Parser options
+ * @returns true if the stream ended, false if reading stopped because of the signal
+ * @throws Error if the response has no body
+ */
+export async function readSSEStream(
+	response: Response,
+	onEvent: (event: SSEEvent) => void,
+	signal?: AbortSignal,
+	options?: SSEParserOptions
+): Promise<boolean> {
+	return readTextStream(response, new SSEParser(options), onEvent, signal);
+}
+
+/**
+ * Read a newline-delimited response body (e.g. NDJSON) and call onLine for each line
+ *
+ * @returns true if the stream ended, false if reading stopped because of the signal
+ * @throws Error if the response has no body
+ */
+export async function readLineStream(
+	response: Response,
+	onLine: (line: string) => void,
+	signal?: AbortSignal
+): Promise<boolean> {
+	const lines = new LineDecoder();
+	return readTextStream(response, { feed: (chunk) => lines.push(chunk), end: () => lines.end() }, onLine, signal);
+}
+
+interface IncrementalParser<T> {
+	feed(chunk: string): T[];
+	end(): T[];
+}
+
+async function readTextStream<T>(
+	response: Response,
+	parser: IncrementalParser<T>,
+	onItem: (item: T) => void,
+	signal?: AbortSignal
+): Promise<boolean> {
+	const reader = response.body?.getReader();
+	if (!reader) {
+		throw new Error("No response body");
+	}
+
+	const decoder = new TextDecoder();
+	try {
+		while (true) {
+			if (signal?.aborted) {
+				return false;
+			}
+
+			const { done, value } = await reader.read();
+			const items = done
+				? [...parser.feed(decoder.decode()), ...parser.end()]
+				: parser.feed(decoder.decode(value, { stream: true }));
+			for (const item of items) {
+				onItem(item);
+			}
+			if (done) {
+				return true;
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
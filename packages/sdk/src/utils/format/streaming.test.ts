@@ -3,7 +3,22 @@
  */
 
 import { describe, it, expect, vi } from "vitest";
-import { processOpenAIStream, processAnthropicStream } from "./streaming";
+import {
+	processOpenAIStream,
+	processOpenAIResponsesStream,
+	processAnthropicStream,
+	processGeminiStream,
+	processOllamaStream,
+	processStreamWithHandler,
+	PromptedToolCallParser,
+	ThinkingTagSplitter,
+	withPromptedToolCalls,
+	withThinkingTags,
+} from "./streaming";
+import type { StreamingHandler } from "../../core/types";
+import { ServerError } from "./errors";
+import { convertToGemini } from "./convert";
+import type { StopReason } from "./types";
 
 // Helper to create a mock ReadableStream
 function createMockReadableStream(chunks: string[]): ReadableStream {
@@ -46,6 +61,35 @@ describe("processOpenAIStream", () => {
 		expect(onToolCall).not.toHaveBeenCalled();
 	});
 
+	it("should handle CRLF, comments and events split across chunks", async () => {
+		const chunks = [
+			": keep-alive\r\n\r\n",
+			'data: {"choices":[{"delta":{"con',
+			'tent":"Hello"}}]}\r',
+			"\n\r\n",
+			"data: [DONE]\r\n\r\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+
+		await processOpenAIStream(response, onText, vi.fn());
+
+		expect(onText).toHaveBeenCalledOnce();
+		expect(onText).toHaveBeenCalledWith("Hello");
+	});
+
+	it("should process data split over multiple data lines", async () => {
+		const chunks = ['data: {"choices":[{"delta":\ndata: {"content":"Hi"}}]}\n\n', "data: [DONE]\n\n"];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+
+		await processOpenAIStream(response, onText, vi.fn());
+
+		expect(onText).toHaveBeenCalledWith("Hi");
+	});
+
 	it("should process tool calls correctly", async () => {
 		const chunks = [
 			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"get_weather","arguments":"{\\"location\\":\\"Beijing\\"}"}}]}}]}\n',
@@ -79,6 +123,124 @@ describe("processOpenAIStream", () => {
 		expect(onToolCall).toHaveBeenCalledWith("call_1", "get_weather", {});
 	});
 
+	it("should repair truncated tool arguments", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"read_file","arguments":"{\\"path\\": \\"a.ts"}}]}}]}\n',
+			'data: {"choices":[{"delta":{},"finish_reason":"tool_calls"}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+
+		await processOpenAIStream(response, vi.fn(), onToolCall);
+
+		expect(onToolCall).toHaveBeenCalledWith("call_1", "read_file", { path: "a.ts" });
+	});
+
+	it("should report unrepairable tool arguments through onInvalidToolCall", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"read_file","arguments":"path=a.ts"}}]}}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+
+		await processOpenAIStream(response, vi.fn(), onToolCall, undefined, { onInvalidToolCall });
+
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"call_1",
+			"read_file",
+			"path=a.ts",
+			expect.stringMatching(/^Invalid JSON/)
+		);
+	});
+
+	it("should not run unrepairable tool calls without onInvalidToolCall", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"read_file","arguments":"path=a.ts"}}]}}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+
+		await processOpenAIStream(response, vi.fn(), onToolCall);
+
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Tool call read_file was not run: Invalid JSON/));
+		warn.mockRestore();
+	});
+
+	it("should report arguments cut off at the length limit as invalid", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"write_file","arguments":"{\\"path\\": \\"a.ts\\", \\"content\\": \\"line 1"}}]}}]}\n',
+			'data: {"choices":[{"delta":{},"finish_reason":"length"}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+
+		await processOpenAIStream(response, vi.fn(), onToolCall, undefined, { onInvalidToolCall });
+
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"call_1",
+			"write_file",
+			'{"path": "a.ts", "content": "line 1',
+			"The arguments were cut off at the output token limit"
+		);
+	});
+
+	it("should report empty arguments of the last call at the length limit as invalid", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"list_files","arguments":""}},{"id":"call_2","index":1,"type":"function","function":{"name":"write_file","arguments":""}}]}}]}\n',
+			'data: {"choices":[{"delta":{},"finish_reason":"length"}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+
+		await processOpenAIStream(response, vi.fn(), onToolCall, undefined, { onInvalidToolCall });
+
+		expect(onToolCall).toHaveBeenCalledTimes(1);
+		expect(onToolCall).toHaveBeenCalledWith("call_1", "list_files", {});
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"call_2",
+			"write_file",
+			"",
+			"The arguments were cut off at the output token limit"
+		);
+	});
+
+	it("should report repaired arguments as invalid when the stream ends without a stop reason", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"id":"call_1","index":0,"type":"function","function":{"name":"write_file","arguments":"{\\"content\\": \\"hel"}}]}}]}\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+
+		await processOpenAIStream(response, vi.fn(), onToolCall, undefined, { onInvalidToolCall });
+
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"call_1",
+			"write_file",
+			'{"content": "hel',
+			"The arguments were cut off at the output token limit"
+		);
+	});
+
 	it("should throw error when response has no body", async () => {
 		const response = { ok: true, status: 200, body: null } as Response;
 		const onText = vi.fn();
@@ -98,6 +260,148 @@ describe("processOpenAIStream", () => {
 		expect(onText).not.toHaveBeenCalled();
 		expect(onToolCall).not.toHaveBeenCalled();
 	});
+
+	it("should report reasoning_content and reasoning deltas as thinking", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"reasoning_content":"Let me think"}}]}\n',
+			'data: {"choices":[{"delta":{"reasoning":" harder"}}]}\n',
+			'data: {"choices":[{"delta":{"reasoning_details":[{"type":"reasoning.text","text":"..."}]}}]}\n',
+			'data: {"choices":[{"delta":{"content":"Answer"}}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+		const onToolCall = vi.fn();
+		const onThinking = vi.fn();
+
+		await processOpenAIStream(response, onText, onToolCall, undefined, { onThinking });
+
+		expect(onThinking.mock.calls.map((c) => c[0])).toEqual(["Let me think", " harder", "..."]);
+		expect(onText).toHaveBeenCalledTimes(1);
+		expect(onText).toHaveBeenCalledWith("Answer");
+	});
+	it("should return usage, stop reason and model from the final chunks", async () => {
+		const chunks = [
+			'data: {"id":"chatcmpl-1","model":"deepseek-chat","choices":[{"delta":{"content":"Hi"}}]}\n',
+			'data: {"id":"chatcmpl-1","model":"deepseek-chat","choices":[{"delta":{},"finish_reason":"length"}]}\n',
+			'data: {"id":"chatcmpl-1","choices":[],"usage":{"prompt_tokens":100,"completion_tokens":20,"total_tokens":120,"prompt_tokens_details":{"cached_tokens":64},"completion_tokens_details":{"reasoning_tokens":5}}}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onUsage = vi.fn();
+
+		const result = await processOpenAIStream(response, vi.fn(), vi.fn(), undefined, { onUsage });
+
+		expect(result).toEqual({
+			responseId: "chatcmpl-1",
+			model: "deepseek-chat",
+			rawStopReason: "length",
+			stopReason: "max_tokens",
+			usage: {
+				promptTokens: 100,
+				completionTokens: 20,
+				totalTokens: 120,
+				cachedTokens: 64,
+				reasoningTokens: 5,
+			},
+		});
+		expect(onUsage).toHaveBeenCalledOnce();
+		expect(onUsage).toHaveBeenCalledWith(result.usage);
+	});
+
+	it("should read usage nested in the choice (Kimi)", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{},"finish_reason":"stop","usage":{"prompt_tokens":10,"completion_tokens":2,"total_tokens":12}}]}\n',
+			"data: [DONE]\n",
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const result = await processOpenAIStream(response, vi.fn(), vi.fn());
+
+		expect(result.stopReason).toBe("stop");
+		expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 2, totalTokens: 12 });
+	});
+
+	it("should not call onUsage when the provider reports no usage", async () => {
+		const chunks = ['data: {"choices":[{"delta":{"content":"Hi"}}]}\n', "data: [DONE]\n"];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onUsage = vi.fn();
+		const result = await processOpenAIStream(response, vi.fn(), vi.fn(), undefined, { onUsage });
+
+		expect(result.usage).toBeUndefined();
+		expect(onUsage).not.toHaveBeenCalled();
+	});
+});
+
+describe("processOpenAIResponsesStream", () => {
+	it("should process text, reasoning summaries and completion", async () => {
+		const chunks = [
+			'event: response.created\ndata: {"type":"response.created","response":{"id":"resp_1","model":"gpt-5"}}\n\n',
+			'event: response.reasoning_summary_text.delta\ndata: {"type":"response.reasoning_summary_text.delta","delta":"Plan"}\n\n',
+			'event: response.output_text.delta\ndata: {"type":"response.output_text.delta","delta":"Hello"}\n\n',
+			'event: response.output_text.delta\ndata: {"type":"response.output_text.delta","delta":" World"}\n\n',
+			'event: response.completed\ndata: {"type":"response.completed","response":{"id":"resp_1","model":"gpt-5","status":"completed","usage":{"input_tokens":20,"input_tokens_details":{"cached_tokens":8},"output_tokens":6,"output_tokens_details":{"reasoning_tokens":2},"total_tokens":26}}}\n\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+		const onThinking = vi.fn();
+
+		const result = await processOpenAIResponsesStream(response, onText, vi.fn(), undefined, { onThinking });
+
+		expect(onThinking).toHaveBeenCalledWith("Plan");
+		expect(onText.mock.calls.map((c) => c[0])).toEqual(["Hello", " World"]);
+		expect(result).toEqual({
+			responseId: "resp_1",
+			model: "gpt-5",
+			rawStopReason: "completed",
+			stopReason: "stop",
+			usage: { promptTokens: 20, completionTokens: 6, totalTokens: 26, cachedTokens: 8, reasoningTokens: 2 },
+		});
+	});
+
+	it("should accumulate function call arguments and report on item done", async () => {
+		const chunks = [
+			'data: {"type":"response.output_item.added","output_index":0,"item":{"type":"function_call","id":"fc_1","call_id":"call_abc","name":"get_weather","arguments":""}}\n\n',
+			'data: {"type":"response.function_call_arguments.delta","item_id":"fc_1","delta":"{\\"city\\":"}\n\n',
+			'data: {"type":"response.function_call_arguments.delta","item_id":"fc_1","delta":"\\"Rome\\"}"}\n\n',
+			'data: {"type":"response.output_item.done","output_index":0,"item":{"type":"function_call","id":"fc_1","call_id":"call_abc","name":"get_weather"}}\n\n',
+			'data: {"type":"response.completed","response":{"status":"completed"}}\n\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+
+		const result = await processOpenAIResponsesStream(response, vi.fn(), onToolCall);
+
+		expect(onToolCall).toHaveBeenCalledWith("call_abc", "get_weather", { city: "Rome" });
+		expect(result.stopReason).toBe("tool_calls");
+	});
+
+	it("should report max_output_tokens truncation", async () => {
+		const chunks = [
+			'data: {"type":"response.incomplete","response":{"status":"incomplete","incomplete_details":{"reason":"max_output_tokens"}}}\n\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const result = await processOpenAIResponsesStream(response, vi.fn(), vi.fn());
+
+		expect(result.stopReason).toBe("max_tokens");
+		expect(result.rawStopReason).toBe("max_output_tokens");
+	});
+
+	it("should throw on response.failed", async () => {
+		const chunks = [
+			'data: {"type":"response.failed","response":{"status":"failed","error":{"code":"server_error","message":"Boom"}}}\n\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+
+		await expect(processOpenAIResponsesStream(response, vi.fn(), vi.fn())).rejects.toThrow("Boom");
+	});
 });
 
 describe("processAnthropicStream", () => {
@@ -137,6 +441,85 @@ describe("processAnthropicStream", () => {
 		expect(onText).not.toHaveBeenCalled();
 	});
 
+	it("should judge closed-by-repair arguments by the stop reason that follows the block", async () => {
+		const stream = (stopReason: string) => [
+			'event: content_block_start\ndata: {"type":"content_block_start","content_block":{"type":"tool_use","id":"tool_1","name":"write_file"}}\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"input_json_delta","partial_json":"{\\"content\\": \\"hel"}}\n',
+			'event: content_block_stop\ndata: {"type":"content_block_stop"}\n',
+			`event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"${stopReason}"}}\n`,
+		];
+
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+		await processAnthropicStream(
+			createMockResponse(createMockReadableStream(stream("max_tokens"))),
+			vi.fn(),
+			onToolCall,
+			undefined,
+			{ onInvalidToolCall }
+		);
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"tool_1",
+			"write_file",
+			'{"content": "hel',
+			"The arguments were cut off at the output token limit"
+		);
+
+		await processAnthropicStream(createMockResponse(createMockReadableStream(stream("tool_use"))), vi.fn(), onToolCall);
+		expect(onToolCall).toHaveBeenCalledWith("tool_1", "write_file", { content: "hel" });
+	});
+
+	it("should report empty input of a call cut off at max_tokens as invalid", async () => {
+		const stream = (stopReason: string) => [
+			'event: content_block_start\ndata: {"type":"content_block_start","content_block":{"type":"tool_use","id":"tool_1","name":"write_file"}}\n',
+			'event: content_block_stop\ndata: {"type":"content_block_stop"}\n',
+			`event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"${stopReason}"}}\n`,
+		];
+
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+		await processAnthropicStream(
+			createMockResponse(createMockReadableStream(stream("max_tokens"))),
+			vi.fn(),
+			onToolCall,
+			undefined,
+			{ onInvalidToolCall }
+		);
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"tool_1",
+			"write_file",
+			"",
+			"The arguments were cut off at the output token limit"
+		);
+
+		// Tools without parameters are called with empty input
+		await processAnthropicStream(createMockResponse(createMockReadableStream(stream("tool_use"))), vi.fn(), onToolCall);
+		expect(onToolCall).toHaveBeenCalledWith("tool_1", "write_file", {});
+	});
+
+	it("should report repaired input as invalid when the stream ends without a stop reason", async () => {
+		const chunks = [
+			'event: content_block_start\ndata: {"type":"content_block_start","content_block":{"type":"tool_use","id":"tool_1","name":"write_file"}}\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"input_json_delta","partial_json":"{\\"content\\": \\"hel"}}\n',
+		];
+
+		const onToolCall = vi.fn();
+		const onInvalidToolCall = vi.fn();
+		await processAnthropicStream(createMockResponse(createMockReadableStream(chunks)), vi.fn(), onToolCall, undefined, {
+			onInvalidToolCall,
+		});
+
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			"tool_1",
+			"write_file",
+			'{"content": "hel',
+			"The arguments were cut off at the output token limit"
+		);
+	});
+
 	it("should handle empty stream", async () => {
 		const chunks: string[] = [];
 		const response = createMockResponse(createMockReadableStream(chunks));
@@ -201,4 +584,561 @@ describe("processAnthropicStream", () => {
 
 		expect(onText).toHaveBeenCalledWith("Hello");
 	});
+
+	it("should report thinking and signature deltas", async () => {
+		const chunks = [
+			'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"thinking","thinking":""}}\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"thinking_delta","thinking":"Reasoning"}}\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"signature_delta","signature":"sig123"}}\n',
+			'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","index":1,"delta":{"type":"text_delta","text":"Done"}}\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+		const onToolCall = vi.fn();
+		const onThinking = vi.fn();
+
+		await processAnthropicStream(response, onText, onToolCall, undefined, { onThinking });
+
+		expect(onThinking).toHaveBeenNthCalledWith(1, "Reasoning");
+		expect(onThinking).toHaveBeenNthCalledWith(2, "", "sig123");
+		expect(onText).toHaveBeenCalledWith("Done");
+		expect(onToolCall).not.toHaveBeenCalled();
+	});
+
+	it("should combine usage from message_start and message_delta", async () => {
+		const chunks = [
+			'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"glm-4.7","usage":{"input_tokens":50,"cache_read_input_tokens":200,"cache_creation_input_tokens":10,"output_tokens":1}}}\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n',
+			'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"tool_use"},"usage":{"output_tokens":42}}\n',
+			'event: message_stop\ndata: {"type":"message_stop"}\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onUsage = vi.fn();
+
+		const result = await processAnthropicStream(response, vi.fn(), vi.fn(), undefined, { onUsage });
+
+		expect(result).toEqual({
+			responseId: "msg_1",
+			model: "glm-4.7",
+			rawStopReason: "tool_use",
+			stopReason: "tool_calls",
+			usage: {
+				promptTokens: 260,
+				completionTokens: 42,
+				totalTokens: 302,
+				cachedTokens: 200,
+				cacheCreationTokens: 10,
+			},
+		});
+		expect(onUsage).toHaveBeenCalledWith(result.usage);
+	});
+
+	it("should throw a typed error for in-stream error events", async () => {
+		const chunks = [
+			'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n',
+			'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+
+		const error = await processAnthropicStream(response, onText, vi.fn()).catch((e: unknown) => e);
+
+		expect(onText).toHaveBeenCalledWith("Hi");
+		expect(error).toBeInstanceOf(ServerError);
+		expect(error).toMatchObject({ type: "overloaded_error", retryable: true });
+		expect((error as Error).message).toContain("Overloaded");
+	});
+});
+
+describe("processGeminiStream", () => {
+	it("should process text and thought parts", async () => {
+		const chunks = [
+			'data: {"candidates":[{"content":{"role":"model","parts":[{"text":"Thinking...","thought":true}]}}]}\r\n\r\n',
+			'data: {"candidates":[{"content":{"role":"model","parts":[{"text":"Hello"}]}}]}\r\n\r\n',
+			'data: {"candidates":[{"content":{"role":"model","parts":[{"text":" World"}]},"finishReason":"STOP"}],"usageMetadata":{"promptTokenCount":12,"candidatesTokenCount":3,"thoughtsTokenCount":5,"totalTokenCount":20},"modelVersion":"gemini-2.5-flash","responseId":"r1"}\r\n\r\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+		const onToolCall = vi.fn();
+		const onThinking = vi.fn();
+
+		const result = await processGeminiStream(response, onText, onToolCall, undefined, { onThinking });
+
+		expect(onThinking).toHaveBeenCalledWith("Thinking...");
+		expect(onText.mock.calls.map((c) => c[0])).toEqual(["Hello", " World"]);
+		expect(onToolCall).not.toHaveBeenCalled();
+		expect(result).toEqual({
+			responseId: "r1",
+			model: "gemini-2.5-flash",
+			rawStopReason: "STOP",
+			stopReason: "stop",
+			usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20, reasoningTokens: 5 },
+		});
+	});
+
+	it("should emit function calls with generated ids", async () => {
+		const chunks = [
+			'data: {"candidates":[{"content":{"role":"model","parts":[{"functionCall":{"name":"get_weather","args":{"city":"Paris"}}},{"functionCall":{"name":"get_time","args":{}}}]},"finishReason":"STOP"}]}\n\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+
+		const result = await processGeminiStream(response, vi.fn(), onToolCall);
+
+		expect(onToolCall).toHaveBeenCalledTimes(2);
+		expect(onToolCall.mock.calls[0][1]).toBe("get_weather");
+		expect(onToolCall.mock.calls[0][2]).toEqual({ city: "Paris" });
+		expect(onToolCall.mock.calls[1][1]).toBe("get_time");
+		expect(onToolCall.mock.calls[0][0]).not.toBe(onToolCall.mock.calls[1][0]);
+		expect(result.stopReason).toBe("tool_calls");
+	});
+
+	it("should carry thought signatures to the next request in the callId", async () => {
+		const chunks = [
+			'data: {"candidates":[{"content":{"role":"model","parts":[{"functionCall":{"id":"fc_1","name":"get_weather","args":{"city":"Paris"}},"thoughtSignature":"c2ln"}]},"finishReason":"STOP"}]}\n\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+		await processGeminiStream(response, vi.fn(), onToolCall);
+
+		const callId = onToolCall.mock.calls[0][0];
+		expect(callId).not.toBe("fc_1");
+		const converted = convertToGemini([
+			{ role: 2, content: [{ callId, name: "get_weather", input: { city: "Paris" } }] },
+		]);
+		expect(converted.contents[1].parts[0]).toEqual({
+			functionCall: { id: "fc_1", name: "get_weather", args: { city: "Paris" } },
+			thoughtSignature: "c2ln",
+		});
+	});
+
+	it("should map safety blocks to content_filter", async () => {
+		const chunks = ['data: {"candidates":[{"finishReason":"SAFETY"}]}\n\n'];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const result = await processGeminiStream(response, vi.fn(), vi.fn());
+
+		expect(result.stopReason).toBe("content_filter");
+	});
+});
+
+describe("processOllamaStream", () => {
+	it("should process NDJSON content, thinking and final counts", async () => {
+		const chunks = [
+			'{"model":"qwen3:8b","message":{"role":"assistant","content":"","thinking":"Hmm"},"done":false}\n',
+			'{"model":"qwen3:8b","message":{"role":"assistant","content":"Hel"},"done":false}\n{"model":"qwen3:8b","message":{"role":"assistant","content":"lo"},"done":false}\n',
+			'{"model":"qwen3:8b","message":{"role":"assistant","content":""},"done":true,"done_reason":"length","prompt_eval_count":30,"eval_count":12}',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onText = vi.fn();
+		const onThinking = vi.fn();
+
+		const result = await processOllamaStream(response, onText, vi.fn(), undefined, { onThinking });
+
+		expect(onThinking).toHaveBeenCalledWith("Hmm");
+		expect(onText.mock.calls.map((c) => c[0])).toEqual(["Hel", "lo"]);
+		expect(result).toEqual({
+			model: "qwen3:8b",
+			rawStopReason: "length",
+			stopReason: "max_tokens",
+			usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+		});
+	});
+
+	it("should emit tool calls with generated ids", async () => {
+		const chunks = [
+			'{"message":{"role":"assistant","content":"","tool_calls":[{"function":{"name":"get_weather","arguments":{"city":"Tokyo"}}}]},"done":false}\n',
+			'{"message":{"role":"assistant","content":""},"done":true,"done_reason":"stop"}\n',
+		];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+		const onToolCall = vi.fn();
+
+		const result = await processOllamaStream(response, vi.fn(), onToolCall);
+
+		expect(onToolCall).toHaveBeenCalledOnce();
+		expect(onToolCall.mock.calls[0][0]).toMatch(/^ollama_/);
+		expect(onToolCall.mock.calls[0][1]).toBe("get_weather");
+		expect(onToolCall.mock.calls[0][2]).toEqual({ city: "Tokyo" });
+		expect(result.stopReason).toBe("tool_calls");
+	});
+
+	it("should throw on in-stream errors", async () => {
+		const chunks = ['{"error":"model \\"llama9\\" not found"}\n'];
+
+		const response = createMockResponse(createMockReadableStream(chunks));
+
+		await expect(processOllamaStream(response, vi.fn(), vi.fn())).rejects.toThrow("Ollama error");
+	});
+});
+
+describe("tool call events", () => {
+	/** Record tool call callbacks in order */
+	function recordToolEvents() {
+		const events: string[] = [];
+		return {
+			events,
+			onToolCall: vi.fn((callId: string, name: string) => events.push(`call:${callId}:${name}`)),
+			callbacks: {
+				onToolCallStart: (callId: string, name: string) => events.push(`start:${callId}:${name}`),
+				onToolCallChunk: (callId: string, delta: string) => events.push(`chunk:${callId}:${delta}`),
+				onToolCallEnd: (callId: string) => events.push(`end:${callId}`),
+			},
+		};
+	}
+
+	it("should report OpenAI tool calls as arguments stream in", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"edit_file","arguments":""}}]}}]}\n\n',
+			'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"path\\":"}}]}}]}\n\n',
+			'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"a.ts\\"}"}}]}}]}\n\n',
+			'data: {"choices":[{"delta":{},"finish_reason":"tool_calls"}]}\n\n',
+			"data: [DONE]\n\n",
+		];
+		const { events, onToolCall, callbacks } = recordToolEvents();
+
+		await processOpenAIStream(
+			createMockResponse(createMockReadableStream(chunks)),
+			vi.fn(),
+			onToolCall,
+			undefined,
+			callbacks
+		);
+
+		expect(events).toEqual([
+			"start:call_1:edit_file",
+			'chunk:call_1:{"path":',
+			'chunk:call_1:"a.ts"}',
+			"end:call_1",
+			"call:call_1:edit_file",
+		]);
+	});
+
+	it("should report the OpenAI start before the stream closes", async () => {
+		let emitEnd!: () => void;
+		const encoder = new TextEncoder();
+		const stream = new ReadableStream({
+			start(controller) {
+				controller.enqueue(
+					encoder.encode(
+						'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"edit_file"}}]}}]}\n\n'
+					)
+				);
+				emitEnd = () => {
+					controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+					controller.close();
+				};
+			},
+		});
+		const onToolCallStart = vi.fn(() => emitEnd());
+
+		await processOpenAIStream(createMockResponse(stream), vi.fn(), vi.fn(), undefined, { onToolCallStart });
+
+		expect(onToolCallStart).toHaveBeenCalledWith("call_1", "edit_file");
+	});
+
+	it("should report Anthropic tool calls as arguments stream in", async () => {
+		const chunks = [
+			'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"tool_use","id":"toolu_1","name":"edit_file","input":{}}}\n\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"{\\"path\\":"}}\n\n',
+			'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"\\"a.ts\\"}"}}\n\n',
+			'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\n',
+		];
+		const { events, onToolCall, callbacks } = recordToolEvents();
+
+		await processAnthropicStream(
+			createMockResponse(createMockReadableStream(chunks)),
+			vi.fn(),
+			onToolCall,
+			undefined,
+			callbacks
+		);
+
+		expect(events).toEqual([
+			"start:toolu_1:edit_file",
+			'chunk:toolu_1:{"path":',
+			'chunk:toolu_1:"a.ts"}',
+			"end:toolu_1",
+			"call:toolu_1:edit_file",
+		]);
+	});
+
+	it("should report Responses API tool calls as arguments stream in", async () => {
+		const chunks = [
+			'data: {"type":"response.output_item.added","item":{"type":"function_call","id":"fc_1","call_id":"call_1","name":"edit_file","arguments":""}}\n\n',
+			'data: {"type":"response.function_call_arguments.delta","item_id":"fc_1","delta":"{}"}\n\n',
+			'data: {"type":"response.output_item.done","item":{"type":"function_call","id":"fc_1","call_id":"call_1","name":"edit_file","arguments":"{}"}}\n\n',
+		];
+		const { events, onToolCall, callbacks } = recordToolEvents();
+
+		await processOpenAIResponsesStream(
+			createMockResponse(createMockReadableStream(chunks)),
+			vi.fn(),
+			onToolCall,
+			undefined,
+			callbacks
+		);
+
+		expect(events).toEqual(["start:call_1:edit_file", "chunk:call_1:{}", "end:call_1", "call:call_1:edit_file"]);
+	});
+
+	it("should report complete Gemini tool calls as start, chunk and end", async () => {
+		const chunks = [
+			'data: {"candidates":[{"content":{"parts":[{"functionCall":{"id":"fc_1","name":"edit_file","args":{"path":"a.ts"}}}]}}]}\n\n',
+		];
+		const { events, onToolCall, callbacks } = recordToolEvents();
+
+		await processGeminiStream(
+			createMockResponse(createMockReadableStream(chunks)),
+			vi.fn(),
+			onToolCall,
+			undefined,
+			callbacks
+		);
+
+		expect(events).toEqual(["start:fc_1:edit_file", 'chunk:fc_1:{"path":"a.ts"}', "end:fc_1", "call:fc_1:edit_file"]);
+	});
+});
+
+describe("ThinkingTagSplitter", () => {
+	function split(chunks: string[], options = {}) {
+		let text = "";
+		let thinking = "";
+		const splitter = new ThinkingTagSplitter(
+			(t) => (text += t),
+			(t) => (thinking += t),
+			options
+		);
+		for (const chunk of chunks) {
+			splitter.push(chunk);
+		}
+		splitter.flush();
+		return { text, thinking };
+	}
+
+	it("should move tagged reasoning to the thinking channel", () => {
+		expect(split(["<think>Plan it.</think>\n\nDone."])).toEqual({ text: "Done.", thinking: "Plan it." });
+	});
+
+	it("should recognize tags split across chunks", () => {
+		const result = split(["<th", "ink>step 1, ", "step 2</thi", "nk>", "\n", "Answer"]);
+
+		expect(result).toEqual({ text: "Answer", thinking: "step 1, step 2" });
+	});
+
+	it("should keep text that only looks like the start of a tag", () => {
+		expect(split(["a <th", "ing> b"])).toEqual({ text: "a <thing> b", thinking: "" });
+	});
+
+	it("should treat an unclosed block as reasoning", () => {
+		expect(split(["Hi <think>still going"])).toEqual({ text: "Hi ", thinking: "still going" });
+	});
+
+	it("should support custom tags and responses that start inside the reasoning", () => {
+		const result = split(["hmm</reasoning>ok"], { close: "</reasoning>", startInside: true });
+
+		expect(result).toEqual({ text: "ok", thinking: "hmm" });
+	});
+});
+
+describe("withThinkingTags", () => {
+	it("should route inline reasoning from an OpenAI stream to onThinking", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"content":"<think>Let me"}}]}\n\n',
+			'data: {"choices":[{"delta":{"content":" check.</think>Yes."}}]}\n\n',
+			"data: [DONE]\n\n",
+		];
+		const onText = vi.fn();
+		const onThinking = vi.fn();
+
+		await withThinkingTags(processOpenAIStream)(
+			createMockResponse(createMockReadableStream(chunks)),
+			onText,
+			vi.fn(),
+			undefined,
+			{ onThinking }
+		);
+
+		expect(onThinking.mock.calls.map((c) => c[0]).join("")).toBe("Let me check.");
+		expect(onText.mock.calls.map((c) => c[0]).join("")).toBe("Yes.");
+	});
+});
+
+describe("PromptedToolCallParser", () => {
+	function parse(chunks: string[], stopReason: StopReason = "stop") {
+		const texts: string[] = [];
+		const calls: [string, Record<string, unknown>][] = [];
+		const onInvalidToolCall = vi.fn();
+		const parser = new PromptedToolCallParser(
+			(text) => texts.push(text),
+			(_callId, name, args) => calls.push([name, args]),
+			{ onInvalidToolCall }
+		);
+		for (const chunk of chunks) {
+			parser.push(chunk);
+		}
+		parser.flush(stopReason);
+		return { texts, calls, onInvalidToolCall, parser };
+	}
+
+	it("should report tool calls split across chunks and pass the text on", () => {
+		const { texts, calls } = parse([
+			"Reading the file.\n<tool",
+			'_call>\n{"name": "read_file", "argu',
+			'ments": {"path": "a.ts"}}\n</tool_call>\n',
+		]);
+
+		expect(texts.join("")).toBe("Reading the file.\n");
+		expect(calls).toEqual([["read_file", { path: "a.ts" }]]);
+	});
+
+	it("should report several calls with distinct ids", () => {
+		const ids: string[] = [];
+		const parser = new PromptedToolCallParser(vi.fn(), (callId) => ids.push(callId));
+
+		parser.push(
+			'<tool_call>{"name":"a","arguments":{}}</tool_call>\n<tool_call>{"name":"b","arguments":{}}</tool_call>'
+		);
+		parser.flush();
+
+		expect(ids).toHaveLength(2);
+		expect(ids[0]).not.toBe(ids[1]);
+		expect(parser.toolCallCount).toBe(2);
+	});
+
+	it("should pass a partial opening tag on as text when no call follows", () => {
+		const { texts, calls } = parse(["a < b and <tool", "s> too"]);
+
+		expect(texts.join("")).toBe("a < b and <tools> too");
+		expect(calls).toEqual([]);
+	});
+
+	it("should parse a block cut off at the end of the stream", () => {
+		const { calls } = parse(['<tool_call>{"name": "search", "arguments": {"query": "foo"']);
+
+		expect(calls).toEqual([["search", { query: "foo" }]]);
+	});
+
+	it("should report a block cut off at the output token limit as invalid", () => {
+		const calls: string[] = [];
+		const onInvalidToolCall = vi.fn();
+		const parser = new PromptedToolCallParser(vi.fn(), (_callId, name) => calls.push(name), { onInvalidToolCall });
+
+		parser.push('<tool_call>{"name": "write_file", "arguments": {"content": "hel');
+		parser.flush("max_tokens");
+
+		expect(calls).toEqual([]);
+		expect(onInvalidToolCall).toHaveBeenCalledWith(
+			expect.any(String),
+			"write_file",
+			'{"content":"hel"}',
+			"The arguments were cut off at the output token limit"
+		);
+	});
+
+	it("should report calls with unusable arguments as invalid", () => {
+		const { calls, onInvalidToolCall } = parse(['<tool_call>{"name": "search", "arguments": "not json"}</tool_call>']);
+
+		expect(calls).toEqual([]);
+		expect(onInvalidToolCall).toHaveBeenCalledWith(expect.any(String), "search", "not json", expect.any(String));
+	});
+
+	it("should pass blocks without a tool name on as text", () => {
+		const { texts, calls } = parse(["<tool_call>nothing here</tool_call>"]);
+
+		expect(texts.join("")).toBe("<tool_call>nothing here</tool_call>");
+		expect(calls).toEqual([]);
+	});
+});
+
+describe("withPromptedToolCalls", () => {
+	it("should turn tool-call blocks in streamed text into tool calls", async () => {
+		const chunks = [
+			'data: {"choices":[{"delta":{"content":"Sure.<tool_call>{\\"name\\": \\"list\\", "}}]}\n\n',
+			'data: {"choices":[{"delta":{"content":"\\"arguments\\": {}}</tool_call>"},"finish_reason":"stop"}]}\n\n',
+			"data: [DONE]\n\n",
+		];
+		const onText = vi.fn();
+		const onToolCall = vi.fn();
+
+		const result = await withPromptedToolCalls(processOpenAIStream)(
+			createMockResponse(createMockReadableStream(chunks)),
+			onText,
+			onToolCall
+		);
+
+		expect(onText).toHaveBeenCalledWith("Sure.");
+		expect(onToolCall).toHaveBeenCalledWith(expect.stringMatching(/^prompted_/), "list", {});
+		expect(result.stopReason).toBe("tool_calls");
+	});
+});
+
+describe("processStreamWithHandler", () => {
+	function createHandler(): StreamingHandler {
+		return {
+			onText: vi.fn(),
+			onToolCall: vi.fn(),
+			onToolCallStart: vi.fn(),
+			onToolCallChunk: vi.fn(),
+			onToolCallEnd: vi.fn(),
+			onThinking: vi.fn(),
+			onComplete: vi.fn(),
+			onError: vi.fn(),
+		};
+	}
+
+	it("should report events and assemble the complete response", async () => {
+		const chunks = [
+			'data: {"id":"chatcmpl-1","model":"glm-4.7","choices":[{"delta":{"reasoning_content":"hmm","content":"Hi"}}]}\n\n',
+			'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"read_file","arguments":"{\\"path\\":\\"a\\"}"}}]}}]}\n\n',
+			'data: {"choices":[{"delta":{},"finish_reason":"tool_calls"}],"usage":{"prompt_tokens":5,"completion_tokens":3,"total_tokens":8}}\n\n',
+			"data: [DONE]\n\n",
+		];
+		const handler = createHandler();
+
+		await processStreamWithHandler("openai", createMockResponse(createMockReadableStream(chunks)), handler);
+
+		const toolCall = { id: "call_1", type: "function", function: { name: "read_file", arguments: '{"path":"a"}' } };
+		expect(handler.onText).toHaveBeenCalledWith("Hi", true);
+		expect(handler.onThinking).toHaveBeenCalledWith("hmm");
+		expect(handler.onToolCallStart).toHaveBeenCalledWith("read_file", "", "call_1");
+		expect(handler.onToolCallChunk).toHaveBeenCalledWith('{"path":"a"}', "call_1");
+		expect(handler.onToolCallEnd).toHaveBeenCalledWith("call_1");
+		expect(handler.onToolCall).toHaveBeenCalledWith(toolCall);
+		expect(handler.onComplete).toHaveBeenCalledWith(
+			expect.objectContaining({
+				id: "chatcmpl-1",
+				object: "chat.completion",
+				model: "glm-4.7",
+				choices: [
+					{
+						index: 0,
+						message: { role: "assistant", content: "Hi", tool_calls: [toolCall] },
+						finish_reason: "tool_calls",
+					},
+				],
+				usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+			})
+		);
+		expect(handler.onError).not.toHaveBeenCalled();
+	});
+
+	it("should report errors to onError and rethrow", async () => {
+		const chunks = ['event: error\ndata: {"type":"error","error":{"type":"api_error","message":"boom"}}\n\n'];
+		const handler = createHandler();
+
+		await expect(
+			processStreamWithHandler("anthropic", createMockResponse(createMockReadableStream(chunks)), handler)
+		).rejects.toThrow("boom");
+		expect(handler.onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining("boom") }));
+		expect(handler.onComplete).not.toHaveBeenCalled();
+	});
 });
@@ -1,8 +1,143 @@
 /**
  * Streaming Utilities
- * Process streaming responses from OpenAI and Anthropic APIs
+ * Process streaming responses from OpenAI (Chat Completions and Responses), Anthropic, Gemini, and Ollama APIs
  */
 
+import type { ApiMode, ChatCompletionResponse, StreamingHandler, ThinkingTagOptions, ToolCall } from "../../core/types";
+import type { ChatResponseResult, ChatUsage, StopReason } from "./types";
+import { createProviderErrorFromPayload } from "./errors";
+import { readLineStream, readSSEStream } from "./sse";
+import { type ParsedToolArguments, parseToolCallArguments } from "./toolArguments";
+import { toGeminiCallId } from "./convert";
+import { TOOL_CALL_CLOSE_TAG, TOOL_CALL_OPEN_TAG, parseToolCallBlock } from "./promptedTools";
+
+/**
+ * Optional callbacks for stream content beyond text and tool calls
+ */
+export interface StreamCallbacks {
+	/**
+	 * Called for each reasoning/thinking chunk.
+	 * Anthropic signature deltas are reported with empty text and the signature.
+	 */
+	onThinking?: (text: string, signature?: string) => void;
+	/** Called once when the stream ends, if the provider reported token usage */
+	onUsage?: (usage: ChatUsage) => void;
+	/**
+	 * Called as soon as a tool call begins, before its arguments are complete.
+	 * Followed by onToolCallChunk for each argument fragment, onToolCallEnd once the
+	 * arguments are complete, and then the regular onToolCall with the parsed arguments.
+	 */
+	onToolCallStart?: (callId: string, name: string) => void;
+	/** Called for each fragment of a tool call's JSON arguments */
+	onToolCallChunk?: (callId: string, argsDelta: string) => void;
+	/** Called when a tool call's arguments are complete */
+	onToolCallEnd?: (callId: string) => void;
+	/**
+	 * Called instead of onToolCall when the arguments are not valid JSON and could
+	 * not be repaired, or were cut off at the output token limit. Such calls are
+	 * never run; without this callback they are only logged.
+	 */
+	onInvalidToolCall?: (callId: string, name: string, rawArguments: string, error: string) => void;
+	/**
+	 * Map a tool name returned by the model back to the caller's tool name
+	 * (e.g. ToolNameMap.toOriginalName). Applied before any tool call callback.
+	 */
+	resolveToolName?: (name: string) => string;
+}
+
+// ============================================================================
+// Response Metadata
+// ============================================================================
+
+/**
+ * Map provider-specific finish/stop reasons to a common set
+ */
+function normalizeStopReason(reason: string): StopReason {
+	switch (reason) {
+		case "stop":
+		case "end_turn":
+		case "stop_sequence":
+			return "stop";
+		case "length":
+		case "max_tokens":
+			return "max_tokens";
+		case "tool_calls":
+		case "function_call":
+		case "tool_use":
+			return "tool_calls";
+		case "content_filter":
+		case "sensitive":
+		case "refusal":
+		case "safety":
+		case "recitation":
+		case "blocklist":
+		case "prohibited_content":
+		case "spii":
+			return "content_filter";
+		default:
+			return "other";
+	}
+}
+
+function toCount(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse an OpenAI-compatible usage object
+ */
+function parseOpenAIUsage(usage: Record<string, unknown>): ChatUsage {
+	const promptDetails = usage.prompt_tokens_details as Record<string, unknown> | undefined;
+	const completionDetails = usage.completion_tokens_details as Record<string, unknown> | undefined;
+	const promptTokens = toCount(usage.prompt_tokens) ?? 0;
+	const completionTokens = toCount(usage.completion_tokens) ?? 0;
+
+	const result: ChatUsage = {
+		promptTokens,
+		completionTokens,
+		totalTokens: toCount(usage.total_tokens) ?? promptTokens + completionTokens,
+	};
+
+	// DeepSeek reports cache hits at the top level
+	const cachedTokens = toCount(promptDetails?.cached_tokens) ?? toCount(usage.prompt_cache_hit_tokens);
+	if (cachedTokens !== undefined) {
+		result.cachedTokens = cachedTokens;
+	}
+	const reasoningTokens = toCount(completionDetails?.reasoning_tokens);
+	if (reasoningTokens !== undefined) {
+		result.reasoningTokens = reasoningTokens;
+	}
+	return result;
+}
+
+/**
+ * Merge an Anthropic usage object (message_start or message_delta) into the current usage
+ */
+function mergeAnthropicUsage(current: ChatUsage | undefined, usage: Record<string, unknown>): ChatUsage {
+	const inputTokens = toCount(usage.input_tokens);
+	const cacheRead = toCount(usage.cache_read_input_tokens);
+	const cacheCreation = toCount(usage.cache_creation_input_tokens);
+	const outputTokens = toCount(usage.output_tokens);
+
+	const result: ChatUsage = current ? { ...current } : { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+	if (cacheRead !== undefined) {
+		result.cachedTokens = cacheRead;
+	}
+	if (cacheCreation !== undefined) {
+		result.cacheCreationTokens = cacheCreation;
+	}
+	if (inputTokens !== undefined) {
+		// Anthropic input_tokens excludes cache reads and writes
+		result.promptTokens = inputTokens + (result.cachedTokens ?? 0) + (result.cacheCreationTokens ?? 0);
+	}
+	if (outputTokens !== undefined) {
+		result.completionTokens = outputTokens;
+	}
+	result.totalTokens = result.promptTokens + result.completionTokens;
+	return result;
+}
+
 // ============================================================================
 // OpenAI Streaming
 // ============================================================================
@@ -14,6 +149,156 @@ interface ToolCallBuffer {
 	id: string;
 	name: string;
 	arguments: string;
+	/** Whether onToolCallStart has been reported */
+	started?: boolean;
+}
+
+function resolveToolName(callbacks: StreamCallbacks, name: string): string {
+	return name && callbacks.resolveToolName ? callbacks.resolveToolName(name) : name;
+}
+
+/**
+ * Report start, arguments and end for a tool call that arrived complete (Gemini, Ollama)
+ */
+function emitCompleteToolCall(
+	callbacks: StreamCallbacks,
+	callId: string,
+	name: string,
+	args: Record<string, unknown> | string
+): void {
+	callbacks.onToolCallStart?.(callId, name);
+	callbacks.onToolCallChunk?.(callId, typeof args === "string" ? args : JSON.stringify(args));
+	callbacks.onToolCallEnd?.(callId);
+}
+
+/** Error for a call whose arguments were cut off by the end of the response */
+const CUT_OFF_ERROR = "The arguments were cut off at the output token limit";
+
+/**
+ * A finished tool call waiting for the stop reason
+ */
+interface HeldToolCall {
+	call: ToolCallBuffer;
+	parsed: ParsedToolArguments;
+}
+
+/**
+ * Report a tool call whose arguments cannot be used; it is not run
+ */
+function reportInvalidToolCall(
+	callbacks: StreamCallbacks,
+	callId: string,
+	name: string,
+	rawArguments: string,
+	error: string
+): void {
+	if (callbacks.onInvalidToolCall) {
+		callbacks.onInvalidToolCall(callId, name, rawArguments, error);
+	} else {
+		console.warn(`Tool call ${name} was not run: ${error}`);
+	}
+}
+
+/**
+ * Whether the stop reason is needed to tell if a call's arguments are complete:
+ * they had to be closed by the repair, or are empty
+ */
+function needsStopReason(call: ToolCallBuffer, parsed: ParsedToolArguments): boolean {
+	return parsed.ok && (parsed.truncated === true || !call.arguments.trim());
+}
+
+/**
+ * Parse streamed tool arguments (repairing malformed JSON) and report the call
+ *
+ * Arguments the repair had to close are only complete if the response ended
+ * normally: with max_tokens, or without any stop reason, the call is invalid.
+ * Empty arguments of the last call are cut off, too, when the response stopped
+ * at the output token limit.
+ *
+ * @param stopReason - Stop reason of the response, if known
+ * @param last - Whether this is the last tool call of the response
+ * @param parsed - Arguments parsed earlier, if any
+ */
+function reportToolCall(
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	callbacks: StreamCallbacks,
+	call: ToolCallBuffer,
+	stopReason: StopReason | undefined,
+	last: boolean,
+	parsed: ParsedToolArguments = parseToolCallArguments(call.arguments)
+): void {
+	if (!parsed.ok) {
+		reportInvalidToolCall(callbacks, call.id, call.name, call.arguments, parsed.error);
+		return;
+	}
+	const cutOff = parsed.truncated
+		? stopReason === "max_tokens" || stopReason === undefined
+		: last && stopReason === "max_tokens" && !call.arguments.trim();
+	if (cutOff) {
+		reportInvalidToolCall(callbacks, call.id, call.name, call.arguments, CUT_OFF_ERROR);
+	} else {
+		onToolCall(call.id, call.name, parsed.args);
+	}
+}
+
+/**
+ * Report a finished tool call, or hold it until the stop reason is known if
+ * that decides whether it is complete (Anthropic and Responses send the stop
+ * reason after the last call)
+ */
+function reportOrHoldToolCall(
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	callbacks: StreamCallbacks,
+	call: ToolCallBuffer,
+	held: HeldToolCall[]
+): void {
+	const parsed = parseToolCallArguments(call.arguments);
+	if (needsStopReason(call, parsed)) {
+		held.push({ call, parsed });
+	} else {
+		reportToolCall(onToolCall, callbacks, call, undefined, false, parsed);
+	}
+}
+
+/**
+ * Report held tool calls once the stream has ended
+ *
+ * @param lastCallId - Id of the last tool call of the response
+ */
+function reportHeldToolCalls(
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	callbacks: StreamCallbacks,
+	held: HeldToolCall[],
+	stopReason: StopReason | undefined,
+	lastCallId: string | undefined
+): void {
+	for (const { call, parsed } of held) {
+		reportToolCall(onToolCall, callbacks, call, stopReason, call.id === lastCallId, parsed);
+	}
+}
+
+/**
+ * Extract reasoning text from an OpenAI-compatible delta.
+ * - reasoning_content: DeepSeek, Kimi, GLM
+ * - reasoning: OpenRouter, vLLM
+ * - reasoning_details: MiniMax (with reasoning_split enabled)
+ */
+function extractOpenAIReasoning(delta: Record<string, unknown> | undefined): string {
+	if (!delta) {
+		return "";
+	}
+	if (typeof delta.reasoning_content === "string") {
+		return delta.reasoning_content;
+	}
+	if (typeof delta.reasoning === "string") {
+		return delta.reasoning;
+	}
+	if (Array.isArray(delta.reasoning_details)) {
+		return delta.reasoning_details
+			.map((d) => (d && typeof d === "object" && typeof d.text === "string" ? d.text : ""))
+			.join("");
+	}
+	return "";
 }
 
 /**
@@ -23,96 +308,298 @@ export async function processOpenAIStream(
 	response: Response,
 	onText: (text: string) => void,
 	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
-	signal?: AbortSignal
-): Promise<void> {
-	const reader = response.body?.getReader();
-	if (!reader) {
-		throw new Error("No response body");
-	}
-
-	const decoder = new TextDecoder();
-	let buffer = "";
+	signal?: AbortSignal,
+	callbacks: StreamCallbacks = {}
+): Promise<ChatResponseResult> {
+	const result: ChatResponseResult = {};
 	const toolCallBuffers = new Map<number, ToolCallBuffer>();
 
-	const flushToolCalls = () => {
-		for (const [, tc] of toolCallBuffers) {
-			try {
-				const args = tc.arguments ? JSON.parse(tc.arguments) : {};
-				onToolCall(tc.id, tc.name, args);
-			} catch {
-				console.warn("Failed to parse tool arguments");
-				onToolCall(tc.id, tc.name, {});
-			}
+	// Report the start once the name is known, with any arguments received before it
+	const startToolCall = (tc: ToolCallBuffer) => {
+		tc.started = true;
+		callbacks.onToolCallStart?.(tc.id, tc.name);
+		if (tc.arguments) {
+			callbacks.onToolCallChunk?.(tc.id, tc.arguments);
 		}
-		toolCallBuffers.clear();
 	};
 
-	try {
-		while (true) {
-			if (signal?.aborted) {
-				break;
+	const flushToolCalls = () => {
+		const calls = [...toolCallBuffers.values()];
+		calls.forEach((tc, i) => {
+			if (!tc.started) {
+				startToolCall(tc);
 			}
+			callbacks.onToolCallEnd?.(tc.id);
+			reportToolCall(onToolCall, callbacks, tc, result.stopReason, i === calls.length - 1);
+		});
+		toolCallBuffers.clear();
+	};
 
-			const { done, value } = await reader.read();
-			if (done) {
+	const completed = await readSSEStream(
+		response,
+		(sse) => {
+			const data = sse.data.trim();
+			if (data === "[DONE]") {
 				flushToolCalls();
-				break;
+				return;
 			}
 
-			buffer += decoder.decode(value, { stream: true });
-			const lines = buffer.split("\n");
-			buffer = lines.pop() || "";
+			try {
+				const chunk = JSON.parse(data);
+				const choice = chunk.choices?.[0];
+				const delta = choice?.delta;
 
-			for (const line of lines) {
-				const trimmed = line.trim();
-				if (!trimmed || !trimmed.startsWith("data:")) {
-					continue;
+				if (chunk.id) {
+					result.responseId = chunk.id;
 				}
-
-				const data = trimmed.slice(5).trim();
-				if (data === "[DONE]") {
-					flushToolCalls();
-					continue;
+				if (chunk.model) {
+					result.model = chunk.model;
+				}
+				if (choice?.finish_reason) {
+					result.rawStopReason = choice.finish_reason;
+					result.stopReason = normalizeStopReason(choice.finish_reason);
+				}
+				// Usage arrives in the final chunk (stream_options.include_usage); Kimi nests it in the choice
+				const usage = chunk.usage ?? choice?.usage;
+				if (usage && typeof usage === "object") {
+					result.usage = parseOpenAIUsage(usage);
 				}
 
-				try {
-					const chunk = JSON.parse(data);
-					const delta = chunk.choices?.[0]?.delta;
+				const reasoning = extractOpenAIReasoning(delta);
+				if (reasoning) {
+					callbacks.onThinking?.(reasoning);
+				}
 
-					if (delta?.content) {
-						onText(delta.content);
-					}
+				if (delta?.content) {
+					onText(delta.content);
+				}
 
-					if (delta?.tool_calls) {
-						for (const tc of delta.tool_calls) {
-							const index = tc.index ?? 0;
-							if (!toolCallBuffers.has(index)) {
-								toolCallBuffers.set(index, {
-									id: tc.id || "",
-									name: tc.function?.name || "",
-									arguments: "",
-								});
-							}
-							const buf = toolCallBuffers.get(index)!;
-							if (tc.id) {
-								buf.id = tc.id;
-							}
-							if (tc.function?.name) {
-								buf.name = tc.function.name;
-							}
-							if (tc.function?.arguments) {
-								buf.arguments += tc.function.arguments;
+				if (delta?.tool_calls) {
+					for (const tc of delta.tool_calls) {
+						const index = tc.index ?? 0;
+						if (!toolCallBuffers.has(index)) {
+							toolCallBuffers.set(index, {
+								id: tc.id || "",
+								name: resolveToolName(callbacks, tc.function?.name || ""),
+								arguments: "",
+							});
+						}
+						const buf = toolCallBuffers.get(index)!;
+						if (tc.id) {
+							buf.id = tc.id;
+						}
+						if (tc.function?.name) {
+							buf.name = resolveToolName(callbacks, tc.function.name);
+						}
+						const argsDelta = tc.function?.arguments;
+						if (argsDelta) {
+							buf.arguments += argsDelta;
+						}
+						if (!buf.started) {
+							if (buf.name) {
+								startToolCall(buf);
 							}
+						} else if (argsDelta) {
+							callbacks.onToolCallChunk?.(buf.id, argsDelta);
 						}
 					}
-				} catch {
-					// Skip invalid JSON
 				}
+			} catch {
+				// Skip invalid JSON
 			}
+		},
+		signal
+	);
+	if (completed) {
+		flushToolCalls();
+	}
+
+	if (result.usage) {
+		callbacks.onUsage?.(result.usage);
+	}
+	return result;
+}
+
+// ============================================================================
+// OpenAI Responses Streaming
+// ============================================================================
+
+/**
+ * Parse an OpenAI Responses API usage object
+ */
+function parseOpenAIResponsesUsage(usage: Record<string, unknown>): ChatUsage {
+	const inputDetails = usage.input_tokens_details as Record<string, unknown> | undefined;
+	const outputDetails = usage.output_tokens_details as Record<string, unknown> | undefined;
+	const promptTokens = toCount(usage.input_tokens) ?? 0;
+	const completionTokens = toCount(usage.output_tokens) ?? 0;
+
+	const result: ChatUsage = {
+		promptTokens,
+		completionTokens,
+		totalTokens: toCount(usage.total_tokens) ?? promptTokens + completionTokens,
+	};
+
+	const cachedTokens = toCount(inputDetails?.cached_tokens);
+	if (cachedTokens !== undefined) {
+		result.cachedTokens = cachedTokens;
+	}
+	const reasoningTokens = toCount(outputDetails?.reasoning_tokens);
+	if (reasoningTokens !== undefined) {
+		result.reasoningTokens = reasoningTokens;
+	}
+	return result;
+}
+
+/**
+ * Process OpenAI Responses API streaming response (/v1/responses)
+ *
+ * Events are typed by their `type` field. Function call arguments stream as
+ * response.function_call_arguments.delta and are reported when the output
+ * item is done.
+ */
+export async function processOpenAIResponsesStream(
+	response: Response,
+	onText: (text: string) => void,
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	signal?: AbortSignal,
+	callbacks: StreamCallbacks = {}
+): Promise<ChatResponseResult> {
+	const result: ChatResponseResult = {};
+	// Function calls keyed by output item id
+	const toolCallBuffers = new Map<string, ToolCallBuffer>();
+	const heldToolCalls: HeldToolCall[] = [];
+	let lastCallId: string | undefined;
+	let toolCallCount = 0;
+
+	const flushToolCall = (itemId: string) => {
+		const tc = toolCallBuffers.get(itemId);
+		if (!tc) {
+			return;
+		}
+		toolCallBuffers.delete(itemId);
+		callbacks.onToolCallEnd?.(tc.id);
+		reportOrHoldToolCall(onToolCall, callbacks, tc, heldToolCalls);
+		lastCallId = tc.id;
+		toolCallCount++;
+	};
+
+	const applyResponse = (res: Record<string, unknown> | undefined) => {
+		if (!res) {
+			return;
+		}
+		if (typeof res.id === "string") {
+			result.responseId = res.id;
 		}
-	} finally {
-		reader.releaseLock();
+		if (typeof res.model === "string") {
+			result.model = res.model;
+		}
+		if (res.usage && typeof res.usage === "object") {
+			result.usage = parseOpenAIResponsesUsage(res.usage as Record<string, unknown>);
+		}
+	};
+
+	await readSSEStream(
+		response,
+		(sse) => {
+			const data = sse.data.trim();
+			if (data === "[DONE]") {
+				return;
+			}
+
+			let event;
+			try {
+				event = JSON.parse(data);
+			} catch {
+				// Skip invalid JSON
+				return;
+			}
+
+			switch (event.type) {
+				case "response.created":
+				case "response.in_progress":
+					applyResponse(event.response);
+					break;
+				case "response.output_text.delta":
+					if (event.delta) {
+						onText(event.delta);
+					}
+					break;
+				case "response.reasoning_summary_text.delta":
+				case "response.reasoning_text.delta":
+					if (event.delta) {
+						callbacks.onThinking?.(event.delta);
+					}
+					break;
+				case "response.output_item.added":
+					if (event.item?.type === "function_call") {
+						const buf: ToolCallBuffer = {
+							id: event.item.call_id || event.item.id,
+							name: resolveToolName(callbacks, event.item.name || ""),
+							arguments: event.item.arguments || "",
+						};
+						toolCallBuffers.set(event.item.id, buf);
+						callbacks.onToolCallStart?.(buf.id, buf.name);
+						if (buf.arguments) {
+							callbacks.onToolCallChunk?.(buf.id, buf.arguments);
+						}
+					}
+					break;
+				case "response.function_call_arguments.delta": {
+					const buf = toolCallBuffers.get(event.item_id);
+					if (buf && event.delta) {
+						buf.arguments += event.delta;
+						callbacks.onToolCallChunk?.(buf.id, event.delta);
+					}
+					break;
+				}
+				case "response.function_call_arguments.done": {
+					const buf = toolCallBuffers.get(event.item_id);
+					if (buf && typeof event.arguments === "string") {
+						buf.arguments = event.arguments;
+					}
+					break;
+				}
+				case "response.output_item.done":
+					if (event.item?.type === "function_call") {
+						const buf = toolCallBuffers.get(event.item.id);
+						if (buf && typeof event.item.arguments === "string") {
+							buf.arguments = event.item.arguments;
+						}
+						flushToolCall(event.item.id);
+					}
+					break;
+				case "response.completed":
+					applyResponse(event.response);
+					result.rawStopReason = event.response?.status ?? "completed";
+					result.stopReason = toolCallCount > 0 ? "tool_calls" : "stop";
+					break;
+				case "response.incomplete": {
+					applyResponse(event.response);
+					const reason = event.response?.incomplete_details?.reason ?? "incomplete";
+					result.rawStopReason = reason;
+					result.stopReason = reason === "max_output_tokens" ? "max_tokens" : normalizeStopReason(reason);
+					break;
+				}
+				case "response.failed":
+					applyResponse(event.response);
+					throw createProviderErrorFromPayload({ error: event.response?.error }, "Response failed");
+				case "error":
+					throw createProviderErrorFromPayload(event, "Response failed");
+			}
+		},
+		signal
+	);
+
+	// Report calls whose output_item.done never arrived
+	for (const itemId of [...toolCallBuffers.keys()]) {
+		flushToolCall(itemId);
 	}
+	reportHeldToolCalls(onToolCall, callbacks, heldToolCalls, result.stopReason, lastCallId);
+
+	if (result.usage) {
+		callbacks.onUsage?.(result.usage);
+	}
+	return result;
 }
 
 // ============================================================================
@@ -126,92 +613,668 @@ export async function processAnthropicStream(
 	response: Response,
 	onText: (text: string) => void,
 	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
-	signal?: AbortSignal
-): Promise<void> {
-	const reader = response.body?.getReader();
-	if (!reader) {
-		throw new Error("No response body");
-	}
-
-	const decoder = new TextDecoder();
-	let buffer = "";
+	signal?: AbortSignal,
+	callbacks: StreamCallbacks = {}
+): Promise<ChatResponseResult> {
+	const result: ChatResponseResult = {};
 	let currentToolId = "";
 	let currentToolName = "";
 	let currentToolArgs = "";
+	const heldToolCalls: HeldToolCall[] = [];
+	let lastCallId: string | undefined;
 
 	const flushToolCall = () => {
 		if (currentToolId && currentToolName) {
-			try {
-				const args = currentToolArgs ? JSON.parse(currentToolArgs) : {};
-				onToolCall(currentToolId, currentToolName, args);
-			} catch {
-				console.warn("Failed to parse tool arguments");
-				onToolCall(currentToolId, currentToolName, {});
-			}
+			callbacks.onToolCallEnd?.(currentToolId);
+			const call = { id: currentToolId, name: currentToolName, arguments: currentToolArgs };
+			reportOrHoldToolCall(onToolCall, callbacks, call, heldToolCalls);
+			lastCallId = call.id;
 			currentToolId = "";
 			currentToolName = "";
 			currentToolArgs = "";
 		}
 	};
 
-	try {
-		while (true) {
-			if (signal?.aborted) {
-				break;
+	const completed = await readSSEStream(
+		response,
+		(sse) => {
+			if (sse.event === "content_block_stop") {
+				flushToolCall();
+				return;
+			}
+
+			let chunk;
+			try {
+				chunk = JSON.parse(sse.data);
+			} catch {
+				// Skip invalid JSON
+				return;
+			}
+
+			if (chunk.type === "error") {
+				// In-stream failure, e.g. overloaded_error after the response has started
+				throw createProviderErrorFromPayload(chunk, "Anthropic stream error");
 			}
 
-			const { done, value } = await reader.read();
-			if (done) {
+			if (chunk.type === "message_start") {
+				const message = chunk.message;
+				if (message?.id) {
+					result.responseId = message.id;
+				}
+				if (message?.model) {
+					result.model = message.model;
+				}
+				if (message?.usage) {
+					result.usage = mergeAnthropicUsage(result.usage, message.usage);
+				}
+			} else if (chunk.type === "message_delta") {
+				if (chunk.delta?.stop_reason) {
+					result.rawStopReason = chunk.delta.stop_reason;
+					result.stopReason = normalizeStopReason(chunk.delta.stop_reason);
+				}
+				if (chunk.usage) {
+					result.usage = mergeAnthropicUsage(result.usage, chunk.usage);
+				}
+			} else if (chunk.type === "content_block_start") {
+				if (chunk.content_block?.type === "tool_use") {
+					currentToolId = chunk.content_block.id;
+					currentToolName = resolveToolName(callbacks, chunk.content_block.name);
+					currentToolArgs = "";
+					callbacks.onToolCallStart?.(currentToolId, currentToolName);
+				}
+			} else if (chunk.type === "content_block_delta") {
+				const delta = chunk.delta;
+				if (delta?.type === "text_delta" && delta.text) {
+					onText(delta.text);
+				} else if (delta?.type === "thinking_delta" && delta.thinking) {
+					callbacks.onThinking?.(delta.thinking);
+				} else if (delta?.type === "signature_delta" && delta.signature) {
+					callbacks.onThinking?.("", delta.signature);
+				} else if (delta?.type === "input_json_delta" && delta.partial_json) {
+					currentToolArgs += delta.partial_json;
+					callbacks.onToolCallChunk?.(currentToolId, delta.partial_json);
+				}
+			} else if (chunk.type === "content_block_stop") {
+				// Servers that omit the event: field
 				flushToolCall();
-				break;
 			}
+		},
+		signal
+	);
+	if (completed) {
+		flushToolCall();
+	}
+	reportHeldToolCalls(onToolCall, callbacks, heldToolCalls, result.stopReason, lastCallId);
 
-			buffer += decoder.decode(value, { stream: true });
-			const lines = buffer.split("\n");
-			buffer = lines.pop() || "";
+	if (result.usage) {
+		callbacks.onUsage?.(result.usage);
+	}
+	return result;
+}
+
+// ============================================================================
+// Gemini Streaming
+// ============================================================================
 
-			for (const line of lines) {
-				const trimmed = line.trim();
-				if (!trimmed) {
-					continue;
+/**
+ * Parse a Gemini usageMetadata object
+ */
+function parseGeminiUsage(usage: Record<string, unknown>): ChatUsage {
+	const promptTokens = toCount(usage.promptTokenCount) ?? 0;
+	const thoughtsTokens = toCount(usage.thoughtsTokenCount);
+	// candidatesTokenCount excludes thinking tokens
+	const completionTokens = (toCount(usage.candidatesTokenCount) ?? 0) + (thoughtsTokens ?? 0);
+
+	const result: ChatUsage = {
+		promptTokens,
+		completionTokens,
+		totalTokens: toCount(usage.totalTokenCount) ?? promptTokens + completionTokens,
+	};
+
+	const cachedTokens = toCount(usage.cachedContentTokenCount);
+	if (cachedTokens !== undefined) {
+		result.cachedTokens = cachedTokens;
+	}
+	if (thoughtsTokens !== undefined) {
+		result.reasoningTokens = thoughtsTokens;
+	}
+	return result;
+}
+
+/**
+ * Process Gemini streamGenerateContent response (alt=sse)
+ *
+ * Gemini sends complete function calls in a single chunk, so tool calls are
+ * reported as soon as they arrive. Calls without an id get a generated one.
+ * Thought signatures on function calls travel in the callId (see toGeminiCallId).
+ */
+export async function processGeminiStream(
+	response: Response,
+	onText: (text: string) => void,
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	signal?: AbortSignal,
+	callbacks: StreamCallbacks = {}
+): Promise<ChatResponseResult> {
+	const result: ChatResponseResult = {};
+	const callIdPrefix = `gemini_${Date.now().toString(36)}`;
+	let toolCallCount = 0;
+
+	await readSSEStream(
+		response,
+		(sse) => {
+			try {
+				const chunk = JSON.parse(sse.data);
+				const candidate = chunk.candidates?.[0];
+
+				if (chunk.responseId) {
+					result.responseId = chunk.responseId;
+				}
+				if (chunk.modelVersion) {
+					result.model = chunk.modelVersion;
+				}
+				if (chunk.usageMetadata) {
+					result.usage = parseGeminiUsage(chunk.usageMetadata);
 				}
 
-				if (trimmed.startsWith("event:")) {
-					const event = trimmed.slice(6).trim();
-					if (event === "content_block_stop") {
-						flushToolCall();
+				for (const part of candidate?.content?.parts ?? []) {
+					if (part.functionCall?.name) {
+						const callId = toGeminiCallId(
+							part.functionCall.id || `${callIdPrefix}_${toolCallCount}`,
+							typeof part.thoughtSignature === "string" ? part.thoughtSignature : undefined
+						);
+						const name = resolveToolName(callbacks, part.functionCall.name);
+						const args = part.functionCall.args ?? {};
+						toolCallCount++;
+						emitCompleteToolCall(callbacks, callId, name, args);
+						onToolCall(callId, name, args);
+					} else if (typeof part.text === "string" && part.text) {
+						if (part.thought) {
+							callbacks.onThinking?.(part.text);
+						} else {
+							onText(part.text);
+						}
 					}
-					continue;
 				}
 
-				if (!trimmed.startsWith("data:")) {
-					continue;
+				if (candidate?.finishReason) {
+					result.rawStopReason = candidate.finishReason;
+					// Gemini reports STOP even when the turn ends with function calls
+					result.stopReason =
+						candidate.finishReason === "STOP" && toolCallCount > 0
+							? "tool_calls"
+							: normalizeStopReason(String(candidate.finishReason).toLowerCase());
 				}
-				const data = trimmed.slice(5).trim();
+			} catch {
+				// Skip invalid JSON
+			}
+		},
+		signal
+	);
 
-				try {
-					const chunk = JSON.parse(data);
+	if (result.usage) {
+		callbacks.onUsage?.(result.usage);
+	}
+	return result;
+}
 
-					if (chunk.type === "content_block_start") {
-						if (chunk.content_block?.type === "tool_use") {
-							currentToolId = chunk.content_block.id;
-							currentToolName = chunk.content_block.name;
-							currentToolArgs = "";
-						}
-					} else if (chunk.type === "content_block_delta") {
-						const delta = chunk.delta;
-						if (delta?.type === "text_delta" && delta.text) {
-							onText(delta.text);
-						} else if (delta?.type === "input_json_delta" && delta.partial_json) {
-							currentToolArgs += delta.partial_json;
-						}
-					}
-				} catch {
-					// Skip invalid JSON
+// ============================================================================
+// Ollama Streaming
+// ============================================================================
+
+/**
+ * Process Ollama /api/chat streaming response (newline-delimited JSON)
+ *
+ * Each line is a complete JSON object. Tool calls arrive whole and carry no id,
+ * so one is generated. The final line has done: true with token counts.
+ */
+export async function processOllamaStream(
+	response: Response,
+	onText: (text: string) => void,
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	signal?: AbortSignal,
+	callbacks: StreamCallbacks = {}
+): Promise<ChatResponseResult> {
+	const result: ChatResponseResult = {};
+	const callIdPrefix = `ollama_${Date.now().toString(36)}`;
+	let toolCallCount = 0;
+
+	const handleLine = (line: string) => {
+		const trimmed = line.trim();
+		if (!trimmed) {
+			return;
+		}
+
+		let chunk;
+		try {
+			chunk = JSON.parse(trimmed);
+		} catch {
+			// Skip invalid JSON
+			return;
+		}
+
+		if (typeof chunk.error === "string") {
+			throw createProviderErrorFromPayload(chunk, "Ollama error");
+		}
+
+		if (chunk.model) {
+			result.model = chunk.model;
+		}
+
+		const message = chunk.message;
+		if (typeof message?.thinking === "string" && message.thinking) {
+			callbacks.onThinking?.(message.thinking);
+		}
+		if (typeof message?.content === "string" && message.content) {
+			onText(message.content);
+		}
+		for (const tc of message?.tool_calls ?? []) {
+			if (!tc.function?.name) {
+				continue;
+			}
+			// Arguments are normally an object, but some models send a JSON string
+			const args = tc.function.arguments ?? {};
+			const callId = tc.id || `${callIdPrefix}_${toolCallCount}`;
+			const name = resolveToolName(callbacks, tc.function.name);
+			emitCompleteToolCall(callbacks, callId, name, args);
+			if (typeof args === "string") {
+				// Ollama's server parses tool calls from the complete model output
+				reportToolCall(onToolCall, callbacks, { id: callId, name, arguments: args }, "tool_calls", false);
+			} else {
+				onToolCall(callId, name, args);
+			}
+			toolCallCount++;
+		}
+
+		if (chunk.done) {
+			const reason = typeof chunk.done_reason === "string" ? chunk.done_reason : "stop";
+			result.rawStopReason = reason;
+			result.stopReason = reason === "stop" && toolCallCount > 0 ? "tool_calls" : normalizeStopReason(reason);
+
+			const promptTokens = toCount(chunk.prompt_eval_count);
+			const completionTokens = toCount(chunk.eval_count);
+			if (promptTokens !== undefined || completionTokens !== undefined) {
+				result.usage = {
+					promptTokens: promptTokens ?? 0,
+					completionTokens: completionTokens ?? 0,
+					totalTokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+				};
+			}
+		}
+	};
+
+	await readLineStream(response, handleLine, signal);
+
+	if (result.usage) {
+		callbacks.onUsage?.(result.usage);
+	}
+	return result;
+}
+
+// ============================================================================
+// Text Post-Processing
+// ============================================================================
+
+/**
+ * Signature shared by the stream processors
+ */
+export type StreamProcessor = (
+	response: Response,
+	onText: (text: string) => void,
+	onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+	signal?: AbortSignal,
+	callbacks?: StreamCallbacks
+) => Promise<ChatResponseResult>;
+
+/**
+ * Length of the longest suffix of text that is a prefix of tag
+ */
+function partialTagLength(text: string, tag: string): number {
+	for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+		if (text.endsWith(tag.slice(0, length))) {
+			return length;
+		}
+	}
+	return 0;
+}
+
+// ============================================================================
+// Inline Thinking Tags
+// ============================================================================
+
+/**
+ * Incremental splitter that moves text between thinking tags to the thinking channel
+ *
+ * Tags split across chunks are recognized. Whitespace right after a closing tag
+ * is dropped, so the answer does not start with the blank lines models put there.
+ */
+export class ThinkingTagSplitter {
+	private buffer = "";
+	private inside: boolean;
+	private afterClose = false;
+	private readonly openTag: string;
+	private readonly closeTag: string;
+
+	constructor(
+		private readonly onText: (text: string) => void,
+		private readonly onThinking: (text: string) => void,
+		options: ThinkingTagOptions = {}
+	) {
+		this.openTag = options.open ?? "<think>";
+		this.closeTag = options.close ?? "</think>";
+		this.inside = options.startInside ?? false;
+	}
+
+	/**
+	 * Process a chunk of response text
+	 */
+	push(text: string): void {
+		this.buffer += text;
+		for (;;) {
+			const tag = this.inside ? this.closeTag : this.openTag;
+			const index = this.buffer.indexOf(tag);
+			if (index === -1) {
+				const keep = partialTagLength(this.buffer, tag);
+				this.emit(this.buffer.slice(0, this.buffer.length - keep));
+				this.buffer = this.buffer.slice(this.buffer.length - keep);
+				return;
+			}
+			this.emit(this.buffer.slice(0, index));
+			this.buffer = this.buffer.slice(index + tag.length);
+			this.afterClose = this.inside;
+			this.inside = !this.inside;
+		}
+	}
+
+	/**
+	 * Report text held back at the end of the stream
+	 */
+	flush(): void {
+		this.emit(this.buffer);
+		this.buffer = "";
+	}
+
+	private emit(text: string): void {
+		if (this.inside) {
+			if (text) {
+				this.onThinking(text);
+			}
+			return;
+		}
+		if (this.afterClose) {
+			text = text.replace(/^\s+/, "");
+			this.afterClose = !text;
+		}
+		if (text) {
+			this.onText(text);
+		}
+	}
+}
+
+/**
+ * Wrap a stream processor so reasoning inside thinking tags goes to onThinking
+ *
+ * For models that write their reasoning into the regular text (MiniMax, Qwen and
+ * many local models). The reasoning is removed from the text either way.
+ */
+export function withThinkingTags(processStream: StreamProcessor, options: ThinkingTagOptions = {}): StreamProcessor {
+	return async (response, onText, onToolCall, signal, callbacks = {}) => {
+		const splitter = new ThinkingTagSplitter(onText, (text) => callbacks.onThinking?.(text), options);
+		const result = await processStream(response, (text) => splitter.push(text), onToolCall, signal, callbacks);
+		splitter.flush();
+		return result;
+	};
+}
+
+// ============================================================================
+// Prompted Tool Calls
+// ============================================================================
+
+/**
+ * Incremental parser that turns `<tool_call>` blocks in streamed text into tool calls
+ *
+ * Text outside the blocks is passed on as it arrives, except for a possible
+ * partial opening tag at the end of a chunk. Whitespace between and after calls
+ * is dropped. A block without a tool name is passed on as text.
+ */
+export class PromptedToolCallParser {
+	private buffer = "";
+	private inCall = false;
+	private callCount = 0;
+	private readonly callIdPrefix = `prompted_${Date.now().toString(36)}`;
+
+	constructor(
+		private readonly onText: (text: string) => void,
+		private readonly onToolCall: (callId: string, name: string, args: Record<string, unknown>) => void,
+		private readonly callbacks: StreamCallbacks = {}
+	) {}
+
+	/** Number of tool calls reported so far */
+	get toolCallCount(): number {
+		return this.callCount;
+	}
+
+	/**
+	 * Process a chunk of response text
+	 */
+	push(text: string): void {
+		this.buffer += text;
+		for (;;) {
+			if (this.inCall) {
+				const end = this.buffer.indexOf(TOOL_CALL_CLOSE_TAG);
+				if (end === -1) {
+					return;
+				}
+				const body = this.buffer.slice(0, end);
+				this.buffer = this.buffer.slice(end + TOOL_CALL_CLOSE_TAG.length);
+				this.inCall = false;
+				this.emitCall(body);
+			} else {
+				const start = this.buffer.indexOf(TOOL_CALL_OPEN_TAG);
+				if (start === -1) {
+					const keep = partialTagLength(this.buffer, TOOL_CALL_OPEN_TAG);
+					this.emitText(this.buffer.slice(0, this.buffer.length - keep));
+					this.buffer = this.buffer.slice(this.buffer.length - keep);
+					return;
 				}
+				this.emitText(this.buffer.slice(0, start));
+				this.buffer = this.buffer.slice(start + TOOL_CALL_OPEN_TAG.length);
+				this.inCall = true;
 			}
 		}
-	} finally {
-		reader.releaseLock();
+	}
+
+	/**
+	 * Report what is left at the end of the stream; an unclosed block is parsed as
+	 * a call, which is invalid if the response stopped at the output token limit
+	 * or ended without a stop reason
+	 *
+	 * @param stopReason - Stop reason of the response
+	 */
+	flush(stopReason?: StopReason): void {
+		if (this.inCall) {
+			this.inCall = false;
+			this.emitCall(this.buffer, stopReason === "max_tokens" || stopReason === undefined);
+		} else {
+			this.emitText(this.buffer);
+		}
+		this.buffer = "";
+	}
+
+	private emitText(text: string): void {
+		if (text && (this.callCount === 0 || text.trim())) {
+			this.onText(text);
+		}
+	}
+
+	private emitCall(body: string, cutOff = false): void {
+		const call = parseToolCallBlock(body);
+		if (!call) {
+			this.emitText(`${TOOL_CALL_OPEN_TAG}${body}${TOOL_CALL_CLOSE_TAG}`);
+			return;
+		}
+		const callId = `${this.callIdPrefix}_${this.callCount++}`;
+		const name = resolveToolName(this.callbacks, call.name);
+		emitCompleteToolCall(this.callbacks, callId, name, call.rawArguments);
+		if (cutOff) {
+			reportInvalidToolCall(this.callbacks, callId, name, call.rawArguments, CUT_OFF_ERROR);
+		} else {
+			// The block was closed or ended with the response, so the arguments are complete
+			reportToolCall(
+				this.onToolCall,
+				this.callbacks,
+				{ id: callId, name, arguments: call.rawArguments },
+				"tool_calls",
+				false
+			);
+		}
+	}
+}
+
+/**
+ * Wrap a stream processor for prompted tool calling
+ *
+ * `<tool_call>` blocks in the response text (see toPromptedToolMessages) are
+ * reported as tool calls, and the stop reason becomes tool_calls when any were found.
+ */
+export function withPromptedToolCalls(processStream: StreamProcessor): StreamProcessor {
+	return async (response, onText, onToolCall, signal, callbacks = {}) => {
+		const parser = new PromptedToolCallParser(onText, onToolCall, callbacks);
+		const result = await processStream(response, (text) => parser.push(text), onToolCall, signal, callbacks);
+		parser.flush(result.stopReason);
+		if (parser.toolCallCount > 0) {
+			result.stopReason = "tool_calls";
+		}
+		return result;
+	};
+}
+
+// ============================================================================
+// Stream Processor Selection
+// ============================================================================
+
+/**
+ * Select the stream processor for an API mode
+ */
+export function getStreamProcessor(apiMode: ApiMode): StreamProcessor {
+	switch (apiMode) {
+		case "openai-responses":
+			return processOpenAIResponsesStream;
+		case "anthropic":
+			return processAnthropicStream;
+		case "gemini":
+			return processGeminiStream;
+		case "ollama":
+			return processOllamaStream;
+		default:
+			return processOpenAIStream;
+	}
+}
+
+// ============================================================================
+// StreamingHandler Adapter
+// ============================================================================
+
+const FINISH_REASONS: Partial<Record<StopReason, string>> = {
+	stop: "stop",
+	max_tokens: "length",
+	tool_calls: "tool_calls",
+	content_filter: "content_filter",
+};
+
+/**
+ * Assemble a Chat Completions style response from streamed content
+ */
+function toChatCompletionResponse(
+	result: ChatResponseResult,
+	text: string,
+	toolCalls: ToolCall[]
+): ChatCompletionResponse {
+	return {
+		id: result.responseId ?? "",
+		object: "chat.completion",
+		created: Math.floor(Date.now() / 1000),
+		model: result.model ?? "",
+		choices: [
+			{
+				index: 0,
+				message: {
+					role: "assistant",
+					content: text,
+					...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+				},
+				finish_reason: (result.stopReason && FINISH_REASONS[result.stopReason]) ?? result.rawStopReason ?? null,
+			},
+		],
+		...(result.usage
+			? {
+					usage: {
+						prompt_tokens: result.usage.promptTokens,
+						completion_tokens: result.usage.completionTokens,
+						total_tokens: result.usage.totalTokens,
+					},
+				}
+			: {}),
+	};
+}
+
+/**
+ * Process a streaming response and report it to a StreamingHandler
+ *
+ * Text is reported as deltas. Tool calls are reported as they stream:
+ * onToolCallStart, onToolCallChunk for each argument fragment, onToolCallEnd,
+ * then onToolCall with the complete call. When the stream ends, onComplete
+ * receives the assembled response; on failure onError is called and the
+ * error is rethrown.
+ *
+ * @param apiMode - API mode that produced the response
+ * @param response - Fetch response with a streaming body
+ * @param handler - Handler receiving stream events
+ * @param signal - Optional AbortSignal for cancellation
+ * @returns Response metadata (usage, stop reason, model)
+ */
+export async function processStreamWithHandler(
+	apiMode: ApiMode,
+	response: Response,
+	handler: StreamingHandler,
+	signal?: AbortSignal
+): Promise<ChatResponseResult> {
+	const processStream = getStreamProcessor(apiMode);
+	let text = "";
+	const toolCalls: ToolCall[] = [];
+
+	try {
+		const result = await processStream(
+			response,
+			(delta) => {
+				text += delta;
+				handler.onText(delta, true);
+			},
+			(callId, name, args) => {
+				const toolCall: ToolCall = {
+					id: callId,
+					type: "function",
+					function: { name, arguments: JSON.stringify(args) },
+				};
+				toolCalls.push(toolCall);
+				handler.onToolCall(toolCall);
+			},
+			signal,
+			{
+				onThinking: (thinking) => {
+					// Signature-only deltas carry no text
+					if (thinking) {
+						handler.onThinking(thinking);
+					}
+				},
+				onToolCallStart: (callId, name) => handler.onToolCallStart(name, "", callId),
+				onToolCallChunk: (callId, argsDelta) => handler.onToolCallChunk(argsDelta, callId),
+				onToolCallEnd: (callId) => handler.onToolCallEnd(callId),
+			}
+		);
+		handler.onComplete(toChatCompletionResponse(result, text, toolCalls));
+		return result;
+	} catch (error) {
+		handler.onError(error instanceof Error ? error : new Error(String(error)));
+		throw error;
 	}
 }
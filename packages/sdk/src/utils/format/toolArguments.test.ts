@@ -0,0 +1,92 @@
+/**
+ * Unit tests for tolerant tool argument parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseToolCallArguments, repairJson } from "./toolArguments";
+
+describe("repairJson", () => {
+	it("should close strings, arrays and objects cut off mid-value", () => {
+		expect(JSON.parse(repairJson('{"path": "src/a.ts", "lines": [1, 2')!)).toEqual({
+			path: "src/a.ts",
+			lines: [1, 2],
+		});
+		expect(JSON.parse(repairJson('{"content": "hello wor')!)).toEqual({ content: "hello wor" });
+	});
+
+	it("should complete dangling separators and literals", () => {
+		expect(JSON.parse(repairJson('{"a": 1,')!)).toEqual({ a: 1 });
+		expect(JSON.parse(repairJson('{"a": tr')!)).toEqual({ a: true });
+		expect(JSON.parse(repairJson('{"a": 1.')!)).toEqual({ a: 1 });
+	});
+
+	it("should drop a dangling escape at the end of a string", () => {
+		expect(JSON.parse(repairJson('{"a": "x\\')!)).toEqual({ a: "x" });
+	});
+
+	it("should remove trailing commas", () => {
+		expect(JSON.parse(repairJson('{"a": [1, 2,], "b": {"c": 3,},}')!)).toEqual({ a: [1, 2], b: { c: 3 } });
+	});
+
+	it("should escape raw newlines and tabs inside strings", () => {
+		expect(JSON.parse(repairJson('{"code": "line 1\n\tline 2"}')!)).toEqual({ code: "line 1\n\tline 2" });
+	});
+
+	it("should unwrap markdown fences and ignore text after the value", () => {
+		expect(JSON.parse(repairJson('```json\n{"query": "x"}\n```')!)).toEqual({ query: "x" });
+		expect(JSON.parse(repairJson('```\n{"query": "x"')!)).toEqual({ query: "x" });
+		expect(JSON.parse(repairJson('{"query": "x"} done')!)).toEqual({ query: "x" });
+	});
+
+	it("should return undefined without a JSON object or array", () => {
+		expect(repairJson("not json")).toBeUndefined();
+	});
+
+	it("should not make up values for keys or skip text before the value", () => {
+		expect(repairJson('{"a": 1, "b"')).toBeUndefined();
+		expect(repairJson('{"a": 1, "b":')).toBeUndefined();
+		expect(repairJson('{"a": {"b": ')).toBeUndefined();
+		expect(repairJson('Arguments: {"query": "x"}')).toBeUndefined();
+	});
+});
+
+describe("parseToolCallArguments", () => {
+	it("should parse valid and empty arguments without repair", () => {
+		expect(parseToolCallArguments('{"a": 1}')).toEqual({ ok: true, args: { a: 1 }, repaired: false });
+		expect(parseToolCallArguments("  ")).toEqual({ ok: true, args: {}, repaired: false });
+	});
+
+	it("should flag repaired arguments", () => {
+		expect(parseToolCallArguments('{"a": [1, 2,],}')).toEqual({
+			ok: true,
+			args: { a: [1, 2] },
+			repaired: true,
+			truncated: false,
+		});
+	});
+
+	it("should flag arguments that had to be closed as truncated", () => {
+		expect(parseToolCallArguments('{"a": 1,')).toEqual({ ok: true, args: { a: 1 }, repaired: true, truncated: true });
+		expect(parseToolCallArguments('{"content": "line 1\nli')).toMatchObject({ ok: true, truncated: true });
+	});
+
+	it("should decode double-encoded arguments", () => {
+		expect(parseToolCallArguments(JSON.stringify('{"a": 1}'))).toEqual({ ok: true, args: { a: 1 }, repaired: false });
+	});
+
+	it("should report arguments with a missing value or leading text as invalid", () => {
+		expect(parseToolCallArguments('nonsense {"a"')).toMatchObject({ ok: false });
+		expect(parseToolCallArguments('{"path": "a.ts", "content":')).toMatchObject({ ok: false });
+	});
+
+	it("should report arguments that cannot be repaired", () => {
+		const result = parseToolCallArguments("path=src/a.ts");
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.error).toMatch(/^Invalid JSON: /);
+	});
+
+	it("should reject values that are not objects", () => {
+		expect(parseToolCallArguments("[1, 2]")).toEqual({ ok: false, error: "Tool arguments must be a JSON object" });
+		expect(parseToolCallArguments("42")).toEqual({ ok: false, error: "Tool arguments must be a JSON object" });
+	});
+});
@@ -0,0 +1,219 @@
+/**
+ * Tool Argument Parsing
+ * Tolerant parsing of streamed tool-call arguments
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of parsing tool-call arguments
+ */
+export type ParsedToolArguments =
+	| {
+			ok: true;
+			args: Record<string, unknown>;
+			/** Whether the arguments were invalid JSON that had to be repaired */
+			repaired: boolean;
+			/**
+			 * Whether the repair had to close a string, object or array, i.e. the
+			 * arguments may have been cut off. Set only for repaired arguments.
+			 */
+			truncated?: boolean;
+	  }
+	| {
+			ok: false;
+			/** Why the arguments could not be used */
+			error: string;
+	  };
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+/**
+ * Remove a surrounding markdown code fence, which some models put around JSON
+ */
+function stripCodeFence(text: string): string {
+	const match = /^```[\w-]*[ \t]*\n?([\s\S]*?)\n?(?:```\s*)?$/.exec(text);
+	return match ? match[1] : text;
+}
+
+/** Completions for a literal cut off at the end of the text */
+const PARTIAL_LITERALS: Record<string, string> = {
+	t: "true",
+	tr: "true",
+	tru: "true",
+	f: "false",
+	fa: "false",
+	fal: "false",
+	fals: "false",
+	n: "null",
+	nu: "null",
+	nul: "null",
+};
+
+/**
+ * Close a value that was cut off at the end of the text
+ *
+ * @returns The completed text, or undefined if a key has no value; none is made up
+ */
+function completeTail(text: string, inObject: boolean): string | undefined {
+	let out = text.trimEnd();
+
+	const literal = /[[{,:]\s*([a-z]+)$/.exec(out);
+	if (literal && PARTIAL_LITERALS[literal[1]]) {
+		out = out.slice(0, out.length - literal[1].length) + PARTIAL_LITERALS[literal[1]];
+	}
+	// A number cut off after its decimal point or exponent sign
+	out = out.replace(/(\d)[.eE+-]+$/, "$1");
+
+	if (out.endsWith(",")) {
+		out = out.slice(0, -1);
+	} else if (out.endsWith(":") || (inObject && /[{,]\s*"(?:[^"\\]|\\.)*"$/.test(out))) {
+		// A key without a value
+		return undefined;
+	}
+	return out;
+}
+
+/**
+ * Repair common defects in model-generated JSON
+ *
+ * Handles markdown fences, raw control characters in strings, trailing commas,
+ * and output cut off mid-string or before the closing braces. Anything after
+ * the top-level value is ignored. Values are never made up: text before the
+ * JSON value (other than a fence) or a key without a value fails the repair.
+ *
+ * @param text - Malformed JSON text
+ * @returns Repaired JSON text, or undefined if the text does not start with a
+ *   JSON object or array or cannot be repaired
+ */
+export function repairJson(text: string): string | undefined {
+	return repairJsonText(text)?.json;
+}
+
+/**
+ * Repair JSON text, noting whether the value had to be closed (see repairJson)
+ */
+function repairJsonText(text: string): { json: string; truncated: boolean } | undefined {
+	const source = stripCodeFence(text.trim());
+	if (!/^[{[]/.test(source)) {
+		return undefined;
+	}
+
+	let out = "";
+	const closers: string[] = [];
+	let inString = false;
+	let escaped = false;
+
+	for (const ch of source) {
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+				out += ch;
+			} else if (ch === "\\") {
+				escaped = true;
+				out += ch;
+			} else if (ch === '"') {
+				inString = false;
+				out += ch;
+			} else if (ch === "\n") {
+				out += "\\n";
+			} else if (ch === "\r") {
+				out += "\\r";
+			} else if (ch === "\t") {
+				out += "\\t";
+			} else {
+				out += ch;
+			}
+			continue;
+		}
+
+		if (ch === '"') {
+			inString = true;
+			out += ch;
+		} else if (ch === "{" || ch === "[") {
+			closers.push(ch === "{" ? "}" : "]");
+			out += ch;
+		} else if (ch === "}" || ch === "]") {
+			if (closers[closers.length - 1] !== ch) {
+				// Stray closer
+				continue;
+			}
+			out = out.replace(/,\s*$/, "") + closers.pop();
+			if (closers.length === 0) {
+				break;
+			}
+		} else {
+			out += ch;
+		}
+	}
+
+	const truncated = inString || closers.length > 0;
+	if (inString) {
+		if (escaped) {
+			out = out.slice(0, -1);
+		}
+		out += '"';
+	}
+	while (closers.length > 0) {
+		const completed = completeTail(out, closers[closers.length - 1] === "}");
+		if (completed === undefined) {
+			return undefined;
+		}
+		out = completed + closers.pop();
+	}
+	return { json: out, truncated };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function toArguments(value: unknown, repaired: boolean, truncated = false): ParsedToolArguments {
+	// Some models double-encode the arguments as a JSON string
+	if (typeof value === "string") {
+		try {
+			value = JSON.parse(value);
+		} catch {
+			// Not JSON inside; reported below
+		}
+	}
+	if (value && typeof value === "object" && !Array.isArray(value)) {
+		return { ok: true, args: value as Record<string, unknown>, repaired, ...(repaired && { truncated }) };
+	}
+	return { ok: false, error: "Tool arguments must be a JSON object" };
+}
+
+/**
+ * Parse the JSON arguments of a tool call, repairing them if needed
+ *
+ * Empty arguments parse to an empty object.
+ *
+ * @param rawArguments - Arguments as streamed by the model
+ */
+export function parseToolCallArguments(rawArguments: string): ParsedToolArguments {
+	const text = rawArguments.trim();
+	if (!text) {
+		return { ok: true, args: {}, repaired: false };
+	}
+
+	let parseError: string;
+	try {
+		return toArguments(JSON.parse(text), false);
+	} catch (error) {
+		parseError = error instanceof Error ? error.message : String(error);
+	}
+
+	const repaired = repairJsonText(text);
+	if (repaired !== undefined) {
+		try {
+			return toArguments(JSON.parse(repaired.json), true, repaired.truncated);
+		} catch {
+			// Fall through with the original error
+		}
+	}
+	return { ok: false, error: `Invalid JSON: ${parseError}` };
+}
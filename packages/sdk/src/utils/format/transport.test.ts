@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the HTTP transport
+ */
+
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fetchWithTransport, isTimeoutError, resolveProxy, shouldBypassProxy } from "./transport";
+import { NetworkError } from "./errors";
+
+function listen(server: http.Server): Promise<string> {
+	return new Promise((resolve) =>
+		server.listen(0, "127.0.0.1", () => resolve(`127.0.0.1:${(server.address() as AddressInfo).port}`))
+	);
+}
+
+describe("shouldBypassProxy", () => {
+	const url = new URL("https://api.example.com/v1/chat");
+
+	it("should match hosts and their subdomains", () => {
+		expect(shouldBypassProxy(url, "example.com")).toBe(true);
+		expect(shouldBypassProxy(url, ".example.com")).toBe(true);
+		expect(shouldBypassProxy(url, ["other.org", "*.example.com"])).toBe(true);
+		expect(shouldBypassProxy(url, "ample.com")).toBe(false);
+		expect(shouldBypassProxy(url, "")).toBe(false);
+	});
+
+	it("should match ports, wildcards and IPv6 addresses", () => {
+		expect(shouldBypassProxy(url, "example.com:443")).toBe(true);
+		expect(shouldBypassProxy(url, "example.com:8443")).toBe(false);
+		expect(shouldBypassProxy(url, "localhost, *")).toBe(true);
+		expect(shouldBypassProxy(new URL("http://[::1]:11434/api"), "[::1]")).toBe(true);
+		expect(shouldBypassProxy(new URL("http://[::1]:11434/api"), "::1")).toBe(true);
+	});
+
+	it("should default to the NO_PROXY environment variable", () => {
+		vi.stubEnv("NO_PROXY", "localhost,.example.com");
+		try {
+			expect(shouldBypassProxy(url)).toBe(true);
+			expect(shouldBypassProxy(new URL("https://api.other.org"))).toBe(false);
+		} finally {
+			vi.unstubAllEnvs();
+		}
+	});
+});
+
+describe("resolveProxy", () => {
+	it("should add a scheme to the proxy and honor noProxy", () => {
+		const url = new URL("https://api.example.com");
+
+		expect(resolveProxy(url, { proxy: "proxy.local:3128", noProxy: [] })?.href).toBe("http://proxy.local:3128/");
+		expect(resolveProxy(url, { proxy: "http://proxy.local:3128", noProxy: "example.com" })).toBeUndefined();
+		expect(resolveProxy(url, {})).toBeUndefined();
+	});
+});
+
+describe("fetchWithTransport", () => {
+	const servers: http.Server[] = [];
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		for (const server of servers.splice(0)) {
+			server.close();
+		}
+	});
+
+	it("should use the global fetch without proxy or certificate options", async () => {
+		const fetchSpy = vi.fn().mockResolvedValue(new Response("ok"));
+		vi.stubGlobal("fetch", fetchSpy);
+
+		const response = await fetchWithTransport("https://api.example.com", { method: "POST" });
+
+		expect(await response.text()).toBe("ok");
+		expect(fetchSpy).toHaveBeenCalledWith("https://api.example.com", { method: "POST", signal: undefined });
+	});
+
+	it("should abort with a TimeoutError after timeoutMs", async () => {
+		vi.stubGlobal(
+			"fetch",
+			(_url: string, init: RequestInit) =>
+				new Promise((_resolve, reject) => init.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+		);
+
+		const error = await fetchWithTransport("https://api.example.com", {}, { timeoutMs: 10 }).catch((e: unknown) => e);
+
+		expect(isTimeoutError(error)).toBe(true);
+	});
+
+	it("should send plain HTTP requests through the proxy with credentials", async () => {
+		const seen: http.IncomingMessage[] = [];
+		const proxy = http.createServer((req, res) => {
+			seen.push(req);
+			res.writeHead(201, { "content-type": "text/plain" }).end("proxied");
+		});
+		servers.push(proxy);
+		const address = await listen(proxy);
+
+		const response = await fetchWithTransport(
+			"http://api.example.com/v1/models?limit=1",
+			{ headers: { Authorization: "Bearer key" } },
+			{ proxy: `http://user:p%40ss@${address}`, noProxy: [] }
+		);
+
+		expect(response.status).toBe(201);
+		expect(response.headers.get("content-type")).toBe("text/plain");
+		expect(await response.text()).toBe("proxied");
+		expect(seen[0].url).toBe("http://api.example.com/v1/models?limit=1");
+		expect(seen[0].headers.authorization).toBe("Bearer key");
+		expect(seen[0].headers["proxy-authorization"]).toBe(`Basic ${Buffer.from("user:p@ss").toString("base64")}`);
+	});
+
+	it("should connect directly with a connect timeout and stream the body", async () => {
+		const server = http.createServer((req, res) => {
+			res.writeHead(200);
+			req.pipe(res);
+		});
+		servers.push(server);
+		const address = await listen(server);
+
+		const response = await fetchWithTransport(
+			`http://${address}/echo`,
+			{ method: "POST", body: '{"stream":true}' },
+			{ connectTimeoutMs: 1000 }
+		);
+
+		expect(await response.text()).toBe('{"stream":true}');
+	});
+
+	it("should fail with NetworkError when the proxy refuses the tunnel", async () => {
+		const proxy = http.createServer();
+		proxy.on("connect", (_req, socket) => socket.end("HTTP/1.1 407 Proxy Authentication Required\r\n\r\n"));
+		servers.push(proxy);
+		const address = await listen(proxy);
+
+		const error = await fetchWithTransport("https://api.example.com", {}, { proxy: address, noProxy: [] }).catch(
+			(e: unknown) => e
+		);
+
+		expect(error).toBeInstanceOf(NetworkError);
+		expect((error as Error).message).toBe("Proxy refused the connection: 407 Proxy Authentication Required");
+	});
+
+	it("should reject unreachable proxies with a TypeError like fetch", async () => {
+		const proxy = http.createServer();
+		servers.push(proxy);
+		const address = await listen(proxy);
+		proxy.close();
+
+		const error = await fetchWithTransport("http://api.example.com", {}, { proxy: address, noProxy: [] }).catch(
+			(e: unknown) => e
+		);
+
+		expect(error).toBeInstanceOf(TypeError);
+		expect((error as Error).message).toBe("fetch failed");
+	});
+});
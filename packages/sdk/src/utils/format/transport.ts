@@ -0,0 +1,304 @@
+/**
+ * HTTP Transport
+ * Proxy, custom CA and timeout support for provider HTTP calls
+ */
+
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as https from "node:https";
+import * as tls from "node:tls";
+import { Readable } from "node:stream";
+import { NetworkError } from "./errors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How provider HTTP calls reach the network
+ */
+export interface TransportOptions {
+	/** Proxy URL (http:// or https://, may include credentials), e.g. VS Code's http.proxy */
+	proxy?: string;
+	/**
+	 * Hosts reached without the proxy, in NO_PROXY syntax
+	 * @default the NO_PROXY environment variable
+	 */
+	noProxy?: string | readonly string[];
+	/** Path to a PEM file with extra CA certificates, trusted in addition to the built-in ones */
+	caFile?: string;
+	/**
+	 * Verify TLS certificates (VS Code's http.proxyStrictSSL)
+	 * @default true
+	 */
+	rejectUnauthorized?: boolean;
+	/** Milliseconds to wait for a connection, including the proxy tunnel and TLS handshake */
+	connectTimeoutMs?: number;
+	/** Milliseconds for the whole request, including reading the response body */
+	timeoutMs?: number;
+}
+
+// ============================================================================
+// Proxy Selection
+// ============================================================================
+
+function noProxyEntries(noProxy: string | readonly string[] | undefined): string[] {
+	const value = noProxy ?? process.env.NO_PROXY ?? process.env.no_proxy ?? "";
+	const entries = typeof value === "string" ? value.split(/[\s,]+/) : value;
+	return entries.map((e) => e.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Split a NO_PROXY entry into host and optional port
+ */
+function parseNoProxyEntry(entry: string): { host: string; port?: string } {
+	const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(entry);
+	if (bracketed) {
+		return { host: bracketed[1], port: bracketed[2] };
+	}
+	// More than one colon is an IPv6 address without a port
+	const withPort = /^([^:]+):(\d+)$/.exec(entry);
+	const host = withPort ? withPort[1] : entry;
+	return { host: host.replace(/^\*?\./, ""), port: withPort?.[2] };
+}
+
+/**
+ * Check whether a URL bypasses the proxy
+ *
+ * An entry matches its host and all subdomains ("example.com", ".example.com"
+ * and "*.example.com" are equivalent), optionally only on one port
+ * ("example.com:8443"). A single "*" matches every host.
+ *
+ * @param url - Request URL
+ * @param noProxy - NO_PROXY entries (defaults to the NO_PROXY environment variable)
+ */
+export function shouldBypassProxy(url: URL, noProxy?: string | readonly string[]): boolean {
+	const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+	const port = url.port || (url.protocol === "https:" ? "443" : "80");
+
+	return noProxyEntries(noProxy).some((entry) => {
+		if (entry === "*") {
+			return true;
+		}
+		const { host, port: entryPort } = parseNoProxyEntry(entry);
+		if (entryPort && entryPort !== port) {
+			return false;
+		}
+		return hostname === host || hostname.endsWith(`.${host}`);
+	});
+}
+
+/**
+ * Proxy for a request, or undefined to connect directly
+ */
+export function resolveProxy(url: URL, options: TransportOptions): URL | undefined {
+	if (!options.proxy || shouldBypassProxy(url, options.noProxy)) {
+		return undefined;
+	}
+	return new URL(options.proxy.includes("://") ? options.proxy : `http://${options.proxy}`);
+}
+
+// ============================================================================
+// Node Transport
+// ============================================================================
+
+/**
+ * Check whether an error is a timeout abort (AbortSignal.timeout)
+ */
+export function isTimeoutError(error: unknown): boolean {
+	return error instanceof Error && error.name === "TimeoutError";
+}
+
+/** Network failures reject with a TypeError, as they do with fetch */
+function toFetchError(error: unknown): TypeError {
+	return new TypeError("fetch failed", { cause: error });
+}
+
+function defaultPort(protocol: string): string {
+	return protocol === "https:" ? "443" : "80";
+}
+
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(raw)) {
+		for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+			headers.append(name, v);
+		}
+	}
+	return headers;
+}
+
+/**
+ * Send a request with Node's http modules, through a proxy if given
+ *
+ * HTTPS requests are tunneled with CONNECT; plain HTTP requests are sent to
+ * the proxy with an absolute URL.
+ */
+function nodeFetch(url: URL, init: RequestInit, options: TransportOptions, proxy: URL | undefined): Promise<Response> {
+	const signal = init.signal ?? undefined;
+
+	return new Promise<Response>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const tlsOptions: tls.ConnectionOptions = { rejectUnauthorized: options.rejectUnauthorized ?? true };
+		if (options.caFile) {
+			try {
+				tlsOptions.ca = [...tls.rootCertificates, fs.readFileSync(options.caFile, "utf8")];
+			} catch (error) {
+				reject(new Error(`Cannot read CA file ${options.caFile}: ${(error as Error).message}`));
+				return;
+			}
+		}
+
+		let settled = false;
+		let connectTimer: ReturnType<typeof setTimeout> | undefined;
+		const requests: http.ClientRequest[] = [];
+
+		const fail = (error: unknown) => {
+			clearTimeout(connectTimer);
+			signal?.removeEventListener("abort", onAbort);
+			for (const request of requests) {
+				request.destroy();
+			}
+			if (!settled) {
+				settled = true;
+				reject(error);
+			}
+		};
+		const onAbort = () => fail(signal?.reason);
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		if (options.connectTimeoutMs !== undefined) {
+			connectTimer = setTimeout(
+				() => fail(new NetworkError(`Connection timed out after ${options.connectTimeoutMs} ms`, { retryable: true })),
+				options.connectTimeoutMs
+			);
+		}
+		const connected = () => clearTimeout(connectTimer);
+
+		const method = init.method ?? "GET";
+		const headers = Object.fromEntries(new Headers(init.headers).entries());
+		const proxyAuthorization = proxy?.username
+			? `Basic ${Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString("base64")}`
+			: undefined;
+
+		const send = (requestOptions: https.RequestOptions, secure: boolean, tunneled: boolean) => {
+			const request = (secure ? https : http).request(requestOptions, (response) => {
+				settled = true;
+				clearTimeout(connectTimer);
+				signal?.removeEventListener("abort", onAbort);
+				// Aborting now ends the body stream instead
+				signal?.addEventListener("abort", () => response.destroy(signal.reason), { once: true });
+
+				const status = response.statusCode ?? 0;
+				const body =
+					status === 204 || status === 304 || method === "HEAD"
+						? null
+						: (Readable.toWeb(response) as unknown as ReadableStream<Uint8Array>);
+				resolve(
+					new Response(body, { status, statusText: response.statusMessage, headers: toHeaders(response.headers) })
+				);
+			});
+			requests.push(request);
+			if (!tunneled) {
+				request.on("socket", (socket) => socket.once(secure ? "secureConnect" : "connect", connected));
+			}
+			request.on("error", (error) => fail(toFetchError(error)));
+			request.end(init.body as string | Uint8Array | undefined);
+		};
+
+		const secure = url.protocol === "https:";
+		const port = url.port || defaultPort(url.protocol);
+		const path = url.pathname + url.search;
+
+		if (!proxy) {
+			send({ method, hostname: url.hostname, port, path, headers, agent: false, ...tlsOptions }, secure, false);
+			return;
+		}
+
+		const proxySecure = proxy.protocol === "https:";
+		const proxyHeaders: Record<string, string> = proxyAuthorization
+			? { "proxy-authorization": proxyAuthorization }
+			: {};
+		const proxyTarget = {
+			hostname: proxy.hostname.replace(/^\[|\]$/g, ""),
+			port: proxy.port || defaultPort(proxy.protocol),
+			agent: false as const,
+			...tlsOptions,
+		};
+
+		if (!secure) {
+			send(
+				{ ...proxyTarget, method, path: url.href, headers: { ...headers, host: url.host, ...proxyHeaders } },
+				proxySecure,
+				false
+			);
+			return;
+		}
+
+		const authority = `${url.hostname}:${port}`;
+		const tunnel = (proxySecure ? https : http).request({
+			...proxyTarget,
+			method: "CONNECT",
+			path: authority,
+			headers: { host: authority, ...proxyHeaders },
+		});
+		requests.push(tunnel);
+		tunnel.on("connect", (response, socket) => {
+			if (response.statusCode !== 200) {
+				socket.destroy();
+				fail(
+					new NetworkError(
+						`Proxy refused the connection: ${response.statusCode} ${response.statusMessage ?? ""}`.trim(),
+						{
+							status: response.statusCode,
+						}
+					)
+				);
+				return;
+			}
+			const secureSocket = tls.connect({ ...tlsOptions, socket, servername: url.hostname });
+			secureSocket.once("secureConnect", connected);
+			secureSocket.on("error", (error) => fail(toFetchError(error)));
+			send({ method, hostname: url.hostname, port, path, headers, createConnection: () => secureSocket }, true, true);
+		});
+		tunnel.on("error", (error) => fail(toFetchError(error)));
+		tunnel.end();
+	});
+}
+
+// ============================================================================
+// Fetch
+// ============================================================================
+
+/**
+ * fetch with proxy, custom CA and timeout support
+ *
+ * Uses the global fetch unless a proxy, CA file, disabled certificate checks or
+ * a connect timeout require Node's http modules. Network failures reject with a
+ * TypeError as with fetch; the total timeout aborts with a TimeoutError, also
+ * while the body is read (see isTimeoutError).
+ *
+ * @param input - Request URL
+ * @param init - Request options
+ * @param options - Transport options
+ */
+export async function fetchWithTransport(
+	input: string,
+	init: RequestInit = {},
+	options: TransportOptions = {}
+): Promise<Response> {
+	const signals = [init.signal, options.timeoutMs !== undefined ? AbortSignal.timeout(options.timeoutMs) : undefined];
+	const active = signals.filter((s): s is AbortSignal => !!s);
+	const signal = active.length > 1 ? AbortSignal.any(active) : active[0];
+
+	const url = new URL(input);
+	const proxy = resolveProxy(url, options);
+	if (!proxy && !options.caFile && options.rejectUnauthorized !== false && options.connectTimeoutMs === undefined) {
+		return fetch(input, { ...init, signal });
+	}
+	return nodeFetch(url, { ...init, signal }, options, proxy);
+}
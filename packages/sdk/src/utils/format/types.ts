@@ -1,6 +1,6 @@
 /**
  * Provider Format Types
- * Type definitions for OpenAI, Anthropic, and VS Code message formats
+ * Type definitions for OpenAI, Anthropic, Gemini, Ollama, and VS Code message formats
  */
 
 // ============================================================================
@@ -40,6 +40,50 @@ export interface OpenAITool {
 	};
 }
 
+// ============================================================================
+// OpenAI Responses API Format Types
+// ============================================================================
+
+/** Content part of a user or system input message */
+export type OpenAIResponsesInputContent =
+	| { type: "input_text"; text: string }
+	| { type: "input_image"; image_url: string; detail?: "low" | "high" | "auto" };
+
+/** Input message (assistant history uses plain string content) */
+export interface OpenAIResponsesMessageItem {
+	role: "user" | "assistant" | "system" | "developer";
+	content: string | OpenAIResponsesInputContent[];
+}
+
+/** Function call made by the model in an earlier turn */
+export interface OpenAIResponsesFunctionCallItem {
+	type: "function_call";
+	call_id: string;
+	name: string;
+	arguments: string;
+}
+
+/** Result of a function call */
+export interface OpenAIResponsesFunctionCallOutputItem {
+	type: "function_call_output";
+	call_id: string;
+	output: string;
+}
+
+export type OpenAIResponsesInputItem =
+	| OpenAIResponsesMessageItem
+	| OpenAIResponsesFunctionCallItem
+	| OpenAIResponsesFunctionCallOutputItem;
+
+/** Function tool definition (flat, unlike Chat Completions) */
+export interface OpenAIResponsesTool {
+	type: "function";
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+	strict?: boolean;
+}
+
 // ============================================================================
 // Anthropic Format Types
 // ============================================================================
@@ -49,16 +93,23 @@ export interface AnthropicMessage {
 	content: AnthropicContentBlock[];
 }
 
+/** Prompt cache breakpoint: the prefix up to and including the marked block is cached */
+export interface AnthropicCacheControl {
+	type: "ephemeral";
+}
+
 /** Text block for Anthropic API */
 export interface AnthropicTextBlock {
 	type: "text";
 	text: string;
+	cache_control?: AnthropicCacheControl;
 }
 
 /** Image block for Anthropic API */
 export interface AnthropicImageBlock {
 	type: "image";
 	source: { type: "base64"; media_type: string; data: string };
+	cache_control?: AnthropicCacheControl;
 }
 
 /** Tool use block for Anthropic API (assistant messages) */
@@ -67,6 +118,7 @@ export interface AnthropicToolUseBlock {
 	id: string;
 	name: string;
 	input: Record<string, unknown>;
+	cache_control?: AnthropicCacheControl;
 }
 
 /** Tool result block for Anthropic API (user messages) */
@@ -75,10 +127,21 @@ export interface AnthropicToolResultBlock {
 	tool_use_id: string;
 	/** Content can be a string or array of text/image blocks */
 	content: string | (AnthropicTextBlock | AnthropicImageBlock)[];
+	/** Marks the result as a failed tool call */
+	is_error?: boolean;
+	cache_control?: AnthropicCacheControl;
+}
+
+/** Thinking block for Anthropic API; sent back unchanged, with its signature, in later turns */
+export interface AnthropicThinkingBlock {
+	type: "thinking";
+	thinking: string;
+	signature: string;
 }
 
 export type AnthropicContentBlock =
 	| AnthropicTextBlock
+	| AnthropicThinkingBlock
 	| AnthropicImageBlock
 	| AnthropicToolUseBlock
 	| AnthropicToolResultBlock;
@@ -87,6 +150,122 @@ export interface AnthropicTool {
 	name: string;
 	description?: string;
 	input_schema: Record<string, unknown>;
+	cache_control?: AnthropicCacheControl;
+}
+
+// ============================================================================
+// Gemini Format Types
+// ============================================================================
+
+export interface GeminiContent {
+	role: "user" | "model";
+	parts: GeminiPart[];
+}
+
+/** Text part (thought is set on reasoning parts in responses) */
+export interface GeminiTextPart {
+	text: string;
+	thought?: boolean;
+}
+
+/** Inline binary data (images) */
+export interface GeminiInlineDataPart {
+	inlineData: { mimeType: string; data: string };
+}
+
+/** Function call requested by the model (thinking models attach a thoughtSignature) */
+export interface GeminiFunctionCallPart {
+	functionCall: { name: string; args: Record<string, unknown>; id?: string };
+	thoughtSignature?: string;
+}
+
+/** Function result sent back to the model */
+export interface GeminiFunctionResponsePart {
+	functionResponse: { name: string; response: Record<string, unknown>; id?: string };
+}
+
+export type GeminiPart = GeminiTextPart | GeminiInlineDataPart | GeminiFunctionCallPart | GeminiFunctionResponsePart;
+
+export interface GeminiFunctionDeclaration {
+	name: string;
+	description?: string;
+	parameters?: Record<string, unknown>;
+}
+
+export interface GeminiTool {
+	functionDeclarations: GeminiFunctionDeclaration[];
+}
+
+// ============================================================================
+// Ollama Format Types
+// ============================================================================
+
+export interface OllamaMessage {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string;
+	/** Base64-encoded images (no data URL prefix) */
+	images?: string[];
+	tool_calls?: OllamaToolCall[];
+	/** Name of the tool that produced this result (role "tool") */
+	tool_name?: string;
+	/** Reasoning text from thinking models */
+	thinking?: string;
+}
+
+/** Ollama tool call (arguments are an object, and calls carry no id) */
+export interface OllamaToolCall {
+	function: {
+		name: string;
+		arguments: Record<string, unknown>;
+	};
+}
+
+// ============================================================================
+// Response Metadata Types
+// ============================================================================
+
+/**
+ * Normalized reason the model stopped generating
+ * - stop: natural end of turn or stop sequence
+ * - max_tokens: output was truncated by the token limit
+ * - tool_calls: model is waiting for tool results
+ * - content_filter: output was blocked or refused by the provider
+ * - other: any provider-specific reason not listed above
+ */
+export type StopReason = "stop" | "max_tokens" | "tool_calls" | "content_filter" | "other";
+
+/**
+ * Token usage reported by the provider for a single response
+ */
+export interface ChatUsage {
+	/** Total input tokens, including cached and cache-write tokens */
+	promptTokens: number;
+	/** Output tokens, including reasoning tokens */
+	completionTokens: number;
+	/** Sum of prompt and completion tokens */
+	totalTokens: number;
+	/** Input tokens served from the provider's prompt cache */
+	cachedTokens?: number;
+	/** Input tokens written to the prompt cache (Anthropic) */
+	cacheCreationTokens?: number;
+	/** Output tokens spent on reasoning */
+	reasoningTokens?: number;
+}
+
+/**
+ * Metadata collected from a streamed chat response
+ */
+export interface ChatResponseResult {
+	/** Token usage, if the provider reported it */
+	usage?: ChatUsage;
+	/** Normalized stop reason */
+	stopReason?: StopReason;
+	/** Raw finish_reason / stop_reason as sent by the provider */
+	rawStopReason?: string;
+	/** Model ID echoed by the server */
+	model?: string;
+	/** Response ID assigned by the server */
+	responseId?: string;
 }
 
 // ============================================================================
@@ -125,7 +304,20 @@ export interface VsCodeDataPart {
 	data: Uint8Array;
 }
 
-export type VsCodeContentPart = VsCodeTextPart | VsCodeToolCallPart | VsCodeToolResultPart | VsCodeDataPart;
+/** Reasoning from an earlier response (LanguageModelThinkingPart, proposed API) */
+export interface VsCodeThinkingPart {
+	value: string | string[];
+	id?: string;
+	/** Provider data; `signature` holds an Anthropic thinking signature */
+	metadata?: Readonly<Record<string, unknown>>;
+}
+
+export type VsCodeContentPart =
+	| VsCodeTextPart
+	| VsCodeToolCallPart
+	| VsCodeToolResultPart
+	| VsCodeDataPart
+	| VsCodeThinkingPart;
 
 export interface VsCodeMessage {
 	role: number;
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the stream watchdog
+ */
+
+import { describe, it, expect } from "vitest";
+import { StreamWatchdog } from "./watchdog";
+import { StreamTimeoutError } from "./errors";
+
+const encoder = new TextEncoder();
+
+/** A response whose body is written by the test */
+function createControlledResponse(): { response: Response; write: (text: string) => void; close: () => void } {
+	let controller!: ReadableStreamDefaultController<Uint8Array>;
+	const body = new ReadableStream<Uint8Array>({ start: (c) => (controller = c) });
+	return {
+		response: new Response(body),
+		write: (text) => controller.enqueue(encoder.encode(text)),
+		close: () => controller.close(),
+	};
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Read a body until it ends, returning the error if it fails */
+async function readAll(response: Response): Promise<unknown> {
+	const reader = response.body!.getReader();
+	try {
+		while (!(await reader.read()).done) {
+			// keep reading
+		}
+		return undefined;
+	} catch (error) {
+		return error;
+	}
+}
+
+describe("StreamWatchdog", () => {
+	it("should abort when no byte arrives in time", async () => {
+		const watchdog = new StreamWatchdog({ firstByteMs: 10 });
+		const { response } = createControlledResponse();
+
+		watchdog.start();
+		const error = await readAll(watchdog.watch(response));
+
+		expect(error).toBeInstanceOf(StreamTimeoutError);
+		expect(error).toMatchObject({ phase: "first-byte", timeoutMs: 10, retryable: true });
+		expect(watchdog.error).toBe(error);
+		expect(watchdog.signal.aborted).toBe(true);
+		expect(watchdog.signal.reason).toBe(error);
+	});
+
+	it("should abort without output but not after it", async () => {
+		const stalled = new StreamWatchdog({ firstTokenMs: 10 });
+		stalled.start();
+		await delay(30);
+		expect(stalled.error?.message).toBe("No output from the model within 10 ms");
+
+		const answered = new StreamWatchdog({ firstTokenMs: 10 });
+		answered.start();
+		answered.onOutput("Hi");
+		await delay(30);
+		expect(answered.error).toBeUndefined();
+	});
+
+	it("should abort an idle stream and keep the streamed text", async () => {
+		const watchdog = new StreamWatchdog({ idleMs: 20 });
+		const { response, write } = createControlledResponse();
+
+		watchdog.start();
+		const reading = readAll(watchdog.watch(response));
+		write('data: {"text": "Hel"}\n\n');
+		watchdog.onOutput("Hel");
+		const error = await reading;
+
+		expect(error).toBeInstanceOf(StreamTimeoutError);
+		expect(error).toMatchObject({ phase: "idle", partialText: "Hel" });
+		expect((error as Error).message).toBe("The response stream stalled for 20 ms");
+	});
+
+	it("should not count keep-alive pings as activity by default", async () => {
+		const watchdog = new StreamWatchdog({ idleMs: 40 });
+		const { response, write } = createControlledResponse();
+
+		watchdog.start();
+		const reading = readAll(watchdog.watch(response));
+		write("data: {}\n\n");
+		for (let i = 0; i < 6; i++) {
+			await delay(15);
+			if (watchdog.error) {
+				break;
+			}
+			write(i % 2 ? ": keep-alive\n\n" : 'event: ping\ndata: {"type": "ping"}\n\n');
+		}
+
+		expect(await reading).toMatchObject({ phase: "idle" });
+	});
+
+	it("should let keep-alive pings hold the stream open when enabled", async () => {
+		const watchdog = new StreamWatchdog({ idleMs: 40, keepAlive: true });
+		const { response, write, close } = createControlledResponse();
+
+		watchdog.start();
+		const reading = readAll(watchdog.watch(response));
+		write("data: {}\n\n");
+		for (let i = 0; i < 6; i++) {
+			await delay(15);
+			write(": keep-alive\n\n");
+		}
+		close();
+
+		expect(await reading).toBeUndefined();
+		expect(watchdog.error).toBeUndefined();
+	});
+});
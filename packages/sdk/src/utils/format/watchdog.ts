@@ -0,0 +1,193 @@
+/**
+ * Stream Watchdog
+ * First-byte, first-token and idle timeouts for streamed responses
+ */
+
+import { StreamTimeoutError, type StreamTimeoutPhase } from "./errors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Timeouts for a streamed response, each disabled when omitted
+ *
+ * A timeout aborts the attempt with a StreamTimeoutError. Attempts that time
+ * out before any output are retried per the retry policy.
+ */
+export interface StreamTimeoutOptions {
+	/** Milliseconds from sending the request until the first byte of the response body */
+	firstByteMs?: number;
+	/** Milliseconds from sending the request until the first text, thinking or tool call */
+	firstTokenMs?: number;
+	/** Milliseconds the stream may go without data once it has started */
+	idleMs?: number;
+	/**
+	 * Count keep-alive pings (SSE comments, Anthropic ping events) as activity for idleMs.
+	 * Without this, a stream that only sends pings is considered stalled.
+	 * @default false
+	 */
+	keepAlive?: boolean;
+}
+
+// ============================================================================
+// Keep-Alive Detection
+// ============================================================================
+
+const PING_DATA = /^data:\s*\{\s*"type"\s*:\s*"ping"\s*\}\s*$/;
+
+function isKeepAliveLine(line: string): boolean {
+	return line.startsWith(":") || /^event:\s*ping\s*$/.test(line) || PING_DATA.test(line);
+}
+
+// ============================================================================
+// Watchdog
+// ============================================================================
+
+const TIMEOUT_MESSAGES: Record<StreamTimeoutPhase, (ms: number) => string> = {
+	"first-byte": (ms) => `No response from the provider within ${ms} ms`,
+	"first-token": (ms) => `No output from the model within ${ms} ms`,
+	idle: (ms) => `The response stream stalled for ${ms} ms`,
+};
+
+/**
+ * Timers for one request attempt
+ *
+ * Call start() when the request is sent, watch() on the response, and onOutput()
+ * for every piece of output. When a timeout fires, signal aborts with the
+ * StreamTimeoutError, the watched body errors with it, and error holds it.
+ */
+export class StreamWatchdog {
+	private readonly controller = new AbortController();
+	private readonly timers = new Map<StreamTimeoutPhase, ReturnType<typeof setTimeout>>();
+	private readonly decoder = new TextDecoder();
+	private pendingLine = "";
+	private receivedBytes = false;
+	private receivedOutput = false;
+	private partialText = "";
+	private failBody?: (error: Error) => void;
+
+	/** Set once a timeout has fired */
+	error?: StreamTimeoutError;
+
+	constructor(private readonly options: StreamTimeoutOptions = {}) {}
+
+	/** Aborts when a timeout fires */
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	/**
+	 * Start the first-byte and first-token timers
+	 */
+	start(): void {
+		this.arm("first-byte", this.options.firstByteMs);
+		this.arm("first-token", this.options.firstTokenMs);
+	}
+
+	/**
+	 * Observe the body of a response
+	 *
+	 * @returns A response with the same status and headers whose body feeds the timers
+	 */
+	watch(response: Response): Response {
+		const reader = response.body?.getReader();
+		if (!reader) {
+			return response;
+		}
+
+		const body = new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				this.failBody = (error) => {
+					controller.error(error);
+					void reader.cancel(error).catch(() => undefined);
+				};
+			},
+			pull: async (controller) => {
+				const { done, value } = await reader.read();
+				if (this.error) {
+					return;
+				}
+				if (done) {
+					this.stop();
+					controller.close();
+					return;
+				}
+				this.onChunk(value);
+				controller.enqueue(value);
+			},
+			cancel: (reason) => reader.cancel(reason),
+		});
+		return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+	}
+
+	/**
+	 * Record output passed on to the caller
+	 *
+	 * @param text - Text output, kept for StreamTimeoutError.partialText
+	 */
+	onOutput(text = ""): void {
+		this.partialText += text;
+		if (!this.receivedOutput) {
+			this.receivedOutput = true;
+			this.clear("first-token");
+		}
+	}
+
+	/**
+	 * Clear all timers
+	 */
+	stop(): void {
+		for (const timer of this.timers.values()) {
+			clearTimeout(timer);
+		}
+		this.timers.clear();
+	}
+
+	private onChunk(chunk: Uint8Array): void {
+		const hasData = this.hasData(chunk);
+		if (!this.receivedBytes) {
+			this.receivedBytes = true;
+			this.clear("first-byte");
+			this.arm("idle", this.options.idleMs);
+		} else if (hasData || this.options.keepAlive) {
+			this.arm("idle", this.options.idleMs);
+		}
+	}
+
+	/** Whether a chunk carries more than keep-alive pings */
+	private hasData(chunk: Uint8Array): boolean {
+		const lines = (this.pendingLine + this.decoder.decode(chunk, { stream: true })).split(/\r?\n/);
+		this.pendingLine = lines.pop() ?? "";
+		const complete = lines.some((line) => line.trim() && !isKeepAliveLine(line));
+		return complete || (this.pendingLine.trim() !== "" && !isKeepAliveLine(this.pendingLine));
+	}
+
+	private arm(phase: StreamTimeoutPhase, timeoutMs: number | undefined): void {
+		if (timeoutMs === undefined || this.error) {
+			return;
+		}
+		this.clear(phase);
+		this.timers.set(
+			phase,
+			setTimeout(() => this.fire(phase, timeoutMs), timeoutMs)
+		);
+	}
+
+	private clear(phase: StreamTimeoutPhase): void {
+		clearTimeout(this.timers.get(phase));
+		this.timers.delete(phase);
+	}
+
+	private fire(phase: StreamTimeoutPhase, timeoutMs: number): void {
+		this.stop();
+		this.error = new StreamTimeoutError(TIMEOUT_MESSAGES[phase](timeoutMs), {
+			phase,
+			timeoutMs,
+			partialText: this.partialText,
+			retryable: true,
+		});
+		this.controller.abort(this.error);
+		this.failBody?.(this.error);
+	}
+}
@@ -0,0 +1,9 @@
+/**
+ * Image Utilities Index
+ * Type sniffing, PNG/JPEG codecs and downscaling without native dependencies
+ */
+
+export { sniffImageType, readImageSize, type ImageSize } from "./sniff";
+export { resizeRaster, fitWithin, applyOrientation, isOpaque, type RasterImage } from "./raster";
+export { decodePng, encodePng } from "./png";
+export { decodeJpeg, encodeJpeg } from "./jpeg";
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the JPEG codec
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeJpeg, encodeJpeg } from "./jpeg";
+import { readImageSize } from "./sniff";
+import type { RasterImage } from "./raster";
+
+function createGradient(width: number, height: number): RasterImage {
+	const data = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const o = (y * width + x) * 4;
+			data[o] = (x * 255) / (width - 1);
+			data[o + 1] = (y * 255) / (height - 1);
+			data[o + 2] = 128;
+			data[o + 3] = 255;
+		}
+	}
+	return { width, height, data };
+}
+
+/** Mean absolute difference over the color channels */
+function meanError(a: RasterImage, b: RasterImage): number {
+	let sum = 0;
+	let count = 0;
+	for (let i = 0; i < a.data.length; i++) {
+		if (i % 4 !== 3) {
+			sum += Math.abs(a.data[i] - b.data[i]);
+			count++;
+		}
+	}
+	return sum / count;
+}
+
+/** Insert an EXIF APP1 segment with the given orientation after SOI */
+function withOrientation(jpeg: Uint8Array, orientation: number): Uint8Array {
+	// Big-endian TIFF header with one IFD entry: tag 0x0112, type SHORT, count 1
+	const tiff = [0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0];
+	const body = [...Buffer.from("Exif\0\0", "binary"), ...tiff];
+	const length = body.length + 2;
+	const segment = [0xff, 0xe1, length >> 8, length & 0xff, ...body];
+	return new Uint8Array([...jpeg.subarray(0, 2), ...segment, ...jpeg.subarray(2)]);
+}
+
+describe("JPEG codec", () => {
+	it("round-trips smooth images with small error", () => {
+		// Odd sizes exercise partial MCUs and chroma subsampling at the edges
+		const image = createGradient(37, 21);
+		const jpeg = encodeJpeg(image, 90);
+		expect(readImageSize(jpeg)).toEqual({ width: 37, height: 21 });
+
+		const decoded = decodeJpeg(jpeg);
+		expect([decoded.width, decoded.height]).toEqual([37, 21]);
+		// Most of the error comes from 4:2:0 chroma subsampling of the steep color ramps
+		expect(meanError(image, decoded)).toBeLessThan(5);
+	});
+
+	it("encodes noisy images that use the full Huffman tables", () => {
+		let seed = 1;
+		const random = () => (seed = (seed * 16807) % 2147483647) & 0xff;
+		const image: RasterImage = { width: 32, height: 32, data: new Uint8Array(32 * 32 * 4) };
+		for (let i = 0; i < image.data.length; i++) {
+			image.data[i] = i % 4 === 3 ? 255 : random();
+		}
+		const decoded = decodeJpeg(encodeJpeg(image, 100));
+		// Noise survives chroma subsampling only approximately, but luminance stays close
+		expect(meanError(image, decoded)).toBeLessThan(60);
+	});
+
+	it("lowers the size with the quality", () => {
+		const image = createGradient(64, 64);
+		expect(encodeJpeg(image, 30).length).toBeLessThan(encodeJpeg(image, 95).length);
+	});
+
+	it("composites transparent pixels over white", () => {
+		const image: RasterImage = { width: 8, height: 8, data: new Uint8Array(8 * 8 * 4) };
+		const decoded = decodeJpeg(encodeJpeg(image));
+		expect(Math.min(...decoded.data)).toBeGreaterThan(245);
+	});
+
+	it("applies the EXIF orientation", () => {
+		const decoded = decodeJpeg(withOrientation(encodeJpeg(createGradient(16, 8)), 6));
+		expect([decoded.width, decoded.height]).toEqual([8, 16]);
+	});
+
+	it("rejects truncated data", () => {
+		const jpeg = encodeJpeg(createGradient(16, 16));
+		expect(() => decodeJpeg(jpeg.subarray(0, 20))).toThrow();
+	});
+});
@@ -0,0 +1,925 @@
+/**
+ * JPEG Codec
+ * Decode baseline and progressive JPEG to RGBA and encode RGBA as baseline JPEG
+ */
+
+import { type RasterImage, applyOrientation } from "./raster";
+
+/** Position of each zigzag coefficient in natural (row-major) order */
+const ZIGZAG = new Uint8Array([
+	0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+	35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47,
+	55, 62, 63,
+]);
+
+/** IDCT basis: COSINES[x * 8 + u] = C(u) / 2 * cos((2x + 1) * u * PI / 16) */
+const COSINES = (() => {
+	const table = new Float64Array(64);
+	for (let x = 0; x < 8; x++) {
+		for (let u = 0; u < 8; u++) {
+			table[x * 8 + u] = ((u === 0 ? Math.SQRT1_2 : 1) / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+		}
+	}
+	return table;
+})();
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+interface HuffmanTable {
+	/** Largest code of each length, -1 if there is none */
+	maxCode: Int32Array;
+	/** Index into values of the first code of each length, minus that code */
+	offset: Int32Array;
+	values: Uint8Array;
+}
+
+interface FrameComponent {
+	id: number;
+	h: number;
+	v: number;
+	quantTable: number;
+	blocksPerLine: number;
+	blocksPerColumn: number;
+	/** Blocks per line including MCU padding; the row stride of coefficients */
+	stride: number;
+	coefficients: Int16Array;
+	dcTable?: HuffmanTable;
+	acTable?: HuffmanTable;
+	pred: number;
+}
+
+interface Frame {
+	width: number;
+	height: number;
+	progressive: boolean;
+	maxH: number;
+	maxV: number;
+	mcusPerLine: number;
+	mcusPerColumn: number;
+	components: FrameComponent[];
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+	const maxCode = new Int32Array(17).fill(-1);
+	const offset = new Int32Array(17);
+	let code = 0;
+	let index = 0;
+	for (let length = 1; length <= 16; length++) {
+		offset[length] = index - code;
+		code += counts[length - 1];
+		index += counts[length - 1];
+		if (counts[length - 1] > 0) {
+			maxCode[length] = code - 1;
+		}
+		code <<= 1;
+	}
+	return { maxCode, offset, values };
+}
+
+/**
+ * Read the EXIF orientation from an APP1 segment
+ */
+function readExifOrientation(segment: Uint8Array): number | undefined {
+	if (String.fromCharCode(...segment.subarray(0, 4)) !== "Exif" || segment.length < 14) {
+		return undefined;
+	}
+	const tiff = segment.subarray(6);
+	const little = tiff[0] === 0x49;
+	const u16 = (o: number) => (little ? tiff[o] | (tiff[o + 1] << 8) : (tiff[o] << 8) | tiff[o + 1]);
+	const u32 = (o: number) => (little ? u16(o) + u16(o + 2) * 0x10000 : u16(o) * 0x10000 + u16(o + 2));
+	const ifd = u32(4);
+	if (ifd + 2 > tiff.length) {
+		return undefined;
+	}
+	const entries = u16(ifd);
+	for (let i = 0; i < entries; i++) {
+		const entry = ifd + 2 + i * 12;
+		if (entry + 12 > tiff.length) {
+			return undefined;
+		}
+		if (u16(entry) === 0x0112) {
+			return u16(entry + 8);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Entropy decoder for one scan
+ */
+class ScanDecoder {
+	private bitBuffer = 0;
+	private bitCount = 0;
+	private eobrun = 0;
+	private successiveState = 0;
+	private successiveValue = 0;
+
+	constructor(
+		private readonly data: Uint8Array,
+		public offset: number
+	) {}
+
+	readBit(): number {
+		if (this.bitCount === 0) {
+			if (this.offset >= this.data.length) {
+				return 0;
+			}
+			let byte = this.data[this.offset];
+			if (byte === 0xff) {
+				const next = this.data[this.offset + 1];
+				if (next === 0) {
+					this.offset += 2;
+				} else {
+					// A marker: stop consuming and read zeros until the restart handling finds it
+					byte = 0;
+				}
+			} else {
+				this.offset++;
+			}
+			this.bitBuffer = byte;
+			this.bitCount = 8;
+		}
+		this.bitCount--;
+		return (this.bitBuffer >> this.bitCount) & 1;
+	}
+
+	private receive(length: number): number {
+		let value = 0;
+		for (let i = 0; i < length; i++) {
+			value = (value << 1) | this.readBit();
+		}
+		return value;
+	}
+
+	private receiveExtend(length: number): number {
+		if (length === 0) {
+			return 0;
+		}
+		const value = this.receive(length);
+		return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+	}
+
+	private decodeHuffman(table: HuffmanTable | undefined): number {
+		if (!table) {
+			throw new Error("JPEG Huffman table missing");
+		}
+		let code = this.readBit();
+		let length = 1;
+		while (code > table.maxCode[length]) {
+			code = (code << 1) | this.readBit();
+			if (++length > 16) {
+				throw new Error("Invalid JPEG Huffman code");
+			}
+		}
+		return table.values[table.offset[length] + code] ?? 0;
+	}
+
+	/** Clear the bit buffer and predictors at a restart marker */
+	reset(components: FrameComponent[]): void {
+		this.bitCount = 0;
+		this.eobrun = 0;
+		this.successiveState = 0;
+		for (const c of components) {
+			c.pred = 0;
+		}
+	}
+
+	baseline(c: FrameComponent, block: number): void {
+		const t = this.decodeHuffman(c.dcTable);
+		c.pred += this.receiveExtend(t);
+		c.coefficients[block] = c.pred;
+		for (let k = 1; k < 64; ) {
+			const rs = this.decodeHuffman(c.acTable);
+			const s = rs & 15;
+			const r = rs >> 4;
+			if (s === 0) {
+				if (r < 15) {
+					break;
+				}
+				k += 16;
+				continue;
+			}
+			k += r;
+			if (k > 63) {
+				break;
+			}
+			c.coefficients[block + ZIGZAG[k]] = this.receiveExtend(s);
+			k++;
+		}
+	}
+
+	dcFirst(c: FrameComponent, block: number, successive: number): void {
+		const t = this.decodeHuffman(c.dcTable);
+		c.pred += this.receiveExtend(t) * (1 << successive);
+		c.coefficients[block] = c.pred;
+	}
+
+	dcRefine(c: FrameComponent, block: number, successive: number): void {
+		if (this.readBit()) {
+			c.coefficients[block] |= 1 << successive;
+		}
+	}
+
+	acFirst(c: FrameComponent, block: number, start: number, end: number, successive: number): void {
+		if (this.eobrun > 0) {
+			this.eobrun--;
+			return;
+		}
+		for (let k = start; k <= end; ) {
+			const rs = this.decodeHuffman(c.acTable);
+			const s = rs & 15;
+			const r = rs >> 4;
+			if (s === 0) {
+				if (r < 15) {
+					this.eobrun = this.receive(r) + (1 << r) - 1;
+					break;
+				}
+				k += 16;
+				continue;
+			}
+			k += r;
+			if (k > 63) {
+				break;
+			}
+			c.coefficients[block + ZIGZAG[k]] = this.receiveExtend(s) * (1 << successive);
+			k++;
+		}
+	}
+
+	acRefine(c: FrameComponent, block: number, start: number, end: number, successive: number): void {
+		const coefficients = c.coefficients;
+		let r = 0;
+		for (let k = start; k <= end; ) {
+			const z = block + ZIGZAG[k];
+			const sign = coefficients[z] < 0 ? -1 : 1;
+			switch (this.successiveState) {
+				case 0: {
+					const rs = this.decodeHuffman(c.acTable);
+					const s = rs & 15;
+					r = rs >> 4;
+					if (s === 0) {
+						if (r < 15) {
+							this.eobrun = this.receive(r) + (1 << r);
+							this.successiveState = 4;
+						} else {
+							r = 16;
+							this.successiveState = 1;
+						}
+					} else {
+						this.successiveValue = this.receiveExtend(s);
+						this.successiveState = r ? 2 : 3;
+					}
+					continue;
+				}
+				case 1:
+				case 2:
+					if (coefficients[z]) {
+						coefficients[z] += sign * (this.readBit() << successive);
+					} else if (--r === 0) {
+						this.successiveState = this.successiveState === 2 ? 3 : 0;
+					}
+					break;
+				case 3:
+					if (coefficients[z]) {
+						coefficients[z] += sign * (this.readBit() << successive);
+					} else {
+						coefficients[z] = this.successiveValue * (1 << successive);
+						this.successiveState = 0;
+					}
+					break;
+				default:
+					if (coefficients[z]) {
+						coefficients[z] += sign * (this.readBit() << successive);
+					}
+			}
+			k++;
+		}
+		if (this.successiveState === 4 && --this.eobrun === 0) {
+			this.successiveState = 0;
+		}
+	}
+
+	/** Skip to the next marker after the scan data */
+	findMarker(): number {
+		let offset = this.offset;
+		while (offset + 1 < this.data.length) {
+			if (this.data[offset] === 0xff && this.data[offset + 1] !== 0 && this.data[offset + 1] !== 0xff) {
+				return offset;
+			}
+			offset++;
+		}
+		return this.data.length;
+	}
+}
+
+/**
+ * Decode one scan into the component coefficients
+ *
+ * @returns Offset of the marker after the scan
+ */
+function decodeScan(
+	data: Uint8Array,
+	offset: number,
+	frame: Frame,
+	components: FrameComponent[],
+	restartInterval: number,
+	start: number,
+	end: number,
+	approxHigh: number,
+	approxLow: number
+): number {
+	const decoder = new ScanDecoder(data, offset);
+	const decodeBlock = (c: FrameComponent, blockRow: number, blockCol: number) => {
+		const block = (blockRow * c.stride + blockCol) * 64;
+		if (!frame.progressive) {
+			decoder.baseline(c, block);
+		} else if (start === 0) {
+			if (approxHigh === 0) {
+				decoder.dcFirst(c, block, approxLow);
+			} else {
+				decoder.dcRefine(c, block, approxLow);
+			}
+		} else if (approxHigh === 0) {
+			decoder.acFirst(c, block, start, end, approxLow);
+		} else {
+			decoder.acRefine(c, block, start, end, approxLow);
+		}
+	};
+
+	// A scan with one component is not interleaved: one block per MCU
+	const single = components.length === 1 ? components[0] : undefined;
+	const total = single ? single.blocksPerLine * single.blocksPerColumn : frame.mcusPerLine * frame.mcusPerColumn;
+
+	let mcu = 0;
+	while (mcu < total) {
+		decoder.reset(components);
+		const count = restartInterval ? Math.min(total - mcu, restartInterval) : total;
+		for (let n = 0; n < count; n++, mcu++) {
+			if (single) {
+				decodeBlock(single, Math.floor(mcu / single.blocksPerLine), mcu % single.blocksPerLine);
+				continue;
+			}
+			const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+			const mcuCol = mcu % frame.mcusPerLine;
+			for (const c of components) {
+				for (let v = 0; v < c.v; v++) {
+					for (let h = 0; h < c.h; h++) {
+						decodeBlock(c, mcuRow * c.v + v, mcuCol * c.h + h);
+					}
+				}
+			}
+		}
+
+		const marker = decoder.findMarker();
+		if (marker + 1 < data.length && data[marker + 1] >= 0xd0 && data[marker + 1] <= 0xd7) {
+			decoder.offset = marker + 2;
+		} else if (mcu < total) {
+			// Truncated or corrupt data: keep what was decoded
+			return marker;
+		}
+	}
+	return decoder.findMarker();
+}
+
+/**
+ * Dequantize and inverse-transform the coefficients of a component into samples
+ */
+function componentSamples(c: FrameComponent, quant: Uint16Array): { samples: Uint8Array; width: number } {
+	const width = c.stride * 8;
+	const rows = c.coefficients.length / 64 / c.stride;
+	const samples = new Uint8Array(width * rows * 8);
+	const block = new Float64Array(64);
+	const temp = new Float64Array(64);
+
+	for (let blockRow = 0; blockRow < rows; blockRow++) {
+		for (let blockCol = 0; blockCol < c.stride; blockCol++) {
+			const base = (blockRow * c.stride + blockCol) * 64;
+			for (let i = 0; i < 64; i++) {
+				block[i] = c.coefficients[base + i] * quant[i];
+			}
+			// Rows: temp[v][x] = sum over u of C(x, u) * F[v][u]
+			for (let v = 0; v < 8; v++) {
+				const row = v * 8;
+				let nonZero = false;
+				for (let u = 1; u < 8; u++) {
+					if (block[row + u] !== 0) {
+						nonZero = true;
+						break;
+					}
+				}
+				for (let x = 0; x < 8; x++) {
+					if (!nonZero) {
+						temp[row + x] = block[row] * COSINES[x * 8];
+						continue;
+					}
+					let sum = 0;
+					for (let u = 0; u < 8; u++) {
+						sum += COSINES[x * 8 + u] * block[row + u];
+					}
+					temp[row + x] = sum;
+				}
+			}
+			// Columns: f[y][x] = sum over v of C(y, v) * temp[v][x]
+			for (let x = 0; x < 8; x++) {
+				for (let y = 0; y < 8; y++) {
+					let sum = 0;
+					for (let v = 0; v < 8; v++) {
+						sum += COSINES[y * 8 + v] * temp[v * 8 + x];
+					}
+					const value = Math.round(sum + 128);
+					samples[(blockRow * 8 + y) * width + blockCol * 8 + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+				}
+			}
+		}
+	}
+	return { samples, width };
+}
+
+function clampByte(value: number): number {
+	return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+/**
+ * Decode a baseline or progressive Huffman-coded JPEG image
+ *
+ * Grayscale, YCbCr, RGB, CMYK and YCCK images are supported; the EXIF
+ * orientation is applied so the result is upright.
+ *
+ * @throws Error if the data is not a JPEG or uses an unsupported coding
+ */
+export function decodeJpeg(data: Uint8Array): RasterImage {
+	if (data[0] !== 0xff || data[1] !== 0xd8) {
+		throw new Error("Not a JPEG image");
+	}
+
+	const quantTables: Uint16Array[] = [];
+	const dcTables: HuffmanTable[] = [];
+	const acTables: HuffmanTable[] = [];
+	let frame: Frame | undefined;
+	let restartInterval = 0;
+	let adobeTransform: number | undefined;
+	let orientation: number | undefined;
+
+	let offset = 2;
+	while (offset + 4 <= data.length) {
+		if (data[offset] !== 0xff) {
+			offset++;
+			continue;
+		}
+		const marker = data[offset + 1];
+		if (marker === 0xff || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+			offset += marker === 0xff ? 1 : 2;
+			continue;
+		}
+		if (marker === 0xd9) {
+			break;
+		}
+		const length = (data[offset + 2] << 8) | data[offset + 3];
+		const segment = data.subarray(offset + 4, offset + 2 + length);
+		offset += 2 + length;
+
+		switch (marker) {
+			case 0xdb: {
+				// Quantization tables
+				for (let i = 0; i < segment.length; ) {
+					const precision = segment[i] >> 4;
+					const id = segment[i] & 15;
+					const table = new Uint16Array(64);
+					for (let k = 0; k < 64; k++) {
+						table[ZIGZAG[k]] = precision ? (segment[i + 1 + k * 2] << 8) | segment[i + 2 + k * 2] : segment[i + 1 + k];
+					}
+					quantTables[id] = table;
+					i += 1 + (precision ? 128 : 64);
+				}
+				break;
+			}
+			case 0xc4: {
+				// Huffman tables
+				for (let i = 0; i < segment.length; ) {
+					const tableClass = segment[i] >> 4;
+					const id = segment[i] & 15;
+					const counts = segment.subarray(i + 1, i + 17);
+					const total = counts.reduce((sum, n) => sum + n, 0);
+					const table = buildHuffmanTable(counts, segment.slice(i + 17, i + 17 + total));
+					(tableClass === 0 ? dcTables : acTables)[id] = table;
+					i += 17 + total;
+				}
+				break;
+			}
+			case 0xdd:
+				restartInterval = (segment[0] << 8) | segment[1];
+				break;
+			case 0xe1:
+				orientation ??= readExifOrientation(segment);
+				break;
+			case 0xee:
+				if (String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") {
+					adobeTransform = segment[11];
+				}
+				break;
+			case 0xc0:
+			case 0xc1:
+			case 0xc2: {
+				if (segment[0] !== 8) {
+					throw new Error(`Unsupported JPEG precision ${segment[0]}`);
+				}
+				const height = (segment[1] << 8) | segment[2];
+				const width = (segment[3] << 8) | segment[4];
+				if (width === 0 || height === 0) {
+					throw new Error("Unsupported JPEG without dimensions");
+				}
+				const components: FrameComponent[] = [];
+				for (let i = 0; i < segment[5]; i++) {
+					const p = 6 + i * 3;
+					components.push({
+						id: segment[p],
+						h: Math.max(1, segment[p + 1] >> 4),
+						v: Math.max(1, segment[p + 1] & 15),
+						quantTable: segment[p + 2],
+						blocksPerLine: 0,
+						blocksPerColumn: 0,
+						stride: 0,
+						coefficients: new Int16Array(0),
+						pred: 0,
+					});
+				}
+				const maxH = Math.max(...components.map((c) => c.h));
+				const maxV = Math.max(...components.map((c) => c.v));
+				const mcusPerLine = Math.ceil(width / 8 / maxH);
+				const mcusPerColumn = Math.ceil(height / 8 / maxV);
+				for (const c of components) {
+					c.blocksPerLine = Math.ceil(Math.ceil((width * c.h) / maxH) / 8);
+					c.blocksPerColumn = Math.ceil(Math.ceil((height * c.v) / maxV) / 8);
+					c.stride = mcusPerLine * c.h;
+					c.coefficients = new Int16Array(c.stride * mcusPerColumn * c.v * 64);
+				}
+				frame = { width, height, progressive: marker === 0xc2, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+				break;
+			}
+			case 0xda: {
+				if (!frame) {
+					throw new Error("JPEG scan before frame header");
+				}
+				const count = segment[0];
+				const scanComponents: FrameComponent[] = [];
+				for (let i = 0; i < count; i++) {
+					const c = frame.components.find((fc) => fc.id === segment[1 + i * 2]);
+					if (!c) {
+						throw new Error("JPEG scan references an unknown component");
+					}
+					const tables = segment[2 + i * 2];
+					c.dcTable = dcTables[tables >> 4];
+					c.acTable = acTables[tables & 15];
+					scanComponents.push(c);
+				}
+				const p = 1 + count * 2;
+				offset = decodeScan(
+					data,
+					offset,
+					frame,
+					scanComponents,
+					restartInterval,
+					segment[p],
+					segment[p + 1],
+					segment[p + 2] >> 4,
+					segment[p + 2] & 15
+				);
+				break;
+			}
+			default:
+				if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+					throw new Error("Unsupported JPEG coding (lossless or arithmetic)");
+				}
+		}
+	}
+
+	if (!frame) {
+		throw new Error("JPEG frame header missing");
+	}
+
+	const { width, height, maxH, maxV, components } = frame;
+	const planes = components.map((c) => {
+		const quant = quantTables[c.quantTable];
+		if (!quant) {
+			throw new Error("JPEG quantization table missing");
+		}
+		return { ...componentSamples(c, quant), sx: c.h / maxH, sy: c.v / maxV };
+	});
+
+	// RGB images are marked by Adobe transform 0 or by component ids "R", "G", "B"
+	const isRgb =
+		components.length === 3 &&
+		(adobeTransform === 0 || (components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42));
+	const out = new Uint8Array(width * height * 4);
+	const sample = (i: number, x: number, y: number) => {
+		const plane = planes[i];
+		return plane.samples[Math.floor(y * plane.sy) * plane.width + Math.floor(x * plane.sx)];
+	};
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const o = (y * width + x) * 4;
+			let r: number;
+			let g: number;
+			let b: number;
+			if (components.length < 3) {
+				r = g = b = sample(0, x, y);
+			} else {
+				const c0 = sample(0, x, y);
+				const c1 = sample(1, x, y);
+				const c2 = sample(2, x, y);
+				if (isRgb || (components.length === 4 && adobeTransform === 0)) {
+					[r, g, b] = [c0, c1, c2];
+				} else {
+					r = clampByte(c0 + 1.402 * (c2 - 128));
+					g = clampByte(c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128));
+					b = clampByte(c0 + 1.772 * (c1 - 128));
+				}
+				if (components.length === 4) {
+					// Adobe stores CMYK inverted; YCCK becomes inverted CMYK after the conversion above
+					const k = sample(3, x, y);
+					if (adobeTransform === undefined) {
+						[r, g, b] = [((255 - r) * (255 - k)) / 255, ((255 - g) * (255 - k)) / 255, ((255 - b) * (255 - k)) / 255];
+					} else {
+						[r, g, b] = [(r * k) / 255, (g * k) / 255, (b * k) / 255];
+					}
+					[r, g, b] = [clampByte(r), clampByte(g), clampByte(b)];
+				}
+			}
+			out[o] = r;
+			out[o + 1] = g;
+			out[o + 2] = b;
+			out[o + 3] = 255;
+		}
+	}
+
+	return applyOrientation({ width, height, data: out }, orientation ?? 1);
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/** Annex K quantization tables, natural order */
+const LUMINANCE_QUANT = [
+	16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51,
+	87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+	72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMINANCE_QUANT = [
+	17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99,
+	99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+	99, 99, 99, 99, 99, 99,
+];
+
+/** Annex K Huffman tables: code counts per length (1-16) and symbols */
+const DC_LUMINANCE = {
+	counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+	values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const DC_CHROMINANCE = {
+	counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+	values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const AC_LUMINANCE = {
+	counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+	values: [
+		0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14,
+		0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09,
+		0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a,
+		0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65,
+		0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88,
+		0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9,
+		0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca,
+		0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea,
+		0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+	],
+};
+const AC_CHROMINANCE = {
+	counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+	values: [
+		0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32,
+		0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16,
+		0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39,
+		0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64,
+		0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86,
+		0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+		0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8,
+		0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9,
+		0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+	],
+};
+
+/** Code and length of each symbol */
+function huffmanCodes(spec: { counts: number[]; values: number[] }): { code: Uint16Array; length: Uint8Array } {
+	const code = new Uint16Array(256);
+	const length = new Uint8Array(256);
+	let next = 0;
+	let index = 0;
+	for (let bits = 1; bits <= 16; bits++) {
+		for (let i = 0; i < spec.counts[bits - 1]; i++) {
+			const symbol = spec.values[index++];
+			code[symbol] = next++;
+			length[symbol] = bits;
+		}
+		next <<= 1;
+	}
+	return { code, length };
+}
+
+function scaleQuantTable(table: number[], quality: number): Uint8Array {
+	const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+	return Uint8Array.from(table, (q) => Math.min(255, Math.max(1, Math.floor((q * scale + 50) / 100))));
+}
+
+class BitWriter {
+	private bytes: number[] = [];
+	private buffer = 0;
+	private count = 0;
+
+	write(value: number, length: number): void {
+		for (let i = length - 1; i >= 0; i--) {
+			this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+			if (++this.count === 8) {
+				this.bytes.push(this.buffer);
+				// Byte stuffing: 0xFF in entropy-coded data is followed by 0x00
+				if (this.buffer === 0xff) {
+					this.bytes.push(0);
+				}
+				this.buffer = 0;
+				this.count = 0;
+			}
+		}
+	}
+
+	/** Pad the last byte with 1 bits */
+	finish(): number[] {
+		if (this.count > 0) {
+			this.write(0x7f, 8 - this.count);
+		}
+		return this.bytes;
+	}
+}
+
+function bitLength(value: number): number {
+	let abs = Math.abs(value);
+	let length = 0;
+	while (abs > 0) {
+		length++;
+		abs >>= 1;
+	}
+	return length;
+}
+
+/**
+ * Encode an image as a baseline JPEG with 4:2:0 chroma subsampling
+ *
+ * Transparent pixels are composited over white.
+ *
+ * @param image - Image to encode
+ * @param quality - 1 (smallest) to 100 (best)
+ */
+export function encodeJpeg(image: RasterImage, quality = 85): Uint8Array {
+	quality = Math.min(100, Math.max(1, Math.round(quality)));
+	const { width, height, data } = image;
+	const quant = [scaleQuantTable(LUMINANCE_QUANT, quality), scaleQuantTable(CHROMINANCE_QUANT, quality)];
+	const dc = [huffmanCodes(DC_LUMINANCE), huffmanCodes(DC_CHROMINANCE)];
+	const ac = [huffmanCodes(AC_LUMINANCE), huffmanCodes(AC_CHROMINANCE)];
+
+	// Convert to YCbCr planes padded to whole 16x16 MCUs
+	const paddedWidth = Math.ceil(width / 16) * 16;
+	const paddedHeight = Math.ceil(height / 16) * 16;
+	const planes = [0, 1, 2].map(() => new Float64Array(paddedWidth * paddedHeight));
+	for (let y = 0; y < paddedHeight; y++) {
+		for (let x = 0; x < paddedWidth; x++) {
+			const p = (Math.min(y, height - 1) * width + Math.min(x, width - 1)) * 4;
+			const alpha = data[p + 3] / 255;
+			const r = data[p] * alpha + 255 * (1 - alpha);
+			const g = data[p + 1] * alpha + 255 * (1 - alpha);
+			const b = data[p + 2] * alpha + 255 * (1 - alpha);
+			const o = y * paddedWidth + x;
+			planes[0][o] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+			planes[1][o] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+			planes[2][o] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+		}
+	}
+
+	const writer = new BitWriter();
+	const block = new Float64Array(64);
+	const temp = new Float64Array(64);
+	const predictors = [0, 0, 0];
+
+	const encodeBlock = (component: number) => {
+		const table = component === 0 ? 0 : 1;
+		// Forward DCT: F[v][u] = sum over y, x of C(y, v) * C(x, u) * f[y][x]
+		for (let y = 0; y < 8; y++) {
+			for (let u = 0; u < 8; u++) {
+				let sum = 0;
+				for (let x = 0; x < 8; x++) {
+					sum += COSINES[x * 8 + u] * block[y * 8 + x];
+				}
+				temp[y * 8 + u] = sum;
+			}
+		}
+		const coefficients = new Int32Array(64);
+		for (let v = 0; v < 8; v++) {
+			for (let u = 0; u < 8; u++) {
+				let sum = 0;
+				for (let y = 0; y < 8; y++) {
+					sum += COSINES[y * 8 + v] * temp[y * 8 + u];
+				}
+				coefficients[v * 8 + u] = Math.round(sum / quant[table][v * 8 + u]);
+			}
+		}
+
+		const diff = coefficients[0] - predictors[component];
+		predictors[component] = coefficients[0];
+		const dcLength = bitLength(diff);
+		writer.write(dc[table].code[dcLength], dc[table].length[dcLength]);
+		writer.write(diff < 0 ? diff + (1 << dcLength) - 1 : diff, dcLength);
+
+		let run = 0;
+		for (let k = 1; k < 64; k++) {
+			const value = coefficients[ZIGZAG[k]];
+			if (value === 0) {
+				run++;
+				continue;
+			}
+			while (run > 15) {
+				writer.write(ac[table].code[0xf0], ac[table].length[0xf0]);
+				run -= 16;
+			}
+			const length = bitLength(value);
+			const symbol = (run << 4) | length;
+			writer.write(ac[table].code[symbol], ac[table].length[symbol]);
+			writer.write(value < 0 ? value + (1 << length) - 1 : value, length);
+			run = 0;
+		}
+		if (run > 0) {
+			writer.write(ac[table].code[0], ac[table].length[0]);
+		}
+	};
+
+	for (let my = 0; my < paddedHeight; my += 16) {
+		for (let mx = 0; mx < paddedWidth; mx += 16) {
+			// Four luminance blocks
+			for (const [bx, by] of [
+				[0, 0],
+				[8, 0],
+				[0, 8],
+				[8, 8],
+			]) {
+				for (let y = 0; y < 8; y++) {
+					for (let x = 0; x < 8; x++) {
+						block[y * 8 + x] = planes[0][(my + by + y) * paddedWidth + mx + bx + x];
+					}
+				}
+				encodeBlock(0);
+			}
+			// One block per chroma component, averaged over 2x2 pixels
+			for (const component of [1, 2]) {
+				const plane = planes[component];
+				for (let y = 0; y < 8; y++) {
+					for (let x = 0; x < 8; x++) {
+						const o = (my + y * 2) * paddedWidth + mx + x * 2;
+						block[y * 8 + x] = (plane[o] + plane[o + 1] + plane[o + paddedWidth] + plane[o + paddedWidth + 1]) / 4;
+					}
+				}
+				encodeBlock(component);
+			}
+		}
+	}
+
+	const bytes: number[] = [0xff, 0xd8];
+	const segment = (marker: number, body: number[]) => {
+		bytes.push(0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body);
+	};
+	// JFIF 1.01, no density information
+	segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]);
+	segment(0xdb, [0x00, ...Array.from(ZIGZAG, (z) => quant[0][z]), 0x01, ...Array.from(ZIGZAG, (z) => quant[1][z])]);
+	segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+	segment(0xc4, [
+		0x00,
+		...DC_LUMINANCE.counts,
+		...DC_LUMINANCE.values,
+		0x10,
+		...AC_LUMINANCE.counts,
+		...AC_LUMINANCE.values,
+		0x01,
+		...DC_CHROMINANCE.counts,
+		...DC_CHROMINANCE.values,
+		0x11,
+		...AC_CHROMINANCE.counts,
+		...AC_CHROMINANCE.values,
+	]);
+	segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+	const entropy = writer.finish();
+	const out = new Uint8Array(bytes.length + entropy.length + 2);
+	out.set(bytes);
+	out.set(entropy, bytes.length);
+	out.set([0xff, 0xd9], bytes.length + entropy.length);
+	return out;
+}
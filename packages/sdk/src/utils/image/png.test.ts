@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the PNG codec, image sniffing and downscaling
+ */
+
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "node:zlib";
+import { decodePng, encodePng } from "./png";
+import { sniffImageType, readImageSize } from "./sniff";
+import { type RasterImage, resizeRaster, fitWithin, applyOrientation } from "./raster";
+
+/** A gradient with a transparent corner */
+function createImage(width: number, height: number, alpha = true): RasterImage {
+	const data = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const o = (y * width + x) * 4;
+			data[o] = (x * 255) / Math.max(1, width - 1);
+			data[o + 1] = (y * 255) / Math.max(1, height - 1);
+			data[o + 2] = (x + y) % 256;
+			data[o + 3] = alpha && x < 2 && y < 2 ? 0 : 255;
+		}
+	}
+	return { width, height, data };
+}
+
+/** Build a PNG by hand from chunk bodies (CRCs are not checked by the decoder) */
+function buildPng(ihdr: number[], rows: number[][], extra: Record<string, number[]> = {}): Uint8Array {
+	const chunk = (type: string, body: Uint8Array) => {
+		const out = new Uint8Array(12 + body.length);
+		new DataView(out.buffer).setUint32(0, body.length);
+		out.set(Buffer.from(type, "ascii"), 4);
+		out.set(body, 8);
+		return out;
+	};
+	const parts = [new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), chunk("IHDR", new Uint8Array(ihdr))];
+	for (const [type, body] of Object.entries(extra)) {
+		parts.push(chunk(type, new Uint8Array(body)));
+	}
+	parts.push(chunk("IDAT", new Uint8Array(deflateSync(Buffer.from(rows.flat())))));
+	parts.push(chunk("IEND", new Uint8Array(0)));
+	return new Uint8Array(Buffer.concat(parts));
+}
+
+describe("PNG codec", () => {
+	it("round-trips RGBA images losslessly", () => {
+		const image = createImage(13, 7);
+		const decoded = decodePng(encodePng(image));
+		expect(decoded.width).toBe(13);
+		expect(decoded.height).toBe(7);
+		expect(decoded.data).toEqual(image.data);
+	});
+
+	it("writes opaque images as RGB", () => {
+		const png = encodePng(createImage(4, 4, false));
+		// Color type byte of IHDR
+		expect(png[25]).toBe(2);
+		expect(decodePng(png).data).toEqual(createImage(4, 4, false).data);
+	});
+
+	it("decodes palette images with transparency", () => {
+		// 2x2, 2-bit palette: red, green, transparent blue
+		const ihdr = [0, 0, 0, 2, 0, 0, 0, 2, 2, 3, 0, 0, 0];
+		const png = buildPng(
+			ihdr,
+			[
+				[0, 0b00_01_0000],
+				[0, 0b10_00_0000],
+			],
+			{
+				PLTE: [255, 0, 0, 0, 255, 0, 0, 0, 255],
+				tRNS: [255, 255, 0],
+			}
+		);
+		expect(Array.from(decodePng(png).data)).toEqual([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 0, 255, 0, 0, 255]);
+	});
+
+	it("decodes 16-bit grayscale with Sub and Up filters", () => {
+		const ihdr = [0, 0, 0, 2, 0, 0, 0, 2, 16, 0, 0, 0, 0];
+		// Row 1: 0x1000, 0x3000 (Sub); row 2: +0x1000 each (Up)
+		const png = buildPng(ihdr, [
+			[1, 0x10, 0x00, 0x20, 0x00],
+			[2, 0x10, 0x00, 0x10, 0x00],
+		]);
+		const gray = Array.from(decodePng(png).data).filter((_, i) => i % 4 === 0);
+		expect(gray).toEqual([0x10, 0x30, 0x20, 0x40]);
+	});
+
+	it("decodes Adam7 interlaced images", () => {
+		// 3x1 grayscale: pass 1 holds x=0, pass 4 holds x=2, pass 6 holds x=1
+		const ihdr = [0, 0, 0, 3, 0, 0, 0, 1, 8, 0, 0, 0, 1];
+		const png = buildPng(ihdr, [
+			[0, 10],
+			[0, 30],
+			[0, 20],
+		]);
+		const gray = Array.from(decodePng(png).data).filter((_, i) => i % 4 === 0);
+		expect(gray).toEqual([10, 20, 30]);
+	});
+
+	it("rejects data that is not a PNG", () => {
+		expect(() => decodePng(new Uint8Array([1, 2, 3]))).toThrow("Not a PNG image");
+	});
+});
+
+describe("sniffImageType / readImageSize", () => {
+	it("detects common formats from their signatures", () => {
+		expect(sniffImageType(encodePng(createImage(2, 2)))).toBe("image/png");
+		expect(sniffImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+		expect(sniffImageType(Buffer.from("GIF89a"))).toBe("image/gif");
+		expect(sniffImageType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+		expect(sniffImageType(Buffer.from("\0\0\0\x18ftypheic"))).toBe("image/heic");
+		expect(sniffImageType(Buffer.from("not an image"))).toBeUndefined();
+	});
+
+	it("reads dimensions from PNG and GIF headers", () => {
+		expect(readImageSize(encodePng(createImage(300, 20)))).toEqual({ width: 300, height: 20 });
+		const gif = Buffer.from([...Buffer.from("GIF89a"), 0x2c, 0x01, 0x64, 0x00]);
+		expect(readImageSize(gif)).toEqual({ width: 300, height: 100 });
+	});
+});
+
+describe("resizeRaster", () => {
+	it("averages pixels without bleeding transparent colors", () => {
+		// Opaque white next to transparent black
+		const image: RasterImage = { width: 2, height: 1, data: new Uint8Array([255, 255, 255, 255, 0, 0, 0, 0]) };
+		expect(Array.from(resizeRaster(image, 1, 1).data)).toEqual([255, 255, 255, 128]);
+	});
+
+	it("fits sizes within a bound and never upscales", () => {
+		expect(fitWithin(4000, 3000, 2000)).toEqual({ width: 2000, height: 1500 });
+		expect(fitWithin(100, 50, 2000)).toEqual({ width: 100, height: 50 });
+		const image = createImage(10, 10);
+		expect(resizeRaster(image, 20, 20)).toBe(image);
+	});
+
+	it("rotates images by their EXIF orientation", () => {
+		const image: RasterImage = { width: 2, height: 1, data: new Uint8Array([1, 1, 1, 255, 2, 2, 2, 255]) };
+		const rotated = applyOrientation(image, 6);
+		expect([rotated.width, rotated.height]).toEqual([1, 2]);
+		expect([rotated.data[0], rotated.data[4]]).toEqual([1, 2]);
+	});
+});
@@ -0,0 +1,340 @@
+/**
+ * PNG Codec
+ * Decode any standard PNG to RGBA and encode RGBA as PNG, using zlib from Node
+ */
+
+import { deflateSync, inflateSync } from "node:zlib";
+import type { RasterImage } from "./raster";
+import { isOpaque } from "./raster";
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Samples per pixel for each color type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes: x start, y start, x step, y step */
+const ADAM7 = [
+	[0, 0, 8, 8],
+	[4, 0, 8, 8],
+	[0, 4, 4, 8],
+	[2, 0, 4, 4],
+	[0, 2, 2, 4],
+	[1, 0, 2, 2],
+	[0, 1, 1, 2],
+] as const;
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+interface PngHeader {
+	width: number;
+	height: number;
+	bitDepth: number;
+	colorType: number;
+	interlaced: boolean;
+}
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Reverse the scanline filters of one (sub)image in place
+ *
+ * @returns Offset just past the image
+ */
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number): number {
+	for (let y = 0; y < rows; y++) {
+		const filter = data[offset];
+		const row = offset + 1;
+		const prev = y > 0 ? row - rowBytes - 1 : -1;
+		for (let i = 0; i < rowBytes; i++) {
+			const left = i >= bpp ? data[row + i - bpp] : 0;
+			const up = prev >= 0 ? data[prev + i] : 0;
+			const upLeft = prev >= 0 && i >= bpp ? data[prev + i - bpp] : 0;
+			switch (filter) {
+				case 0:
+					break;
+				case 1:
+					data[row + i] += left;
+					break;
+				case 2:
+					data[row + i] += up;
+					break;
+				case 3:
+					data[row + i] += (left + up) >> 1;
+					break;
+				case 4:
+					data[row + i] += paeth(left, up, upLeft);
+					break;
+				default:
+					throw new Error(`Invalid PNG filter type ${filter}`);
+			}
+		}
+		offset = row + rowBytes;
+	}
+	return offset;
+}
+
+/**
+ * Decode a PNG image (all color types and bit depths, interlaced or not)
+ *
+ * @throws Error if the data is not a valid PNG
+ */
+export function decodePng(data: Uint8Array): RasterImage {
+	if (!PNG_SIGNATURE.every((b, i) => data[i] === b)) {
+		throw new Error("Not a PNG image");
+	}
+
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	let header: PngHeader | undefined;
+	let palette: Uint8Array | undefined;
+	let transparency: Uint8Array | undefined;
+	const idat: Uint8Array[] = [];
+
+	for (let offset = 8; offset + 8 <= data.length; ) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+		const start = offset + 8;
+		const body = data.subarray(start, start + length);
+		// Chunk length, type, body and CRC
+		offset = start + length + 4;
+
+		if (type === "IHDR") {
+			header = {
+				width: view.getUint32(start),
+				height: view.getUint32(start + 4),
+				bitDepth: body[8],
+				colorType: body[9],
+				interlaced: body[12] === 1,
+			};
+		} else if (type === "PLTE") {
+			palette = body;
+		} else if (type === "tRNS") {
+			transparency = body;
+		} else if (type === "IDAT") {
+			idat.push(body);
+		} else if (type === "IEND") {
+			break;
+		}
+	}
+
+	if (!header || idat.length === 0) {
+		throw new Error("Incomplete PNG image");
+	}
+	const { width, height, bitDepth, colorType } = header;
+	const channels = CHANNELS[colorType];
+	if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth) || width === 0 || height === 0) {
+		throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+	}
+	if (colorType === 3 && !palette) {
+		throw new Error("PNG palette missing");
+	}
+
+	const raw = new Uint8Array(inflateSync(Buffer.concat(idat)));
+	const bitsPerPixel = channels * bitDepth;
+	const bpp = Math.max(1, bitsPerPixel >> 3);
+	const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+	const out = new Uint8Array(width * height * 4);
+
+	const readSample = (row: number, index: number): number => {
+		if (bitDepth === 8) {
+			return raw[row + index];
+		}
+		if (bitDepth === 16) {
+			return (raw[row + index * 2] << 8) | raw[row + index * 2 + 1];
+		}
+		const bit = index * bitDepth;
+		return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+	};
+	const to8Bit = (sample: number): number =>
+		bitDepth === 16 ? sample >> 8 : bitDepth === 8 ? sample : Math.round((sample * 255) / maxSample);
+	const transparentKey = (i: number): number | undefined =>
+		transparency && transparency.length >= (i + 1) * 2
+			? (transparency[i * 2] << 8) | transparency[i * 2 + 1]
+			: undefined;
+
+	const keys = [transparentKey(0), transparentKey(1), transparentKey(2)];
+
+	const writePixel = (row: number, index: number, target: number) => {
+		const base = index * channels;
+		let r: number;
+		let g: number;
+		let b: number;
+		let a = 255;
+		switch (colorType) {
+			case 0: {
+				const sample = readSample(row, base);
+				r = g = b = to8Bit(sample);
+				a = sample === keys[0] ? 0 : 255;
+				break;
+			}
+			case 2: {
+				const rs = readSample(row, base);
+				const gs = readSample(row, base + 1);
+				const bs = readSample(row, base + 2);
+				[r, g, b] = [to8Bit(rs), to8Bit(gs), to8Bit(bs)];
+				a = rs === keys[0] && gs === keys[1] && bs === keys[2] ? 0 : 255;
+				break;
+			}
+			case 3: {
+				const entry = readSample(row, base);
+				[r, g, b] = [palette![entry * 3] ?? 0, palette![entry * 3 + 1] ?? 0, palette![entry * 3 + 2] ?? 0];
+				a = transparency?.[entry] ?? 255;
+				break;
+			}
+			case 4:
+				r = g = b = to8Bit(readSample(row, base));
+				a = to8Bit(readSample(row, base + 1));
+				break;
+			default:
+				r = to8Bit(readSample(row, base));
+				g = to8Bit(readSample(row, base + 1));
+				b = to8Bit(readSample(row, base + 2));
+				a = to8Bit(readSample(row, base + 3));
+		}
+		out[target] = r;
+		out[target + 1] = g;
+		out[target + 2] = b;
+		out[target + 3] = a;
+	};
+
+	const passes = header.interlaced ? ADAM7 : ([[0, 0, 1, 1]] as const);
+	let offset = 0;
+	for (const [x0, y0, dx, dy] of passes) {
+		const passWidth = Math.ceil((width - x0) / dx);
+		const passHeight = Math.ceil((height - y0) / dy);
+		if (passWidth <= 0 || passHeight <= 0) {
+			continue;
+		}
+		const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+		if (offset + passHeight * (rowBytes + 1) > raw.length) {
+			throw new Error("Truncated PNG image data");
+		}
+		const start = offset;
+		offset = unfilter(raw, offset, rowBytes, passHeight, bpp);
+		for (let y = 0; y < passHeight; y++) {
+			const row = start + y * (rowBytes + 1) + 1;
+			for (let x = 0; x < passWidth; x++) {
+				writePixel(row, x, ((y0 + y * dy) * width + x0 + x * dx) * 4);
+			}
+		}
+	}
+
+	return { width, height, data: out };
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Uint8Array): Uint8Array {
+	const out = new Uint8Array(12 + body.length);
+	const view = new DataView(out.buffer);
+	view.setUint32(0, body.length);
+	for (let i = 0; i < 4; i++) {
+		out[4 + i] = type.charCodeAt(i);
+	}
+	out.set(body, 8);
+	view.setUint32(8 + body.length, crc32(out.subarray(4, 8 + body.length)));
+	return out;
+}
+
+/**
+ * Encode an image as an 8-bit PNG
+ *
+ * Opaque images are written as RGB, others as RGBA. Each row uses the filter
+ * with the smallest sum of absolute differences.
+ */
+export function encodePng(image: RasterImage): Uint8Array {
+	const { width, height, data } = image;
+	const channels = isOpaque(image) ? 3 : 4;
+	const rowBytes = width * channels;
+
+	// Pixels without the alpha channel where it is not needed
+	const pixels = new Uint8Array(rowBytes * height);
+	for (let i = 0, o = 0; i < data.length; i += 4, o += channels) {
+		pixels[o] = data[i];
+		pixels[o + 1] = data[i + 1];
+		pixels[o + 2] = data[i + 2];
+		if (channels === 4) {
+			pixels[o + 3] = data[i + 3];
+		}
+	}
+
+	const filtered = new Uint8Array((rowBytes + 1) * height);
+	const candidate = new Uint8Array(rowBytes);
+	for (let y = 0; y < height; y++) {
+		const row = y * rowBytes;
+		const prev = row - rowBytes;
+		let best = Infinity;
+		for (let filter = 0; filter <= 4; filter++) {
+			let sum = 0;
+			for (let i = 0; i < rowBytes; i++) {
+				const value = pixels[row + i];
+				const left = i >= channels ? pixels[row + i - channels] : 0;
+				const up = y > 0 ? pixels[prev + i] : 0;
+				const upLeft = y > 0 && i >= channels ? pixels[prev + i - channels] : 0;
+				const predicted =
+					filter === 0
+						? 0
+						: filter === 1
+							? left
+							: filter === 2
+								? up
+								: filter === 3
+									? (left + up) >> 1
+									: paeth(left, up, upLeft);
+				const byte = (value - predicted) & 0xff;
+				candidate[i] = byte;
+				sum += byte < 128 ? byte : 256 - byte;
+			}
+			if (sum < best) {
+				best = sum;
+				const o = y * (rowBytes + 1);
+				filtered[o] = filter;
+				filtered.set(candidate, o + 1);
+			}
+		}
+	}
+
+	const ihdr = new Uint8Array(13);
+	const view = new DataView(ihdr.buffer);
+	view.setUint32(0, width);
+	view.setUint32(4, height);
+	ihdr[8] = 8;
+	ihdr[9] = channels === 4 ? 6 : 2;
+
+	const parts = [
+		PNG_SIGNATURE,
+		chunk("IHDR", ihdr),
+		chunk("IDAT", new Uint8Array(deflateSync(filtered))),
+		chunk("IEND", new Uint8Array(0)),
+	];
+	return new Uint8Array(Buffer.concat(parts));
+}
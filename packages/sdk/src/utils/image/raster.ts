@@ -0,0 +1,201 @@
+/**
+ * Raster Images
+ * Decoded RGBA pixels, downscaling and EXIF orientation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A decoded image: 8-bit RGBA pixels, row by row
+ */
+export interface RasterImage {
+	width: number;
+	height: number;
+	/** width * height * 4 bytes */
+	data: Uint8Array;
+}
+
+// ============================================================================
+// Downscaling
+// ============================================================================
+
+/**
+ * Source pixels and weights that make up each target pixel along one axis
+ */
+function boxWeights(source: number, target: number): { index: Int32Array; weight: Float64Array; start: Int32Array } {
+	const scale = source / target;
+	const starts = new Int32Array(target + 1);
+	const indices: number[] = [];
+	const weights: number[] = [];
+
+	for (let t = 0; t < target; t++) {
+		starts[t] = indices.length;
+		const from = t * scale;
+		const to = Math.min(source, (t + 1) * scale);
+		for (let s = Math.floor(from); s < to; s++) {
+			const overlap = Math.min(s + 1, to) - Math.max(s, from);
+			if (overlap > 0) {
+				indices.push(s);
+				weights.push(overlap / scale);
+			}
+		}
+	}
+	starts[target] = indices.length;
+	return { index: Int32Array.from(indices), weight: Float64Array.from(weights), start: starts };
+}
+
+/**
+ * Downscale an image with an area-averaging (box) filter
+ *
+ * Colors are averaged with premultiplied alpha so transparent pixels do not
+ * bleed into their neighbours. Sizes at or above the source size return the
+ * image unchanged.
+ *
+ * @param image - Source image
+ * @param width - Target width in pixels
+ * @param height - Target height in pixels
+ */
+export function resizeRaster(image: RasterImage, width: number, height: number): RasterImage {
+	width = Math.max(1, Math.round(width));
+	height = Math.max(1, Math.round(height));
+	if (width >= image.width && height >= image.height) {
+		return image;
+	}
+
+	const columns = boxWeights(image.width, width);
+	const rows = boxWeights(image.height, height);
+	const src = image.data;
+
+	// Horizontal pass into premultiplied floats
+	const horizontal = new Float64Array(width * image.height * 4);
+	for (let y = 0; y < image.height; y++) {
+		const rowOffset = y * image.width * 4;
+		for (let x = 0; x < width; x++) {
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let a = 0;
+			for (let i = columns.start[x]; i < columns.start[x + 1]; i++) {
+				const p = rowOffset + columns.index[i] * 4;
+				const alpha = src[p + 3] * columns.weight[i];
+				r += src[p] * alpha;
+				g += src[p + 1] * alpha;
+				b += src[p + 2] * alpha;
+				a += alpha;
+			}
+			const o = (y * width + x) * 4;
+			horizontal[o] = r;
+			horizontal[o + 1] = g;
+			horizontal[o + 2] = b;
+			horizontal[o + 3] = a;
+		}
+	}
+
+	// Vertical pass and unpremultiply
+	const out = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let a = 0;
+			for (let i = rows.start[y]; i < rows.start[y + 1]; i++) {
+				const p = (rows.index[i] * width + x) * 4;
+				const weight = rows.weight[i];
+				r += horizontal[p] * weight;
+				g += horizontal[p + 1] * weight;
+				b += horizontal[p + 2] * weight;
+				a += horizontal[p + 3] * weight;
+			}
+			const o = (y * width + x) * 4;
+			if (a > 0) {
+				out[o] = Math.round(r / a);
+				out[o + 1] = Math.round(g / a);
+				out[o + 2] = Math.round(b / a);
+			}
+			out[o + 3] = Math.round(a);
+		}
+	}
+	return { width, height, data: out };
+}
+
+/**
+ * Size that fits within a box while keeping the aspect ratio, never larger than the image
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+	const scale = Math.min(1, maxDimension / Math.max(width, height));
+	return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// ============================================================================
+// Orientation
+// ============================================================================
+
+/**
+ * Rotate or mirror an image into its upright position
+ *
+ * @param image - Image as stored
+ * @param orientation - EXIF orientation (1-8; 1 is upright)
+ */
+export function applyOrientation(image: RasterImage, orientation: number): RasterImage {
+	if (orientation < 2 || orientation > 8) {
+		return image;
+	}
+
+	const { width, height, data } = image;
+	// Orientations 5-8 swap width and height
+	const transposed = orientation >= 5;
+	const outWidth = transposed ? height : width;
+	const outHeight = transposed ? width : height;
+	const out = new Uint8Array(data.length);
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let tx: number;
+			let ty: number;
+			switch (orientation) {
+				case 2:
+					[tx, ty] = [width - 1 - x, y];
+					break;
+				case 3:
+					[tx, ty] = [width - 1 - x, height - 1 - y];
+					break;
+				case 4:
+					[tx, ty] = [x, height - 1 - y];
+					break;
+				case 5:
+					[tx, ty] = [y, x];
+					break;
+				case 6:
+					[tx, ty] = [height - 1 - y, x];
+					break;
+				case 7:
+					[tx, ty] = [height - 1 - y, width - 1 - x];
+					break;
+				default:
+					[tx, ty] = [y, width - 1 - x];
+			}
+			const s = (y * width + x) * 4;
+			const o = (ty * outWidth + tx) * 4;
+			out[o] = data[s];
+			out[o + 1] = data[s + 1];
+			out[o + 2] = data[s + 2];
+			out[o + 3] = data[s + 3];
+		}
+	}
+	return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Whether every pixel is fully opaque
+ */
+export function isOpaque(image: RasterImage): boolean {
+	for (let i = 3; i < image.data.length; i += 4) {
+		if (image.data[i] !== 255) {
+			return false;
+		}
+	}
+	return true;
+}
@@ -0,0 +1,146 @@
+/**
+ * Image Sniffing
+ * Detect image types and dimensions from file headers
+ */
+
+// ============================================================================
+// Type Detection
+// ============================================================================
+
+function startsWith(data: Uint8Array, bytes: readonly number[], offset = 0): boolean {
+	return data.length >= offset + bytes.length && bytes.every((b, i) => data[offset + i] === b);
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+/** ISO base media brands of HEIF and AVIF images */
+const HEIF_BRANDS: Record<string, string> = {
+	avif: "image/avif",
+	avis: "image/avif",
+	heic: "image/heic",
+	heix: "image/heic",
+	hevc: "image/heic",
+	heim: "image/heic",
+	heis: "image/heic",
+	mif1: "image/heif",
+	msf1: "image/heif",
+};
+
+/**
+ * Detect the image type from the leading bytes of the data
+ *
+ * Recognizes PNG, JPEG, GIF, WebP, BMP, TIFF, HEIC/HEIF and AVIF.
+ *
+ * @returns The MIME type, or undefined if the data is not a recognized image
+ */
+export function sniffImageType(data: Uint8Array): string | undefined {
+	if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return "image/png";
+	}
+	if (startsWith(data, [0xff, 0xd8, 0xff])) {
+		return "image/jpeg";
+	}
+	if (ascii(data, 0, 6) === "GIF87a" || ascii(data, 0, 6) === "GIF89a") {
+		return "image/gif";
+	}
+	if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 4) === "WEBP") {
+		return "image/webp";
+	}
+	if (ascii(data, 0, 2) === "BM" && data.length >= 26) {
+		return "image/bmp";
+	}
+	if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) {
+		return "image/tiff";
+	}
+	if (ascii(data, 4, 4) === "ftyp") {
+		return HEIF_BRANDS[ascii(data, 8, 4)];
+	}
+	return undefined;
+}
+
+// ============================================================================
+// Dimensions
+// ============================================================================
+
+/**
+ * Image dimensions in pixels
+ */
+export interface ImageSize {
+	width: number;
+	height: number;
+}
+
+function readUint16BE(data: Uint8Array, offset: number): number {
+	return (data[offset] << 8) | data[offset + 1];
+}
+
+function readUint32BE(data: Uint8Array, offset: number): number {
+	return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function readUint16LE(data: Uint8Array, offset: number): number {
+	return data[offset] | (data[offset + 1] << 8);
+}
+
+function readUint24LE(data: Uint8Array, offset: number): number {
+	return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+}
+
+function jpegSize(data: Uint8Array): ImageSize | undefined {
+	let offset = 2;
+	while (offset + 4 <= data.length) {
+		if (data[offset] !== 0xff) {
+			return undefined;
+		}
+		const marker = data[offset + 1];
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		// SOFn markers, except DHT (C4), JPG (C8) and DAC (CC)
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			return offset + 9 <= data.length
+				? { height: readUint16BE(data, offset + 5), width: readUint16BE(data, offset + 7) }
+				: undefined;
+		}
+		offset += 2 + readUint16BE(data, offset + 2);
+	}
+	return undefined;
+}
+
+function webpSize(data: Uint8Array): ImageSize | undefined {
+	const chunk = ascii(data, 12, 4);
+	if (chunk === "VP8 " && data.length >= 30) {
+		return { width: readUint16LE(data, 26) & 0x3fff, height: readUint16LE(data, 28) & 0x3fff };
+	}
+	if (chunk === "VP8L" && data.length >= 25) {
+		const bits = data[21] | (data[22] << 8) | (data[23] << 16) | (data[24] << 24);
+		return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+	}
+	if (chunk === "VP8X" && data.length >= 30) {
+		return { width: readUint24LE(data, 24) + 1, height: readUint24LE(data, 27) + 1 };
+	}
+	return undefined;
+}
+
+/**
+ * Read the dimensions of a PNG, JPEG, GIF or WebP image from its header
+ *
+ * @returns The size, or undefined for other types and truncated headers
+ */
+export function readImageSize(data: Uint8Array): ImageSize | undefined {
+	switch (sniffImageType(data)) {
+		case "image/png":
+			return data.length >= 24 ? { width: readUint32BE(data, 16), height: readUint32BE(data, 20) } : undefined;
+		case "image/jpeg":
+			return jpegSize(data);
+		case "image/gif":
+			return data.length >= 10 ? { width: readUint16LE(data, 6), height: readUint16LE(data, 8) } : undefined;
+		case "image/webp":
+			return webpSize(data);
+		default:
+			return undefined;
+	}
+}
@@ -5,8 +5,17 @@
 // Tool conversion
 export * from "./toolConverter";
 
+// Tool schema profiles
+export * from "./schemaProfile";
+
+// Image sniffing, codecs and downscaling
+export * from "./image";
+
 // Token counting
-export { estimateTokens, estimateUnknownTokens } from "./tokenCounter";
+export { estimateTokens, estimateUnknownTokens, type TokenEstimateOptions } from "./tokenCounter";
+
+// Tokenizers (heuristic, BPE vocabularies, per-family registry)
+export * from "./tokenizer";
 
 // Format utilities (type guards, message conversion, streaming)
 export * from "./format";
@@ -0,0 +1,247 @@
+import { describe, it, expect } from "vitest";
+import { applySchemaProfile, applySchemaProfileToTools } from "./schemaProfile";
+
+const schemaWithRefs = {
+	$schema: "https://json-schema.org/draft/2020-12/schema",
+	type: "object",
+	properties: {
+		item: { $ref: "#/$defs/Item" },
+	},
+	required: ["item"],
+	$defs: {
+		Item: {
+			type: "object",
+			title: "Item",
+			properties: { name: { type: "string" } },
+		},
+	},
+};
+
+describe("applySchemaProfile", () => {
+	it("should leave schemas unchanged with the passthrough profile", () => {
+		const result = applySchemaProfile(schemaWithRefs, "passthrough");
+
+		expect(result.schema).toEqual(schemaWithRefs);
+		expect(result.dropped).toEqual([]);
+	});
+
+	it("should inline $ref pointers and drop $defs", () => {
+		const result = applySchemaProfile(schemaWithRefs, "gemini");
+
+		expect(result.schema).toEqual({
+			type: "object",
+			properties: {
+				item: { type: "object", title: "Item", properties: { name: { type: "string" } } },
+			},
+			required: ["item"],
+		});
+		expect(result.dropped).toEqual([]);
+	});
+
+	it("should drop recursive references and report them", () => {
+		const schema = {
+			type: "object",
+			properties: { tree: { $ref: "#/$defs/Node" } },
+			$defs: {
+				Node: { type: "object", properties: { children: { type: "array", items: { $ref: "#/$defs/Node" } } } },
+			},
+		};
+
+		const result = applySchemaProfile(schema, "compat");
+
+		expect(result.schema.properties).toEqual({
+			tree: { type: "object", properties: { children: { type: "array", items: {} } } },
+		});
+		expect(result.dropped).toEqual([
+			{
+				path: "/properties/tree/properties/children/items",
+				keyword: "$ref",
+				reason: "recursive reference #/$defs/Node",
+			},
+		]);
+	});
+
+	it("should merge allOf branches", () => {
+		const schema = {
+			allOf: [
+				{ type: "object", properties: { a: { type: "string" } }, required: ["a"] },
+				{ properties: { b: { type: "number" } }, required: ["b"] },
+			],
+		};
+
+		const result = applySchemaProfile(schema, "compat");
+
+		expect(result.schema).toEqual({
+			type: "object",
+			properties: { a: { type: "string" }, b: { type: "number" } },
+			required: ["a", "b"],
+		});
+	});
+
+	describe("openai-strict", () => {
+		it("should close objects and make optional properties nullable", () => {
+			const schema = {
+				type: "object",
+				properties: {
+					path: { type: "string", minLength: 1 },
+					limit: { type: "integer" },
+					mode: { enum: ["read", "write"] },
+				},
+				required: ["path"],
+				additionalProperties: true,
+			};
+
+			const result = applySchemaProfile(schema, "openai-strict");
+
+			expect(result.schema).toEqual({
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					limit: { type: ["integer", "null"] },
+					mode: { anyOf: [{ enum: ["read", "write"] }, { type: "null" }] },
+				},
+				required: ["path", "limit", "mode"],
+				additionalProperties: false,
+			});
+			expect(result.dropped.map((d) => [d.path, d.keyword])).toEqual([
+				["/properties/path", "minLength"],
+				["", "additionalProperties"],
+			]);
+		});
+
+		it("should add null to enums of optional properties", () => {
+			const schema = { type: "object", properties: { level: { type: "string", enum: ["low", "high"] } } };
+
+			const result = applySchemaProfile(schema, "openai-strict");
+
+			expect(result.schema.properties).toEqual({
+				level: { type: ["string", "null"], enum: ["low", "high", null] },
+			});
+		});
+	});
+
+	describe("gemini", () => {
+		it("should rewrite oneOf as anyOf and type arrays as nullable", () => {
+			const schema = {
+				type: "object",
+				properties: {
+					value: { oneOf: [{ type: "string" }, { type: "integer" }] },
+					note: { type: ["string", "null"] },
+				},
+			};
+
+			const result = applySchemaProfile(schema, "gemini");
+
+			expect(result.schema.properties).toEqual({
+				value: { anyOf: [{ type: "string" }, { type: "integer" }] },
+				note: { type: "string", nullable: true },
+			});
+			expect(result.dropped).toEqual([{ path: "/properties/value", keyword: "oneOf", reason: "rewritten as anyOf" }]);
+		});
+
+		it("should drop unsupported formats and non-string enums", () => {
+			const schema = {
+				type: "object",
+				properties: {
+					when: { type: "string", format: "date-time" },
+					url: { type: "string", format: "uri" },
+					size: { type: "integer", enum: [1, 2, 3] },
+				},
+			};
+
+			const result = applySchemaProfile(schema, "gemini");
+
+			expect(result.schema.properties).toEqual({
+				when: { type: "string", format: "date-time" },
+				url: { type: "string" },
+				size: { type: "integer" },
+			});
+			expect(result.dropped.map((d) => [d.path, d.keyword])).toEqual([
+				["/properties/url", "format"],
+				["/properties/size", "enum"],
+			]);
+		});
+	});
+
+	describe("compat", () => {
+		it("should flatten unions to one branch, preferring string enums", () => {
+			const schema = {
+				type: "object",
+				properties: {
+					mode: { anyOf: [{ type: "boolean" }, { type: "string", enum: ["fast", "slow"] }] },
+					count: { anyOf: [{ type: "integer" }, { type: "null" }], description: "How many" },
+				},
+			};
+
+			const result = applySchemaProfile(schema, "compat");
+
+			expect(result.schema.properties).toEqual({
+				mode: { type: "string", enum: ["fast", "slow"] },
+				count: { type: "integer", description: "How many" },
+			});
+			expect(result.dropped).toEqual([
+				{ path: "/properties/mode", keyword: "anyOf", reason: "kept 1 of 2 alternatives" },
+			]);
+		});
+
+		it("should drop format and report unsupported keywords", () => {
+			const schema = {
+				type: "object",
+				properties: { email: { type: "string", format: "email" } },
+				additionalProperties: false,
+			};
+
+			const result = applySchemaProfile(schema, "compat");
+
+			expect(result.schema).toEqual({ type: "object", properties: { email: { type: "string" } } });
+			expect(result.dropped.map((d) => [d.path, d.keyword])).toEqual([
+				["", "additionalProperties"],
+				["/properties/email", "format"],
+			]);
+		});
+	});
+
+	it("should accept a custom profile", () => {
+		const result = applySchemaProfile(
+			{ type: "object", properties: { id: { type: "string", format: "uuid" } } },
+			{ keywords: ["type", "properties"] }
+		);
+
+		expect(result.schema).toEqual({ type: "object", properties: { id: { type: "string" } } });
+	});
+
+	it("should reject unknown profile names", () => {
+		expect(() => applySchemaProfile({}, "unknown" as never)).toThrow("Unknown schema profile: unknown");
+	});
+});
+
+describe("applySchemaProfileToTools", () => {
+	it("should rewrite each tool schema and tag dropped constraints with the tool name", () => {
+		const tools = [
+			{ name: "fetch", description: "Fetch a URL", inputSchema: { type: "object", properties: {}, minProperties: 1 } },
+			{ name: "noop" },
+		];
+
+		const result = applySchemaProfileToTools(tools, "compat");
+
+		expect(result.tools).toEqual([
+			{ name: "fetch", description: "Fetch a URL", inputSchema: { type: "object", properties: {} } },
+			{ name: "noop", inputSchema: { type: "object", properties: {} } },
+		]);
+		expect(result.dropped).toEqual([
+			{ tool: "fetch", path: "", keyword: "minProperties", reason: "keyword not supported" },
+		]);
+	});
+
+	it("should mark tools strict for strict profiles", () => {
+		const result = applySchemaProfileToTools([{ name: "noop" }], "openai-strict");
+
+		expect(result.tools).toEqual([
+			{
+				name: "noop",
+				inputSchema: { type: "object", properties: {}, required: [], additionalProperties: false },
+				strict: true,
+			},
+		]);
+	});
+});
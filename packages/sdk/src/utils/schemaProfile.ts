@@ -0,0 +1,410 @@
+/**
+ * Schema Profiles
+ * Rewrite tool parameter schemas into the JSON Schema subset a backend accepts
+ */
+
+import type { SchemaProfile, SchemaProfileName } from "../core/types";
+import { GEMINI_FORMATS, GEMINI_SCHEMA_KEYWORDS } from "./toolConverter";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A schema constraint that a profile removed or relaxed
+ */
+export interface DroppedSchemaConstraint {
+	/** Tool whose schema held the constraint (set by applySchemaProfileToTools) */
+	tool?: string;
+	/** JSON pointer to the subschema, "" for the root */
+	path: string;
+	/** Keyword that was removed or relaxed */
+	keyword: string;
+	/** Why it was removed */
+	reason: string;
+}
+
+/**
+ * Result of applying a schema profile
+ */
+export interface SchemaProfileResult {
+	schema: Record<string, unknown>;
+	dropped: DroppedSchemaConstraint[];
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/** Keywords that only annotate a schema; removing them is not reported */
+const ANNOTATION_KEYWORDS = new Set([
+	"$schema",
+	"$id",
+	"$comment",
+	"$defs",
+	"definitions",
+	"title",
+	"examples",
+	"deprecated",
+	"readOnly",
+	"writeOnly",
+	"markdownDescription",
+]);
+
+/** Keywords supported by OpenAI structured outputs */
+const OPENAI_STRICT_KEYWORDS = [
+	"type",
+	"description",
+	"properties",
+	"required",
+	"additionalProperties",
+	"items",
+	"enum",
+	"const",
+	"anyOf",
+];
+
+/** Keywords understood by practically every OpenAI-compatible endpoint */
+const COMPAT_KEYWORDS = [
+	"type",
+	"description",
+	"properties",
+	"required",
+	"items",
+	"enum",
+	"default",
+	"minimum",
+	"maximum",
+	"minLength",
+	"maxLength",
+	"minItems",
+	"maxItems",
+	"pattern",
+];
+
+/**
+ * Built-in schema profiles, selected with ProviderConfig.schemaProfile
+ */
+export const SCHEMA_PROFILES: Readonly<Record<SchemaProfileName, SchemaProfile>> = {
+	passthrough: {},
+	"openai-strict": {
+		keywords: OPENAI_STRICT_KEYWORDS,
+		inlineRefs: true,
+		mergeAllOf: true,
+		oneOfAsAnyOf: true,
+		strict: true,
+	},
+	gemini: {
+		keywords: [...GEMINI_SCHEMA_KEYWORDS],
+		inlineRefs: true,
+		mergeAllOf: true,
+		oneOfAsAnyOf: true,
+		singleType: true,
+		stringEnumsOnly: true,
+		formats: GEMINI_FORMATS,
+	},
+	compat: {
+		keywords: COMPAT_KEYWORDS,
+		inlineRefs: true,
+		mergeAllOf: true,
+		flattenUnions: true,
+		singleType: true,
+		stringEnumsOnly: true,
+	},
+};
+
+/**
+ * Look up a profile by name, or return a custom profile as is
+ *
+ * @throws Error if the name is not a built-in profile
+ */
+export function resolveSchemaProfile(profile: SchemaProfileName | SchemaProfile): SchemaProfile {
+	if (typeof profile !== "string") {
+		return profile;
+	}
+	const resolved = SCHEMA_PROFILES[profile];
+	if (!resolved) {
+		throw new Error(`Unknown schema profile: ${profile}`);
+	}
+	return resolved;
+}
+
+// ============================================================================
+// Rewriting
+// ============================================================================
+
+interface RewriteContext {
+	profile: SchemaProfile;
+	root: Record<string, unknown>;
+	dropped: DroppedSchemaConstraint[];
+	/** References being inlined, to stop at recursive ones */
+	refStack: string[];
+}
+
+function isSchemaObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function escapePointer(segment: string): string {
+	return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Resolve a local reference such as "#/$defs/Item"
+ */
+function resolvePointer(root: Record<string, unknown>, ref: string): unknown {
+	if (!ref.startsWith("#")) {
+		return undefined;
+	}
+	let node: unknown = root;
+	for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+		if (!node || typeof node !== "object") {
+			return undefined;
+		}
+		const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+		node = (node as Record<string, unknown>)[key];
+	}
+	return node;
+}
+
+/**
+ * Replace a $ref with its target, keeping sibling keywords (no recursion guard)
+ */
+function dereference(schema: Record<string, unknown>, ctx: RewriteContext): Record<string, unknown> {
+	if (!ctx.profile.inlineRefs || typeof schema.$ref !== "string") {
+		return schema;
+	}
+	const target = resolvePointer(ctx.root, schema.$ref);
+	if (!isSchemaObject(target) || ctx.refStack.includes(schema.$ref)) {
+		return schema;
+	}
+	const rest = { ...schema };
+	delete rest.$ref;
+	return { ...target, ...rest };
+}
+
+/**
+ * Merge two schemas; keywords of the first win, properties and required are combined
+ */
+function mergeSchemas(base: Record<string, unknown>, extra: Record<string, unknown>): Record<string, unknown> {
+	const merged = { ...extra, ...base };
+	if (isSchemaObject(base.properties) || isSchemaObject(extra.properties)) {
+		merged.properties = { ...(extra.properties as object), ...(base.properties as object) };
+	}
+	if (Array.isArray(base.required) || Array.isArray(extra.required)) {
+		merged.required = [...new Set([...((base.required as unknown[]) ?? []), ...((extra.required as unknown[]) ?? [])])];
+	}
+	return merged;
+}
+
+/**
+ * Pick the union branch to keep: a string enum if there is one, else the first
+ */
+function pickBranch(branches: Record<string, unknown>[]): Record<string, unknown> | undefined {
+	return branches.find((b) => b.type === "string" && Array.isArray(b.enum)) ?? branches[0];
+}
+
+/**
+ * Let a schema also accept null (OpenAI strict mode expresses optional properties this way)
+ */
+function makeNullable(schema: unknown): unknown {
+	if (!isSchemaObject(schema)) {
+		return schema;
+	}
+	const out = { ...schema };
+	if (typeof out.type === "string") {
+		out.type = out.type === "null" ? "null" : [out.type, "null"];
+	} else if (Array.isArray(out.type)) {
+		out.type = out.type.includes("null") ? out.type : [...out.type, "null"];
+	} else if (Array.isArray(out.anyOf)) {
+		const hasNull = out.anyOf.some((b) => isSchemaObject(b) && b.type === "null");
+		return hasNull ? out : { ...out, anyOf: [...out.anyOf, { type: "null" }] };
+	} else {
+		return { anyOf: [out, { type: "null" }] };
+	}
+	if (Array.isArray(out.enum) && !out.enum.includes(null)) {
+		out.enum = [...out.enum, null];
+	}
+	return out;
+}
+
+function rewrite(input: unknown, path: string, ctx: RewriteContext): unknown {
+	const { profile } = ctx;
+	if (!isSchemaObject(input)) {
+		// Restricted profiles cannot express boolean schemas
+		return profile.keywords ? {} : input;
+	}
+	const drop = (keyword: string, reason: string) => ctx.dropped.push({ path, keyword, reason });
+	const keeps = (keyword: string) => !profile.keywords || profile.keywords.includes(keyword);
+
+	let node: Record<string, unknown> = { ...input };
+
+	if (profile.inlineRefs && typeof node.$ref === "string") {
+		const ref = node.$ref;
+		const target = resolvePointer(ctx.root, ref);
+		delete node.$ref;
+		if (isSchemaObject(target) && !ctx.refStack.includes(ref)) {
+			ctx.refStack.push(ref);
+			const inlined = rewrite({ ...target, ...node }, path, ctx);
+			ctx.refStack.pop();
+			return inlined;
+		}
+		drop("$ref", isSchemaObject(target) ? `recursive reference ${ref}` : `unresolved reference ${ref}`);
+	}
+
+	if (profile.mergeAllOf && Array.isArray(node.allOf)) {
+		const branches = node.allOf.filter(isSchemaObject);
+		delete node.allOf;
+		for (const branch of branches) {
+			node = mergeSchemas(node, dereference(branch, ctx));
+		}
+	}
+
+	if (profile.oneOfAsAnyOf && Array.isArray(node.oneOf) && node.anyOf === undefined) {
+		node.anyOf = node.oneOf;
+		delete node.oneOf;
+		drop("oneOf", "rewritten as anyOf");
+	}
+
+	if (profile.flattenUnions) {
+		for (const key of ["anyOf", "oneOf"]) {
+			if (!Array.isArray(node[key])) {
+				continue;
+			}
+			const branches = (node[key] as unknown[]).filter(isSchemaObject).map((b) => dereference(b, ctx));
+			delete node[key];
+			const nonNull = branches.filter((b) => b.type !== "null");
+			const chosen = pickBranch(nonNull);
+			if (chosen) {
+				node = mergeSchemas(node, chosen);
+			}
+			if (nonNull.length > 1) {
+				drop(key, `kept 1 of ${nonNull.length} alternatives`);
+			}
+		}
+	}
+
+	if (profile.singleType && Array.isArray(node.type)) {
+		const types = node.type.filter((t): t is string => typeof t === "string");
+		const nonNull = types.filter((t) => t !== "null");
+		node.type = nonNull[0] ?? "string";
+		if (types.includes("null") && keeps("nullable")) {
+			node.nullable = true;
+		}
+		if (nonNull.length > 1) {
+			drop("type", `kept ${nonNull[0]} of ${nonNull.join(", ")}`);
+		}
+	}
+
+	if (node.const !== undefined && !keeps("const") && keeps("enum") && node.enum === undefined) {
+		node.enum = [node.const];
+		delete node.const;
+	}
+
+	if (profile.stringEnumsOnly && Array.isArray(node.enum) && !node.enum.every((e) => typeof e === "string")) {
+		delete node.enum;
+		drop("enum", "enum values must be strings");
+	}
+
+	if (profile.formats && typeof node.format === "string") {
+		const type = typeof node.type === "string" ? node.type : undefined;
+		if (!(type && profile.formats[type]?.includes(node.format))) {
+			drop("format", `unsupported format ${node.format}`);
+			delete node.format;
+		}
+	}
+
+	for (const key of Object.keys(node)) {
+		if (keeps(key) && !(profile.inlineRefs && (key === "$defs" || key === "definitions"))) {
+			continue;
+		}
+		if (!ANNOTATION_KEYWORDS.has(key)) {
+			drop(key, "keyword not supported");
+		}
+		delete node[key];
+	}
+
+	if (isSchemaObject(node.properties)) {
+		const props: Record<string, unknown> = {};
+		for (const [name, value] of Object.entries(node.properties)) {
+			props[name] = rewrite(value, `${path}/properties/${escapePointer(name)}`, ctx);
+		}
+		node.properties = props;
+	}
+	if (Array.isArray(node.items)) {
+		node.items = node.items.map((item, i) => rewrite(item, `${path}/items/${i}`, ctx));
+	} else if (node.items !== undefined) {
+		node.items = rewrite(node.items, `${path}/items`, ctx);
+	}
+	for (const key of ["anyOf", "oneOf", "allOf"]) {
+		if (Array.isArray(node[key])) {
+			node[key] = (node[key] as unknown[]).map((branch, i) => rewrite(branch, `${path}/${key}/${i}`, ctx));
+		}
+	}
+	if (isSchemaObject(node.additionalProperties)) {
+		node.additionalProperties = rewrite(node.additionalProperties, `${path}/additionalProperties`, ctx);
+	}
+
+	if (profile.strict && (node.type === "object" || isSchemaObject(node.properties))) {
+		const props = isSchemaObject(node.properties) ? node.properties : {};
+		const required = new Set(Array.isArray(node.required) ? node.required : []);
+		for (const name of Object.keys(props)) {
+			if (!required.has(name)) {
+				props[name] = makeNullable(props[name]);
+			}
+		}
+		node.properties = props;
+		node.required = Object.keys(props);
+		if (node.additionalProperties !== undefined && node.additionalProperties !== false) {
+			drop("additionalProperties", "objects are closed in strict mode");
+		}
+		node.additionalProperties = false;
+	}
+
+	return node;
+}
+
+/**
+ * Rewrite a JSON schema according to a schema profile
+ *
+ * Local `$ref` pointers are inlined (recursive ones are dropped), `allOf` is
+ * merged, and unions are rewritten or flattened as the profile requires.
+ * Every constraint that is removed or relaxed is listed in `dropped`;
+ * annotations such as `title` and `$schema` are removed silently.
+ *
+ * @param schema - Tool input schema
+ * @param profile - Built-in profile name or custom profile
+ * @returns The rewritten schema and the dropped constraints
+ */
+export function applySchemaProfile(schema: unknown, profile: SchemaProfileName | SchemaProfile): SchemaProfileResult {
+	const root = isSchemaObject(schema) ? schema : { type: "object", properties: {} };
+	const ctx: RewriteContext = { profile: resolveSchemaProfile(profile), root, dropped: [], refStack: [] };
+	return { schema: rewrite(root, "", ctx) as Record<string, unknown>, dropped: ctx.dropped };
+}
+
+/**
+ * Apply a schema profile to the input schemas of VS Code tools
+ *
+ * Tools keep their other fields. Strict profiles also mark each tool
+ * `strict: true`, which the OpenAI converters pass on.
+ *
+ * @param tools - Tools as given to the provider ({ name, description?, inputSchema })
+ * @param profile - Built-in profile name or custom profile
+ * @returns The rewritten tools and the dropped constraints, tagged with the tool name
+ */
+export function applySchemaProfileToTools(
+	tools: readonly unknown[],
+	profile: SchemaProfileName | SchemaProfile
+): { tools: unknown[]; dropped: DroppedSchemaConstraint[] } {
+	const resolved = resolveSchemaProfile(profile);
+	const dropped: DroppedSchemaConstraint[] = [];
+
+	const result = tools.map((tool) => {
+		const t = tool as { name: string; inputSchema?: unknown };
+		const applied = applySchemaProfile(t.inputSchema, resolved);
+		dropped.push(...applied.dropped.map((d) => ({ tool: t.name, ...d })));
+		return { ...t, inputSchema: applied.schema, ...(resolved.strict && { strict: true }) };
+	});
+
+	return { tools: result, dropped };
+}
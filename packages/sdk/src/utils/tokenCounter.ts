@@ -1,37 +1,54 @@
 /**
  * Token counting utilities
- * Simple token estimation without external dependencies
+ * Token estimation with a pluggable tokenizer, without external dependencies
  */
 
+import type { Tokenizer } from "./tokenizer/types";
+import { heuristicTokenizer } from "./tokenizer/heuristic";
+import type { TokenCalibrator } from "./tokenizer/calibration";
+
+/**
+ * Options for estimateMessagesTokens
+ */
+export interface TokenEstimateOptions {
+	/** Tokenizer for the text (the heuristic by default, see getTokenizer) */
+	tokenizer?: Tokenizer;
+	/** Memoizes message text counts and corrects the total with the factor learned for the model */
+	calibrator?: TokenCalibrator;
+	/** Model ID whose calibration factor applies */
+	model?: string;
+}
+
 /**
  * Estimate token count for a text string
- * Uses simple character-based approximation: 1 token ≈ 4 characters
+ * Uses the script-aware heuristic unless a tokenizer is given: about 4 characters
+ * per token for English, 1 token per character for Chinese and Japanese
  */
-export function estimateTokens(text: string): number {
+export function estimateTokens(text: string, tokenizer: Tokenizer = heuristicTokenizer): number {
 	if (!text || typeof text !== "string") {
 		return 0;
 	}
-	return Math.ceil(text.length / 4);
+	return tokenizer.countTokens(text);
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return value !== null && typeof value === "object";
 }
 
-function estimateRoleTokens(role: unknown): number {
+function estimateRoleTokens(role: unknown, tokenizer: Tokenizer): number {
 	if (typeof role === "string") {
-		return estimateTokens(role) + 1;
+		return estimateTokens(role, tokenizer) + 1;
 	}
 
 	// VS Code LanguageModelChatMessageRole enum values
 	if (typeof role === "number") {
 		switch (role) {
 			case 1: // User
-				return estimateTokens("user") + 1;
+				return estimateTokens("user", tokenizer) + 1;
 			case 2: // Assistant
-				return estimateTokens("assistant") + 1;
+				return estimateTokens("assistant", tokenizer) + 1;
 			case 3: // System
-				return estimateTokens("system") + 1;
+				return estimateTokens("system", tokenizer) + 1;
 			default:
 				return 1;
 		}
@@ -48,9 +65,9 @@ function safeStringify(value: unknown): string {
 	}
 }
 
-function estimatePartTokens(part: unknown): number {
+function estimatePartTokens(part: unknown, tokenizer: Tokenizer): number {
 	if (typeof part === "string") {
-		return estimateTokens(part);
+		return estimateTokens(part, tokenizer);
 	}
 
 	if (!isRecord(part)) {
@@ -59,42 +76,45 @@ function estimatePartTokens(part: unknown): number {
 
 	// VS Code text part: { value: string }
 	if (typeof part.value === "string") {
-		return estimateTokens(part.value);
+		return estimateTokens(part.value, tokenizer);
 	}
 
 	// OpenAI text part: { type: "text", text: string }
 	if (part.type === "text" && typeof part.text === "string") {
-		return estimateTokens(part.text);
+		return estimateTokens(part.text, tokenizer);
 	}
 
 	// Tool call part: include tool name and input payload
 	if (typeof part.name === "string" && "input" in part) {
-		return estimateTokens(part.name) + estimateTokens(safeStringify(part.input));
+		return estimateTokens(part.name, tokenizer) + estimateTokens(safeStringify(part.input), tokenizer);
 	}
 
 	// Tool result part: recurse into content
 	if ("content" in part) {
-		return estimateUnknownTokens(part.content);
+		return estimateUnknownTokens(part.content, tokenizer);
 	}
 
 	// Binary/data parts (e.g. image bytes) are intentionally not expanded
 	if ("mimeType" in part && "data" in part) {
-		return typeof part.mimeType === "string" ? estimateTokens(part.mimeType) : 0;
+		return typeof part.mimeType === "string" ? estimateTokens(part.mimeType, tokenizer) : 0;
 	}
 
-	return estimateTokens(safeStringify(part));
+	return estimateTokens(safeStringify(part), tokenizer);
 }
 
 /**
  * Estimate tokens for unknown input (string, VS Code message, message parts, arrays)
+ *
+ * @param input - Text, message, parts or arrays of them
+ * @param tokenizer - Tokenizer for the text (the heuristic by default, see getTokenizer)
  */
-export function estimateUnknownTokens(input: unknown): number {
+export function estimateUnknownTokens(input: unknown, tokenizer: Tokenizer = heuristicTokenizer): number {
 	if (typeof input === "string") {
-		return estimateTokens(input);
+		return estimateTokens(input, tokenizer);
 	}
 
 	if (Array.isArray(input)) {
-		return input.reduce((sum, item) => sum + estimatePartTokens(item), 0);
+		return input.reduce((sum, item) => sum + estimatePartTokens(item, tokenizer), 0);
 	}
 
 	if (!isRecord(input)) {
@@ -103,38 +123,42 @@ export function estimateUnknownTokens(input: unknown): number {
 
 	let total = 0;
 
-	total += estimateRoleTokens(input.role);
+	total += estimateRoleTokens(input.role, tokenizer);
 
 	if (typeof input.name === "string") {
-		total += estimateTokens(input.name) + 1;
+		total += estimateTokens(input.name, tokenizer) + 1;
 	}
 
 	if ("content" in input) {
-		total += estimateUnknownTokens(input.content);
+		total += estimateUnknownTokens(input.content, tokenizer);
 	}
 
 	if ("input" in input && !("content" in input)) {
-		total += estimateUnknownTokens(input.input);
+		total += estimateUnknownTokens(input.input, tokenizer);
 	}
 
 	if (total > 0) {
 		return total;
 	}
 
-	return estimateTokens(safeStringify(input));
+	return estimateTokens(safeStringify(input), tokenizer);
 }
 
 /**
  * Estimate token count for messages
- * Counts content, role, and name overhead
+ * Counts content, role, and name overhead; with a calibrator and model, the
+ * total is corrected by the factor learned from that model's real usage
  */
 export function estimateMessagesTokens(
 	messages: Array<{
 		role: string;
 		content: string | Array<{ type: string; text?: string }>;
 		name?: string;
-	}>
+	}>,
+	options: TokenEstimateOptions = {}
 ): number {
+	const { tokenizer = heuristicTokenizer, calibrator } = options;
+	const count = (text: string) => (calibrator ? calibrator.estimate(text, tokenizer) : estimateTokens(text, tokenizer));
 	let total = 0;
 
 	for (const message of messages) {
@@ -146,20 +170,20 @@ export function estimateMessagesTokens(
 						.map((p) => (p as { text: string }).text)
 						.join("");
 
-		total += estimateTokens(content);
+		total += count(content);
 
 		// Count role overhead
-		total += estimateTokens(message.role);
+		total += count(message.role);
 		total += 1; // Role delimiter
 
 		// Count name if present
 		if (message.name) {
-			total += estimateTokens(message.name);
+			total += count(message.name);
 			total += 1; // Name delimiter
 		}
 	}
 
-	return total;
+	return calibrator && options.model !== undefined ? Math.ceil(total * calibrator.factor(options.model)) : total;
 }
 
 /**
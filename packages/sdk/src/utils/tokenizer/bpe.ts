@@ -0,0 +1,233 @@
+/**
+ * BPE Tokenizer
+ * Byte-level BPE from a vocabulary file: tiktoken rank files (Kimi, GLM, Qwen,
+ * OpenAI) or Hugging Face tokenizer.json files with a byte-level BPE model
+ */
+
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import type { Tokenizer } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for BpeTokenizer and loadBpeTokenizer
+ */
+export interface BpeTokenizerOptions {
+	/**
+	 * Pre-tokenization pattern that splits text into pieces before merging (needs the `u` flag)
+	 * @default DEFAULT_BPE_PATTERN
+	 */
+	pattern?: RegExp | string;
+	/** Name for logs (defaults to the file name when loaded from a file) */
+	name?: string;
+}
+
+/**
+ * Tokenizer settings in ProviderConfig
+ */
+export interface TokenizerConfig extends BpeTokenizerOptions {
+	/** Vocabulary file shipped with the extension, relative to the extension root */
+	file: string;
+}
+
+// ============================================================================
+// Vocabulary Parsing
+// ============================================================================
+
+/**
+ * cl100k-style pre-tokenization pattern, which GLM, Qwen and Kimi vocabularies follow closely
+ */
+export const DEFAULT_BPE_PATTERN =
+	/(?:'s|'t|'re|'ve|'m|'ll|'d)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+/**
+ * Parse a tiktoken rank file: one base64 token and its rank per line
+ *
+ * @returns Ranks keyed by token bytes as a latin1 string
+ */
+export function parseTiktokenRanks(content: string): Map<string, number> {
+	const ranks = new Map<string, number>();
+	for (const line of content.split("\n")) {
+		const [token, rank] = line.trim().split(/\s+/);
+		if (token && rank) {
+			ranks.set(Buffer.from(token, "base64").toString("latin1"), Number(rank));
+		}
+	}
+	return ranks;
+}
+
+/**
+ * Map from the printable characters byte-level BPE vocabularies use back to bytes (GPT-2 bytes_to_unicode)
+ */
+function unicodeToBytes(): Map<string, number> {
+	const map = new Map<string, number>();
+	let extra = 0;
+	for (let byte = 0; byte < 256; byte++) {
+		const printable = (byte >= 0x21 && byte <= 0x7e) || (byte >= 0xa1 && byte <= 0xac) || byte >= 0xae;
+		map.set(String.fromCodePoint(printable ? byte : 256 + extra++), byte);
+	}
+	return map;
+}
+
+/**
+ * Parse a Hugging Face tokenizer.json with a byte-level BPE model
+ *
+ * Token IDs serve as ranks, which matches the merge order of byte-level vocabularies.
+ *
+ * @returns Ranks keyed by token bytes as a latin1 string
+ * @throws Error if the file does not describe a BPE model
+ */
+export function parseHuggingFaceTokenizer(json: unknown): Map<string, number> {
+	const model = (json as { model?: { type?: string; vocab?: Record<string, number> } } | null)?.model;
+	if (model?.type !== "BPE" || !model.vocab) {
+		throw new Error(`Unsupported tokenizer.json: expected a BPE model, got ${model?.type ?? "none"}`);
+	}
+
+	const bytes = unicodeToBytes();
+	const ranks = new Map<string, number>();
+	for (const [token, id] of Object.entries(model.vocab)) {
+		let key = "";
+		for (const char of token) {
+			const byte = bytes.get(char);
+			if (byte === undefined) {
+				// Not byte-level (e.g. a SentencePiece vocabulary); such tokens never match
+				key = "";
+				break;
+			}
+			key += String.fromCharCode(byte);
+		}
+		if (key) {
+			ranks.set(key, id);
+		}
+	}
+	return ranks;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+/** Pieces longer than this are merged in chunks to bound the quadratic merge loop */
+const MAX_PIECE_BYTES = 512;
+/** Cached piece encodings before the cache is cleared */
+const CACHE_SIZE = 20_000;
+
+/**
+ * Byte-level BPE tokenizer over a rank table
+ *
+ * Text is split with the pre-tokenization pattern, each piece is encoded as
+ * UTF-8 and adjacent parts are merged by lowest rank, as in tiktoken.
+ * Special tokens are not recognized; they are counted as plain text.
+ */
+export class BpeTokenizer implements Tokenizer {
+	readonly name: string;
+	private readonly pattern: RegExp;
+	private readonly cache = new Map<string, number[]>();
+
+	/**
+	 * @param ranks - Token bytes (as latin1 strings) to rank
+	 * @param options - Pattern and name
+	 */
+	constructor(
+		private readonly ranks: ReadonlyMap<string, number>,
+		options: BpeTokenizerOptions = {}
+	) {
+		const pattern = options.pattern ?? DEFAULT_BPE_PATTERN;
+		this.pattern = typeof pattern === "string" ? new RegExp(pattern, "gu") : new RegExp(pattern.source, pattern.flags);
+		if (!this.pattern.global) {
+			this.pattern = new RegExp(this.pattern.source, `${this.pattern.flags}g`);
+		}
+		this.name = options.name ?? "bpe";
+	}
+
+	/**
+	 * Encode text to token ranks
+	 */
+	encode(text: string): number[] {
+		const tokens: number[] = [];
+		for (const match of text.matchAll(this.pattern)) {
+			tokens.push(...this.encodePiece(match[0]));
+		}
+		return tokens;
+	}
+
+	countTokens(text: string): number {
+		if (!text) {
+			return 0;
+		}
+		let count = 0;
+		for (const match of text.matchAll(this.pattern)) {
+			count += this.encodePiece(match[0]).length;
+		}
+		return count;
+	}
+
+	private encodePiece(piece: string): number[] {
+		const cached = this.cache.get(piece);
+		if (cached) {
+			return cached;
+		}
+
+		const bytes = Buffer.from(piece, "utf8").toString("latin1");
+		const tokens: number[] = [];
+		for (let start = 0; start < bytes.length; start += MAX_PIECE_BYTES) {
+			tokens.push(...this.merge(bytes.slice(start, start + MAX_PIECE_BYTES)));
+		}
+
+		if (this.cache.size >= CACHE_SIZE) {
+			this.cache.clear();
+		}
+		this.cache.set(piece, tokens);
+		return tokens;
+	}
+
+	private merge(bytes: string): number[] {
+		const whole = this.ranks.get(bytes);
+		if (whole !== undefined) {
+			return [whole];
+		}
+
+		const parts = Array.from(bytes);
+		while (parts.length > 1) {
+			let best = Infinity;
+			let at = -1;
+			for (let i = 0; i < parts.length - 1; i++) {
+				const rank = this.ranks.get(parts[i] + parts[i + 1]);
+				if (rank !== undefined && rank < best) {
+					best = rank;
+					at = i;
+				}
+			}
+			if (at < 0) {
+				break;
+			}
+			parts.splice(at, 2, parts[at] + parts[at + 1]);
+		}
+		// Bytes missing from the vocabulary still count as one token each
+		return parts.map((part) => this.ranks.get(part) ?? -1);
+	}
+}
+
+/**
+ * Load a BPE tokenizer from a vocabulary file
+ *
+ * Files starting with `{` are read as Hugging Face tokenizer.json, anything
+ * else as a tiktoken rank file.
+ *
+ * @param filePath - Absolute path of the vocabulary file
+ * @param options - Pattern and name
+ * @throws Error if the file cannot be read or parsed
+ */
+export async function loadBpeTokenizer(filePath: string, options: BpeTokenizerOptions = {}): Promise<BpeTokenizer> {
+	const content = await readFile(filePath, "utf8");
+	const ranks = content.trimStart().startsWith("{")
+		? parseHuggingFaceTokenizer(JSON.parse(content))
+		: parseTiktokenRanks(content);
+	if (ranks.size === 0) {
+		throw new Error(`No tokens found in ${filePath}`);
+	}
+	return new BpeTokenizer(ranks, { ...options, name: options.name ?? basename(filePath) });
+}
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for token calibration
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { TokenCalibrator, type CalibrationStorage } from "./calibration";
+import { heuristicTokenizer } from "./heuristic";
+import { estimateMessagesTokens, estimateUnknownTokens } from "../tokenCounter";
+import type { Tokenizer } from "./types";
+
+/** In-memory storage that records updates */
+function createStorage(initial: Record<string, unknown> = {}): CalibrationStorage & { data: Record<string, unknown> } {
+	const data = { ...initial };
+	return {
+		data,
+		get: <T>(key: string) => data[key] as T | undefined,
+		update: vi.fn(async (key: string, value: unknown) => {
+			data[key] = value;
+		}),
+	};
+}
+
+/** A tokenizer that counts calls */
+function createCountingTokenizer(): Tokenizer & { calls: number } {
+	const tokenizer = {
+		name: "counting",
+		calls: 0,
+		countTokens(text: string) {
+			tokenizer.calls++;
+			return heuristicTokenizer.countTokens(text);
+		},
+	};
+	return tokenizer;
+}
+
+describe("TokenCalibrator", () => {
+	it("starts with a factor of 1", () => {
+		const calibrator = new TokenCalibrator();
+		expect(calibrator.factor("glm-4")).toBe(1);
+		expect(calibrator.entry("glm-4")).toBeUndefined();
+	});
+
+	it("averages the ratio of actual to estimated tokens", () => {
+		const calibrator = new TokenCalibrator();
+		calibrator.record("glm-4", 1000, 1500);
+		expect(calibrator.factor("glm-4")).toBe(1.5);
+		calibrator.record("glm-4", 1000, 1300);
+		expect(calibrator.factor("glm-4")).toBeCloseTo(1.4);
+		expect(calibrator.entry("glm-4")).toEqual({ factor: expect.closeTo(1.4), samples: 2 });
+		// Other models are unaffected
+		expect(calibrator.factor("kimi-k2")).toBe(1);
+	});
+
+	it("switches to a rolling average after the first samples", () => {
+		const calibrator = new TokenCalibrator(undefined, { smoothing: 0.5 });
+		calibrator.record("m", 1000, 1000);
+		calibrator.record("m", 1000, 2000);
+		calibrator.record("m", 1000, 2000);
+		// 1 -> 1.5 (plain average) -> 1.75 (weight 0.5)
+		expect(calibrator.factor("m")).toBeCloseTo(1.75);
+	});
+
+	it("ignores small prompts and clamps outliers", () => {
+		const calibrator = new TokenCalibrator();
+		calibrator.record("m", 10, 100);
+		calibrator.record("m", 1000, 0);
+		expect(calibrator.entry("m")).toBeUndefined();
+
+		calibrator.record("m", 1000, 100_000);
+		expect(calibrator.factor("m")).toBe(4);
+	});
+
+	it("persists factors and loads them in a new session", () => {
+		const storage = createStorage();
+		new TokenCalibrator(storage, { storageKey: "calibration" }).record("m", 1000, 1200);
+		expect(storage.update).toHaveBeenCalledWith("calibration", { m: { factor: 1.2, samples: 1 } });
+
+		const restored = new TokenCalibrator(storage, { storageKey: "calibration" });
+		expect(restored.factor("m")).toBe(1.2);
+
+		restored.reset("m");
+		expect(restored.factor("m")).toBe(1);
+		expect(storage.data.calibration).toEqual({});
+	});
+
+	it("keeps working when saving fails", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const storage = { get: () => undefined, update: () => Promise.reject(new Error("disk full")) };
+		const calibrator = new TokenCalibrator(storage);
+		calibrator.record("m", 1000, 1100);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(calibrator.factor("m")).toBe(1.1);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it("corrects counts by the model's factor", () => {
+		const calibrator = new TokenCalibrator();
+		calibrator.record("m", 1000, 1500);
+		const message = { role: 1, content: [{ value: "a".repeat(400) }] };
+		expect(calibrator.countTokens("m", message)).toBe(Math.ceil(estimateUnknownTokens(message) * 1.5));
+		expect(calibrator.countTokens("other", message)).toBe(estimateUnknownTokens(message));
+	});
+
+	it("memoizes estimates of messages and long texts", () => {
+		const calibrator = new TokenCalibrator();
+		const tokenizer = createCountingTokenizer();
+		const message = { role: 1, content: [{ value: "hello" }, { value: "world" }] };
+		const text = "lorem ipsum ".repeat(50);
+
+		const first = calibrator.estimate(message, tokenizer) + calibrator.estimate(text, tokenizer);
+		const calls = tokenizer.calls;
+		const second = calibrator.estimate(message, tokenizer) + calibrator.estimate(text, tokenizer);
+		expect(second).toBe(first);
+		expect(tokenizer.calls).toBe(calls);
+
+		// A different tokenizer is counted separately
+		expect(calibrator.estimate(message)).toBe(estimateUnknownTokens(message));
+	});
+
+	it("estimates prompts with their tool definitions", () => {
+		const calibrator = new TokenCalibrator();
+		const messages = [{ role: 1, content: [{ value: "hi" }] }];
+		const tools = [{ name: "search", description: "Search the web", inputSchema: {} }];
+		expect(calibrator.estimatePrompt(messages, tools)).toBeGreaterThan(calibrator.estimatePrompt(messages));
+	});
+});
+
+describe("estimateMessagesTokens with calibration", () => {
+	it("applies the model's factor to the total", () => {
+		const calibrator = new TokenCalibrator();
+		calibrator.record("m", 1000, 2000);
+		const messages = [{ role: "user", content: "hello world" }];
+		const base = estimateMessagesTokens(messages);
+		expect(estimateMessagesTokens(messages, { calibrator, model: "m" })).toBe(base * 2);
+		// Without a model only memoization applies
+		expect(estimateMessagesTokens(messages, { calibrator })).toBe(base);
+	});
+});
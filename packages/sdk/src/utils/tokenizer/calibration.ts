@@ -0,0 +1,216 @@
+/**
+ * Token Calibration
+ * Learn per-model correction factors for token estimates from the prompt
+ * tokens providers report, and memoize estimates of repeated messages
+ */
+
+import { estimateTokens, estimateUnknownTokens } from "../tokenCounter";
+import type { Tokenizer } from "./types";
+import { heuristicTokenizer } from "./heuristic";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Key-value storage for calibration data (vscode.ExtensionContext.globalState fits)
+ */
+export interface CalibrationStorage {
+	get<T>(key: string): T | undefined;
+	update(key: string, value: unknown): PromiseLike<void> | void;
+}
+
+/**
+ * Options for TokenCalibrator
+ */
+export interface TokenCalibratorOptions {
+	/**
+	 * Storage key for the factors
+	 * @default "tokenCalibration"
+	 */
+	storageKey?: string;
+	/**
+	 * Weight of each new sample once a model has enough samples (rolling average)
+	 * @default 0.2
+	 */
+	smoothing?: number;
+	/**
+	 * Prompts with fewer estimated tokens are ignored; fixed overhead dominates them
+	 * @default 64
+	 */
+	minEstimatedTokens?: number;
+}
+
+/**
+ * Learned correction for one model
+ */
+export interface CalibrationEntry {
+	/** Actual prompt tokens divided by estimated tokens, averaged */
+	factor: number;
+	/** Number of responses the factor was learned from */
+	samples: number;
+}
+
+// ============================================================================
+// Calibrator
+// ============================================================================
+
+/** Ratios outside this range are treated as bad samples and clamped */
+const MIN_RATIO = 0.25;
+const MAX_RATIO = 4;
+/** Strings shorter than this are cheaper to count again than to look up */
+const MIN_MEMO_LENGTH = 256;
+const MAX_MEMO_STRINGS = 1000;
+
+/**
+ * Learns how far token estimates are off per model and corrects them
+ *
+ * After each response, record() compares the prompt tokens the provider
+ * reported with the estimate for what was sent. The ratio is kept as a
+ * rolling average per model and persisted through the storage adapter;
+ * countTokens() multiplies estimates by it.
+ *
+ * Estimates of message objects are memoized by identity, so messages must
+ * not be changed after they were counted (VS Code request messages are not).
+ */
+export class TokenCalibrator {
+	private readonly entries: Record<string, CalibrationEntry>;
+	private readonly storageKey: string;
+	private readonly smoothing: number;
+	private readonly minEstimatedTokens: number;
+	private readonly objectMemo = new WeakMap<object, WeakMap<Tokenizer, number>>();
+	private readonly stringMemo = new WeakMap<Tokenizer, Map<string, number>>();
+
+	/**
+	 * @param storage - Where factors are kept between sessions (in memory only when omitted)
+	 * @param options - Storage key and averaging
+	 */
+	constructor(
+		private readonly storage?: CalibrationStorage,
+		options: TokenCalibratorOptions = {}
+	) {
+		this.storageKey = options.storageKey ?? "tokenCalibration";
+		this.smoothing = options.smoothing ?? 0.2;
+		this.minEstimatedTokens = options.minEstimatedTokens ?? 64;
+		this.entries = { ...storage?.get<Record<string, CalibrationEntry>>(this.storageKey) };
+	}
+
+	/**
+	 * Correction factor for a model (1 until a response has been recorded)
+	 */
+	factor(model: string): number {
+		return this.entries[model]?.factor ?? 1;
+	}
+
+	/**
+	 * Learned factor and sample count for a model
+	 */
+	entry(model: string): CalibrationEntry | undefined {
+		return this.entries[model] ? { ...this.entries[model] } : undefined;
+	}
+
+	/**
+	 * Add a sample: the estimated and the actual prompt tokens of one request
+	 *
+	 * @param model - Model ID
+	 * @param estimatedTokens - Uncorrected estimate of what was sent (see estimatePrompt)
+	 * @param actualTokens - Prompt tokens reported by the provider
+	 */
+	record(model: string, estimatedTokens: number, actualTokens: number): void {
+		if (estimatedTokens < this.minEstimatedTokens || !(actualTokens > 0)) {
+			return;
+		}
+		const ratio = Math.min(MAX_RATIO, Math.max(MIN_RATIO, actualTokens / estimatedTokens));
+		const previous = this.entries[model];
+		const samples = (previous?.samples ?? 0) + 1;
+		// Plain average for the first samples, then a rolling average
+		const weight = Math.max(this.smoothing, 1 / samples);
+		const factor = previous ? previous.factor + (ratio - previous.factor) * weight : ratio;
+		this.entries[model] = { factor, samples };
+		this.persist();
+	}
+
+	/**
+	 * Forget the factor of one model, or of all models
+	 */
+	reset(model?: string): void {
+		if (model === undefined) {
+			for (const key of Object.keys(this.entries)) {
+				delete this.entries[key];
+			}
+		} else {
+			delete this.entries[model];
+		}
+		this.persist();
+	}
+
+	/**
+	 * Uncorrected, memoized estimate for text or a message
+	 */
+	estimate(input: unknown, tokenizer: Tokenizer = heuristicTokenizer): number {
+		if (typeof input === "string") {
+			if (input.length < MIN_MEMO_LENGTH) {
+				return estimateTokens(input, tokenizer);
+			}
+			let memo = this.stringMemo.get(tokenizer);
+			if (!memo) {
+				memo = new Map();
+				this.stringMemo.set(tokenizer, memo);
+			}
+			let tokens = memo.get(input);
+			if (tokens === undefined) {
+				tokens = estimateTokens(input, tokenizer);
+				if (memo.size >= MAX_MEMO_STRINGS) {
+					// Drop the oldest entry
+					memo.delete(memo.keys().next().value!);
+				}
+				memo.set(input, tokens);
+			}
+			return tokens;
+		}
+
+		if (input === null || typeof input !== "object") {
+			return estimateUnknownTokens(input, tokenizer);
+		}
+		let memo = this.objectMemo.get(input);
+		let tokens = memo?.get(tokenizer);
+		if (tokens === undefined) {
+			tokens = estimateUnknownTokens(input, tokenizer);
+			if (!memo) {
+				memo = new WeakMap();
+				this.objectMemo.set(input, memo);
+			}
+			memo.set(tokenizer, tokens);
+		}
+		return tokens;
+	}
+
+	/**
+	 * Uncorrected estimate for a whole prompt: every message plus the tool definitions
+	 */
+	estimatePrompt(
+		messages: readonly unknown[],
+		tools?: readonly unknown[],
+		tokenizer: Tokenizer = heuristicTokenizer
+	): number {
+		const messageTokens = messages.reduce<number>((sum, message) => sum + this.estimate(message, tokenizer), 0);
+		return messageTokens + (tools && tools.length > 0 ? estimateTokens(JSON.stringify(tools), tokenizer) : 0);
+	}
+
+	/**
+	 * Corrected token count for text or a message, for provideTokenCount
+	 */
+	countTokens(model: string, input: unknown, tokenizer: Tokenizer = heuristicTokenizer): number {
+		return Math.ceil(this.estimate(input, tokenizer) * this.factor(model));
+	}
+
+	private persist(): void {
+		if (!this.storage) {
+			return;
+		}
+		const snapshot = { ...this.entries };
+		Promise.resolve(this.storage.update(this.storageKey, snapshot)).catch((error: unknown) => {
+			console.warn("Failed to save token calibration:", error);
+		});
+	}
+}
@@ -0,0 +1,108 @@
+/**
+ * Heuristic Tokenizer
+ * Estimate tokens from the scripts in a text, without a vocabulary
+ */
+
+import type { Tokenizer } from "./types";
+
+/**
+ * Tokens per character for each kind of character
+ */
+export interface HeuristicWeights {
+	/** ASCII letters, digits and sentence punctuation (English averages about four characters per token) */
+	word: number;
+	/** Brackets and operators, which BPE vocabularies often keep as separate tokens */
+	symbol: number;
+	/** Han, kana, Hangul and full-width forms: mostly one token per character, more in English-centric vocabularies */
+	cjk: number;
+	/** Other characters in the Basic Multilingual Plane (accented Latin, Cyrillic, Arabic, ...) */
+	other: number;
+	/** Characters outside the BMP, mostly emoji, which take several byte-level tokens */
+	astral: number;
+	/** Each whitespace character; runs longer than four (indentation) cost a quarter of this per extra character */
+	whitespace: number;
+}
+
+const DEFAULT_WEIGHTS: HeuristicWeights = {
+	word: 0.25,
+	symbol: 0.5,
+	cjk: 1,
+	other: 0.5,
+	astral: 1,
+	whitespace: 0.25,
+};
+
+function isCjk(code: number): boolean {
+	return (
+		(code >= 0x2e80 && code <= 0x9fff) || // Radicals, CJK symbols, kana, Bopomofo, Hangul Jamo, Han
+		(code >= 0xac00 && code <= 0xd7af) || // Hangul syllables
+		(code >= 0xf900 && code <= 0xfaff) || // Compatibility ideographs
+		(code >= 0xff00 && code <= 0xffef) || // Half-width and full-width forms
+		(code >= 0x20000 && code <= 0x3ffff) // Han extensions B and later
+	);
+}
+
+function isWhitespace(code: number): boolean {
+	return (
+		code === 0x20 ||
+		(code >= 0x09 && code <= 0x0d) ||
+		code === 0xa0 ||
+		code === 0x3000 ||
+		(code >= 0x2000 && code <= 0x200a)
+	);
+}
+
+/** ASCII characters that are mostly separate tokens in code */
+const SYMBOLS = new Set(Array.from("()[]{}<>=+*/\\|&^%$#@~`;", (c) => c.charCodeAt(0)));
+
+/**
+ * Create a tokenizer that estimates tokens from the kinds of characters in a text
+ *
+ * English prose comes out at about four characters per token, Chinese and
+ * Japanese at about one token per character, and code somewhat higher than
+ * prose because of its punctuation.
+ *
+ * @param weights - Overrides for the tokens per character
+ */
+export function createHeuristicTokenizer(weights: Partial<HeuristicWeights> = {}): Tokenizer {
+	const w: HeuristicWeights = { ...DEFAULT_WEIGHTS, ...weights };
+
+	return {
+		name: "heuristic",
+		countTokens(text: string): number {
+			let total = 0;
+			let run = 0;
+			const endRun = () => {
+				total += Math.min(run, 4) * w.whitespace + (Math.max(0, run - 4) * w.whitespace) / 4;
+				run = 0;
+			};
+
+			for (const char of text) {
+				const code = char.codePointAt(0)!;
+				if (isWhitespace(code)) {
+					run++;
+					continue;
+				}
+				if (run > 0) {
+					endRun();
+				}
+				if (code < 0x80) {
+					total += SYMBOLS.has(code) ? w.symbol : w.word;
+				} else if (isCjk(code)) {
+					total += w.cjk;
+				} else {
+					total += code > 0xffff ? w.astral : w.other;
+				}
+			}
+			if (run > 0) {
+				endRun();
+			}
+			return Math.ceil(total);
+		},
+	};
+}
+
+/**
+ * Default tokenizer: the script-aware heuristic with default weights
+ */
+export const heuristicTokenizer: Tokenizer = createHeuristicTokenizer();
@@ -0,0 +1,24 @@
+/**
+ * Tokenizer Index
+ * Pluggable token counting: a script-aware heuristic, vocabulary-based BPE and
+ * calibration from real usage
+ */
+
+export type { Tokenizer } from "./types";
+export { createHeuristicTokenizer, heuristicTokenizer, type HeuristicWeights } from "./heuristic";
+export {
+	BpeTokenizer,
+	loadBpeTokenizer,
+	parseTiktokenRanks,
+	parseHuggingFaceTokenizer,
+	DEFAULT_BPE_PATTERN,
+	type BpeTokenizerOptions,
+	type TokenizerConfig,
+} from "./bpe";
+export { registerTokenizer, unregisterTokenizer, getTokenizer } from "./registry";
+export {
+	TokenCalibrator,
+	type CalibrationStorage,
+	type CalibrationEntry,
+	type TokenCalibratorOptions,
+} from "./calibration";
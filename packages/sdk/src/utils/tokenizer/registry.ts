@@ -0,0 +1,30 @@
+/**
+ * Tokenizer Registry
+ * Tokenizers per model family, falling back to the heuristic
+ */
+
+import type { Tokenizer } from "./types";
+import { heuristicTokenizer } from "./heuristic";
+
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * Use a tokenizer for all models of a family (ProviderConfig.family)
+ */
+export function registerTokenizer(family: string, tokenizer: Tokenizer): void {
+	tokenizers.set(family, tokenizer);
+}
+
+/**
+ * Remove the tokenizer of a family; its models fall back to the heuristic
+ */
+export function unregisterTokenizer(family: string): void {
+	tokenizers.delete(family);
+}
+
+/**
+ * Tokenizer for a model family, or the heuristic tokenizer if none is registered
+ */
+export function getTokenizer(family?: string): Tokenizer {
+	return (family !== undefined && tokenizers.get(family)) || heuristicTokenizer;
+}
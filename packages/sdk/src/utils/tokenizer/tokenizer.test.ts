@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the heuristic and BPE tokenizers and the registry
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHeuristicTokenizer, heuristicTokenizer } from "./heuristic";
+import { BpeTokenizer, loadBpeTokenizer, parseHuggingFaceTokenizer, parseTiktokenRanks } from "./bpe";
+import { getTokenizer, registerTokenizer, unregisterTokenizer } from "./registry";
+import { estimateUnknownTokens } from "../tokenCounter";
+
+/** tiktoken rank file: all single bytes plus a few merges */
+function tiktokenFile(merges: string[]): string {
+	const tokens = [...Array.from({ length: 256 }, (_, b) => Buffer.from([b])), ...merges.map((m) => Buffer.from(m))];
+	return tokens.map((token, rank) => `${token.toString("base64")} ${rank}`).join("\n");
+}
+
+const MERGES = ["he", "ll", "hell", "hello", " w", "or", " wor", "ld", " world"];
+
+describe("heuristicTokenizer", () => {
+	it("counts English at about four characters per token", () => {
+		expect(heuristicTokenizer.countTokens("hello world")).toBe(3);
+		const text = "Lorem ipsum dolor sit amet ".repeat(100);
+		expect(heuristicTokenizer.countTokens(text)).toBe(Math.ceil(text.length / 4));
+	});
+
+	it("counts Chinese and Japanese at one token per character", () => {
+		expect(heuristicTokenizer.countTokens("你好，世界")).toBe(5);
+		expect(heuristicTokenizer.countTokens("こんにちは")).toBe(5);
+		// Mixed text: 4 Han characters plus 5 ASCII characters
+		expect(heuristicTokenizer.countTokens("智谱清言GLM-4")).toBe(6);
+	});
+
+	it("counts code punctuation higher than prose", () => {
+		const code = "if (a[i] !== b[i]) { return -1; }";
+		expect(heuristicTokenizer.countTokens(code)).toBeGreaterThan(Math.ceil(code.length / 4));
+	});
+
+	it("counts long whitespace runs at a reduced rate", () => {
+		// First four characters at 0.25, the other 32 at 0.0625
+		expect(heuristicTokenizer.countTokens(" ".repeat(36))).toBe(3);
+	});
+
+	it("accepts custom weights", () => {
+		const tokenizer = createHeuristicTokenizer({ cjk: 0.6 });
+		expect(tokenizer.countTokens("你好世界你好世界你好")).toBe(6);
+	});
+
+	it("is the default for estimateUnknownTokens", () => {
+		const message = { role: 1, content: [{ value: "请帮我重构这个函数" }] };
+		// role user(1) + delimiter(1) + 9 Han characters
+		expect(estimateUnknownTokens(message)).toBe(11);
+	});
+});
+
+describe("BpeTokenizer", () => {
+	it("merges tiktoken ranks by lowest rank", () => {
+		const tokenizer = new BpeTokenizer(parseTiktokenRanks(tiktokenFile(MERGES)));
+		expect(tokenizer.encode("hello world")).toEqual([259, 264]);
+		// he + ll -> hell, x stays a byte
+		expect(tokenizer.encode("hellx")).toEqual([258, 120]);
+		expect(tokenizer.countTokens("hello world hello")).toBe(4);
+	});
+
+	it("falls back to bytes for text without merges", () => {
+		const tokenizer = new BpeTokenizer(parseTiktokenRanks(tiktokenFile([])));
+		// Two Han characters, three UTF-8 bytes each
+		expect(tokenizer.countTokens("你好")).toBe(6);
+		expect(tokenizer.countTokens("")).toBe(0);
+	});
+
+	it("reads byte-level Hugging Face vocabularies", () => {
+		const vocab = { h: 0, i: 1, Ġ: 2, t: 3, e: 4, r: 5, hi: 6, Ġt: 7, he: 8, re: 9, Ġthe: 10, Ġthere: 11 };
+		const tokenizer = new BpeTokenizer(parseHuggingFaceTokenizer({ model: { type: "BPE", vocab } }));
+		expect(tokenizer.encode("hi there")).toEqual([6, 11]);
+	});
+
+	it("rejects tokenizer.json files without a BPE model", () => {
+		expect(() => parseHuggingFaceTokenizer({ model: { type: "Unigram" } })).toThrow("expected a BPE model");
+	});
+
+	it("uses a custom pre-tokenization pattern", () => {
+		// Spaces become pieces of their own, so the " w..." merges no longer apply
+		const tokenizer = new BpeTokenizer(parseTiktokenRanks(tiktokenFile(MERGES)), { pattern: "\\S+|\\s+" });
+		expect(tokenizer.encode("hello world")).toEqual([259, 32, 119, 261, 263]);
+	});
+});
+
+describe("loadBpeTokenizer", () => {
+	let dir: string | undefined;
+
+	afterEach(async () => {
+		if (dir) {
+			await rm(dir, { recursive: true, force: true });
+			dir = undefined;
+		}
+	});
+
+	it("loads tiktoken and tokenizer.json files", async () => {
+		dir = await mkdtemp(join(tmpdir(), "tokenizer-"));
+		const tiktoken = join(dir, "vocab.tiktoken");
+		const json = join(dir, "tokenizer.json");
+		await writeFile(tiktoken, tiktokenFile(MERGES));
+		await writeFile(json, JSON.stringify({ model: { type: "BPE", vocab: { a: 0, b: 1, ab: 2 } } }));
+
+		const fromTiktoken = await loadBpeTokenizer(tiktoken);
+		expect(fromTiktoken.name).toBe("vocab.tiktoken");
+		expect(fromTiktoken.countTokens("hello world")).toBe(2);
+
+		const fromJson = await loadBpeTokenizer(json, { name: "custom" });
+		expect(fromJson.name).toBe("custom");
+		expect(fromJson.encode("ab")).toEqual([2]);
+	});
+
+	it("rejects files without tokens", async () => {
+		dir = await mkdtemp(join(tmpdir(), "tokenizer-"));
+		const file = join(dir, "empty.tiktoken");
+		await writeFile(file, "\n");
+		await expect(loadBpeTokenizer(file)).rejects.toThrow("No tokens found");
+	});
+});
+
+describe("tokenizer registry", () => {
+	afterEach(() => unregisterTokenizer("test-family"));
+
+	it("returns the registered tokenizer of a family, else the heuristic", () => {
+		const tokenizer = { name: "fixed", countTokens: () => 7 };
+		expect(getTokenizer("test-family")).toBe(heuristicTokenizer);
+
+		registerTokenizer("test-family", tokenizer);
+		expect(getTokenizer("test-family")).toBe(tokenizer);
+		expect(getTokenizer("other")).toBe(heuristicTokenizer);
+		expect(estimateUnknownTokens("anything", getTokenizer("test-family"))).toBe(7);
+	});
+});
@@ -0,0 +1,13 @@
+/**
+ * Tokenizer Types
+ */
+
+/**
+ * Counts the tokens a model sees for a text
+ */
+export interface Tokenizer {
+	/** Name for logs, e.g. the vocabulary file */
+	readonly name: string;
+	/** Number of tokens in the text */
+	countTokens(text: string): number;
+}
@@ -1,5 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { sanitizeFunctionName, pruneUnknownSchemaKeywords, isIntegerLikePropertyName } from "./toolConverter";
+import {
+	sanitizeFunctionName,
+	pruneUnknownSchemaKeywords,
+	isIntegerLikePropertyName,
+	sanitizeGeminiSchema,
+	convertToolsToGemini,
+	convertToolsToOpenAI,
+	convertToolsToOpenAIResponses,
+	ToolNameMap,
+} from "./toolConverter";
 
 describe("sanitizeFunctionName", () => {
 	it('should return "tool" for non-string input', () => {
@@ -42,6 +51,80 @@ describe("sanitizeFunctionName", () => {
 	});
 });
 
+describe("ToolNameMap", () => {
+	it("should map sanitized names back to the original names", () => {
+		const map = new ToolNameMap();
+		expect(map.add("mcp.github.create_issue")).toBe("mcp_github_create_issue");
+		expect(map.toOriginalName("mcp_github_create_issue")).toBe("mcp.github.create_issue");
+		expect(map.toProviderName("mcp.github.create_issue")).toBe("mcp_github_create_issue");
+	});
+
+	it("should return the same name when a tool is added twice", () => {
+		const map = new ToolNameMap();
+		expect(map.add("fs.read")).toBe("fs_read");
+		expect(map.add("fs.read")).toBe("fs_read");
+	});
+
+	it("should give colliding names a numeric suffix", () => {
+		const map = new ToolNameMap();
+		expect(map.add("fs.read")).toBe("fs_read");
+		expect(map.add("fs_read")).toBe("fs_read_2");
+		expect(map.add("fs read")).toBe("fs_read_3");
+		expect(map.toOriginalName("fs_read")).toBe("fs.read");
+		expect(map.toOriginalName("fs_read_2")).toBe("fs_read");
+		expect(map.toOriginalName("fs_read_3")).toBe("fs read");
+	});
+
+	it("should keep suffixed names within 64 characters", () => {
+		const map = new ToolNameMap();
+		const first = map.add(`${"a".repeat(70)}.x`);
+		const second = map.add(`${"a".repeat(70)}.y`);
+		expect(first).toBe("a".repeat(64));
+		expect(second).toBe(`${"a".repeat(62)}_2`);
+		expect(map.toOriginalName(second)).toBe(`${"a".repeat(70)}.y`);
+	});
+
+	it("should return unknown names unchanged", () => {
+		expect(new ToolNameMap().toOriginalName("other")).toBe("other");
+	});
+
+	it("should be filled by the tool converters", () => {
+		const map = new ToolNameMap();
+		const tools = convertToolsToOpenAI(
+			[
+				{ name: "a.b", inputSchema: { type: "object" } },
+				{ name: "a_b", inputSchema: { type: "object" } },
+			],
+			map
+		);
+		expect(tools?.map((t) => t.function.name)).toEqual(["a_b", "a_b_2"]);
+		expect(map.toOriginalName("a_b_2")).toBe("a_b");
+	});
+});
+
+describe("convertToolsToOpenAIResponses", () => {
+	it("should send strict: false unless a tool was marked strict", () => {
+		const schema = { type: "object", properties: { path: { type: "string" } } };
+		const tools = convertToolsToOpenAIResponses([
+			{ name: "read_file", description: "Read a file", inputSchema: schema },
+			{ name: "noop" },
+			{ name: "strict_tool", inputSchema: schema, strict: true },
+		]);
+
+		expect(tools).toEqual([
+			{ type: "function", name: "read_file", description: "Read a file", parameters: schema, strict: false },
+			{
+				type: "function",
+				name: "noop",
+				description: undefined,
+				parameters: { type: "object", properties: {} },
+				strict: false,
+			},
+			{ type: "function", name: "strict_tool", description: undefined, parameters: schema, strict: true },
+		]);
+	});
+});
+
 describe("isIntegerLikePropertyName", () => {
 	it("should return true for id-like names", () => {
 		expect(isIntegerLikePropertyName("id")).toBe(true);
@@ -130,3 +213,73 @@ describe("pruneUnknownSchemaKeywords", () => {
 		});
 	});
 });
+
+describe("sanitizeGeminiSchema", () => {
+	it("should drop keywords outside Gemini's schema subset", () => {
+		const schema = {
+			$schema: "http://json-schema.org/draft-07/schema#",
+			type: "object",
+			additionalProperties: false,
+			properties: {
+				path: { type: "string", format: "uri", description: "File path" },
+				when: { type: "string", format: "date-time" },
+			},
+			required: ["path", "missing"],
+		};
+		expect(sanitizeGeminiSchema(schema)).toEqual({
+			type: "object",
+			properties: {
+				path: { type: "string", description: "File path" },
+				when: { type: "string", format: "date-time" },
+			},
+			required: ["path"],
+		});
+	});
+
+	it("should convert nullable type arrays and const values", () => {
+		expect(sanitizeGeminiSchema({ type: ["string", "null"] })).toEqual({ type: "string", nullable: true });
+		expect(sanitizeGeminiSchema({ const: "fixed" })).toEqual({ type: "string", enum: ["fixed"] });
+	});
+
+	it("should drop non-string enums", () => {
+		expect(sanitizeGeminiSchema({ type: "integer", enum: [1, 2, 3] })).toEqual({ type: "integer" });
+	});
+
+	it("should remove empty properties and sanitize array items", () => {
+		expect(sanitizeGeminiSchema({ type: "object", properties: {} })).toEqual({ type: "object" });
+		expect(sanitizeGeminiSchema({ type: "array", items: { $ref: "#/defs/x", type: "string" } })).toEqual({
+			type: "array",
+			items: { type: "string" },
+		});
+	});
+});
+
+describe("convertToolsToGemini", () => {
+	it("should return undefined for no tools", () => {
+		expect(convertToolsToGemini(undefined)).toBeUndefined();
+		expect(convertToolsToGemini([])).toBeUndefined();
+	});
+
+	it("should wrap tools in a single functionDeclarations entry", () => {
+		const tools = [
+			{
+				name: "read.file",
+				description: "Read a file",
+				inputSchema: { type: "object", properties: { p: { type: "string" } } },
+			},
+			{ name: "list_open_editors", description: "", inputSchema: { type: "object", properties: {} } },
+		];
+		expect(convertToolsToGemini(tools)).toEqual([
+			{
+				functionDeclarations: [
+					{
+						name: "read_file",
+						description: "Read a file",
+						parameters: { type: "object", properties: { p: { type: "string" } } },
+					},
+					{ name: "list_open_editors" },
+				],
+			},
+		]);
+	});
+});
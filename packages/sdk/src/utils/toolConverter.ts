@@ -5,6 +5,8 @@
 
 import type { ToolDefinition } from "../core/types";
 
+const MAX_FUNCTION_NAME_LENGTH = 64;
+
 /**
  * Sanitize function name to be valid identifier
  */
@@ -24,7 +26,54 @@ export function sanitizeFunctionName(name: unknown): string {
 	sanitized = sanitized.replace(/_+/g, "_");
 
 	// Limit length
-	return sanitized.slice(0, 64);
+	return sanitized.slice(0, MAX_FUNCTION_NAME_LENGTH);
+}
+
+/**
+ * Two-way mapping between VS Code tool names and the sanitized names sent to a provider
+ *
+ * Names that sanitize to the same identifier (e.g. "fs.read" and "fs_read") get a
+ * numeric suffix, so every tool keeps a unique provider name and the name the
+ * model calls can be mapped back to the tool VS Code knows.
+ */
+export class ToolNameMap {
+	private readonly providerNames = new Map<string, string>();
+	private readonly originalNames = new Map<string, string>();
+
+	/**
+	 * Register a tool and return its provider name (the same name on repeated calls)
+	 */
+	add(name: string): string {
+		const existing = this.providerNames.get(name);
+		if (existing !== undefined) {
+			return existing;
+		}
+
+		const base = sanitizeFunctionName(name);
+		let candidate = base;
+		for (let n = 2; this.originalNames.has(candidate); n++) {
+			const suffix = `_${n}`;
+			candidate = base.slice(0, MAX_FUNCTION_NAME_LENGTH - suffix.length) + suffix;
+		}
+
+		this.providerNames.set(name, candidate);
+		this.originalNames.set(candidate, name);
+		return candidate;
+	}
+
+	/**
+	 * Provider name for a VS Code tool name; unregistered names are only sanitized
+	 */
+	toProviderName(name: string): string {
+		return this.providerNames.get(name) ?? sanitizeFunctionName(name);
+	}
+
+	/**
+	 * VS Code tool name for a name returned by the model; unknown names are returned as-is
+	 */
+	toOriginalName(name: string): string {
+		return this.originalNames.get(name) ?? name;
+	}
 }
 
 /**
@@ -233,36 +282,73 @@ export function parseToolArguments<T = Record<string, unknown>>(args: string): T
  * Convert VS Code tools to OpenAI format
  * VS Code tool format: { name, description?, inputSchema }
  * OpenAI tool format: { type: "function", function: { name, description?, parameters } }
+ * A `strict: true` flag set by applySchemaProfileToTools is passed through.
  */
 export function convertToolsToOpenAI(
-	tools: readonly unknown[] | undefined
+	tools: readonly unknown[] | undefined,
+	nameMap: ToolNameMap = new ToolNameMap()
 ):
-	| { type: "function"; function: { name: string; description?: string; parameters?: Record<string, unknown> } }[]
+	| {
+			type: "function";
+			function: { name: string; description?: string; parameters?: Record<string, unknown>; strict?: boolean };
+	  }[]
 	| undefined {
 	if (!tools || tools.length === 0) {
 		return undefined;
 	}
 
 	return tools.map((tool: unknown) => {
-		const t = tool as { name: string; description?: string; inputSchema?: Record<string, unknown> };
+		const t = tool as { name: string; description?: string; inputSchema?: Record<string, unknown>; strict?: boolean };
 		return {
 			type: "function" as const,
 			function: {
-				name: sanitizeFunctionName(t.name),
+				name: nameMap.add(t.name),
 				description: t.description,
 				parameters: t.inputSchema,
+				...(t.strict && { strict: true }),
 			},
 		};
 	});
 }
 
+/**
+ * Convert VS Code tools to OpenAI Responses API format
+ * VS Code tool format: { name, description?, inputSchema }
+ * Responses tool format: { type: "function", name, description?, parameters, strict }
+ * The Responses API treats function tools as strict unless told otherwise, which
+ * rejects ordinary schemas with optional properties, so `strict` is always sent:
+ * true only for tools marked strict by applySchemaProfileToTools.
+ */
+export function convertToolsToOpenAIResponses(
+	tools: readonly unknown[] | undefined,
+	nameMap: ToolNameMap = new ToolNameMap()
+):
+	| { type: "function"; name: string; description?: string; parameters?: Record<string, unknown>; strict: boolean }[]
+	| undefined {
+	if (!tools || tools.length === 0) {
+		return undefined;
+	}
+
+	return tools.map((tool: unknown) => {
+		const t = tool as { name: string; description?: string; inputSchema?: Record<string, unknown>; strict?: boolean };
+		return {
+			type: "function" as const,
+			name: nameMap.add(t.name),
+			description: t.description,
+			parameters: t.inputSchema || { type: "object", properties: {} },
+			strict: t.strict === true,
+		};
+	});
+}
+
 /**
  * Convert VS Code tools to Anthropic format
  * VS Code tool format: { name, description?, inputSchema }
  * Anthropic tool format: { name, description?, input_schema }
  */
 export function convertToolsToAnthropic(
-	tools: readonly unknown[] | undefined
+	tools: readonly unknown[] | undefined,
+	nameMap: ToolNameMap = new ToolNameMap()
 ): { name: string; description?: string; input_schema: Record<string, unknown> }[] | undefined {
 	if (!tools || tools.length === 0) {
 		return undefined;
@@ -271,7 +357,7 @@ export function convertToolsToAnthropic(
 	return tools.map((tool: unknown) => {
 		const t = tool as { name: string; description?: string; inputSchema?: Record<string, unknown> };
 		const result: { name: string; description?: string; input_schema: Record<string, unknown> } = {
-			name: sanitizeFunctionName(t.name),
+			name: nameMap.add(t.name),
 			input_schema: t.inputSchema || { type: "object", properties: {} },
 		};
 		// Only add description if it exists and is non-empty
@@ -282,6 +368,156 @@ export function convertToolsToAnthropic(
 	});
 }
 
+/**
+ * Keywords accepted by Gemini's OpenAPI schema subset
+ */
+export const GEMINI_SCHEMA_KEYWORDS: ReadonlySet<string> = new Set([
+	"type",
+	"format",
+	"title",
+	"description",
+	"nullable",
+	"enum",
+	"items",
+	"minItems",
+	"maxItems",
+	"properties",
+	"required",
+	"minLength",
+	"maxLength",
+	"pattern",
+	"minimum",
+	"maximum",
+	"anyOf",
+]);
+
+/**
+ * Formats Gemini accepts, per type
+ */
+export const GEMINI_FORMATS: Readonly<Record<string, readonly string[]>> = {
+	string: ["enum", "date-time"],
+	integer: ["int32", "int64"],
+	number: ["float", "double"],
+};
+
+/**
+ * Sanitize a JSON schema for Gemini function declarations
+ * - Drops keywords outside Gemini's OpenAPI subset ($ref, $schema, additionalProperties, oneOf, ...)
+ * - Converts type arrays like ["string", "null"] to a single type with nullable
+ * - Converts const to a single-value enum and drops non-string enums
+ * - Removes empty properties objects and required entries without a property
+ */
+export function sanitizeGeminiSchema(input: unknown): Record<string, unknown> {
+	if (!input || typeof input !== "object" || Array.isArray(input)) {
+		return { type: "object" };
+	}
+
+	const source = input as Record<string, unknown>;
+	const out: Record<string, unknown> = {};
+
+	for (const [k, v] of Object.entries(source)) {
+		if (GEMINI_SCHEMA_KEYWORDS.has(k)) {
+			out[k] = v;
+		}
+	}
+
+	if (Array.isArray(source.type)) {
+		const types = (source.type as unknown[]).filter((t): t is string => typeof t === "string");
+		const nonNull = types.filter((t) => t !== "null");
+		out.type = nonNull[0] ?? "string";
+		if (types.includes("null")) {
+			out.nullable = true;
+		}
+	}
+
+	if (source.const !== undefined && out.enum === undefined) {
+		out.enum = [source.const];
+	}
+
+	if (Array.isArray(out.enum)) {
+		if (out.enum.every((e) => typeof e === "string")) {
+			out.type = "string";
+		} else {
+			delete out.enum;
+		}
+	}
+
+	const type = out.type as string | undefined;
+	if (typeof out.format === "string" && !(type && GEMINI_FORMATS[type]?.includes(out.format))) {
+		delete out.format;
+	}
+
+	if (Array.isArray(out.anyOf)) {
+		out.anyOf = (out.anyOf as unknown[]).map((branch) => sanitizeGeminiSchema(branch));
+	}
+
+	if (out.items !== undefined) {
+		out.items = sanitizeGeminiSchema(out.items);
+	}
+
+	if (out.properties && typeof out.properties === "object") {
+		const props: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(out.properties as Record<string, unknown>)) {
+			props[key] = sanitizeGeminiSchema(value);
+		}
+		if (Object.keys(props).length > 0) {
+			out.properties = props;
+		} else {
+			delete out.properties;
+		}
+	}
+
+	if (Array.isArray(out.required)) {
+		const props = (out.properties as Record<string, unknown> | undefined) ?? {};
+		const required = (out.required as unknown[]).filter((r): r is string => typeof r === "string" && r in props);
+		if (required.length > 0) {
+			out.required = required;
+		} else {
+			delete out.required;
+		}
+	}
+
+	if (out.type === undefined && out.anyOf === undefined) {
+		out.type = out.properties ? "object" : "string";
+	}
+
+	return out;
+}
+
+/**
+ * Convert VS Code tools to Gemini format
+ * VS Code tool format: { name, description?, inputSchema }
+ * Gemini tool format: { functionDeclarations: [{ name, description?, parameters? }] }
+ */
+export function convertToolsToGemini(
+	tools: readonly unknown[] | undefined,
+	nameMap: ToolNameMap = new ToolNameMap()
+):
+	| { functionDeclarations: { name: string; description?: string; parameters?: Record<string, unknown> }[] }[]
+	| undefined {
+	if (!tools || tools.length === 0) {
+		return undefined;
+	}
+
+	const functionDeclarations = tools.map((tool: unknown) => {
+		const t = tool as { name: string; description?: string; inputSchema?: Record<string, unknown> };
+		const declaration: { name: string; description?: string; parameters?: Record<string, unknown> } = {
+			name: nameMap.add(t.name),
+		};
+		if (t.description && t.description.trim()) {
+			declaration.description = t.description;
+		}
+		// Gemini rejects object schemas without properties, so parameterless tools omit the schema
+		const parameters = sanitizeGeminiSchema(t.inputSchema);
+		if (parameters.type !== "object" || parameters.properties) {
+			declaration.parameters = parameters;
+		}
+		return declaration;
+	});
+
+	return [{ functionDeclarations }];
+}
+
 /**
  * Format tool arguments to string
  */
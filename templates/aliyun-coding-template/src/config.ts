@@ -22,6 +22,8 @@ export const PROVIDER_CONFIG: ProviderConfig = {
 	baseUrl: "https://coding.dashscope.aliyuncs.com/apps/anthropic/v1/messages",
 	apiKeySecret: "aliyun-coding-copilot.apiKey",
 	apiMode: "anthropic", // Anthropic-compatible API
+	// Cache the system prompt and tool definitions between requests
+	promptCaching: { system: true, tools: true },
 
 	// Capabilities
 	supportsTools: true,
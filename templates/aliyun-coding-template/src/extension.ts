@@ -16,12 +16,21 @@ import type {
 import {
 	type ModelConfig,
 	type VsCodeMessage,
+	type ChatResponseResult,
+	type TransportOptions,
+	ProviderError,
 	sendChatRequestWithProvider,
 	fetchModelsFromAPI,
-	estimateUnknownTokens,
+	getTokenizer,
+	loadBpeTokenizer,
+	registerTokenizer,
+	TokenCalibrator,
 } from "@all-in-copilot/sdk";
 import { PROVIDER_CONFIG, FALLBACK_MODELS, filterModels } from "./config";
 
+// Check if LanguageModelThinkingPart is available (proposed API)
+const hasThinkingPart = "LanguageModelThinkingPart" in vscode;
+
 /**
  * Extension Provider - Uses SDK helpers for all heavy lifting
  */
@@ -29,10 +38,15 @@ class ExtensionProvider implements LanguageModelChatProvider {
 	private secrets: vscode.SecretStorage;
 	private statusBar: vscode.StatusBarItem;
 	private modelCache = { models: null as ModelConfig[] | null, lastFetch: 0 };
+	/** Models that get tool calling through the prompt (PROVIDER_CONFIG.promptedTools) */
+	private promptedToolModels = new Set<string>();
 	private disposables: vscode.Disposable[] = [];
+	/** Corrects token estimates per model from the prompt tokens the API reports */
+	private calibrator: TokenCalibrator;
 
-	constructor(secrets: vscode.SecretStorage) {
+	constructor(secrets: vscode.SecretStorage, globalState: vscode.Memento) {
 		this.secrets = secrets;
+		this.calibrator = new TokenCalibrator(globalState, { storageKey: `${PROVIDER_CONFIG.id}.tokenCalibration` });
 
 		// Create status bar
 		this.statusBar = vscode.window.createStatusBarItem(PROVIDER_CONFIG.id, vscode.StatusBarAlignment.Right, 100);
@@ -50,6 +64,21 @@ class ExtensionProvider implements LanguageModelChatProvider {
 		this.disposables = [];
 	}
 
+	/**
+	 * Transport options from VS Code's proxy settings, overridden by PROVIDER_CONFIG.transport
+	 */
+	private getTransport(): TransportOptions {
+		const http = vscode.workspace.getConfiguration("http");
+		const noProxy = http.get<string[]>("noProxy", []);
+		return {
+			proxy: http.get<string>("proxy") || undefined,
+			// An empty list falls back to the NO_PROXY environment variable
+			noProxy: noProxy.length > 0 ? noProxy : undefined,
+			rejectUnauthorized: http.get<boolean>("proxyStrictSSL", true),
+			...PROVIDER_CONFIG.transport,
+		};
+	}
+
 	/**
 	 * Provide available models to VS Code
 	 */
@@ -66,7 +95,14 @@ class ExtensionProvider implements LanguageModelChatProvider {
 
 		if (PROVIDER_CONFIG.dynamicModels && apiKey) {
 			try {
-				models = await fetchModelsFromAPI(PROVIDER_CONFIG.baseUrl, apiKey, PROVIDER_CONFIG, this.modelCache);
+				models = await fetchModelsFromAPI(
+					PROVIDER_CONFIG.baseUrl,
+					apiKey,
+					PROVIDER_CONFIG,
+					this.modelCache,
+					undefined,
+					this.getTransport()
+				);
 			} catch (error) {
 				console.warn(`[${PROVIDER_CONFIG.name}] Failed to fetch models:`, error);
 				models = FALLBACK_MODELS;
@@ -76,6 +112,9 @@ class ExtensionProvider implements LanguageModelChatProvider {
 		}
 
 		models = filterModels(models);
+		this.promptedToolModels = new Set(
+			PROVIDER_CONFIG.promptedTools ? models.filter((m) => !m.supportsTools).map((m) => m.id) : []
+		);
 
 		return models.map((model) => ({
 			id: model.id,
@@ -88,7 +127,7 @@ class ExtensionProvider implements LanguageModelChatProvider {
 			tooltip: `${model.name} is contributed via the ${PROVIDER_CONFIG.name} provider.`, // 悬停提示
 			capabilities: {
 				imageInput: model.supportsVision,
-				toolCalling: model.supportsTools,
+				toolCalling: model.supportsTools || this.promptedToolModels.has(model.id),
 			},
 		}));
 	}
@@ -97,11 +136,11 @@ class ExtensionProvider implements LanguageModelChatProvider {
 	 * Estimate token count
 	 */
 	async provideTokenCount(
-		_model: LanguageModelChatInformation,
+		model: LanguageModelChatInformation,
 		text: string | LanguageModelChatRequestMessage,
 		_token: vscode.CancellationToken
 	): Promise<number> {
-		return estimateUnknownTokens(text);
+		return this.calibrator.countTokens(model.id, text, getTokenizer(model.family));
 	}
 
 	/**
@@ -124,12 +163,29 @@ class ExtensionProvider implements LanguageModelChatProvider {
 		token.onCancellationRequested(() => abortController.abort());
 
 		// Use SDK's sendChatRequestWithProvider for complete request/response handling
-		await sendChatRequestWithProvider(
+		const result = await sendChatRequestWithProvider(
 			{
 				baseUrl: PROVIDER_CONFIG.baseUrl,
 				apiKey,
 				apiMode: PROVIDER_CONFIG.apiMode,
 				headers: PROVIDER_CONFIG.headers,
+				retry: { maxAttempts: 3 },
+				promptCaching: PROVIDER_CONFIG.promptCaching,
+				modelOptions: options.modelOptions,
+				sampling: PROVIDER_CONFIG.sampling,
+				schemaProfile: PROVIDER_CONFIG.schemaProfile,
+				promptedTools: this.promptedToolModels.has(model.id),
+				thinkingTags: PROVIDER_CONFIG.thinkingTags,
+				streamUsage: PROVIDER_CONFIG.streamUsage,
+				middleware: PROVIDER_CONFIG.middleware,
+				transport: this.getTransport(),
+				streamTimeouts: PROVIDER_CONFIG.streamTimeouts,
+				vision: model.capabilities.imageInput === true,
+				imageLimits: PROVIDER_CONFIG.imageLimits,
+				contextWindow: { maxInputTokens: model.maxInputTokens, ...PROVIDER_CONFIG.contextWindow },
+				tokenizer: getTokenizer(model.family),
+				calibrator: this.calibrator,
+				toolMode: options.toolMode,
 			},
 			PROVIDER_CONFIG.name,
 			model.id,
@@ -143,9 +199,93 @@ class ExtensionProvider implements LanguageModelChatProvider {
 				onToolCall: (callId: string, name: string, args: object) => {
 					progress.report(new vscode.LanguageModelToolCallPart(callId, name, args));
 				},
+				onThinking: (text: string, signature?: string) => {
+					if (!hasThinkingPart) {
+						return;
+					}
+					// Use proposed LanguageModelThinkingPart API
+					const vscodeMod = vscode as unknown as {
+						LanguageModelThinkingPart: new (text: string, id?: string, metadata?: object) => LanguageModelResponsePart;
+					};
+					progress.report(
+						new vscodeMod.LanguageModelThinkingPart(text, undefined, signature ? { signature } : undefined)
+					);
+				},
+				onToolCallStart: (_callId: string, name: string) => {
+					this.statusBar.text = `$(sync~spin) ${PROVIDER_CONFIG.name}: calling ${name}…`;
+				},
+				onRetry: ({ attempt, maxAttempts, delayMs }) => {
+					const seconds = Math.ceil(delayMs / 1000);
+					this.statusBar.text = `$(sync~spin) ${PROVIDER_CONFIG.name}: retrying in ${seconds}s (${attempt}/${maxAttempts})`;
+				},
+				onInvalidToolCall: ({ name, error }) => {
+					console.warn(`[${PROVIDER_CONFIG.name}] Invalid arguments for tool ${name}: ${error}`);
+				},
+				onHistoryDiagnostics: (diagnostics) => {
+					console.warn(
+						`[${PROVIDER_CONFIG.name}] Repaired chat history: ${diagnostics.map((d) => d.message).join("; ")}`
+					);
+				},
+				onImageDiagnostics: (diagnostics) => {
+					console.warn(`[${PROVIDER_CONFIG.name}] ${diagnostics.map((d) => d.message).join("; ")}`);
+				},
+				onContextDiagnostics: (diagnostics) => {
+					console.warn(`[${PROVIDER_CONFIG.name}] ${diagnostics.map((d) => d.message).join("; ")}`);
+				},
 			},
 			abortController.signal
+		)
+			.catch((error: unknown) => {
+				// Only an invalid key warrants a new one; quota, rate limit and server errors do not
+				if (error instanceof ProviderError && error.status === 401) {
+					void this.promptReenterApiKey();
+				}
+				throw error;
+			})
+			.finally(() => {
+				// Restore the status bar after retries and tool calls
+				this.statusBar.text = `$(ai) ${PROVIDER_CONFIG.name}`;
+			});
+
+		this.reportUsage(result);
+	}
+
+	/**
+	 * Show token usage of the last response and warn about truncated output
+	 */
+	private reportUsage(result: ChatResponseResult): void {
+		if (result.usage) {
+			const { promptTokens, completionTokens, cachedTokens } = result.usage;
+			const cached = cachedTokens ? ` (${cachedTokens} cached)` : "";
+			this.statusBar.tooltip = `Last request: ${promptTokens} input${cached} / ${completionTokens} output tokens`;
+		}
+		if (result.stopReason === "max_tokens") {
+			console.warn(`[${PROVIDER_CONFIG.name}] Response truncated: reached max output tokens`);
+		}
+	}
+
+	/**
+	 * Offer to replace an API key the provider rejected
+	 */
+	private async promptReenterApiKey(): Promise<void> {
+		const selection = await vscode.window.showErrorMessage(
+			`${PROVIDER_CONFIG.name} rejected the API key (401 Unauthorized).`,
+			"Re-enter API Key"
 		);
+		if (selection !== "Re-enter API Key") {
+			return;
+		}
+
+		const apiKey = await vscode.window.showInputBox({
+			prompt: `Enter your ${PROVIDER_CONFIG.name} API Key`,
+			password: true,
+			placeHolder: "sk-...",
+			ignoreFocusOut: true,
+		});
+		if (apiKey) {
+			await this.secrets.store(PROVIDER_CONFIG.apiKeySecret, apiKey);
+			vscode.window.showInformationMessage(`${PROVIDER_CONFIG.name} API key saved securely`);
+		}
 	}
 
 	/**
@@ -187,10 +327,19 @@ class ExtensionProvider implements LanguageModelChatProvider {
 
 export function activate(context: vscode.ExtensionContext) {
 	// Create and register provider
-	const provider = new ExtensionProvider(context.secrets);
+	const provider = new ExtensionProvider(context.secrets, context.globalState);
 	const registration = vscode.lm.registerLanguageModelChatProvider(PROVIDER_CONFIG.id, provider);
 	context.subscriptions.push(registration);
 
+	// Count tokens with the provider's vocabulary once it is loaded; until then the heuristic is used
+	if (PROVIDER_CONFIG.tokenizer) {
+		loadBpeTokenizer(context.asAbsolutePath(PROVIDER_CONFIG.tokenizer.file), PROVIDER_CONFIG.tokenizer)
+			.then((tokenizer) => registerTokenizer(PROVIDER_CONFIG.family, tokenizer))
+			.catch((error: unknown) => {
+				console.warn(`[${PROVIDER_CONFIG.name}] Could not load tokenizer: ${error}`);
+			});
+	}
+
 	// Register provider disposal on deactivation
 	context.subscriptions.push({
 		dispose: () => provider.dispose(),
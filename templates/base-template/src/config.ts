@@ -19,11 +19,39 @@ export const PROVIDER_CONFIG: ProviderConfig = {
 	// API configuration
 	baseUrl: "https://api.example.com/v1/chat/completions", // API endpoint
 	apiKeySecret: "extension-name.provider.apiKey", // Secret storage key
-	apiMode: "openai", // API format: 'openai' | 'anthropic' | 'gemini' | 'ollama'
+	apiMode: "openai", // API format: 'openai' | 'openai-responses' | 'anthropic' | 'gemini' | 'ollama'
+	// promptCaching: { system: true, tools: true }, // Anthropic mode: cache system prompt and tools
 
 	// Capabilities
 	supportsTools: true, // Tool/function calling support
 	supportsVision: false, // Image/vision input support
+	// promptedTools: true, // Describe tools in the prompt for models with supportsTools: false
+	// thinkingTags: true, // Show <think>…</think> in the response text as reasoning
+	// streamUsage: false, // OpenAI mode: for servers that reject stream_options (no token usage is reported)
+	// schemaProfile: "compat", // Tool schema rewriting: 'passthrough' | 'openai-strict' | 'gemini' | 'compat'
+
+	// Sampling options callers may set through modelOptions, and defaults
+	// sampling: { allowed: ["temperature", "top_p"], defaults: { temperature: 0.7 } },
+
+	// Request hooks: add headers, log or rewrite request bodies, observe the stream
+	// middleware: [
+	// 	{
+	// 		beforeRequest: (body, headers) => {
+	// 			headers["X-Request-Source"] = "vscode";
+	// 		},
+	// 		onError: (error) => console.error("Request failed:", error.message),
+	// 	},
+	// ],
+	// Network: proxy and certificates default to VS Code's http.proxy settings
+	// transport: { caFile: "/etc/ssl/certs/corporate-ca.pem", connectTimeoutMs: 10000, timeoutMs: 300000 },
+	// Give up on responses that stall; pings keep slow models alive
+	// streamTimeouts: { firstTokenMs: 60000, idleMs: 30000, keepAlive: true },
+	// Images above these limits are downscaled (PNG/JPEG) or replaced by a placeholder
+	// imageLimits: { maxBytes: 4 * 1024 * 1024, maxDimension: 1568 },
+	// Long histories are trimmed to the model's maxInputTokens; cap single tool results
+	// contextWindow: { maxToolResultTokens: 8000 },
+	// Exact token counts from a vocabulary shipped in the extension (tiktoken or tokenizer.json)
+	// tokenizer: { file: "assets/tokenizer.tiktoken" },
 
 	// Token limits
 	defaultMaxOutputTokens: 4096,
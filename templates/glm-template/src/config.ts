@@ -32,6 +32,8 @@ export const PROVIDER_CONFIG: ProviderConfig = {
 	// Uncomment below and comment above to use GLM Coding Plan
 	baseUrl: "https://open.bigmodel.cn/api/anthropic/v1/messages",
 	apiMode: "anthropic",
+	// Cache the system prompt and tool definitions between requests
+	promptCaching: { system: true, tools: true },
 
 	// Capabilities
 	supportsTools: true,